@@ -4,8 +4,20 @@ import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import { errorHandler } from '@/middleware/errorHandler';
 import { authMiddleware } from '@/middleware/auth';
+import { trackProjectSession } from '@/middleware/sessions';
 import { getAIService } from '@/services/ai';
 import authRoutes from '@/routes/auth';
+import projectRoutes from '@/routes/projects';
+import apiKeyRoutes from '@/routes/apiKeys';
+import gitRoutes from '@/routes/git';
+import fileRoutes from '@/routes/files';
+import fixRoutes from '@/routes/fixes';
+import testRoutes from '@/routes/tests';
+import tddRoutes from '@/routes/tdd';
+import qualityRoutes from '@/routes/quality';
+import openApiRoutes from '@/routes/openapi';
+import analyticsRoutes from '@/routes/analytics';
+import userRoutes from '@/routes/users';
 
 const app = express();
 
@@ -95,8 +107,24 @@ app.get('/health/ai', async (req, res) => {
 // API routes
 app.use('/api/auth', authRoutes);
 
+// Account data export and deletion (authenticates itself so unverified users get through)
+app.use('/api/users', userRoutes);
+
+// Git smart HTTP (authenticates itself so git clients can send Basic credentials)
+app.use('/api/projects/:id/repository.git', gitRoutes);
+
 // Protected routes (require authentication)
 app.use('/api', authMiddleware);
+app.use('/api/projects/:id', trackProjectSession);
+app.use('/api/projects', projectRoutes);
+app.use('/api/projects/:id/files', fileRoutes);
+app.use('/api/projects/:id/tests', testRoutes);
+app.use('/api/projects/:id/tdd', tddRoutes);
+app.use('/api/projects/:id/quality', qualityRoutes);
+app.use('/api/projects/:id', fixRoutes);
+app.use('/api/projects/:id', openApiRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/analytics', analyticsRoutes);
 
 // Error handling middleware (must be last)
 app.use(errorHandler);
@@ -0,0 +1,47 @@
+export interface AnalyticsHashKey {
+  version: number;
+  secret: string;
+}
+
+export const DEFAULT_ANALYTICS_SECRET = 'default-salt-change-in-production';
+
+/**
+ * Versioned HMAC keys for anonymizing analytics, newest first. They are read from
+ * ANALYTICS_HASH_KEYS ("2:new-secret,1:old-secret"): new entries are hashed with the
+ * highest version, older versions are kept so a user's earlier entries can still be found.
+ * A lone ANALYTICS_SALT is version 1; without either, the development default is used.
+ */
+export const getAnalyticsHashKeys = (): AnalyticsHashKey[] => {
+  const configured = process.env.ANALYTICS_HASH_KEYS?.trim();
+  if (!configured) {
+    return [{ version: 1, secret: process.env.ANALYTICS_SALT || DEFAULT_ANALYTICS_SECRET }];
+  }
+
+  const keys = configured.split(',').map(entry => {
+    const separator = entry.indexOf(':');
+    const version = Number(entry.slice(0, separator).trim());
+    const secret = entry.slice(separator + 1).trim();
+    if (separator < 0 || !Number.isInteger(version) || version < 1 || !secret) {
+      throw new Error('ANALYTICS_HASH_KEYS entries must look like <version>:<secret>');
+    }
+    return { version, secret };
+  });
+
+  if (new Set(keys.map(key => key.version)).size !== keys.length) {
+    throw new Error('ANALYTICS_HASH_KEYS has duplicate versions');
+  }
+  return keys.sort((a, b) => b.version - a.version);
+};
+
+export const currentAnalyticsHashKey = (): AnalyticsHashKey => getAnalyticsHashKeys()[0];
+
+/**
+ * Refuse to run in production with malformed keys or the development default secret
+ */
+export const assertAnalyticsConfig = (environment: string | undefined = process.env.NODE_ENV): void => {
+  const keys = getAnalyticsHashKeys();
+
+  if (environment === 'production' && keys.some(key => key.secret === DEFAULT_ANALYTICS_SECRET)) {
+    throw new Error('ANALYTICS_HASH_KEYS must be set to a secret of your own in production');
+  }
+};
@@ -5,7 +5,8 @@ export const connectDatabase = async (): Promise<void> => {
     const mongoUri = process.env.MONGODB_URI || 'mongodb://localhost:27017/backendforge';
     
     await mongoose.connect(mongoUri, {
-      // Modern Mongoose doesn't need these options, but keeping for compatibility
+      // Command events time the queries sampled into analytics sessions
+      monitorCommands: true
     });
     
     console.log('✅ Connected to MongoDB');
@@ -0,0 +1,7 @@
+/**
+ * A positive number from the environment, or the fallback when it is unset or invalid
+ */
+export const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
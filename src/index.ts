@@ -1,6 +1,12 @@
+import http from 'http';
 import dotenv from 'dotenv';
+import mongoose from 'mongoose';
 import { connectDatabase } from '@/config/database';
+import { assertAnalyticsConfig } from '@/config/analytics';
 import { AIService } from '@/services/ai';
+import { initializeSocketServer } from '@/services/realtime/socket';
+import { getSessionTracker } from '@/services/analytics/sessions';
+import { getAccountDeletionService } from '@/services/privacy/deletion';
 import app from '@/app';
 
 // Load environment variables
@@ -11,6 +17,9 @@ const PORT = process.env.PORT || 3000;
 // Start server
 const startServer = async () => {
   try {
+    // Refuse to hash analytics with the development secret in production
+    assertAnalyticsConfig();
+
     // Connect to database
     await connectDatabase();
 
@@ -23,9 +32,20 @@ const startServer = async () => {
       console.warn('   AI features will be unavailable');
     }
 
-    app.listen(PORT, () => {
+    // Record an anonymized analytics entry per user session
+    getSessionTracker().start(mongoose.connection.getClient());
+
+    // Purge deleted accounts once their grace period is over
+    getAccountDeletionService().start();
+
+    // Attach Socket.IO for real-time generation progress
+    const server = http.createServer(app);
+    initializeSocketServer(server);
+
+    server.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
       console.log(`📊 Health check available at http://localhost:${PORT}/health`);
+      console.log(`🔌 Generation progress available on Socket.IO namespace /generation`);
     });
   } catch (error) {
     console.error('❌ Failed to start server:', error);
@@ -1,11 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { User } from '@/models/User';
+import { API_KEY_PREFIX, ApiKeyScope } from '@/models/ApiKey';
+import { apiKeyService } from '@/services/auth/apiKeys';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
     email: string;
+    // Set when the request was authenticated with a personal API key instead of a JWT
+    apiKey?: {
+      id: string;
+      scopes: ApiKeyScope[];
+    };
   };
 }
 
@@ -13,48 +20,91 @@ export interface TokenPayload {
   id: string;
   email: string;
   type: 'access' | 'refresh';
+  jti?: string;
+  family?: string;
   iat?: number;
   exp?: number;
 }
 
-export const authMiddleware = async (
+export interface AuthMiddlewareOptions {
+  // Let unverified users through even when REQUIRE_EMAIL_VERIFICATION is enabled
+  allowUnverified?: boolean;
+}
+
+export const createAuthMiddleware = (options: AuthMiddlewareOptions = {}) => async (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
-    const token = req.header('Authorization')?.replace('Bearer ', '');
+    const token = req.header('Authorization')?.replace('Bearer ', '') || req.header('X-API-Key');
     
     if (!token) {
       res.status(401).json({ error: 'Access denied. No token provided.' });
       return;
     }
-    
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      console.error('JWT_SECRET not configured');
-      res.status(500).json({ error: 'Server configuration error' });
-      return;
-    }
-    
-    const decoded = jwt.verify(token, jwtSecret) as TokenPayload;
-    
-    // Ensure this is an access token
-    if (decoded.type !== 'access') {
-      res.status(401).json({ error: 'Invalid token type' });
-      return;
+
+    let userId: string;
+    let apiKey: NonNullable<AuthenticatedRequest['user']>['apiKey'];
+
+    if (token.startsWith(API_KEY_PREFIX)) {
+      const key = await apiKeyService.authenticate(token);
+      if (!key) {
+        res.status(401).json({
+          error: 'Invalid, expired or revoked API key',
+          code: 'INVALID_API_KEY'
+        });
+        return;
+      }
+
+      userId = key.userId.toString();
+      apiKey = { id: key._id.toString(), scopes: key.scopes };
+    } else {
+      const jwtSecret = process.env.JWT_SECRET;
+      if (!jwtSecret) {
+        console.error('JWT_SECRET not configured');
+        res.status(500).json({ error: 'Server configuration error' });
+        return;
+      }
+      
+      const decoded = jwt.verify(token, jwtSecret) as TokenPayload;
+      
+      // Ensure this is an access token
+      if (decoded.type !== 'access') {
+        res.status(401).json({ error: 'Invalid token type' });
+        return;
+      }
+
+      userId = decoded.id;
     }
     
     // Verify user still exists
-    const user = await User.findById(decoded.id).select('-passwordHash');
+    const user = await User.findById(userId).select('-passwordHash');
     if (!user) {
       res.status(401).json({ error: 'Invalid token. User not found.' });
       return;
     }
+
+    if (user.deletedAt) {
+      res.status(401).json({
+        error: 'Account has been deleted',
+        code: 'ACCOUNT_DELETED'
+      });
+      return;
+    }
+
+    if (process.env.REQUIRE_EMAIL_VERIFICATION === 'true' && !options.allowUnverified && !user.emailVerified) {
+      res.status(403).json({
+        error: 'Email address not verified',
+        code: 'EMAIL_NOT_VERIFIED'
+      });
+      return;
+    }
     
     req.user = {
-      id: decoded.id,
-      email: decoded.email
+      id: userId,
+      email: user.email,
+      ...(apiKey && { apiKey })
     };
     
     next();
@@ -77,6 +127,47 @@ export const authMiddleware = async (
   }
 };
 
+export const authMiddleware = createAuthMiddleware();
+
+// For account routes an unverified user must still reach (logout, profile, resending verification)
+export const accountAuthMiddleware = createAuthMiddleware({ allowUnverified: true });
+
+/**
+ * Restrict a route to API keys holding the scope. JWT sessions have every scope.
+ */
+export const requireScope = (scope: ApiKeyScope) => (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.user?.apiKey && !req.user.apiKey.scopes.includes(scope)) {
+    res.status(403).json({
+      error: `API key is missing the ${scope} scope`,
+      code: 'INSUFFICIENT_SCOPE'
+    });
+    return;
+  }
+
+  next();
+};
+
+// Reject API keys on routes that must be driven by an interactive login
+export const requireSession = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.user?.apiKey) {
+    res.status(403).json({
+      error: 'This endpoint requires a logged-in session and cannot be used with an API key',
+      code: 'SESSION_REQUIRED'
+    });
+    return;
+  }
+
+  next();
+};
+
 export const generateAccessToken = (userId: string, email: string): string => {
   const jwtSecret = process.env.JWT_SECRET;
   if (!jwtSecret) {
@@ -90,23 +181,36 @@ export const generateAccessToken = (userId: string, email: string): string => {
   );
 };
 
-export const generateRefreshToken = (userId: string, email: string): string => {
+export interface RefreshTokenSession {
+  jti: string;
+  family: string;
+}
+
+export const generateRefreshToken = (userId: string, email: string, session?: RefreshTokenSession): string => {
   const jwtSecret = process.env.JWT_SECRET;
   if (!jwtSecret) {
     throw new Error('JWT_SECRET not configured');
   }
   
+  if (!session) {
+    return jwt.sign(
+      { id: userId, email, type: 'refresh' },
+      jwtSecret,
+      { expiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d' } as jwt.SignOptions
+    );
+  }
+
   return jwt.sign(
-    { id: userId, email, type: 'refresh' },
+    { id: userId, email, type: 'refresh', family: session.family },
     jwtSecret,
-    { expiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d' } as jwt.SignOptions
+    { expiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d', jwtid: session.jti } as jwt.SignOptions
   );
 };
 
-export const generateTokens = (userId: string, email: string) => {
+export const generateTokens = (userId: string, email: string, session?: RefreshTokenSession) => {
   return {
     accessToken: generateAccessToken(userId, email),
-    refreshToken: generateRefreshToken(userId, email)
+    refreshToken: generateRefreshToken(userId, email, session)
   };
 };
 
@@ -125,6 +229,21 @@ export const verifyRefreshToken = (token: string): TokenPayload => {
   return decoded;
 };
 
+export const verifyAccessToken = (token: string): TokenPayload => {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error('JWT_SECRET not configured');
+  }
+
+  const decoded = jwt.verify(token, jwtSecret) as TokenPayload;
+
+  if (decoded.type !== 'access') {
+    throw new Error('Invalid token type');
+  }
+
+  return decoded;
+};
+
 // Legacy function for backward compatibility
 export const generateToken = (userId: string, email: string): string => {
   return generateAccessToken(userId, email);
@@ -1,8 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
+import { StatusTransitionError } from '@/models/Project';
 
 export interface AppError extends Error {
   statusCode?: number;
   isOperational?: boolean;
+  code?: string | number;
 }
 
 export const errorHandler = (
@@ -13,6 +15,7 @@ export const errorHandler = (
 ): void => {
   let statusCode = error.statusCode || 500;
   let message = error.message || 'Internal Server Error';
+  let code: string | undefined;
   
   // Handle specific error types
   if (error.name === 'ValidationError') {
@@ -21,9 +24,12 @@ export const errorHandler = (
   } else if (error.name === 'CastError') {
     statusCode = 400;
     message = 'Invalid ID format';
-  } else if (error.name === 'MongoServerError' && (error as any).code === 11000) {
+  } else if (error.name === 'MongoServerError' && error.code === 11000) {
     statusCode = 409;
     message = 'Duplicate field value';
+  } else if (error instanceof StatusTransitionError) {
+    statusCode = 409;
+    code = error.code;
   }
   
   // Log error for debugging
@@ -38,6 +44,7 @@ export const errorHandler = (
   // Send error response
   res.status(statusCode).json({
     error: message,
+    ...(code && { code }),
     ...(process.env.NODE_ENV === 'development' && { stack: error.stack })
   });
 };
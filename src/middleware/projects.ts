@@ -0,0 +1,41 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { Project, IProject } from '@/models/Project';
+import { AuthenticatedRequest } from '@/middleware/auth';
+
+export interface LoadProjectOptions {
+  // Further route params that must be ObjectIds, with the name used in their error ("fileId": "file")
+  idParams?: Record<string, string>;
+  // Only load these fields
+  select?: string;
+}
+
+/**
+ * Load the requested project of the current user, answering 400/404 itself when it can't
+ */
+export const loadOwnedProject = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  { idParams = {}, select }: LoadProjectOptions = {}
+): Promise<IProject | null> => {
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(400).json({ error: 'Invalid project ID' });
+    return null;
+  }
+
+  for (const [param, name] of Object.entries(idParams)) {
+    if (req.params[param] !== undefined && !mongoose.isValidObjectId(req.params[param])) {
+      res.status(400).json({ error: `Invalid ${name} ID` });
+      return null;
+    }
+  }
+
+  const query = Project.findOne({ _id: req.params.id, userId: req.user?.id });
+  const project = await (select ? query.select(select) : query);
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return null;
+  }
+
+  return project;
+};
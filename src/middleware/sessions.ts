@@ -0,0 +1,22 @@
+import { Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { AuthenticatedRequest } from '@/middleware/auth';
+import { getSessionTracker } from '@/services/analytics/sessions';
+
+/**
+ * Count successful requests on a project towards its analytics session, with the
+ * client's IP and user agent and the time taken to respond.
+ * Mount on /api/projects/:id after authentication.
+ */
+export const trackProjectSession = (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+  // Read before the project routers take over req.params
+  const projectId = req.params.id;
+  const startedAt = Date.now();
+
+  res.on('finish', () => {
+    if (!req.user || res.statusCode >= 400 || !mongoose.isValidObjectId(projectId)) return;
+
+    getSessionTracker().touch(projectId, { ip: req.ip, userAgent: req.get('User-Agent') }, Date.now() - startedAt);
+  });
+  next();
+};
@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import crypto from 'crypto';
+
+export type AccountTokenPurpose = 'password_reset' | 'email_verification';
+
+export const ACCOUNT_TOKEN_PURPOSES: AccountTokenPurpose[] = ['password_reset', 'email_verification'];
+
+export interface IAccountToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  purpose: AccountTokenPurpose;
+  tokenHash: string; // sha256 of the token sent by email; the token itself is never stored
+  expiresAt: Date;
+  usedAt?: Date | null;
+  createdAt: Date;
+}
+
+const accountTokenSchema = new Schema<IAccountToken>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  purpose: {
+    type: String,
+    required: [true, 'Token purpose is required'],
+    enum: {
+      values: ACCOUNT_TOKEN_PURPOSES,
+      message: 'Token purpose must be one of: password_reset, email_verification'
+    }
+  },
+  tokenHash: {
+    type: String,
+    required: [true, 'Token hash is required'],
+    unique: true
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  },
+  usedAt: {
+    type: Date,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Define interface for static methods
+interface IAccountTokenModel extends mongoose.Model<IAccountToken> {
+  hashToken(token: string): string;
+}
+
+accountTokenSchema.statics.hashToken = function(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Remove tokens once they can no longer be redeemed
+accountTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const AccountToken = mongoose.model<IAccountToken, IAccountTokenModel>('AccountToken', accountTokenSchema);
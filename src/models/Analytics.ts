@@ -1,5 +1,14 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import crypto from 'crypto';
+import net from 'net';
+import {
+  AnalyticsHashKey,
+  DEFAULT_ANALYTICS_SECRET,
+  currentAnalyticsHashKey,
+  getAnalyticsHashKeys
+} from '@/config/analytics';
+
+export const PROJECT_TYPES = ['api', 'web-app', 'microservice', 'cli-tool', 'library', 'other'];
 
 export interface ITechStackUsed {
   language: string;
@@ -41,10 +50,11 @@ export interface IAnalytics extends Document {
   performanceMetrics: IPerformanceMetrics;
   sessionDuration: number; // in milliseconds
   timestamp: Date;
-  ipHash?: string; // Optional anonymized IP for geographic insights
+  ipHash?: string; // Optional anonymized IP network for geographic insights
+  hashKeyVersion?: number; // Key the hashes were made with; unset for legacy SHA-256 hashes
   userAgent?: string; // Browser/client information
   generateAnonymizedHash(userId: string): string;
-  anonymizeIP(ip: string): string;
+  anonymizeIP(ip: string): string | undefined;
 }
 
 const techStackUsedSchema = new Schema<ITechStackUsed>({
@@ -171,7 +181,7 @@ const analyticsSchema = new Schema<IAnalytics>({
     trim: true,
     lowercase: true,
     enum: {
-      values: ['api', 'web-app', 'microservice', 'cli-tool', 'library', 'other'],
+      values: PROJECT_TYPES,
       message: 'Project type must be one of: api, web-app, microservice, cli-tool, library, other'
     }
   },
@@ -205,6 +215,10 @@ const analyticsSchema = new Schema<IAnalytics>({
     type: String,
     trim: true
   },
+  hashKeyVersion: {
+    type: Number,
+    min: [1, 'Hash key version must be at least 1']
+  },
   userAgent: {
     type: String,
     trim: true,
@@ -212,16 +226,46 @@ const analyticsSchema = new Schema<IAnalytics>({
   }
 });
 
+// Keyed hash; user IDs and networks are hashed in separate domains so they can't be matched
+const keyedHash = (domain: string, value: string, key: AnalyticsHashKey = currentAnalyticsHashKey()): string =>
+  crypto.createHmac('sha256', key.secret).update(`${domain}:${value}`).digest('hex');
+
+/**
+ * The network an IP address belongs to: its /24 for IPv4 (IPv4-mapped IPv6 included)
+ * and its /48 for IPv6. Null for anything that is not an IP address.
+ */
+export const truncateIP = (ip: string): string | null => {
+  const address = ip.trim().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '').replace(/%.*$/, '');
+
+  switch (net.isIP(address)) {
+    case 4:
+      return `${address.split('.').slice(0, 3).join('.')}.0/24`;
+    case 6: {
+      const [head, tail] = address.split('::');
+      const headGroups = head ? head.split(':') : [];
+      const tailGroups = tail ? tail.split(':') : [];
+      // An embedded IPv4 address takes two groups
+      const width = (groups: string[]) => groups.reduce((sum, group) => sum + (group.includes('.') ? 2 : 1), 0);
+      const groups = tail === undefined
+        ? headGroups
+        : [...headGroups, ...Array(8 - width(headGroups) - width(tailGroups)).fill('0'), ...tailGroups];
+
+      return `${groups.slice(0, 3).map(group => parseInt(group, 16).toString(16)).join(':')}::/48`;
+    }
+    default:
+      return null;
+  }
+};
+
 // Generate anonymized hash for user ID
 analyticsSchema.methods.generateAnonymizedHash = function(userId: string): string {
-  const salt = process.env.ANALYTICS_SALT || 'default-salt-change-in-production';
-  return crypto.createHash('sha256').update(userId + salt).digest('hex');
+  return keyedHash('user', userId);
 };
 
-// Anonymize IP address by hashing it
-analyticsSchema.methods.anonymizeIP = function(ip: string): string {
-  const salt = process.env.ANALYTICS_SALT || 'default-salt-change-in-production';
-  return crypto.createHash('sha256').update(ip + salt).digest('hex');
+// Anonymize IP address by hashing its network, so single addresses can't be brute-forced
+analyticsSchema.methods.anonymizeIP = function(ip: string): string | undefined {
+  const network = truncateIP(ip);
+  return network ? keyedHash('network', network) : undefined;
 };
 
 // Pre-save middleware to ensure anonymization
@@ -257,6 +301,7 @@ interface IAnalyticsModel extends mongoose.Model<IAnalytics> {
     sessionDuration: number;
     userAgent?: string;
   }): IAnalytics;
+  userHashes(userId: string): string[];
 }
 
 // Static method to create analytics entry with proper anonymization
@@ -278,6 +323,7 @@ analyticsSchema.statics.createAnonymizedEntry = function(data: {
   if (data.ip) {
     analytics.ipHash = analytics.anonymizeIP(data.ip);
   }
+  analytics.hashKeyVersion = currentAnalyticsHashKey().version;
 
   // Set other fields
   analytics.projectType = data.projectType;
@@ -291,6 +337,15 @@ analyticsSchema.statics.createAnonymizedEntry = function(data: {
   return analytics;
 };
 
+// Every hash a user's entries may carry: one per retained key, plus the legacy unkeyed one
+analyticsSchema.statics.userHashes = function(userId: string): string[] {
+  const legacySalt = process.env.ANALYTICS_SALT || DEFAULT_ANALYTICS_SECRET;
+  return [
+    ...getAnalyticsHashKeys().map(key => keyedHash('user', userId, key)),
+    crypto.createHash('sha256').update(userId + legacySalt).digest('hex')
+  ];
+};
+
 // Indexes for efficient querying
 analyticsSchema.index({ timestamp: -1 });
 analyticsSchema.index({ projectType: 1, timestamp: -1 });
@@ -0,0 +1,97 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import crypto from 'crypto';
+
+export type ApiKeyScope = 'projects:read' | 'projects:write' | 'projects:generate' | 'analytics:read';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['projects:read', 'projects:write', 'projects:generate', 'analytics:read'];
+
+// Distinguishes API keys from JWTs in the Authorization header
+export const API_KEY_PREFIX = 'bfk_';
+
+export interface IApiKey extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  prefix: string; // first characters of the key, shown to identify it
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  usageCount: number;
+  lastUsedAt?: Date;
+  expiresAt?: Date | null;
+  revokedAt?: Date | null;
+  createdAt: Date;
+}
+
+const apiKeySchema = new Schema<IApiKey>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  name: {
+    type: String,
+    required: [true, 'API key name is required'],
+    trim: true,
+    maxlength: [100, 'API key name cannot exceed 100 characters']
+  },
+  prefix: {
+    type: String,
+    required: [true, 'Key prefix is required']
+  },
+  keyHash: {
+    type: String,
+    required: [true, 'Key hash is required'],
+    unique: true
+  },
+  scopes: {
+    type: [{
+      type: String,
+      enum: {
+        values: API_KEY_SCOPES,
+        message: 'Scope must be one of: projects:read, projects:write, projects:generate, analytics:read'
+      }
+    }],
+    validate: {
+      validator: (scopes: string[]) => scopes.length > 0,
+      message: 'At least one scope is required'
+    }
+  },
+  usageCount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Usage count cannot be negative']
+  },
+  lastUsedAt: {
+    type: Date
+  },
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Define interface for static methods
+interface IApiKeyModel extends mongoose.Model<IApiKey> {
+  hashKey(key: string): string;
+}
+
+apiKeySchema.statics.hashKey = function(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+};
+
+// Never expose the hash
+apiKeySchema.methods.toJSON = function() {
+  const apiKeyObject = this.toObject();
+  delete apiKeyObject.keyHash;
+  return apiKeyObject;
+};
+
+export const ApiKey = mongoose.model<IApiKey, IApiKeyModel>('ApiKey', apiKeySchema);
@@ -0,0 +1,81 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type FileChangeType = 'created' | 'updated' | 'renamed' | 'deleted' | 'restored';
+
+export interface IFileRevision extends Document {
+  projectId: mongoose.Types.ObjectId;
+  // _id of the file in project.generatedCode.files; stable across renames
+  fileId: mongoose.Types.ObjectId;
+  revision: number;
+  changeType: FileChangeType;
+  path: string;
+  previousPath?: string;
+  // File content after this change; empty for deletions
+  content: string;
+  // Unified diff against the previous revision
+  diff: string;
+  author: string;
+  createdAt: Date;
+}
+
+const fileRevisionSchema = new Schema<IFileRevision>({
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project',
+    required: [true, 'Project ID is required']
+  },
+  fileId: {
+    type: Schema.Types.ObjectId,
+    required: [true, 'File ID is required']
+  },
+  revision: {
+    type: Number,
+    required: [true, 'Revision number is required'],
+    min: [1, 'Revision numbers start at 1']
+  },
+  changeType: {
+    type: String,
+    enum: ['created', 'updated', 'renamed', 'deleted', 'restored'],
+    required: [true, 'Change type is required']
+  },
+  path: {
+    type: String,
+    required: [true, 'File path is required'],
+    trim: true
+  },
+  previousPath: {
+    type: String,
+    trim: true
+  },
+  content: {
+    type: String,
+    default: ''
+  },
+  diff: {
+    type: String,
+    default: ''
+  },
+  author: {
+    type: String,
+    required: [true, 'Revision author is required'],
+    trim: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Define interface for static methods
+interface IFileRevisionModel extends mongoose.Model<IFileRevision> {
+  findLatest(projectId: string, fileId: string): Promise<IFileRevision | null>;
+}
+
+fileRevisionSchema.statics.findLatest = function(projectId: string, fileId: string): Promise<IFileRevision | null> {
+  return this.findOne({ projectId, fileId }).sort({ revision: -1 });
+};
+
+// Indexes for efficient querying
+fileRevisionSchema.index({ projectId: 1, fileId: 1, revision: -1 }, { unique: true });
+
+export const FileRevision = mongoose.model<IFileRevision, IFileRevisionModel>('FileRevision', fileRevisionSchema);
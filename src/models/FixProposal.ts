@@ -0,0 +1,89 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type FixProposalStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface IFilePatch {
+  path: string;
+  changeType: 'created' | 'updated';
+  // Content the patch was computed against; empty for new files
+  before: string;
+  after: string;
+  diff: string;
+}
+
+export interface IFixProposal extends Document {
+  projectId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  issue: string;
+  explanation: string;
+  patches: IFilePatch[];
+  status: FixProposalStatus;
+  resolvedAt?: Date;
+  createdAt: Date;
+}
+
+const filePatchSchema = new Schema<IFilePatch>({
+  path: {
+    type: String,
+    required: [true, 'File path is required'],
+    trim: true
+  },
+  changeType: {
+    type: String,
+    enum: ['created', 'updated'],
+    required: [true, 'Change type is required']
+  },
+  before: {
+    type: String,
+    default: ''
+  },
+  after: {
+    type: String,
+    default: ''
+  },
+  diff: {
+    type: String,
+    default: ''
+  }
+}, { _id: false });
+
+const fixProposalSchema = new Schema<IFixProposal>({
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project',
+    required: [true, 'Project ID is required']
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  issue: {
+    type: String,
+    required: [true, 'Issue description is required'],
+    trim: true
+  },
+  explanation: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  patches: [filePatchSchema],
+  status: {
+    type: String,
+    enum: ['pending', 'accepted', 'rejected'],
+    default: 'pending'
+  },
+  resolvedAt: {
+    type: Date
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Indexes for efficient querying
+fixProposalSchema.index({ projectId: 1, createdAt: -1 });
+
+export const FixProposal = mongoose.model<IFixProposal>('FixProposal', fixProposalSchema);
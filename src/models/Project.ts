@@ -8,6 +8,8 @@ export interface ITechStack {
 }
 
 export interface ICodeFile {
+  // Assigned by Mongoose; file revisions refer to it
+  _id?: mongoose.Types.ObjectId;
   path: string;
   content: string;
   language: string;
@@ -28,6 +30,28 @@ export interface IDocumentationSection {
   lastUpdated: Date;
 }
 
+export interface IDataModelRequirement {
+  name: string;
+  fields: string[];
+  relationships: string[];
+}
+
+export interface IEndpointRequirement {
+  method: string;
+  path: string;
+  description: string;
+}
+
+// The parts of the description analysis that later documentation builds on
+export interface IRequirements {
+  dataModels: IDataModelRequirement[];
+  apiEndpoints: IEndpointRequirement[];
+  authentication: {
+    required: boolean;
+    type: string;
+  };
+}
+
 export interface IChangeHistory {
   timestamp: Date;
   changeType: 'created' | 'updated' | 'deleted';
@@ -35,11 +59,18 @@ export interface IChangeHistory {
   author: string;
 }
 
+export interface IGitCredentials {
+  username?: string;
+  // Encrypted with encryptSecret; never serialized
+  token: string;
+}
+
 export interface IGitIntegration {
   repoUrl?: string;
   branch?: string;
   lastCommit?: string;
   lastSyncAt?: Date;
+  credentials?: IGitCredentials;
 }
 
 export interface IQualityMetrics {
@@ -55,10 +86,84 @@ export interface IAnalytics {
   codeQuality: IQualityMetrics;
   linesOfCode: number;
   filesGenerated: number;
+  // Accepted AI fixes over the project's life; Analytics entries count those of their session
+  aiFixesUsed: number;
+  // Sandboxed test runs over the project's life; Analytics entries count those of their session
+  testRunsExecuted: number;
+}
+
+export type TestRunStatus = 'passed' | 'failed' | 'error';
+
+export interface ITestResult {
+  file: string;
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  duration: number; // in milliseconds
+  failureMessage?: string;
+}
+
+// Percentages 0-100 as reported by the coverage summary
+export interface ICoverageSummary {
+  lines: number;
+  statements: number;
+  functions: number;
+  branches: number;
+}
+
+export interface ITestRun {
+  status: TestRunStatus;
+  startedAt: Date;
+  finishedAt: Date;
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+  };
+  tests: ITestResult[];
+  coverage?: ICoverageSummary;
+  // Why the run could not complete, e.g. a failed install or a timeout
+  error?: string;
+  // Tail of the console output
+  output: string;
 }
 
 export type ProjectStatus = 'planning' | 'generating' | 'completed' | 'error' | 'paused';
 
+export const PROJECT_STATUSES: ProjectStatus[] = ['planning', 'generating', 'completed', 'error', 'paused'];
+
+// Allowed moves from each status; anything else is rejected on save
+export const STATUS_TRANSITIONS: Record<ProjectStatus, ProjectStatus[]> = {
+  'planning': ['generating', 'paused', 'error'],
+  'generating': ['completed', 'error', 'paused'],
+  'completed': ['generating', 'paused'],
+  'error': ['planning', 'generating', 'paused'],
+  'paused': ['planning', 'generating', 'completed', 'error']
+};
+
+export const canTransition = (from: ProjectStatus, to: ProjectStatus): boolean =>
+  from === to || STATUS_TRANSITIONS[from].includes(to);
+
+export class StatusTransitionError extends Error {
+  readonly code = 'INVALID_STATUS_TRANSITION';
+  readonly from: ProjectStatus;
+  readonly to: ProjectStatus;
+
+  constructor(from: ProjectStatus, to: ProjectStatus) {
+    super(`Cannot change project status from ${from} to ${to}`);
+    this.name = 'StatusTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export interface IStatusChange {
+  from: ProjectStatus | null;
+  to: ProjectStatus;
+  reason: string;
+  timestamp: Date;
+}
+
 export interface IProject extends Document {
   userId: mongoose.Types.ObjectId;
   name: string;
@@ -73,12 +178,18 @@ export interface IProject extends Document {
     history: IChangeHistory[];
     lastUpdated: Date;
   };
+  requirements?: IRequirements;
   gitIntegration: IGitIntegration;
   analytics: IAnalytics;
+  lastTestRun?: ITestRun;
+  // Set while a manual test run holds the project
+  testRunStartedAt: Date | null;
   status: ProjectStatus;
+  statusTimeline: IStatusChange[];
   createdAt: Date;
   updatedAt: Date;
   validateStatus(): boolean;
+  setStatus(status: ProjectStatus, reason: string): void;
   updateDocumentation(section: IDocumentationSection): Promise<void>;
   addChangeHistory(change: Omit<IChangeHistory, 'timestamp'>): void;
 }
@@ -170,6 +281,59 @@ const documentationSectionSchema = new Schema<IDocumentationSection>({
   }
 });
 
+const dataModelRequirementSchema = new Schema<IDataModelRequirement>({
+  name: {
+    type: String,
+    required: [true, 'Data model name is required'],
+    trim: true
+  },
+  fields: [{
+    type: String,
+    trim: true
+  }],
+  relationships: [{
+    type: String,
+    trim: true
+  }]
+}, { _id: false });
+
+const endpointRequirementSchema = new Schema<IEndpointRequirement>({
+  method: {
+    type: String,
+    required: [true, 'Endpoint method is required'],
+    trim: true
+  },
+  path: {
+    type: String,
+    required: [true, 'Endpoint path is required'],
+    trim: true
+  },
+  description: {
+    type: String,
+    default: ''
+  }
+}, { _id: false });
+
+const authenticationRequirementSchema = new Schema<IRequirements['authentication']>({
+  required: {
+    type: Boolean,
+    default: false
+  },
+  type: {
+    type: String,
+    default: ''
+  }
+}, { _id: false });
+
+const requirementsSchema = new Schema<IRequirements>({
+  dataModels: [dataModelRequirementSchema],
+  apiEndpoints: [endpointRequirementSchema],
+  authentication: {
+    type: authenticationRequirementSchema,
+    default: () => ({})
+  }
+}, { _id: false });
+
 const changeHistorySchema = new Schema<IChangeHistory>({
   timestamp: {
     type: Date,
@@ -192,11 +356,44 @@ const changeHistorySchema = new Schema<IChangeHistory>({
   }
 });
 
+const statusChangeSchema = new Schema<IStatusChange>({
+  from: {
+    type: String,
+    enum: [...PROJECT_STATUSES, null],
+    default: null
+  },
+  to: {
+    type: String,
+    enum: PROJECT_STATUSES,
+    required: [true, 'Target status is required']
+  },
+  reason: {
+    type: String,
+    required: [true, 'Status change reason is required'],
+    trim: true
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const gitCredentialsSchema = new Schema<IGitCredentials>({
+  username: {
+    type: String,
+    trim: true
+  },
+  token: {
+    type: String,
+    required: [true, 'Credential token is required']
+  }
+}, { _id: false });
+
 const gitIntegrationSchema = new Schema<IGitIntegration>({
   repoUrl: {
     type: String,
     trim: true,
-    match: [/^https?:\/\/.+/, 'Please enter a valid repository URL']
+    match: [/^(https?|file):\/\/.+/, 'Please enter a valid repository URL']
   },
   branch: {
     type: String,
@@ -209,6 +406,9 @@ const gitIntegrationSchema = new Schema<IGitIntegration>({
   },
   lastSyncAt: {
     type: Date
+  },
+  credentials: {
+    type: gitCredentialsSchema
   }
 });
 
@@ -262,9 +462,84 @@ const analyticsSchema = new Schema<IAnalytics>({
     type: Number,
     min: [0, 'Files generated cannot be negative'],
     default: 0
+  },
+  aiFixesUsed: {
+    type: Number,
+    min: [0, 'AI fixes used cannot be negative'],
+    default: 0
+  },
+  testRunsExecuted: {
+    type: Number,
+    min: [0, 'Test runs executed cannot be negative'],
+    default: 0
   }
 });
 
+const testResultSchema = new Schema<ITestResult>({
+  file: {
+    type: String,
+    required: [true, 'Test file is required'],
+    trim: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Test name is required']
+  },
+  status: {
+    type: String,
+    enum: ['passed', 'failed', 'skipped'],
+    required: [true, 'Test status is required']
+  },
+  duration: {
+    type: Number,
+    min: [0, 'Test duration cannot be negative'],
+    default: 0
+  },
+  failureMessage: {
+    type: String
+  }
+}, { _id: false });
+
+const coverageSummarySchema = new Schema<ICoverageSummary>({
+  lines: { type: Number, min: 0, max: 100, default: 0 },
+  statements: { type: Number, min: 0, max: 100, default: 0 },
+  functions: { type: Number, min: 0, max: 100, default: 0 },
+  branches: { type: Number, min: 0, max: 100, default: 0 }
+}, { _id: false });
+
+const testRunSchema = new Schema<ITestRun>({
+  status: {
+    type: String,
+    enum: ['passed', 'failed', 'error'],
+    required: [true, 'Test run status is required']
+  },
+  startedAt: {
+    type: Date,
+    required: [true, 'Test run start is required']
+  },
+  finishedAt: {
+    type: Date,
+    required: [true, 'Test run end is required']
+  },
+  summary: {
+    total: { type: Number, min: 0, default: 0 },
+    passed: { type: Number, min: 0, default: 0 },
+    failed: { type: Number, min: 0, default: 0 },
+    skipped: { type: Number, min: 0, default: 0 }
+  },
+  tests: [testResultSchema],
+  coverage: {
+    type: coverageSummarySchema
+  },
+  error: {
+    type: String
+  },
+  output: {
+    type: String,
+    default: ''
+  }
+}, { _id: false });
+
 const projectSchema = new Schema<IProject>({
   userId: {
     type: Schema.Types.ObjectId,
@@ -307,6 +582,9 @@ const projectSchema = new Schema<IProject>({
       default: Date.now
     }
   },
+  requirements: {
+    type: requirementsSchema
+  },
   gitIntegration: {
     type: gitIntegrationSchema,
     default: () => ({})
@@ -315,11 +593,19 @@ const projectSchema = new Schema<IProject>({
     type: analyticsSchema,
     default: () => ({})
   },
+  lastTestRun: {
+    type: testRunSchema
+  },
+  testRunStartedAt: {
+    type: Date,
+    default: null
+  },
   status: {
     type: String,
-    enum: ['planning', 'generating', 'completed', 'error', 'paused'],
+    enum: PROJECT_STATUSES,
     default: 'planning'
   },
+  statusTimeline: [statusChangeSchema],
   createdAt: {
     type: Date,
     default: Date.now
@@ -336,18 +622,82 @@ projectSchema.pre('save', function(next) {
   next();
 });
 
-// Validate project status transitions
+// Remember the persisted status so saves can check the transition
+projectSchema.post('init', function() {
+  this.$locals.persistedStatus = this.status;
+});
+
+// Enforce status transitions and record each change in the timeline. The update only
+// applies while the stored status is still the one checked, so a concurrent change wins
+projectSchema.pre('save', function(next) {
+  if (!this.isNew && !this.isModified('status')) {
+    next();
+    return;
+  }
+
+  const from = this.isNew ? null : (this.$locals.persistedStatus as ProjectStatus | undefined) ?? null;
+  if (from === this.status) {
+    next();
+    return;
+  }
+  if (from && !canTransition(from, this.status)) {
+    next(new StatusTransitionError(from, this.status));
+    return;
+  }
+  if (from) {
+    this.$where = { ...this.$where, status: from };
+  }
+
+  this.statusTimeline.push({
+    from,
+    to: this.status,
+    reason: (this.$locals.statusReason as string | undefined) || (this.isNew ? 'Project created' : 'Status updated'),
+    timestamp: new Date()
+  });
+
+  // Keep only the last 100 status changes
+  if (this.statusTimeline.length > 100) {
+    this.statusTimeline = this.statusTimeline.slice(-100);
+  }
+
+  next();
+});
+
+const clearStatusCondition = (project: IProject): void => {
+  if (project.$where) {
+    delete project.$where.status;
+  }
+};
+
+projectSchema.post('save', function() {
+  clearStatusCondition(this);
+  this.$locals.persistedStatus = this.status;
+  delete this.$locals.statusReason;
+});
+
+// A status change that matched nothing lost to a concurrent one: report it from the stored status
+projectSchema.post('save', async function(error: Error, project: IProject, next: (error?: Error) => void) {
+  const expected = project.$where?.status as ProjectStatus | undefined;
+  clearStatusCondition(project);
+  if (error.name !== 'DocumentNotFoundError' || !expected) {
+    next(error);
+    return;
+  }
+
+  const current = await Project.findById(project._id).select('status');
+  next(current ? new StatusTransitionError(current.status, project.status) : error);
+});
+
+// Check the pending status change against the persisted status
 projectSchema.methods.validateStatus = function(): boolean {
-  const validTransitions: Record<ProjectStatus, ProjectStatus[]> = {
-    'planning': ['generating', 'paused', 'error'],
-    'generating': ['completed', 'error', 'paused'],
-    'completed': ['generating', 'paused'],
-    'error': ['planning', 'generating', 'paused'],
-    'paused': ['planning', 'generating', 'completed', 'error']
-  };
+  const from = this.$locals.persistedStatus as ProjectStatus | undefined;
+  return !from || this.isNew || canTransition(from, this.status);
+};
 
-  const currentStatus = this.status as ProjectStatus;
-  return validTransitions[currentStatus] !== undefined;
+// Change status with a reason for the timeline; the transition is checked on save
+projectSchema.methods.setStatus = function(status: ProjectStatus, reason: string): void {
+  this.status = status;
+  this.$locals.statusReason = reason;
 };
 
 // Update documentation and add to history
@@ -386,6 +736,15 @@ projectSchema.methods.addChangeHistory = function(change: Omit<IChangeHistory, '
   }
 };
 
+// Keep the encrypted git token out of API responses
+projectSchema.methods.toJSON = function() {
+  const projectObject = this.toObject();
+  if (projectObject.gitIntegration?.credentials) {
+    delete projectObject.gitIntegration.credentials.token;
+  }
+  return projectObject;
+};
+
 // Index for efficient queries
 projectSchema.index({ userId: 1, createdAt: -1 });
 projectSchema.index({ status: 1 });
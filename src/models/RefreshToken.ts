@@ -0,0 +1,56 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IRefreshToken extends Document {
+  jti: string;
+  userId: mongoose.Types.ObjectId;
+  family: string; // jti of the first token issued at login, shared by all its rotations
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  replacedBy?: string;
+  createdAt: Date;
+  isActive(): boolean;
+}
+
+const refreshTokenSchema = new Schema<IRefreshToken>({
+  jti: {
+    type: String,
+    required: [true, 'Token ID is required'],
+    unique: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  family: {
+    type: String,
+    required: [true, 'Token family is required'],
+    index: true
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry date is required']
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  replacedBy: {
+    type: String
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// A token can be exchanged only once and only before it expires
+refreshTokenSchema.methods.isActive = function(): boolean {
+  return !this.revokedAt && this.expiresAt > new Date();
+};
+
+// Expired tokens are no longer useful for reuse detection
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshToken = mongoose.model<IRefreshToken>('RefreshToken', refreshTokenSchema);
@@ -0,0 +1,132 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { TestRunStatus } from './Project';
+
+// tests: failing tests written, implementation: first attempt at passing them, fix: a FIX_ISSUES round
+export type TddPhase = 'tests' | 'implementation' | 'fix';
+
+export interface ITddFileChange {
+  path: string;
+  changeType: 'created' | 'updated';
+  // File content after this iteration
+  content: string;
+  // Unified diff against the file before this iteration
+  diff: string;
+}
+
+export interface ITddFailure {
+  file: string;
+  name: string;
+  message: string;
+}
+
+export interface ITddTestOutcome {
+  status: TestRunStatus;
+  total: number;
+  passed: number;
+  failed: number;
+  failures: ITddFailure[];
+  // Why the run could not complete
+  error?: string;
+}
+
+export interface ITddIteration extends Document {
+  projectId: mongoose.Types.ObjectId;
+  // Identifies one generation run; iterations of a run are numbered by sequence from 1
+  runId: string;
+  sequence: number;
+  component: string;
+  phase: TddPhase;
+  // Fix round within the component, 0 for the tests and implementation phases
+  attempt: number;
+  changes: ITddFileChange[];
+  testRun?: ITddTestOutcome;
+  createdAt: Date;
+}
+
+const tddFileChangeSchema = new Schema<ITddFileChange>({
+  path: {
+    type: String,
+    required: [true, 'File path is required'],
+    trim: true
+  },
+  changeType: {
+    type: String,
+    enum: ['created', 'updated'],
+    required: [true, 'Change type is required']
+  },
+  content: {
+    type: String,
+    default: ''
+  },
+  diff: {
+    type: String,
+    default: ''
+  }
+}, { _id: false });
+
+const tddFailureSchema = new Schema<ITddFailure>({
+  file: { type: String, required: true },
+  name: { type: String, required: true },
+  message: { type: String, default: '' }
+}, { _id: false });
+
+const tddTestOutcomeSchema = new Schema<ITddTestOutcome>({
+  status: {
+    type: String,
+    enum: ['passed', 'failed', 'error'],
+    required: [true, 'Test run status is required']
+  },
+  total: { type: Number, min: 0, default: 0 },
+  passed: { type: Number, min: 0, default: 0 },
+  failed: { type: Number, min: 0, default: 0 },
+  failures: [tddFailureSchema],
+  error: {
+    type: String
+  }
+}, { _id: false });
+
+const tddIterationSchema = new Schema<ITddIteration>({
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project',
+    required: [true, 'Project ID is required']
+  },
+  runId: {
+    type: String,
+    required: [true, 'Run ID is required']
+  },
+  sequence: {
+    type: Number,
+    required: [true, 'Sequence number is required'],
+    min: [1, 'Sequence numbers start at 1']
+  },
+  component: {
+    type: String,
+    required: [true, 'Component is required'],
+    trim: true
+  },
+  phase: {
+    type: String,
+    enum: ['tests', 'implementation', 'fix'],
+    required: [true, 'Phase is required']
+  },
+  attempt: {
+    type: Number,
+    min: [0, 'Attempt cannot be negative'],
+    default: 0
+  },
+  changes: [tddFileChangeSchema],
+  testRun: {
+    type: tddTestOutcomeSchema
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Indexes for efficient querying
+tddIterationSchema.index({ projectId: 1, runId: 1, sequence: 1 }, { unique: true });
+tddIterationSchema.index({ projectId: 1, createdAt: -1 });
+
+export const TddIteration = mongoose.model<ITddIteration>('TddIteration', tddIterationSchema);
@@ -0,0 +1,102 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IUsageRecord extends Document {
+  userId: mongoose.Types.ObjectId;
+  projectId?: mongoose.Types.ObjectId;
+  task?: string;
+  provider: string;
+  aiModel: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number; // in USD
+  createdAt: Date;
+}
+
+export interface IUsageSummary {
+  requests: number;
+  tokens: number;
+  cost: number;
+}
+
+const usageRecordSchema = new Schema<IUsageRecord>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User ID is required']
+  },
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project'
+  },
+  task: {
+    type: String,
+    trim: true
+  },
+  provider: {
+    type: String,
+    required: [true, 'Provider is required'],
+    trim: true
+  },
+  aiModel: {
+    type: String,
+    required: [true, 'AI model is required'],
+    trim: true
+  },
+  promptTokens: {
+    type: Number,
+    default: 0,
+    min: [0, 'Prompt tokens cannot be negative']
+  },
+  completionTokens: {
+    type: Number,
+    default: 0,
+    min: [0, 'Completion tokens cannot be negative']
+  },
+  totalTokens: {
+    type: Number,
+    default: 0,
+    min: [0, 'Total tokens cannot be negative']
+  },
+  cost: {
+    type: Number,
+    default: 0,
+    min: [0, 'Cost cannot be negative']
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Define interface for static methods
+interface IUsageRecordModel extends mongoose.Model<IUsageRecord> {
+  summarize(userId: string, since: Date): Promise<IUsageSummary>;
+}
+
+// Total requests, tokens and cost for a user from the given date onwards
+usageRecordSchema.statics.summarize = async function(userId: string, since: Date): Promise<IUsageSummary> {
+  const [summary] = await this.aggregate([
+    { $match: { userId: new mongoose.Types.ObjectId(userId), createdAt: { $gte: since } } },
+    {
+      $group: {
+        _id: null,
+        requests: { $sum: 1 },
+        tokens: { $sum: '$totalTokens' },
+        cost: { $sum: '$cost' }
+      }
+    }
+  ]);
+
+  return {
+    requests: summary?.requests || 0,
+    tokens: summary?.tokens || 0,
+    cost: summary?.cost || 0
+  };
+};
+
+// Indexes for efficient querying
+usageRecordSchema.index({ userId: 1, createdAt: -1 });
+usageRecordSchema.index({ projectId: 1, createdAt: -1 });
+
+export const UsageRecord = mongoose.model<IUsageRecord, IUsageRecordModel>('UsageRecord', usageRecordSchema);
@@ -1,16 +1,22 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
 
+export type Theme = 'light' | 'dark';
+
+export const THEMES: Theme[] = ['light', 'dark'];
+
 export interface IUser extends Document {
   email: string;
   passwordHash: string;
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
   preferences: {
     defaultTechStack?: {
       language: string;
       framework: string;
       database: string;
     };
-    theme: 'light' | 'dark';
+    theme: Theme;
     notifications: {
       email: boolean;
       push: boolean;
@@ -18,11 +24,16 @@ export interface IUser extends Document {
   };
   projects: mongoose.Types.ObjectId[];
   settings: {
-    apiKeyUsage: number;
+    apiKeyUsage: number; // total AI tokens consumed
     maxProjects: number;
+    dailyBudget?: number | null; // in USD, unlimited when unset
+    monthlyBudget?: number | null; // in USD, unlimited when unset
   };
   createdAt: Date;
   lastLoginAt?: Date;
+  // Set when the user deletes their account; the account is purged at deletionScheduledFor
+  deletedAt?: Date | null;
+  deletionScheduledFor?: Date | null;
   comparePassword(candidatePassword: string): Promise<boolean>;
 }
 
@@ -40,6 +51,13 @@ const userSchema = new Schema<IUser>({
     required: [true, 'Password is required'],
     minlength: [6, 'Password must be at least 6 characters']
   },
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
+  emailVerifiedAt: {
+    type: Date
+  },
   preferences: {
     defaultTechStack: {
       language: { type: String, default: 'typescript' },
@@ -48,7 +66,7 @@ const userSchema = new Schema<IUser>({
     },
     theme: {
       type: String,
-      enum: ['light', 'dark'],
+      enum: THEMES,
       default: 'light'
     },
     notifications: {
@@ -62,7 +80,9 @@ const userSchema = new Schema<IUser>({
   }],
   settings: {
     apiKeyUsage: { type: Number, default: 0 },
-    maxProjects: { type: Number, default: 10 }
+    maxProjects: { type: Number, default: 10 },
+    dailyBudget: { type: Number, default: null, min: [0, 'Daily budget cannot be negative'] },
+    monthlyBudget: { type: Number, default: null, min: [0, 'Monthly budget cannot be negative'] }
   },
   createdAt: {
     type: Date,
@@ -70,6 +90,15 @@ const userSchema = new Schema<IUser>({
   },
   lastLoginAt: {
     type: Date
+  },
+  deletedAt: {
+    type: Date,
+    default: null
+  },
+  deletionScheduledFor: {
+    type: Date,
+    default: null,
+    index: true
   }
 });
 
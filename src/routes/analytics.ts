@@ -0,0 +1,190 @@
+import express, { Response } from 'express';
+import Joi from 'joi';
+import { PROJECT_TYPES } from '@/models/Analytics';
+import { AuthenticatedRequest, requireScope } from '@/middleware/auth';
+import { asyncHandler } from '@/middleware/errorHandler';
+import {
+  AnalyticsReportService,
+  BUCKET_SIZES,
+  BucketSize,
+  ReportRange,
+  STACK_DIMENSIONS,
+  StackDimension
+} from '@/services/analytics/reports';
+
+const router = express.Router();
+
+const reports = new AnalyticsReportService();
+
+const DEFAULT_RANGE_DAYS = 30;
+// Longest series a report may return
+const MAX_BUCKETS = 1000;
+const MAX_HISTOGRAM_BINS = 1000;
+
+const BUCKET_MS: Record<BucketSize, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 28 * 24 * 60 * 60 * 1000
+};
+
+router.use(requireScope('analytics:read'));
+
+// Validation schemas
+const rangeSchema = {
+  from: Joi.date().iso().messages({
+    'date.format': 'From must be an ISO 8601 date'
+  }),
+  to: Joi.date().iso().messages({
+    'date.format': 'To must be an ISO 8601 date'
+  }),
+  bucket: Joi.string()
+    .valid(...BUCKET_SIZES)
+    .default('day')
+    .messages({
+      'any.only': `Bucket must be one of: ${BUCKET_SIZES.join(', ')}`
+    }),
+  projectType: Joi.string()
+    .valid(...PROJECT_TYPES)
+    .messages({
+      'any.only': `Project type must be one of: ${PROJECT_TYPES.join(', ')}`
+    })
+};
+
+const reportSchema = Joi.object(rangeSchema);
+
+const stackReportSchema = Joi.object({
+  ...rangeSchema,
+  dimension: Joi.string()
+    .valid(...STACK_DIMENSIONS)
+    .default('framework')
+    .messages({
+      'any.only': `Dimension must be one of: ${STACK_DIMENSIONS.join(', ')}`
+    })
+});
+
+const sessionReportSchema = Joi.object({
+  ...rangeSchema,
+  binMinutes: Joi.number()
+    .integer()
+    .min(1)
+    .max(1440)
+    .default(5)
+    .messages({
+      'number.base': 'Bin size must be a number of minutes',
+      'number.integer': 'Bin size must be a whole number of minutes',
+      'number.min': 'Bin size must be at least 1 minute',
+      'number.max': 'Bin size cannot exceed 1440 minutes'
+    })
+});
+
+interface RangeQuery {
+  from?: Date;
+  to?: Date;
+  bucket: BucketSize;
+  projectType?: string;
+}
+
+/**
+ * Validate the query and resolve the report range, answering 400 itself when it can't.
+ * The range defaults to the last 30 days.
+ */
+const parseQuery = <T extends RangeQuery>(
+  schema: Joi.ObjectSchema,
+  req: AuthenticatedRequest,
+  res: Response
+): { range: ReportRange; value: T } | null => {
+  const { error, value } = schema.validate(req.query);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return null;
+  }
+
+  const query = value as T;
+  const to = query.to || new Date();
+  const from = query.from || new Date(to.getTime() - DEFAULT_RANGE_DAYS * BUCKET_MS.day);
+
+  if (from >= to) {
+    res.status(400).json({ error: 'From must be before to', field: 'from' });
+    return null;
+  }
+  if ((to.getTime() - from.getTime()) / BUCKET_MS[query.bucket] > MAX_BUCKETS) {
+    res.status(400).json({ error: `Range spans more than ${MAX_BUCKETS} buckets; use a larger bucket`, field: 'bucket' });
+    return null;
+  }
+
+  return { range: { from, to, bucket: query.bucket, projectType: query.projectType }, value: query };
+};
+
+const serializeRange = (range: ReportRange) => ({
+  from: range.from,
+  to: range.to,
+  bucket: range.bucket,
+  projectType: range.projectType || null
+});
+
+// Stack popularity over time endpoint
+router.get('/stacks', asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const query = parseQuery<RangeQuery & { dimension: StackDimension }>(stackReportSchema, req, res);
+  if (!query) return;
+
+  res.json({
+    range: serializeRange(query.range),
+    dimension: query.value.dimension,
+    ...await reports.stackPopularity(query.range, query.value.dimension)
+  });
+}));
+
+// Completion time percentiles endpoint
+router.get('/completion-times', asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const query = parseQuery(reportSchema, req, res);
+  if (!query) return;
+
+  res.json({
+    range: serializeRange(query.range),
+    ...await reports.completionTimes(query.range)
+  });
+}));
+
+// Test coverage by framework endpoint
+router.get('/coverage', asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const query = parseQuery(reportSchema, req, res);
+  if (!query) return;
+
+  res.json({
+    range: serializeRange(query.range),
+    ...await reports.coverageByFramework(query.range)
+  });
+}));
+
+// Errors vs AI fixes endpoint
+router.get('/error-fixes', asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const query = parseQuery(reportSchema, req, res);
+  if (!query) return;
+
+  res.json({
+    range: serializeRange(query.range),
+    ...await reports.errorFixRatios(query.range)
+  });
+}));
+
+// Session duration histogram endpoint
+router.get('/sessions', asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const query = parseQuery<RangeQuery & { binMinutes: number }>(sessionReportSchema, req, res);
+  if (!query) return;
+
+  const histogram = await reports.sessionDurations(query.range, query.value.binMinutes * 60 * 1000);
+
+  res.json({
+    range: serializeRange(query.range),
+    ...histogram,
+    // Keep the response bounded when a few sessions run far longer than the rest
+    bins: histogram.bins.slice(0, MAX_HISTOGRAM_BINS),
+    truncated: histogram.bins.length > MAX_HISTOGRAM_BINS
+  });
+}));
+
+export default router;
@@ -0,0 +1,132 @@
+import express, { Response } from 'express';
+import mongoose from 'mongoose';
+import Joi from 'joi';
+import { IApiKey, API_KEY_SCOPES } from '@/models/ApiKey';
+import { AuthenticatedRequest, requireSession } from '@/middleware/auth';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { apiKeyService } from '@/services/auth/apiKeys';
+
+const router = express.Router();
+
+// Keys cannot be used to mint or manage other keys
+router.use(requireSession);
+
+// Validation schemas
+const nameSchema = Joi.string()
+  .trim()
+  .max(100)
+  .messages({
+    'string.max': 'API key name cannot exceed 100 characters'
+  });
+
+const scopesSchema = Joi.array()
+  .items(Joi.string().valid(...API_KEY_SCOPES))
+  .min(1)
+  .unique()
+  .messages({
+    'any.only': `Scope must be one of: ${API_KEY_SCOPES.join(', ')}`,
+    'array.min': 'At least one scope is required'
+  });
+
+const createApiKeySchema = Joi.object({
+  name: nameSchema.required().messages({
+    'any.required': 'API key name is required'
+  }),
+  scopes: scopesSchema,
+  expiresAt: Joi.date()
+    .greater('now')
+    .messages({
+      'date.greater': 'Expiry date must be in the future'
+    })
+});
+
+const updateApiKeySchema = Joi.object({
+  name: nameSchema,
+  scopes: scopesSchema
+}).min(1).messages({
+  'object.min': 'At least one field must be provided'
+});
+
+const serializeApiKey = (apiKey: IApiKey) => ({
+  id: apiKey._id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  usageCount: apiKey.usageCount,
+  lastUsedAt: apiKey.lastUsedAt,
+  expiresAt: apiKey.expiresAt,
+  createdAt: apiKey.createdAt
+});
+
+// Create API key endpoint
+router.post('/', asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { error, value } = createApiKeySchema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const { apiKey, key } = await apiKeyService.create(req.user!.id, value);
+
+  res.status(201).json({
+    message: 'API key created. Store it now; it will not be shown again.',
+    key,
+    apiKey: serializeApiKey(apiKey)
+  });
+}));
+
+// List API keys endpoint
+router.get('/', asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const apiKeys = await apiKeyService.list(req.user!.id);
+
+  res.json({ apiKeys: apiKeys.map(serializeApiKey) });
+}));
+
+// Update API key endpoint
+router.patch('/:id', asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(400).json({ error: 'Invalid API key ID' });
+    return;
+  }
+
+  const { error, value } = updateApiKeySchema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const apiKey = await apiKeyService.update(req.user!.id, req.params.id, value);
+  if (!apiKey) {
+    res.status(404).json({ error: 'API key not found' });
+    return;
+  }
+
+  res.json({
+    message: 'API key updated successfully',
+    apiKey: serializeApiKey(apiKey)
+  });
+}));
+
+// Revoke API key endpoint
+router.delete('/:id', asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(400).json({ error: 'Invalid API key ID' });
+    return;
+  }
+
+  const revoked = await apiKeyService.revoke(req.user!.id, req.params.id);
+  if (!revoked) {
+    res.status(404).json({ error: 'API key not found' });
+    return;
+  }
+
+  res.json({ message: 'API key revoked successfully' });
+}));
+
+export default router;
@@ -1,12 +1,26 @@
 import express, { Request, Response } from 'express';
 import Joi from 'joi';
 import { User } from '@/models/User';
-import { generateTokens, verifyRefreshToken, AuthenticatedRequest, authMiddleware } from '@/middleware/auth';
+import { AuthenticatedRequest, accountAuthMiddleware, requireSession } from '@/middleware/auth';
 import { asyncHandler } from '@/middleware/errorHandler';
+import { sessionService, SessionError } from '@/services/auth/sessions';
+import { accountService } from '@/services/auth/account';
 
 const router = express.Router();
 
 // Validation schemas
+const passwordSchema = Joi.string()
+  .min(6)
+  .max(128)
+  .pattern(new RegExp('^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d).*$'))
+  .required()
+  .messages({
+    'string.min': 'Password must be at least 6 characters long',
+    'string.max': 'Password must not exceed 128 characters',
+    'string.pattern.base': 'Password must contain at least one lowercase letter, one uppercase letter, and one number',
+    'any.required': 'Password is required'
+  });
+
 const registerSchema = Joi.object({
   email: Joi.string()
     .email({ tlds: { allow: false } })
@@ -15,17 +29,7 @@ const registerSchema = Joi.object({
       'string.email': 'Please provide a valid email address',
       'any.required': 'Email is required'
     }),
-  password: Joi.string()
-    .min(6)
-    .max(128)
-    .pattern(new RegExp('^(?=.*[a-z])(?=.*[A-Z])(?=.*\\d).*$'))
-    .required()
-    .messages({
-      'string.min': 'Password must be at least 6 characters long',
-      'string.max': 'Password must not exceed 128 characters',
-      'string.pattern.base': 'Password must contain at least one lowercase letter, one uppercase letter, and one number',
-      'any.required': 'Password is required'
-    })
+  password: passwordSchema
 });
 
 const loginSchema = Joi.object({
@@ -51,6 +55,59 @@ const refreshSchema = Joi.object({
     })
 });
 
+const logoutSchema = Joi.object({
+  refreshToken: Joi.string()
+});
+
+const forgotPasswordSchema = Joi.object({
+  email: Joi.string()
+    .email({ tlds: { allow: false } })
+    .required()
+    .messages({
+      'string.email': 'Please provide a valid email address',
+      'any.required': 'Email is required'
+    })
+});
+
+const resetPasswordSchema = Joi.object({
+  token: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'Reset token is required'
+    }),
+  password: passwordSchema
+});
+
+const verifyEmailSchema = Joi.object({
+  token: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'Verification token is required'
+    })
+});
+
+const currentPasswordSchema = Joi.string()
+  .required()
+  .messages({
+    'any.required': 'Current password is required'
+  });
+
+const changePasswordSchema = Joi.object({
+  currentPassword: currentPasswordSchema,
+  password: passwordSchema
+});
+
+const changeEmailSchema = Joi.object({
+  currentPassword: currentPasswordSchema,
+  email: Joi.string()
+    .email({ tlds: { allow: false } })
+    .required()
+    .messages({
+      'string.email': 'Please provide a valid email address',
+      'any.required': 'Email is required'
+    })
+});
+
 // Register endpoint
 router.post('/register', asyncHandler(async (req: Request, res: Response): Promise<void> => {
   // Validate input
@@ -83,9 +140,16 @@ router.post('/register', asyncHandler(async (req: Request, res: Response): Promi
     });
     
     await user.save();
+
+    // A delivery failure must not fail registration; the user can request a new email
+    try {
+      await accountService.sendVerificationEmail(user);
+    } catch (mailError) {
+      console.error('Failed to send verification email:', mailError);
+    }
     
     // Generate tokens
-    const tokens = generateTokens(user._id.toString(), user.email);
+    const tokens = await sessionService.issue(user._id.toString(), user.email);
     
     res.status(201).json({
       message: 'User registered successfully',
@@ -94,6 +158,7 @@ router.post('/register', asyncHandler(async (req: Request, res: Response): Promi
       user: {
         id: user._id,
         email: user.email,
+        emailVerified: user.emailVerified,
         preferences: user.preferences,
         createdAt: user.createdAt
       }
@@ -155,6 +220,14 @@ router.post('/login', asyncHandler(async (req: Request, res: Response): Promise<
     });
     return;
   }
+
+  if (user.deletedAt) {
+    res.status(403).json({
+      error: `Account has been deleted and will be purged on ${user.deletionScheduledFor?.toISOString()}`,
+      code: 'ACCOUNT_DELETED'
+    });
+    return;
+  }
   
   try {
     // Update last login and session info
@@ -162,7 +235,7 @@ router.post('/login', asyncHandler(async (req: Request, res: Response): Promise<
     await user.save();
     
     // Generate tokens
-    const tokens = generateTokens(user._id.toString(), user.email);
+    const tokens = await sessionService.issue(user._id.toString(), user.email);
     
     res.json({
       message: 'Login successful',
@@ -171,6 +244,7 @@ router.post('/login', asyncHandler(async (req: Request, res: Response): Promise<
       user: {
         id: user._id,
         email: user.email,
+        emailVerified: user.emailVerified,
         preferences: user.preferences,
         settings: user.settings,
         lastLoginAt: user.lastLoginAt
@@ -196,21 +270,8 @@ router.post('/refresh', asyncHandler(async (req: Request, res: Response): Promis
   const { refreshToken } = value;
   
   try {
-    // Verify refresh token
-    const decoded = verifyRefreshToken(refreshToken);
-    
-    // Verify user still exists and is active
-    const user = await User.findById(decoded.id).select('-passwordHash');
-    if (!user) {
-      res.status(401).json({ 
-        error: 'Invalid refresh token. User not found.',
-        code: 'USER_NOT_FOUND'
-      });
-      return;
-    }
-    
-    // Generate new tokens
-    const tokens = generateTokens(user._id.toString(), user.email);
+    // Exchange the token; it cannot be used again afterwards
+    const tokens = await sessionService.rotate(refreshToken);
     
     res.json({
       message: 'Tokens refreshed successfully',
@@ -218,6 +279,14 @@ router.post('/refresh', asyncHandler(async (req: Request, res: Response): Promis
       refreshToken: tokens.refreshToken
     });
   } catch (error: any) {
+    if (error instanceof SessionError) {
+      res.status(401).json({
+        error: error.message,
+        code: error.code
+      });
+      return;
+    }
+
     if (error.name === 'TokenExpiredError') {
       res.status(401).json({ 
         error: 'Refresh token has expired',
@@ -226,24 +295,253 @@ router.post('/refresh', asyncHandler(async (req: Request, res: Response): Promis
       return;
     }
     
-    res.status(401).json({ 
-      error: 'Invalid or expired refresh token',
-      code: 'INVALID_REFRESH_TOKEN'
-    });
+    if (error.name === 'JsonWebTokenError' || error.message === 'Invalid token type') {
+      res.status(401).json({ 
+        error: 'Invalid or expired refresh token',
+        code: 'INVALID_REFRESH_TOKEN'
+      });
+      return;
+    }
+
+    throw error; // Re-throw for global error handler
   }
 }));
 
 // Logout endpoint (protected route)
-router.post('/logout', authMiddleware, asyncHandler(async (_req: AuthenticatedRequest, res: Response): Promise<void> => {
-  // In a production system, you might want to blacklist the token
-  // For now, we'll just return a success message
+router.post('/logout', accountAuthMiddleware, asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { error, value } = logoutSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({ 
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  // Revoke the session's refresh token; the access token expires on its own
+  if (value.refreshToken) {
+    await sessionService.revoke(value.refreshToken, req.user!.id);
+  }
+
   res.json({
     message: 'Logged out successfully'
   });
 }));
 
+// Logout from all sessions endpoint (protected route)
+router.post('/logout-all', accountAuthMiddleware, asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const revokedSessions = await sessionService.revokeAll(req.user!.id);
+
+  res.json({
+    message: 'Logged out from all sessions',
+    revokedSessions
+  });
+}));
+
+// Forgot password endpoint
+router.post('/forgot-password', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { error, value } = forgotPasswordSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({ 
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  await accountService.requestPasswordReset(value.email);
+
+  // Same response whether or not the account exists
+  res.json({
+    message: 'If an account exists for this email, a password reset link has been sent'
+  });
+}));
+
+// Reset password endpoint
+router.post('/reset-password', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { error, value } = resetPasswordSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({ 
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const reset = await accountService.resetPassword(value.token, value.password);
+  if (!reset) {
+    res.status(400).json({
+      error: 'Invalid or expired reset token',
+      code: 'INVALID_RESET_TOKEN'
+    });
+    return;
+  }
+
+  res.json({
+    message: 'Password reset successfully. Please log in with your new password.'
+  });
+}));
+
+// Verify email endpoint
+router.post('/verify-email', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { error, value } = verifyEmailSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({ 
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const verified = await accountService.verifyEmail(value.token);
+  if (!verified) {
+    res.status(400).json({
+      error: 'Invalid or expired verification token',
+      code: 'INVALID_VERIFICATION_TOKEN'
+    });
+    return;
+  }
+
+  res.json({
+    message: 'Email verified successfully'
+  });
+}));
+
+// Resend verification email endpoint (protected route)
+router.post('/verify-email/resend', accountAuthMiddleware, asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const user = await User.findById(req.user?.id);
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+
+  if (user.emailVerified) {
+    res.status(409).json({
+      error: 'Email address is already verified',
+      code: 'EMAIL_ALREADY_VERIFIED'
+    });
+    return;
+  }
+
+  await accountService.sendVerificationEmail(user);
+
+  res.json({
+    message: 'Verification email sent'
+  });
+}));
+
+// Change password endpoint (protected route)
+router.post('/change-password', accountAuthMiddleware, requireSession, asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { error, value } = changePasswordSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const user = await User.findById(req.user?.id);
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+
+  if (!await user.comparePassword(value.currentPassword)) {
+    res.status(401).json({
+      error: 'Current password is incorrect',
+      field: 'currentPassword'
+    });
+    return;
+  }
+
+  // Every session is signed out; this client gets a fresh one
+  await accountService.changePassword(user, value.password);
+  const tokens = await sessionService.issue(user._id.toString(), user.email);
+
+  res.json({
+    message: 'Password changed successfully',
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken
+  });
+}));
+
+// Change email endpoint (protected route)
+router.post('/change-email', accountAuthMiddleware, requireSession, asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { error, value } = changeEmailSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const user = await User.findById(req.user?.id);
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+
+  if (!await user.comparePassword(value.currentPassword)) {
+    res.status(401).json({
+      error: 'Current password is incorrect',
+      field: 'currentPassword'
+    });
+    return;
+  }
+
+  const email = value.email.toLowerCase();
+  if (email === user.email) {
+    res.status(400).json({
+      error: 'New email must be different from the current one',
+      field: 'email'
+    });
+    return;
+  }
+
+  if (await User.findOne({ email })) {
+    res.status(409).json({
+      error: 'User already exists with this email',
+      field: 'email'
+    });
+    return;
+  }
+
+  try {
+    await accountService.changeEmail(user, email);
+  } catch (error: any) {
+    // Lost a race with another account taking the address
+    if (error.code === 11000) {
+      res.status(409).json({
+        error: 'User already exists with this email',
+        field: 'email'
+      });
+      return;
+    }
+
+    throw error; // Re-throw for global error handler
+  }
+
+  // A delivery failure must not fail the change; the user can request a new email
+  try {
+    await accountService.sendVerificationEmail(user);
+  } catch (mailError) {
+    console.error('Failed to send verification email:', mailError);
+  }
+
+  res.json({
+    message: 'Email changed. Check your inbox to verify the new address.',
+    user: {
+      id: user._id,
+      email: user.email,
+      emailVerified: user.emailVerified
+    }
+  });
+}));
+
 // Get current user endpoint (protected route)
-router.get('/me', authMiddleware, asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.get('/me', accountAuthMiddleware, asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   const user = await User.findById(req.user?.id).select('-passwordHash');
   
   if (!user) {
@@ -255,6 +553,7 @@ router.get('/me', authMiddleware, asyncHandler(async (req: AuthenticatedRequest,
     user: {
       id: user._id,
       email: user.email,
+      emailVerified: user.emailVerified,
       preferences: user.preferences,
       settings: user.settings,
       createdAt: user.createdAt,
@@ -0,0 +1,253 @@
+import express, { Response } from 'express';
+import Joi from 'joi';
+import { IProject } from '@/models/Project';
+import { IFileRevision } from '@/models/FileRevision';
+import { AuthenticatedRequest, requireScope } from '@/middleware/auth';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { loadOwnedProject } from '@/middleware/projects';
+import { FileEditError, FileEditErrorCode, ProjectFileService } from '@/services/files/editor';
+import { getSessionTracker } from '@/services/analytics/sessions';
+
+// Mounted at /api/projects/:id/files
+const router = express.Router({ mergeParams: true });
+
+const MAX_FILE_CONTENT_LENGTH = 1000000;
+
+// Validation schemas
+const pathSchema = Joi.string()
+  .trim()
+  .max(500)
+  .messages({
+    'string.max': 'File path cannot exceed 500 characters'
+  });
+
+const contentSchema = Joi.string()
+  .allow('')
+  .max(MAX_FILE_CONTENT_LENGTH)
+  .messages({
+    'string.max': `File content cannot exceed ${MAX_FILE_CONTENT_LENGTH} characters`
+  });
+
+const createFileSchema = Joi.object({
+  path: pathSchema.required().messages({
+    'any.required': 'File path is required'
+  }),
+  content: contentSchema.required().messages({
+    'any.required': 'File content is required'
+  }),
+  language: Joi.string().trim().max(50)
+});
+
+const updateFileSchema = Joi.object({
+  content: contentSchema.required().messages({
+    'any.required': 'File content is required'
+  })
+});
+
+const renameFileSchema = Joi.object({
+  path: pathSchema.required().messages({
+    'any.required': 'File path is required'
+  })
+});
+
+export const FILE_EDIT_ERROR_STATUS: Record<FileEditErrorCode, number> = {
+  INVALID_PATH: 400,
+  FILE_NOT_FOUND: 404,
+  FILE_EXISTS: 409,
+  REVISION_NOT_FOUND: 404,
+  REVISION_NOT_RESTORABLE: 409,
+  GENERATION_IN_PROGRESS: 409
+};
+
+// Created on first use so environment configuration is loaded first
+let fileService: ProjectFileService | null = null;
+const getFileService = (): ProjectFileService => {
+  if (!fileService) {
+    fileService = new ProjectFileService();
+  }
+  return fileService;
+};
+
+const serializeRevision = (revision: IFileRevision) => ({
+  revision: revision.revision,
+  changeType: revision.changeType,
+  path: revision.path,
+  previousPath: revision.previousPath,
+  ...(revision.content !== undefined && { content: revision.content }),
+  diff: revision.diff,
+  author: revision.author,
+  createdAt: revision.createdAt
+});
+
+const loadProject = (req: AuthenticatedRequest, res: Response): Promise<IProject | null> =>
+  loadOwnedProject(req, res, { idParams: { fileId: 'file' } });
+
+const parseRevision = (req: AuthenticatedRequest, res: Response): number | null => {
+  const revision = Number(req.params.revision);
+  if (!Number.isInteger(revision) || revision < 1) {
+    res.status(400).json({ error: 'Invalid revision' });
+    return null;
+  }
+  return revision;
+};
+
+// Wrap a handler so FileEditErrors become JSON responses with their code
+const fileHandler = (handler: (req: AuthenticatedRequest, res: Response) => Promise<void>) =>
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      await handler(req, res);
+    } catch (error) {
+      if (!(error instanceof FileEditError)) throw error;
+
+      res.status(FILE_EDIT_ERROR_STATUS[error.code]).json({
+        error: error.message,
+        code: error.code
+      });
+    }
+  });
+
+// List files endpoint (without content)
+router.get('/', requireScope('projects:read'), fileHandler(async (req, res) => {
+  const project = await loadProject(req, res);
+  if (!project) return;
+
+  res.json({
+    files: project.generatedCode.files.map(file => ({
+      _id: file._id,
+      path: file.path,
+      language: file.language,
+      lastModified: file.lastModified
+    })),
+    structure: project.generatedCode.structure
+  });
+}));
+
+// Create file endpoint
+router.post('/', requireScope('projects:write'), fileHandler(async (req, res) => {
+  const { error, value } = createFileSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const project = await loadProject(req, res);
+  if (!project) return;
+
+  const file = await getFileService().createFile(project, value, req.user?.email || 'unknown');
+  getSessionTracker().record(project._id.toString(), 'manualEdits');
+
+  res.status(201).json({
+    message: 'File created successfully',
+    file
+  });
+}));
+
+// Get file endpoint
+router.get('/:fileId', requireScope('projects:read'), fileHandler(async (req, res) => {
+  const project = await loadProject(req, res);
+  if (!project) return;
+
+  res.json({ file: getFileService().findFile(project, req.params.fileId) });
+}));
+
+// Update file content endpoint
+router.put('/:fileId', requireScope('projects:write'), fileHandler(async (req, res) => {
+  const { error, value } = updateFileSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const project = await loadProject(req, res);
+  if (!project) return;
+
+  const file = await getFileService().updateFile(project, req.params.fileId, value.content, req.user?.email || 'unknown');
+  getSessionTracker().record(project._id.toString(), 'manualEdits');
+
+  res.json({
+    message: 'File updated successfully',
+    file
+  });
+}));
+
+// Rename file endpoint
+router.post('/:fileId/rename', requireScope('projects:write'), fileHandler(async (req, res) => {
+  const { error, value } = renameFileSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const project = await loadProject(req, res);
+  if (!project) return;
+
+  const file = await getFileService().renameFile(project, req.params.fileId, value.path, req.user?.email || 'unknown');
+  getSessionTracker().record(project._id.toString(), 'manualEdits');
+
+  res.json({
+    message: 'File renamed successfully',
+    file
+  });
+}));
+
+// Delete file endpoint
+router.delete('/:fileId', requireScope('projects:write'), fileHandler(async (req, res) => {
+  const project = await loadProject(req, res);
+  if (!project) return;
+
+  await getFileService().deleteFile(project, req.params.fileId, req.user?.email || 'unknown');
+  getSessionTracker().record(project._id.toString(), 'manualEdits');
+
+  res.json({ message: 'File deleted successfully' });
+}));
+
+// List file revisions endpoint (without content)
+router.get('/:fileId/revisions', requireScope('projects:read'), fileHandler(async (req, res) => {
+  const project = await loadProject(req, res);
+  if (!project) return;
+
+  const revisions = await getFileService().listRevisions(project, req.params.fileId);
+
+  res.json({ revisions: revisions.map(serializeRevision) });
+}));
+
+// Get file at revision endpoint
+router.get('/:fileId/revisions/:revision', requireScope('projects:read'), fileHandler(async (req, res) => {
+  const project = await loadProject(req, res);
+  if (!project) return;
+
+  const revision = parseRevision(req, res);
+  if (revision === null) return;
+
+  const found = await getFileService().getRevision(project, req.params.fileId, revision);
+
+  res.json({ revision: serializeRevision(found) });
+}));
+
+// Restore revision endpoint
+router.post('/:fileId/revisions/:revision/restore', requireScope('projects:write'), fileHandler(async (req, res) => {
+  const project = await loadProject(req, res);
+  if (!project) return;
+
+  const revision = parseRevision(req, res);
+  if (revision === null) return;
+
+  const file = await getFileService().restoreRevision(project, req.params.fileId, revision, req.user?.email || 'unknown');
+  getSessionTracker().record(project._id.toString(), 'manualEdits');
+
+  res.json({
+    message: `File restored to revision ${revision}`,
+    file
+  });
+}));
+
+export default router;
@@ -0,0 +1,153 @@
+import express, { Response } from 'express';
+import Joi from 'joi';
+import { IProject } from '@/models/Project';
+import { IFixProposal } from '@/models/FixProposal';
+import { AuthenticatedRequest, requireScope } from '@/middleware/auth';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { loadOwnedProject } from '@/middleware/projects';
+import { FixError, FixErrorCode, IssueFixService } from '@/services/ai/fixes';
+import { FileEditError } from '@/services/files/editor';
+import { getSessionTracker } from '@/services/analytics/sessions';
+import { FILE_EDIT_ERROR_STATUS } from './files';
+
+// Mounted at /api/projects/:id
+const router = express.Router({ mergeParams: true });
+
+// Validation schemas
+const fixSchema = Joi.object({
+  issue: Joi.string()
+    .trim()
+    .min(10)
+    .max(5000)
+    .required()
+    .messages({
+      'string.min': 'Issue description must be at least 10 characters long',
+      'string.max': 'Issue description cannot exceed 5000 characters',
+      'any.required': 'Issue description is required'
+    }),
+  stackTrace: Joi.string().trim().max(20000),
+  expectedBehavior: Joi.string().trim().max(2000),
+  files: Joi.array().items(Joi.string().trim().max(500)).max(20)
+});
+
+const FIX_ERROR_STATUS: Record<FixErrorCode, number> = {
+  NOTHING_TO_FIX: 409,
+  FILE_NOT_FOUND: 400,
+  GENERATION_IN_PROGRESS: 409,
+  INVALID_AI_OUTPUT: 502,
+  PROPOSAL_NOT_FOUND: 404,
+  PROPOSAL_RESOLVED: 409,
+  NO_CHANGES_PROPOSED: 409,
+  STALE_PROPOSAL: 409
+};
+
+// Created on first use so environment configuration is loaded first
+let fixService: IssueFixService | null = null;
+const getFixService = (): IssueFixService => {
+  if (!fixService) {
+    fixService = new IssueFixService();
+  }
+  return fixService;
+};
+
+const serializeProposal = (proposal: IFixProposal) => ({
+  _id: proposal._id,
+  issue: proposal.issue,
+  explanation: proposal.explanation,
+  status: proposal.status,
+  patches: proposal.patches.map(patch => ({
+    path: patch.path,
+    changeType: patch.changeType,
+    diff: patch.diff
+  })),
+  resolvedAt: proposal.resolvedAt,
+  createdAt: proposal.createdAt
+});
+
+const loadProject = (req: AuthenticatedRequest, res: Response): Promise<IProject | null> =>
+  loadOwnedProject(req, res, { idParams: { fixId: 'fix' } });
+
+// Wrap a handler so fix, file edit and AI errors become JSON responses with their code
+const fixHandler = (handler: (req: AuthenticatedRequest, res: Response) => Promise<void>) =>
+  asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      await handler(req, res);
+    } catch (error) {
+      if (error instanceof FixError) {
+        res.status(FIX_ERROR_STATUS[error.code]).json({ error: error.message, code: error.code });
+      } else if (error instanceof FileEditError) {
+        res.status(FILE_EDIT_ERROR_STATUS[error.code]).json({ error: error.message, code: error.code });
+      } else if ((error as Error)?.name === 'AIServiceError') {
+        const aiError = error as { message: string; code: string; statusCode?: number };
+        res.status(aiError.statusCode || 503).json({ error: aiError.message, code: aiError.code });
+      } else {
+        throw error;
+      }
+    }
+  });
+
+// Propose fix endpoint
+router.post('/fix', requireScope('projects:generate'), fixHandler(async (req, res) => {
+  const { error, value } = fixSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const project = await loadProject(req, res);
+  if (!project) return;
+
+  const proposal = await getFixService().propose(project, value, req.user!.id);
+  // Describing an issue to the AI is the user's conversation with it
+  getSessionTracker().record(project._id.toString(), 'chatMessages');
+
+  res.status(201).json({
+    message: proposal.patches.length > 0
+      ? 'Fix proposed successfully'
+      : 'No file changes were proposed',
+    proposal: serializeProposal(proposal)
+  });
+}));
+
+// Get fix proposal endpoint
+router.get('/fixes/:fixId', requireScope('projects:read'), fixHandler(async (req, res) => {
+  const project = await loadProject(req, res);
+  if (!project) return;
+
+  const proposal = await getFixService().getProposal(project, req.params.fixId);
+
+  res.json({ proposal: serializeProposal(proposal) });
+}));
+
+// Accept fix proposal endpoint
+router.post('/fixes/:fixId/accept', requireScope('projects:write'), fixHandler(async (req, res) => {
+  const project = await loadProject(req, res);
+  if (!project) return;
+
+  const proposal = await getFixService().accept(project, req.params.fixId, req.user?.email || 'unknown');
+  getSessionTracker().record(project._id.toString(), 'aiFixesUsed');
+
+  res.json({
+    message: 'Fix applied successfully',
+    proposal: serializeProposal(proposal),
+    aiFixesUsed: project.analytics.aiFixesUsed
+  });
+}));
+
+// Reject fix proposal endpoint
+router.post('/fixes/:fixId/reject', requireScope('projects:write'), fixHandler(async (req, res) => {
+  const project = await loadProject(req, res);
+  if (!project) return;
+
+  const proposal = await getFixService().reject(project, req.params.fixId);
+
+  res.json({
+    message: 'Fix rejected',
+    proposal: serializeProposal(proposal)
+  });
+}));
+
+export default router;
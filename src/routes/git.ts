@@ -0,0 +1,88 @@
+import express, { NextFunction, Request, Response } from 'express';
+import mongoose from 'mongoose';
+import zlib from 'zlib';
+import { Project } from '@/models/Project';
+import { AuthenticatedRequest, authMiddleware, requireScope } from '@/middleware/auth';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { getGitRepositoryService } from '@/services/git/repository';
+
+// Read-only smart HTTP transport for the per-project repositories.
+// Mounted at /api/projects/:id/repository.git so it can be used directly as a clone URL.
+const router = express.Router({ mergeParams: true });
+
+/**
+ * Git clients only send credentials as HTTP Basic auth. The password (an access token
+ * or API key) is moved to a bearer token so the regular auth middleware can check it.
+ */
+const basicCredentials = (req: Request, res: Response, next: NextFunction): void => {
+  res.setHeader('WWW-Authenticate', 'Basic realm="BackendForge"');
+
+  const header = req.header('Authorization');
+  if (header?.startsWith('Basic ')) {
+    const decoded = Buffer.from(header.slice('Basic '.length), 'base64').toString('utf8');
+    const password = decoded.slice(decoded.indexOf(':') + 1);
+    req.headers.authorization = `Bearer ${password}`;
+  }
+
+  next();
+};
+
+const packetLine = (line: string): string => `${(line.length + 4).toString(16).padStart(4, '0')}${line}`;
+
+router.use(basicCredentials, authMiddleware, requireScope('projects:read'));
+
+router.use(asyncHandler(async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(400).json({ error: 'Invalid project ID' });
+    return;
+  }
+
+  const project = await Project.findOne({ _id: req.params.id, userId: req.user?.id }).select('_id');
+  if (!project || !await getGitRepositoryService().exists(req.params.id)) {
+    res.status(404).json({ error: 'Repository not found', code: 'REPOSITORY_NOT_FOUND' });
+    return;
+  }
+
+  next();
+}));
+
+router.get('/info/refs', (req: AuthenticatedRequest, res: Response): void => {
+  if (req.query.service !== 'git-upload-pack') {
+    res.status(403).json({
+      error: 'Only git-upload-pack is supported; repositories are read-only',
+      code: 'GIT_SERVICE_NOT_SUPPORTED'
+    });
+    return;
+  }
+
+  const uploadPack = getGitRepositoryService().uploadPack(req.params.id, { advertiseRefs: true });
+  uploadPack.on('error', error => res.destroy(error));
+
+  res.setHeader('Content-Type', 'application/x-git-upload-pack-advertisement');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.write(`${packetLine('# service=git-upload-pack\n')}0000`);
+  uploadPack.stdout.pipe(res);
+  uploadPack.stdin.end();
+});
+
+router.post('/git-upload-pack', (req: AuthenticatedRequest, res: Response): void => {
+  const uploadPack = getGitRepositoryService().uploadPack(req.params.id);
+  uploadPack.on('error', error => res.destroy(error));
+
+  res.setHeader('Content-Type', 'application/x-git-upload-pack-result');
+  res.setHeader('Cache-Control', 'no-cache');
+  uploadPack.stdout.pipe(res);
+
+  const body = req.header('Content-Encoding') === 'gzip' ? req.pipe(zlib.createGunzip()) : req;
+  body.on('error', () => uploadPack.kill());
+  body.pipe(uploadPack.stdin);
+});
+
+router.post('/git-receive-pack', (req: Request, res: Response): void => {
+  res.status(403).json({
+    error: 'Only git-upload-pack is supported; repositories are read-only',
+    code: 'GIT_SERVICE_NOT_SUPPORTED'
+  });
+});
+
+export default router;
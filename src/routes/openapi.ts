@@ -0,0 +1,53 @@
+import express, { Response } from 'express';
+import { IProject } from '@/models/Project';
+import { AuthenticatedRequest, requireScope } from '@/middleware/auth';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { loadOwnedProject } from '@/middleware/projects';
+import { buildOpenApiDocument, getStoredApiDocument, validateOpenApiDocument, OpenApiDocument } from '@/services/openapi/document';
+import { renderOpenApiViewer } from '@/services/openapi/viewer';
+import { getSessionTracker } from '@/services/analytics/sessions';
+
+// Mounted at /api/projects/:id
+const router = express.Router({ mergeParams: true });
+
+/**
+ * The stored document; projects generated before it was stored get one built on the fly
+ */
+const loadDocument = (project: IProject, res: Response): OpenApiDocument | null => {
+  const stored = getStoredApiDocument(project);
+  if (stored) return stored;
+
+  const document = buildOpenApiDocument(project);
+  const errors = validateOpenApiDocument(document);
+  if (errors.length > 0) {
+    res.status(500).json({ error: 'Generated OpenAPI document is invalid', code: 'INVALID_DOCUMENT', errors });
+    return null;
+  }
+  return document;
+};
+
+// OpenAPI document endpoint
+router.get('/openapi.json', requireScope('projects:read'), asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const project = await loadOwnedProject(req, res);
+  if (!project) return;
+
+  const document = loadDocument(project, res);
+  if (!document) return;
+
+  getSessionTracker().record(project._id.toString(), 'documentationViews');
+  res.json(document);
+}));
+
+// Rendered API documentation endpoint
+router.get('/openapi', requireScope('projects:read'), asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const project = await loadOwnedProject(req, res);
+  if (!project) return;
+
+  const document = loadDocument(project, res);
+  if (!document) return;
+
+  getSessionTracker().record(project._id.toString(), 'documentationViews');
+  res.type('html').send(renderOpenApiViewer(document, `/api/projects/${project._id}/openapi.json`));
+}));
+
+export default router;
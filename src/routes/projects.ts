@@ -0,0 +1,601 @@
+import express, { Response } from 'express';
+import mongoose from 'mongoose';
+import Joi from 'joi';
+import { Project, PROJECT_STATUSES } from '@/models/Project';
+import { User } from '@/models/User';
+import { AuthenticatedRequest, requireScope } from '@/middleware/auth';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { GenerationOrchestrator } from '@/services/generation';
+import {
+  ARCHIVE_FORMATS,
+  ARCHIVE_CONTENT_TYPES,
+  ArchiveFormat,
+  createProjectArchive,
+  slugify
+} from '@/services/export/archive';
+import { getGitRepositoryService } from '@/services/git/repository';
+import { checkRemote } from '@/services/git/remotes';
+import { GitSyncError, GitSyncErrorCode, GitSyncService } from '@/services/git/sync';
+import { encryptSecret } from '@/services/git/secrets';
+import { getTestRunnerService } from '@/services/testing/runner';
+
+const router = express.Router();
+
+// Validation schemas
+const techStackSchema = Joi.object({
+  language: Joi.string().trim().required().messages({
+    'any.required': 'Programming language is required'
+  }),
+  framework: Joi.string().trim().required().messages({
+    'any.required': 'Framework is required'
+  }),
+  database: Joi.string().trim().required().messages({
+    'any.required': 'Database is required'
+  }),
+  additionalTools: Joi.array().items(Joi.string().trim()).default([])
+});
+
+const createProjectSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .max(100)
+    .required()
+    .messages({
+      'string.max': 'Project name cannot exceed 100 characters',
+      'any.required': 'Project name is required'
+    }),
+  description: Joi.string()
+    .trim()
+    .max(1000)
+    .required()
+    .messages({
+      'string.max': 'Project description cannot exceed 1000 characters',
+      'any.required': 'Project description is required'
+    }),
+  // Defaults to the user's preferred stack
+  techStack: techStackSchema
+});
+
+const updateProjectSchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .max(100)
+    .messages({
+      'string.max': 'Project name cannot exceed 100 characters'
+    }),
+  description: Joi.string()
+    .trim()
+    .max(1000)
+    .messages({
+      'string.max': 'Project description cannot exceed 1000 characters'
+    }),
+  techStack: techStackSchema,
+  status: Joi.string()
+    .valid(...PROJECT_STATUSES)
+    .messages({
+      'any.only': `Status must be one of: ${PROJECT_STATUSES.join(', ')}`
+    }),
+  statusReason: Joi.string()
+    .trim()
+    .max(200)
+    .messages({
+      'string.max': 'Status reason cannot exceed 200 characters'
+    })
+}).min(1).with('statusReason', 'status').messages({
+  'object.min': 'At least one field must be provided',
+  'object.with': 'Status reason requires a status'
+});
+
+const listProjectsSchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  status: Joi.string()
+    .valid(...PROJECT_STATUSES)
+    .messages({
+      'any.only': `Status must be one of: ${PROJECT_STATUSES.join(', ')}`
+    }),
+  language: Joi.string().trim()
+});
+
+const gitRemoteSchema = Joi.object({
+  repoUrl: Joi.string()
+    .trim()
+    .uri({ scheme: ['http', 'https', 'file'] })
+    .custom((value: string, helpers) => new URL(value).username ? helpers.error('string.credentials') : value)
+    .required()
+    .messages({
+      'string.uriCustomScheme': 'Repository URL must be an http(s) or file URL',
+      'string.credentials': 'Repository URL must not contain credentials; use the credentials field',
+      'any.required': 'Repository URL is required'
+    }),
+  branch: Joi.string()
+    .trim()
+    .max(100)
+    .pattern(/^(?!\/|.*\.\.)(?!.*\/$)[\w./-]+$/)
+    .messages({
+      'string.pattern.base': 'Branch must be a valid git branch name'
+    }),
+  credentials: Joi.object({
+    username: Joi.string().trim().max(200),
+    token: Joi.string().required().messages({
+      'any.required': 'Credential token is required'
+    })
+  }).allow(null)
+});
+
+const GIT_SYNC_ERROR_STATUS: Record<GitSyncErrorCode, number> = {
+  REMOTE_NOT_CONFIGURED: 409,
+  REMOTE_NOT_ALLOWED: 400,
+  CREDENTIALS_UNREADABLE: 409,
+  PUSH_FAILED: 502
+};
+
+const generateProjectSchema = Joi.object({
+  mode: Joi.string()
+    .valid('standard', 'tdd')
+    .default('standard')
+    .messages({
+      'any.only': 'Mode must be one of: standard, tdd'
+    }),
+  maxFixAttempts: Joi.number()
+    .integer()
+    .min(0)
+    .max(10)
+    .messages({
+      'number.max': 'Max fix attempts cannot exceed 10'
+    })
+});
+
+const exportProjectSchema = Joi.object({
+  format: Joi.string()
+    .valid(...ARCHIVE_FORMATS)
+    .default('zip')
+    .messages({
+      'any.only': `Format must be one of: ${ARCHIVE_FORMATS.join(', ')}`
+    })
+});
+
+// Create project endpoint
+router.post('/', requireScope('projects:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  // Validate input
+  const { error, value } = createProjectSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const user = await User.findById(req.user?.id);
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+
+  // Enforce the per-user project quota
+  const projectCount = await Project.countDocuments({ userId: user._id });
+  if (projectCount >= user.settings.maxProjects) {
+    res.status(403).json({
+      error: `Project limit reached. You can have at most ${user.settings.maxProjects} projects.`,
+      code: 'PROJECT_LIMIT_REACHED'
+    });
+    return;
+  }
+
+  // The project stack is what generation passes to the tech stack recommendation as preferences
+  const defaultTechStack = user.preferences.defaultTechStack;
+  const techStack = value.techStack || (defaultTechStack && {
+    language: defaultTechStack.language,
+    framework: defaultTechStack.framework,
+    database: defaultTechStack.database,
+    additionalTools: []
+  });
+  if (!techStack) {
+    res.status(400).json({
+      error: 'Tech stack is required',
+      field: 'techStack'
+    });
+    return;
+  }
+
+  const project = new Project({
+    userId: user._id,
+    name: value.name,
+    description: value.description,
+    techStack
+  });
+
+  project.addChangeHistory({
+    changeType: 'created',
+    description: `Project "${project.name}" created`,
+    author: user.email
+  });
+
+  await project.save();
+
+  await User.updateOne({ _id: user._id }, { $addToSet: { projects: project._id } });
+
+  res.status(201).json({
+    message: 'Project created successfully',
+    project
+  });
+}));
+
+// List projects endpoint
+router.get('/', requireScope('projects:read'), asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { error, value } = listProjectsSchema.validate(req.query);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const { page, limit, status, language } = value;
+
+  const filter: Record<string, unknown> = { userId: req.user?.id };
+  if (status) {
+    filter.status = status;
+  }
+  if (language) {
+    filter['techStack.language'] = language;
+  }
+
+  const [projects, total] = await Promise.all([
+    Project.find(filter)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    Project.countDocuments(filter)
+  ]);
+
+  res.json({
+    projects,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  });
+}));
+
+// Get project endpoint
+router.get('/:id', requireScope('projects:read'), asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(400).json({ error: 'Invalid project ID' });
+    return;
+  }
+
+  const project = await Project.findOne({ _id: req.params.id, userId: req.user?.id });
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  res.json({ project });
+}));
+
+// Update project endpoint
+router.patch('/:id', requireScope('projects:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(400).json({ error: 'Invalid project ID' });
+    return;
+  }
+
+  const { error, value } = updateProjectSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const project = await Project.findOne({ _id: req.params.id, userId: req.user?.id });
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  const { status, statusReason, ...changes } = value;
+  project.set(changes);
+  if (status) {
+    project.setStatus(status, statusReason || `Status changed by ${req.user?.email || 'unknown'}`);
+  }
+
+  project.addChangeHistory({
+    changeType: 'updated',
+    description: `Project updated: ${Object.keys(value).filter(key => key !== 'statusReason').join(', ')}`,
+    author: req.user?.email || 'unknown'
+  });
+
+  await project.save();
+
+  res.json({
+    message: 'Project updated successfully',
+    project
+  });
+}));
+
+// Delete project endpoint
+router.delete('/:id', requireScope('projects:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(400).json({ error: 'Invalid project ID' });
+    return;
+  }
+
+  const project = await Project.findOne({ _id: req.params.id, userId: req.user?.id });
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  await project.deleteOne();
+  await User.updateOne({ _id: project.userId }, { $pull: { projects: project._id } });
+
+  try {
+    await getGitRepositoryService().removeRepository(project._id.toString());
+  } catch (error) {
+    console.error(`Failed to remove repository for project ${project._id}:`, error);
+  }
+
+  res.json({ message: 'Project deleted successfully' });
+}));
+
+// Start code generation endpoint
+router.post('/:id/generate', requireScope('projects:generate'), asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { error, value } = generateProjectSchema.validate(req.body || {});
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(400).json({ error: 'Invalid project ID' });
+    return;
+  }
+
+  const project = await Project.findOne({ _id: req.params.id, userId: req.user?.id });
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  let orchestrator: GenerationOrchestrator;
+  try {
+    orchestrator = new GenerationOrchestrator();
+  } catch (error) {
+    res.status(503).json({
+      error: 'AI service unavailable',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return;
+  }
+
+  // Claim the project in one step, from the status just read, so concurrent requests or
+  // status changes can't both go through
+  const testRunner = getTestRunnerService();
+  const claimed = await Project.findOneAndUpdate(
+    { _id: project._id, status: { $eq: project.status, $ne: 'generating' }, ...testRunner.idleCondition() },
+    {
+      $set: { status: 'generating' },
+      $push: {
+        statusTimeline: {
+          $each: [{ from: project.status, to: 'generating', reason: 'Generation started', timestamp: new Date() }],
+          $slice: -100
+        }
+      }
+    },
+    { new: true }
+  );
+
+  if (!claimed) {
+    const current = await Project.findById(project._id).select('status testRunStartedAt');
+    const testsRunning = !!current && current.status !== 'generating' && testRunner.isRunning(current);
+
+    res.status(409).json(testsRunning
+      ? { error: 'Tests are running for this project', code: 'TEST_RUN_IN_PROGRESS' }
+      : { error: 'Project generation is already in progress', code: 'GENERATION_IN_PROGRESS' });
+    return;
+  }
+
+  // Generation runs in the background on the claimed copy; clients follow the project status
+  orchestrator.generateProject(claimed, {
+    author: req.user?.email,
+    mode: value.mode,
+    maxFixAttempts: value.maxFixAttempts
+  }).catch(error => {
+    console.error(`Generation failed for project ${project._id}:`, error);
+  });
+
+  res.status(202).json({
+    message: 'Project generation started',
+    mode: value.mode,
+    project: {
+      id: claimed._id,
+      status: claimed.status
+    }
+  });
+}));
+
+// Project repository endpoint
+router.get('/:id/repository', requireScope('projects:read'), asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(400).json({ error: 'Invalid project ID' });
+    return;
+  }
+
+  const project = await Project.findOne({ _id: req.params.id, userId: req.user?.id });
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  const repositories = getGitRepositoryService();
+  if (!await repositories.exists(project._id.toString())) {
+    res.status(404).json({
+      error: 'Project has no repository yet; it is created by the first generation',
+      code: 'REPOSITORY_NOT_FOUND'
+    });
+    return;
+  }
+
+  res.json({
+    repository: {
+      branch: project.gitIntegration.branch,
+      lastCommit: project.gitIntegration.lastCommit,
+      lastSyncAt: project.gitIntegration.lastSyncAt,
+      cloneUrl: `${req.protocol}://${req.get('host')}/api/projects/${project._id}/repository.git`
+    }
+  });
+}));
+
+// Configure remote git repository endpoint
+router.put('/:id/git', requireScope('projects:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(400).json({ error: 'Invalid project ID' });
+    return;
+  }
+
+  const { error, value } = gitRemoteSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const project = await Project.findOne({ _id: req.params.id, userId: req.user?.id });
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  const remote = await checkRemote(value.repoUrl, {
+    ownRepository: getGitRepositoryService().repositoryPath(project._id.toString())
+  });
+  if (!remote.allowed) {
+    res.status(400).json({
+      error: remote.reason,
+      code: 'REMOTE_NOT_ALLOWED',
+      field: 'repoUrl'
+    });
+    return;
+  }
+
+  project.gitIntegration.repoUrl = value.repoUrl;
+  if (value.branch) {
+    project.gitIntegration.branch = value.branch;
+  }
+  // Omitting credentials keeps the stored ones; null removes them
+  if (value.credentials === null) {
+    project.gitIntegration.credentials = undefined;
+  } else if (value.credentials) {
+    project.gitIntegration.credentials = {
+      username: value.credentials.username,
+      token: encryptSecret(value.credentials.token)
+    };
+  }
+
+  project.addChangeHistory({
+    changeType: 'updated',
+    description: `Remote repository set to ${value.repoUrl}`,
+    author: req.user?.email || 'unknown'
+  });
+  await project.save();
+
+  res.json({
+    message: 'Remote repository configured successfully',
+    gitIntegration: project.toJSON().gitIntegration
+  });
+}));
+
+// Push project to its remote git repository endpoint
+router.post('/:id/sync', requireScope('projects:write'), asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(400).json({ error: 'Invalid project ID' });
+    return;
+  }
+
+  const project = await Project.findOne({ _id: req.params.id, userId: req.user?.id });
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  try {
+    const sync = await new GitSyncService().sync(project, req.user?.email || 'unknown');
+    await project.save();
+
+    res.json({
+      message: sync.conflict
+        ? `Remote branch has diverged; pushed to ${sync.branch} instead`
+        : 'Project pushed successfully',
+      sync
+    });
+  } catch (error) {
+    if (!(error instanceof GitSyncError)) throw error;
+
+    // Failed pushes are recorded in the change history too
+    if (error.code === 'PUSH_FAILED') {
+      await project.save();
+    }
+
+    res.status(GIT_SYNC_ERROR_STATUS[error.code]).json({
+      error: error.message,
+      code: error.code
+    });
+  }
+}));
+
+// Export project archive endpoint
+router.get('/:id/export', requireScope('projects:read'), asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    res.status(400).json({ error: 'Invalid project ID' });
+    return;
+  }
+
+  const { error, value } = exportProjectSchema.validate(req.query);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const project = await Project.findOne({ _id: req.params.id, userId: req.user?.id });
+  if (!project) {
+    res.status(404).json({ error: 'Project not found' });
+    return;
+  }
+
+  if (project.generatedCode.files.length === 0) {
+    res.status(409).json({
+      error: 'Project has no generated files to export',
+      code: 'NOTHING_TO_EXPORT'
+    });
+    return;
+  }
+
+  const format = value.format as ArchiveFormat;
+  const archive = createProjectArchive(project, format);
+
+  archive.on('error', archiveError => {
+    console.error(`Export failed for project ${project._id}:`, archiveError);
+    res.destroy(archiveError);
+  });
+
+  res.setHeader('Content-Type', ARCHIVE_CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${slugify(project.name)}.${format}"`);
+  archive.pipe(res);
+}));
+
+export default router;
@@ -0,0 +1,26 @@
+import express, { Response } from 'express';
+import { AuthenticatedRequest, requireScope } from '@/middleware/auth';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { loadOwnedProject } from '@/middleware/projects';
+import { analyzeCodeQuality } from '@/services/quality/analyzer';
+
+// Mounted at /api/projects/:id/quality
+const router = express.Router({ mergeParams: true });
+
+// Code quality endpoint (project metrics with per-file breakdown)
+router.get('/', requireScope('projects:read'), asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const project = await loadOwnedProject(req, res);
+  if (!project) return;
+
+  const report = analyzeCodeQuality(project.generatedCode.files);
+
+  res.json({
+    metrics: {
+      ...report.metrics,
+      testCoverage: project.analytics.codeQuality.testCoverage
+    },
+    files: report.files
+  });
+}));
+
+export default router;
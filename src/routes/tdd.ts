@@ -0,0 +1,89 @@
+import express, { Response } from 'express';
+import Joi from 'joi';
+import { IProject } from '@/models/Project';
+import { ITddIteration } from '@/models/TddIteration';
+import { AuthenticatedRequest, requireScope } from '@/middleware/auth';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { loadOwnedProject } from '@/middleware/projects';
+import { TddJournal } from '@/services/generation/journal';
+
+// Mounted at /api/projects/:id/tdd
+const router = express.Router({ mergeParams: true });
+
+const journal = new TddJournal();
+
+const listIterationsSchema = Joi.object({
+  runId: Joi.string().trim().max(100),
+  // Replay a single file: only iterations that changed it, with its content and diff
+  path: Joi.string().trim().max(500)
+});
+
+const serializeIteration = (iteration: ITddIteration, path?: string) => ({
+  sequence: iteration.sequence,
+  component: iteration.component,
+  phase: iteration.phase,
+  attempt: iteration.attempt,
+  changes: iteration.changes
+    .filter(change => !path || change.path === path)
+    .map(change => (path ? change : { path: change.path, changeType: change.changeType })),
+  testRun: iteration.testRun,
+  createdAt: iteration.createdAt
+});
+
+const loadProject = (req: AuthenticatedRequest, res: Response): Promise<IProject | null> =>
+  loadOwnedProject(req, res, { select: '_id' });
+
+// List TDD iterations endpoint
+router.get('/', requireScope('projects:read'), asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { error, value } = listIterationsSchema.validate(req.query);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const project = await loadProject(req, res);
+  if (!project) return;
+
+  const projectId = project._id.toString();
+  const runId = value.runId || await journal.latestRunId(projectId);
+  const iterations = runId ? await journal.list(projectId, runId, value.path) : [];
+
+  res.json({
+    runId,
+    iterations: iterations.map(iteration => serializeIteration(iteration, value.path))
+  });
+}));
+
+// Get TDD iteration endpoint (with file contents and diffs)
+router.get('/:sequence', requireScope('projects:read'), asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const sequence = Number(req.params.sequence);
+  if (!Number.isInteger(sequence) || sequence < 1) {
+    res.status(400).json({ error: 'Invalid iteration' });
+    return;
+  }
+
+  const project = await loadProject(req, res);
+  if (!project) return;
+
+  const projectId = project._id.toString();
+  const runId = typeof req.query.runId === 'string' ? req.query.runId : await journal.latestRunId(projectId);
+  const iteration = runId ? await journal.get(projectId, runId, sequence) : null;
+
+  if (!iteration) {
+    res.status(404).json({ error: 'Iteration not found', code: 'ITERATION_NOT_FOUND' });
+    return;
+  }
+
+  res.json({
+    runId,
+    iteration: {
+      ...serializeIteration(iteration),
+      changes: iteration.changes
+    }
+  });
+}));
+
+export default router;
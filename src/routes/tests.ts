@@ -0,0 +1,63 @@
+import express, { Response } from 'express';
+import { AuthenticatedRequest, requireScope } from '@/middleware/auth';
+import { asyncHandler } from '@/middleware/errorHandler';
+import { loadOwnedProject } from '@/middleware/projects';
+import { getTestRunnerService, TestRunError, TestRunErrorCode } from '@/services/testing/runner';
+import { getSessionTracker } from '@/services/analytics/sessions';
+
+// Mounted at /api/projects/:id/tests
+const router = express.Router({ mergeParams: true });
+
+const TEST_RUN_ERROR_STATUS: Record<TestRunErrorCode, number> = {
+  UNSUPPORTED_STACK: 422,
+  NO_TESTS: 422,
+  RUN_IN_PROGRESS: 409,
+  GENERATION_IN_PROGRESS: 409,
+  SANDBOX_UNAVAILABLE: 503
+};
+
+// Latest test results endpoint
+router.get('/', requireScope('projects:read'), asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const project = await loadOwnedProject(req, res);
+  if (!project) return;
+
+  res.json({
+    running: getTestRunnerService().isRunning(project),
+    testRun: project.lastTestRun || null,
+    testRunsExecuted: project.analytics.testRunsExecuted
+  });
+}));
+
+// Run tests endpoint
+router.post('/run', requireScope('projects:generate'), asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const project = await loadOwnedProject(req, res);
+  if (!project) return;
+
+  const runner = getTestRunnerService();
+  try {
+    await runner.claimRun(project);
+  } catch (error) {
+    if (!(error instanceof TestRunError)) throw error;
+
+    res.status(TEST_RUN_ERROR_STATUS[error.code]).json({
+      error: error.message,
+      code: error.code
+    });
+    return;
+  }
+
+  // Tests run in the background; clients follow tests:status events or the latest results
+  const projectId = project._id.toString();
+  runner.runProject(project)
+    .then(testRun => getSessionTracker().recordTestRun(projectId, testRun))
+    .catch(error => {
+      console.error(`Test run failed for project ${projectId}:`, error);
+    });
+
+  res.status(202).json({
+    message: 'Test run started',
+    startedAt: project.testRunStartedAt
+  });
+}));
+
+export default router;
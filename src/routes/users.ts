@@ -0,0 +1,243 @@
+import express, { Response } from 'express';
+import Joi from 'joi';
+import { User, THEMES } from '@/models/User';
+import { AuthenticatedRequest, accountAuthMiddleware, requireSession } from '@/middleware/auth';
+import { asyncHandler } from '@/middleware/errorHandler';
+import {
+  USER_DATA_FORMATS,
+  UserDataFormat,
+  collectUserData,
+  createUserDataArchive,
+  serializeUserData
+} from '@/services/privacy/export';
+import { getAccountDeletionService } from '@/services/privacy/deletion';
+import { UsageLedger } from '@/services/ai/ledger';
+
+const router = express.Router();
+
+const ledger = new UsageLedger();
+
+// Preferences, exporting and deleting an account are for the account holder, not for
+// API keys. Unverified users can still take their data and leave.
+router.use(accountAuthMiddleware, requireSession);
+
+// Validation schemas
+const techStackFieldSchema = (label: string) => Joi.string()
+  .trim()
+  .min(1)
+  .max(50)
+  .messages({
+    'string.empty': `${label} cannot be empty`,
+    'string.max': `${label} cannot exceed 50 characters`
+  });
+
+const updatePreferencesSchema = Joi.object({
+  defaultTechStack: Joi.object({
+    language: techStackFieldSchema('Language'),
+    framework: techStackFieldSchema('Framework'),
+    database: techStackFieldSchema('Database')
+  }).min(1),
+  theme: Joi.string()
+    .valid(...THEMES)
+    .messages({
+      'any.only': `Theme must be one of: ${THEMES.join(', ')}`
+    }),
+  notifications: Joi.object({
+    email: Joi.boolean(),
+    push: Joi.boolean()
+  }).min(1)
+}).min(1).messages({
+  'object.min': 'At least one preference must be provided'
+});
+
+const budgetSchema = (label: string) => Joi.number()
+  .min(0)
+  .max(1000000)
+  .allow(null)
+  .messages({
+    'number.base': `${label} must be a number of USD or null`,
+    'number.min': `${label} cannot be negative`,
+    'number.max': `${label} cannot exceed 1000000`
+  });
+
+// null removes a budget
+const updateBudgetsSchema = Joi.object({
+  dailyBudget: budgetSchema('Daily budget'),
+  monthlyBudget: budgetSchema('Monthly budget')
+}).min(1).messages({
+  'object.min': 'At least one budget must be provided'
+});
+
+const exportDataSchema = Joi.object({
+  format: Joi.string()
+    .valid(...USER_DATA_FORMATS)
+    .default('zip')
+    .messages({
+      'any.only': `Format must be one of: ${USER_DATA_FORMATS.join(', ')}`
+    })
+});
+
+const deleteAccountSchema = Joi.object({
+  password: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'Password is required to delete the account'
+    })
+});
+
+// Get preferences endpoint
+router.get('/me/preferences', asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const user = await User.findById(req.user?.id).select('preferences');
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+
+  res.json({ preferences: user.preferences });
+}));
+
+// Update preferences endpoint; only the given fields change
+router.patch('/me/preferences', asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { error, value } = updatePreferencesSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const update: Record<string, unknown> = {};
+  for (const [section, fields] of Object.entries(value)) {
+    if (typeof fields === 'object') {
+      for (const [field, fieldValue] of Object.entries(fields as object)) {
+        update[`preferences.${section}.${field}`] = fieldValue;
+      }
+    } else {
+      update[`preferences.${section}`] = fields;
+    }
+  }
+
+  const user = await User.findByIdAndUpdate(
+    req.user?.id,
+    { $set: update },
+    { new: true, runValidators: true }
+  ).select('preferences');
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+
+  res.json({
+    message: 'Preferences updated successfully',
+    preferences: user.preferences
+  });
+}));
+
+// AI usage and budgets for the current day and month endpoint
+router.get('/me/budget', asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  res.json({ usage: await ledger.getReport(req.user!.id) });
+}));
+
+// Set AI budgets endpoint; AI requests are refused once a budget is spent
+router.patch('/me/budget', asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { error, value } = updateBudgetsSchema.validate(req.body);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const update = Object.fromEntries(
+    Object.entries(value).map(([field, budget]) => [`settings.${field}`, budget])
+  );
+
+  const user = await User.findByIdAndUpdate(
+    req.user?.id,
+    { $set: update },
+    { new: true, runValidators: true }
+  ).select('_id');
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+
+  res.json({
+    message: 'Budgets updated successfully',
+    usage: await ledger.getReport(req.user!.id)
+  });
+}));
+
+// Export all of the user's data endpoint
+router.get('/me/export', asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { error, value } = exportDataSchema.validate(req.query);
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const data = await collectUserData(req.user!.id);
+  if (!data) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+
+  const format = value.format as UserDataFormat;
+  const exportedAt = new Date();
+  const filename = `backendforge-data-${exportedAt.toISOString().slice(0, 10)}.${format}`;
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  if (format === 'json') {
+    res.json(serializeUserData(data, exportedAt));
+    return;
+  }
+
+  const archive = createUserDataArchive(data, exportedAt);
+  archive.on('error', archiveError => {
+    console.error(`Data export failed for user ${req.user?.id}:`, archiveError);
+    res.destroy(archiveError);
+  });
+
+  res.setHeader('Content-Type', 'application/zip');
+  archive.pipe(res);
+}));
+
+// Delete account endpoint
+router.delete('/me', asyncHandler(async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  const { error, value } = deleteAccountSchema.validate(req.body || {});
+  if (error) {
+    res.status(400).json({
+      error: error.details[0].message,
+      field: error.details[0].path[0]
+    });
+    return;
+  }
+
+  const user = await User.findById(req.user?.id);
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+
+  if (!await user.comparePassword(value.password)) {
+    res.status(401).json({
+      error: 'Password is incorrect',
+      field: 'password'
+    });
+    return;
+  }
+
+  await getAccountDeletionService().scheduleDeletion(user);
+
+  res.status(202).json({
+    message: 'Account deleted. It will be permanently removed after the grace period',
+    deletionScheduledFor: user.deletionScheduledFor
+  });
+}));
+
+export default router;
@@ -1,5 +1,5 @@
 import { getAIService } from './service';
-import { GenerationTask, AIResponse } from './types';
+import { GenerationTask, AIResponse, UsageContext } from './types';
 import { AIServiceClient } from './client';
 
 export interface TechStack {
@@ -63,6 +63,7 @@ export interface TechStackRecommendationRequest {
   requirements: AnalysisResult;
   preferences?: Partial<TechStack>;
   scale?: 'small' | 'medium' | 'large' | 'enterprise';
+  context?: UsageContext;
 }
 
 export interface TechStackRecommendationResult {
@@ -79,11 +80,12 @@ export class DescriptionAnalysisService {
   /**
    * Analyze a natural language description to extract structured requirements
    */
-  async analyzeDescription(description: string): Promise<AnalysisResult> {
+  async analyzeDescription(description: string, context?: UsageContext): Promise<AnalysisResult> {
     try {
       const response = await this.aiService.generateWithTemplate(
         GenerationTask.ANALYZE_DESCRIPTION,
-        { description }
+        { description },
+        context && { context }
       );
 
       const analysisResult = this.parseAnalysisResponse(response.content);
@@ -104,7 +106,8 @@ export class DescriptionAnalysisService {
           requirements: JSON.stringify(request.requirements),
           preferences: JSON.stringify(request.preferences || {}),
           scale: request.scale || 'medium'
-        }
+        },
+        request.context && { context: request.context }
       );
 
       const recommendations = this.parseTechStackResponse(response.content);
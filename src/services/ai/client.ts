@@ -1,36 +1,43 @@
-import OpenAI from 'openai';
 import { 
   AIServiceConfig, 
   AIRequest, 
   AIResponse, 
+  AIStreamChunk,
   RateLimitInfo, 
   CostTrackingInfo, 
   AIServiceError,
-  GenerationTask 
+  GenerationTask,
+  ModelPricing
 } from './types';
 import { getPromptTemplate, renderPrompt } from './prompts';
+import { AIProvider, ProviderRequest, createProvider } from './providers';
+import { UsageLedger } from './ledger';
+import { resolvePricing } from './pricing';
 
 export class AIServiceClient {
-  private openai: OpenAI;
+  private provider: AIProvider;
+  private ledger: UsageLedger | null;
   private config: AIServiceConfig;
   private rateLimitInfo: RateLimitInfo;
   private costTracking: CostTrackingInfo;
   private requestQueue: Array<() => Promise<void>> = [];
   private isProcessingQueue = false;
+  private pricing: ModelPricing;
 
-  // Token costs per 1K tokens (approximate OpenAI pricing)
-  private readonly TOKEN_COSTS = {
-    'gpt-4': { input: 0.03, output: 0.06 },
-    'gpt-4-turbo': { input: 0.01, output: 0.03 },
-    'gpt-3.5-turbo': { input: 0.001, output: 0.002 }
-  };
-
-  constructor(config: AIServiceConfig) {
+  constructor(config: AIServiceConfig, provider?: AIProvider, ledger?: UsageLedger) {
     this.config = config;
-    this.openai = new OpenAI({
-      apiKey: config.apiKey,
-      timeout: config.timeout
-    });
+    this.provider = provider || createProvider(config);
+    this.ledger = ledger || null;
+
+    // Unpriced usage would slip past every budget, so such models are refused outright
+    const pricing = config.pricing || resolvePricing(this.provider.name, config.model);
+    if (!pricing) {
+      throw new Error(
+        `No pricing known for ${this.provider.name} model "${config.model}". `
+        + 'Set AI_PRICE_INPUT_PER_1K and AI_PRICE_OUTPUT_PER_1K.'
+      );
+    }
+    this.pricing = pricing;
 
     this.rateLimitInfo = {
       requestsPerMinute: 60, // Default OpenAI limit
@@ -60,11 +67,30 @@ export class AIServiceClient {
       prompt,
       systemMessage: template.systemMessage,
       maxTokens: options?.maxTokens || template.maxTokens,
-      temperature: options?.temperature || template.temperature
+      temperature: options?.temperature || template.temperature,
+      context: options?.context && { ...options.context, task }
+    });
+  }
+
+  async *generateStreamWithTemplate(
+    task: GenerationTask,
+    variables: Record<string, string>,
+    options?: Partial<AIRequest>
+  ): AsyncGenerator<AIStreamChunk, void, undefined> {
+    const template = getPromptTemplate(task);
+    const prompt = renderPrompt(template, variables);
+
+    yield* this.generateStream({
+      prompt,
+      systemMessage: template.systemMessage,
+      maxTokens: options?.maxTokens || template.maxTokens,
+      temperature: options?.temperature || template.temperature,
+      context: options?.context && { ...options.context, task }
     });
   }
 
   async generate(request: AIRequest): Promise<AIResponse> {
+    await this.enforceBudget(request);
     await this.enforceRateLimit(request);
     
     let lastError: AIServiceError | null = null;
@@ -72,7 +98,8 @@ export class AIServiceClient {
     for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
       try {
         const response = await this.makeRequest(request);
-        this.updateCostTracking(response);
+        const cost = this.updateCostTracking(response);
+        await this.recordUsage(request, response, cost);
         return response;
       } catch (error) {
         lastError = this.handleError(error as Error, attempt);
@@ -88,45 +115,114 @@ export class AIServiceClient {
     throw lastError;
   }
 
-  private async makeRequest(request: AIRequest): Promise<AIResponse> {
-    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
-    
-    if (request.systemMessage) {
-      messages.push({
-        role: 'system',
-        content: request.systemMessage
-      });
+  /**
+   * Stream a completion as content deltas followed by a final "done" chunk.
+   * Retries happen only until the first token arrives; after that errors are thrown as-is.
+   */
+  async *generateStream(request: AIRequest): AsyncGenerator<AIStreamChunk, void, undefined> {
+    await this.enforceBudget(request);
+    await this.enforceRateLimit(request);
+
+    let lastError: AIServiceError | null = null;
+
+    for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+      let receivedToken = false;
+
+      try {
+        let content = '';
+        let model = this.config.model;
+        let finishReason = 'unknown';
+        let usage: AIResponse['usage'] | null = null;
+
+        for await (const chunk of this.provider.stream(this.toProviderRequest(request))) {
+          model = chunk.model || model;
+
+          if (chunk.delta) {
+            receivedToken = true;
+            content += chunk.delta;
+            yield { type: 'delta', content: chunk.delta };
+          }
+
+          if (chunk.finishReason) {
+            finishReason = chunk.finishReason;
+          }
+
+          if (chunk.usage) {
+            usage = chunk.usage;
+          }
+        }
+
+        if (!content) {
+          throw new Error('No response content received from AI service');
+        }
+
+        // Fall back to an estimate when the provider does not report stream usage
+        if (!usage) {
+          const promptTokens = this.estimateTokens(request.prompt + (request.systemMessage || ''));
+          const completionTokens = this.estimateTokens(content);
+          usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+        }
+
+        const response: AIResponse = { content, usage, model, finishReason };
+        const cost = this.updateCostTracking(response);
+        await this.recordUsage(request, response, cost);
+        yield { type: 'done', response };
+        return;
+      } catch (error) {
+        lastError = this.handleError(error as Error, attempt);
+
+        // Deltas already reached the consumer, so a retry would duplicate output
+        if (receivedToken) {
+          lastError.retryable = false;
+        }
+
+        if (!lastError.retryable || attempt === this.config.maxRetries) {
+          throw lastError;
+        }
+
+        await this.delay(this.config.retryDelay * Math.pow(2, attempt - 1));
+      }
     }
-    
-    messages.push({
-      role: 'user',
-      content: request.prompt
-    });
 
-    const completion = await this.openai.chat.completions.create({
+    throw lastError;
+  }
+
+  private toProviderRequest(request: AIRequest): ProviderRequest {
+    return {
+      prompt: request.prompt,
+      systemMessage: request.systemMessage,
       model: this.config.model,
-      messages,
-      max_tokens: request.maxTokens || this.config.maxTokens,
-      temperature: request.temperature || this.config.temperature
-    }, {
+      maxTokens: request.maxTokens || this.config.maxTokens,
+      temperature: request.temperature || this.config.temperature,
       timeout: this.config.timeout
-    });
+    };
+  }
 
-    const choice = completion.choices[0];
-    if (!choice || !choice.message.content) {
-      throw new Error('No response content received from AI service');
+  private async makeRequest(request: AIRequest): Promise<AIResponse> {
+    return this.provider.complete(this.toProviderRequest(request));
+  }
+
+  private async enforceBudget(request: AIRequest): Promise<void> {
+    if (this.ledger && request.context) {
+      await this.ledger.assertWithinBudget(request.context.userId);
     }
+  }
 
-    return {
-      content: choice.message.content,
-      usage: {
-        promptTokens: completion.usage?.prompt_tokens || 0,
-        completionTokens: completion.usage?.completion_tokens || 0,
-        totalTokens: completion.usage?.total_tokens || 0
-      },
-      model: completion.model,
-      finishReason: choice.finish_reason || 'unknown'
-    };
+  private async recordUsage(request: AIRequest, response: AIResponse, cost: number): Promise<void> {
+    if (!this.ledger || !request.context) return;
+
+    try {
+      await this.ledger.record({
+        context: request.context,
+        provider: this.provider.name,
+        model: response.model,
+        usage: response.usage,
+        cost
+      });
+    } catch (error) {
+      // The completion already succeeded, so a ledger outage must not fail the request
+      console.error('Failed to record AI usage:', error);
+    }
   }
 
   private async enforceRateLimit(request: AIRequest): Promise<void> {
@@ -161,18 +257,17 @@ export class AIServiceClient {
     return Math.ceil(text.length / 4);
   }
 
-  private updateCostTracking(response: AIResponse): void {
-    const modelCosts = this.TOKEN_COSTS[this.config.model as keyof typeof this.TOKEN_COSTS];
-    if (!modelCosts) return;
-
-    const inputCost = (response.usage.promptTokens / 1000) * modelCosts.input;
-    const outputCost = (response.usage.completionTokens / 1000) * modelCosts.output;
+  private updateCostTracking(response: AIResponse): number {
+    const inputCost = (response.usage.promptTokens / 1000) * this.pricing.input;
+    const outputCost = (response.usage.completionTokens / 1000) * this.pricing.output;
     const totalCost = inputCost + outputCost;
 
     this.costTracking.totalCost += totalCost;
     this.costTracking.requestCount++;
     this.costTracking.tokenCount += response.usage.totalTokens;
     this.costTracking.lastUpdated = new Date();
+
+    return totalCost;
   }
 
   private handleError(error: Error, attempt: number): AIServiceError {
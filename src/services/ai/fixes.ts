@@ -0,0 +1,259 @@
+import { IProject, ICodeFile } from '@/models/Project';
+import { FixProposal, IFixProposal, IFilePatch } from '@/models/FixProposal';
+import { parseCodeOutput, CodeOutputError } from '@/services/generation/parser';
+import { ProjectFileService } from '@/services/files/editor';
+import { createUnifiedDiff } from '@/services/files/history';
+import { getAIService } from './service';
+import { AIServiceClient } from './client';
+import { GenerationTask } from './types';
+
+export type FixErrorCode =
+  | 'NOTHING_TO_FIX'
+  | 'FILE_NOT_FOUND'
+  | 'GENERATION_IN_PROGRESS'
+  | 'INVALID_AI_OUTPUT'
+  | 'PROPOSAL_NOT_FOUND'
+  | 'PROPOSAL_RESOLVED'
+  | 'NO_CHANGES_PROPOSED'
+  | 'STALE_PROPOSAL';
+
+export class FixError extends Error {
+  readonly code: FixErrorCode;
+
+  constructor(code: FixErrorCode, message: string) {
+    super(message);
+    this.name = 'FixError';
+    this.code = code;
+  }
+}
+
+export interface FixRequest {
+  issue: string;
+  stackTrace?: string;
+  expectedBehavior?: string;
+  // Paths that must be part of the code context
+  files?: string[];
+}
+
+const MAX_CONTEXT_FILES = 6;
+const MAX_CONTEXT_CHARS = 40000;
+const TEST_FILE_PATTERN = /\.(test|spec)\.\w+$/;
+
+const baseName = (filePath: string): string =>
+  (filePath.split('/').pop() || filePath).replace(TEST_FILE_PATTERN, '').replace(/\.\w+$/, '');
+
+/**
+ * Pick the files worth sending with an issue: requested paths first, then files named
+ * in the issue or stack trace, then files sharing identifiers with it. Tests for the
+ * chosen files are added while the size budget allows. Falls back to the first files
+ * of the project when nothing matches.
+ */
+export function selectRelevantFiles(files: ICodeFile[], request: FixRequest): ICodeFile[] {
+  const text = `${request.issue}\n${request.stackTrace || ''}`;
+  const words = [...new Set((text.match(/[A-Za-z_][A-Za-z0-9_]{3,}/g) || []).map(word => word.toLowerCase()))];
+
+  const score = (file: ICodeFile): number => {
+    if (request.files?.includes(file.path)) return 1000;
+
+    let total = 0;
+    if (text.includes(file.path)) total += 100;
+    if (words.includes(baseName(file.path).toLowerCase())) total += 50;
+
+    const content = file.content.toLowerCase();
+    total += words.filter(word => content.includes(word)).length;
+    return total;
+  };
+
+  const ranked = files
+    .map((file, index) => ({ file, index, score: score(file) }))
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(entry => entry.file);
+  const candidates = ranked.length > 0 ? ranked : files;
+
+  const selected: ICodeFile[] = [];
+  let size = 0;
+  const add = (file: ICodeFile): void => {
+    if (selected.includes(file) || selected.length >= MAX_CONTEXT_FILES) return;
+    if (selected.length > 0 && size + file.content.length > MAX_CONTEXT_CHARS) return;
+    selected.push(file);
+    size += file.content.length;
+  };
+
+  candidates.forEach(add);
+  for (const file of [...selected]) {
+    if (TEST_FILE_PATTERN.test(file.path)) continue;
+    files
+      .filter(candidate => TEST_FILE_PATTERN.test(candidate.path) && baseName(candidate.path) === baseName(file.path))
+      .forEach(add);
+  }
+
+  return selected;
+}
+
+/**
+ * Asks the AI to fix an issue in a project's files and stores the answer as a proposal
+ * of per-file patches. Nothing changes until the proposal is accepted; accepting applies
+ * all patches as one edit, provided the files still match what the patches were made from.
+ */
+export class IssueFixService {
+  private aiService: AIServiceClient;
+  private files: ProjectFileService;
+
+  constructor(aiService?: AIServiceClient, files?: ProjectFileService) {
+    this.aiService = aiService || getAIService();
+    this.files = files || new ProjectFileService();
+  }
+
+  async propose(project: IProject, request: FixRequest, userId: string): Promise<IFixProposal> {
+    this.assertNotGenerating(project);
+
+    const projectFiles = project.generatedCode.files;
+    if (projectFiles.length === 0) {
+      throw new FixError('NOTHING_TO_FIX', 'Project has no generated files to fix');
+    }
+
+    const missing = (request.files || []).filter(path => !projectFiles.some(file => file.path === path));
+    if (missing.length > 0) {
+      throw new FixError('FILE_NOT_FOUND', `File not found: ${missing.join(', ')}`);
+    }
+
+    const contextFiles = selectRelevantFiles(projectFiles, request);
+    const response = await this.aiService.generateWithTemplate(
+      GenerationTask.FIX_ISSUES,
+      {
+        issue: request.issue,
+        code: contextFiles.map(file => `// ${file.path}\n${file.content}`).join('\n\n'),
+        stackTrace: request.stackTrace || 'Not provided',
+        expectedBehavior: request.expectedBehavior || 'Not provided'
+      },
+      { context: { userId, projectId: project._id.toString() } }
+    );
+
+    let proposedFiles: ICodeFile[];
+    try {
+      proposedFiles = parseCodeOutput(response).files;
+    } catch (error) {
+      if (error instanceof CodeOutputError) {
+        throw new FixError('INVALID_AI_OUTPUT', error.message);
+      }
+      throw error;
+    }
+
+    const patches: IFilePatch[] = [];
+    for (const proposed of proposedFiles) {
+      const existing = projectFiles.find(file => file.path === proposed.path);
+      if (existing?.content === proposed.content) continue;
+
+      patches.push({
+        path: proposed.path,
+        changeType: existing ? 'updated' : 'created',
+        before: existing?.content ?? '',
+        after: proposed.content,
+        diff: createUnifiedDiff({ path: proposed.path, before: existing ? existing.content : null, after: proposed.content })
+      });
+    }
+
+    return FixProposal.create({
+      projectId: project._id,
+      userId,
+      issue: request.issue,
+      explanation: this.stripCodeBlocks(response.content),
+      patches
+    });
+  }
+
+  async getProposal(project: IProject, proposalId: string): Promise<IFixProposal> {
+    const proposal = await FixProposal.findOne({ _id: proposalId, projectId: project._id });
+    if (!proposal) {
+      throw new FixError('PROPOSAL_NOT_FOUND', 'Fix proposal not found');
+    }
+    return proposal;
+  }
+
+  async accept(project: IProject, proposalId: string, author: string): Promise<IFixProposal> {
+    this.assertNotGenerating(project);
+    const proposal = await this.getPendingProposal(project, proposalId);
+
+    if (proposal.patches.length === 0) {
+      throw new FixError('NO_CHANGES_PROPOSED', 'The fix proposal does not contain any file changes');
+    }
+
+    const stale = proposal.patches.filter(patch => {
+      const current = project.generatedCode.files.find(file => file.path === patch.path);
+      return patch.changeType === 'created' ? Boolean(current) : current?.content !== patch.before;
+    });
+    if (stale.length > 0) {
+      throw new FixError(
+        'STALE_PROPOSAL',
+        `Files changed since the fix was proposed: ${stale.map(patch => patch.path).join(', ')}`
+      );
+    }
+
+    // Claim the proposal first so two concurrent accepts can't both apply it
+    const claimed = await FixProposal.findOneAndUpdate(
+      { _id: proposal._id, status: 'pending' },
+      { status: 'accepted', resolvedAt: new Date() },
+      { new: true }
+    );
+    if (!claimed) {
+      throw new FixError('PROPOSAL_RESOLVED', 'Fix proposal was already accepted or rejected');
+    }
+
+    try {
+      project.analytics.aiFixesUsed = (project.analytics.aiFixesUsed || 0) + 1;
+      await this.files.writeFiles(
+        project,
+        proposal.patches.map(patch => ({ path: patch.path, content: patch.after })),
+        author,
+        `Applied AI fix: ${this.summarize(proposal.issue)}`
+      );
+    } catch (error) {
+      await FixProposal.updateOne({ _id: proposal._id }, { status: 'pending', $unset: { resolvedAt: 1 } });
+      throw error;
+    }
+
+    return claimed;
+  }
+
+  async reject(project: IProject, proposalId: string): Promise<IFixProposal> {
+    await this.getPendingProposal(project, proposalId);
+
+    const rejected = await FixProposal.findOneAndUpdate(
+      { _id: proposalId, projectId: project._id, status: 'pending' },
+      { status: 'rejected', resolvedAt: new Date() },
+      { new: true }
+    );
+    if (!rejected) {
+      throw new FixError('PROPOSAL_RESOLVED', 'Fix proposal was already accepted or rejected');
+    }
+    return rejected;
+  }
+
+  private async getPendingProposal(project: IProject, proposalId: string): Promise<IFixProposal> {
+    const proposal = await this.getProposal(project, proposalId);
+    if (proposal.status !== 'pending') {
+      throw new FixError('PROPOSAL_RESOLVED', `Fix proposal was already ${proposal.status}`);
+    }
+    return proposal;
+  }
+
+  // The explanation is the answer without its file blocks
+  private stripCodeBlocks(content: string): string {
+    return content
+      .replace(/^(`{3,})[^\n]*\n[\s\S]*?^\1[ \t]*$/gm, '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private summarize(issue: string): string {
+    const firstLine = issue.split('\n')[0].trim();
+    return firstLine.length > 100 ? `${firstLine.slice(0, 97)}...` : firstLine;
+  }
+
+  private assertNotGenerating(project: IProject): void {
+    if (project.status === 'generating') {
+      throw new FixError('GENERATION_IN_PROGRESS', 'Project generation is in progress');
+    }
+  }
+}
@@ -1,4 +1,6 @@
 export { AIServiceClient } from './client';
 export { AIService, getAIService } from './service';
-export { getPromptTemplate, renderPrompt, PROMPT_TEMPLATES } from './prompts';
+export { UsageLedger } from './ledger';
+export { MODEL_PRICING, resolvePricing } from './pricing';
+export { getPromptTemplate, renderPrompt, PROMPT_TEMPLATES, FILE_OUTPUT_FORMAT } from './prompts';
 export * from './types';
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { User } from '@/models/User';
+import { UsageRecord, IUsageSummary } from '@/models/UsageRecord';
+import { AIResponse, AIServiceError, UsageContext } from './types';
+
+export interface UsageEntry {
+  context: UsageContext;
+  provider: string;
+  model: string;
+  usage: AIResponse['usage'];
+  cost: number;
+}
+
+export interface UsageReport {
+  daily: IUsageSummary & { budget: number | null };
+  monthly: IUsageSummary & { budget: number | null };
+}
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+/**
+ * Mongo-backed record of AI usage per user, used to enforce daily and monthly budgets.
+ * Periods follow UTC calendar days and months.
+ */
+export class UsageLedger {
+  async record(entry: UsageEntry): Promise<void> {
+    const { context, usage } = entry;
+
+    await UsageRecord.create({
+      userId: context.userId,
+      projectId: context.projectId,
+      task: context.task,
+      provider: entry.provider,
+      aiModel: entry.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      cost: entry.cost
+    });
+
+    await User.updateOne(
+      { _id: context.userId },
+      { $inc: { 'settings.apiKeyUsage': usage.totalTokens } }
+    );
+  }
+
+  async getReport(userId: string, now: Date = new Date()): Promise<UsageReport> {
+    const user = await User.findById(userId).select('settings');
+
+    const [daily, monthly] = await Promise.all([
+      UsageRecord.summarize(userId, this.periodStart('daily', now)),
+      UsageRecord.summarize(userId, this.periodStart('monthly', now))
+    ]);
+
+    return {
+      daily: { ...daily, budget: user?.settings.dailyBudget ?? null },
+      monthly: { ...monthly, budget: user?.settings.monthlyBudget ?? null }
+    };
+  }
+
+  /**
+   * Throw a costExceeded AIServiceError when the user has spent a budget for the current period
+   */
+  async assertWithinBudget(userId: string, now: Date = new Date()): Promise<void> {
+    const user = await User.findById(userId).select('settings');
+    if (!user) return;
+
+    const budgets: Array<[BudgetPeriod, number | null | undefined]> = [
+      ['daily', user.settings.dailyBudget],
+      ['monthly', user.settings.monthlyBudget]
+    ];
+
+    for (const [period, budget] of budgets) {
+      if (budget === null || budget === undefined) continue;
+
+      const { cost } = await UsageRecord.summarize(userId, this.periodStart(period, now));
+      if (cost >= budget) {
+        throw this.budgetExceededError(period, budget);
+      }
+    }
+  }
+
+  private periodStart(period: BudgetPeriod, now: Date): Date {
+    return period === 'daily'
+      ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+
+  private budgetExceededError(period: BudgetPeriod, budget: number): AIServiceError {
+    return {
+      name: 'AIServiceError',
+      message: `${period === 'daily' ? 'Daily' : 'Monthly'} AI budget of $${budget.toFixed(2)} exceeded`,
+      code: 'BUDGET_EXCEEDED',
+      statusCode: 402,
+      retryable: false,
+      rateLimited: false,
+      costExceeded: true
+    };
+  }
+}
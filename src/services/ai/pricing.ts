@@ -0,0 +1,36 @@
+import { AIProviderName, ModelPricing } from './types';
+
+// List prices per provider and model, in USD per 1K tokens
+export const MODEL_PRICING: Record<Exclude<AIProviderName, 'mock'>, Record<string, ModelPricing>> = {
+  openai: {
+    'gpt-4': { input: 0.03, output: 0.06 },
+    'gpt-4-turbo': { input: 0.01, output: 0.03 },
+    'gpt-4o': { input: 0.0025, output: 0.01 },
+    'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
+    'gpt-3.5-turbo': { input: 0.001, output: 0.002 }
+  },
+  gemini: {
+    'gemini-2.5-pro': { input: 0.00125, output: 0.01 },
+    'gemini-2.5-flash': { input: 0.0003, output: 0.0025 },
+    'gemini-2.0-flash': { input: 0.0001, output: 0.0004 }
+  }
+};
+
+/**
+ * Price of a model: AI_PRICE_INPUT_PER_1K and AI_PRICE_OUTPUT_PER_1K when both are set,
+ * otherwise the provider's list price. Null when the model has no known price.
+ */
+export function resolvePricing(provider: AIProviderName, model: string): ModelPricing | null {
+  // The mock provider runs offline, whatever the model is called
+  if (provider === 'mock') {
+    return { input: 0, output: 0 };
+  }
+
+  const input = process.env.AI_PRICE_INPUT_PER_1K;
+  const output = process.env.AI_PRICE_OUTPUT_PER_1K;
+  if (input && output && Number(input) >= 0 && Number(output) >= 0) {
+    return { input: Number(input), output: Number(output) };
+  }
+
+  return MODEL_PRICING[provider][model] || null;
+}
@@ -1,5 +1,18 @@
 import { PromptTemplate, GenerationTask } from './types';
 
+// Output contract for tasks that return files, parsed by parseCodeOutput
+export const FILE_OUTPUT_FORMAT = `Return every file as a fenced code block whose info string is the language followed by the relative file path:
+
+\`\`\`typescript path=src/models/user.ts
+// file content
+\`\`\`
+
+Rules:
+- Paths are relative to the project root, use forward slashes and never contain ".." segments
+- Each path appears at most once
+- If a file contains triple backticks, open and close its block with a longer backtick fence
+- Text outside of these blocks is ignored`;
+
 export const PROMPT_TEMPLATES: Record<GenerationTask, PromptTemplate> = {
   [GenerationTask.ANALYZE_DESCRIPTION]: {
     id: 'analyze_description',
@@ -110,7 +123,9 @@ Generate in this order:
 3. Type definitions
 4. Documentation
 
-Ensure all code follows best practices and includes proper error handling.`,
+Ensure all code follows best practices and includes proper error handling.
+
+${FILE_OUTPUT_FORMAT}`,
     variables: ['component', 'techStack', 'requirements', 'specification'],
     maxTokens: 3000,
     temperature: 0.2
@@ -142,12 +157,67 @@ Include:
 - Integration tests
 - Error scenario testing
 - Test data fixtures
-- Setup/teardown logic`,
+- Setup/teardown logic
+
+${FILE_OUTPUT_FORMAT}`,
     variables: ['code', 'techStack', 'requirements'],
     maxTokens: 2500,
     temperature: 0.1
   },
 
+  [GenerationTask.WRITE_FAILING_TESTS]: {
+    id: 'write_failing_tests',
+    name: 'Test-First Specification',
+    description: 'Write the tests for a component before its implementation exists',
+    systemMessage: `You are an expert backend developer doing strict Test-Driven Development.
+You write the failing tests first. The tests are the specification:
+1. Cover the required behaviour, including validation and error cases
+2. Import the implementation from the module paths it should live at
+3. Keep every test independent and deterministic
+4. Do not write any implementation code
+
+Use Jest and appropriate testing libraries for the tech stack.`,
+    userPromptTemplate: `Write the tests for {{component}} before any implementation exists:
+
+Tech Stack: {{techStack}}
+Requirements: {{requirements}}
+Component Specification: {{specification}}
+Existing Files: {{existingFiles}}
+
+Return test files only (*.test.ts or *.test.js). They must fail until the component is implemented.
+
+${FILE_OUTPUT_FORMAT}`,
+    variables: ['component', 'techStack', 'requirements', 'specification', 'existingFiles'],
+    maxTokens: 2500,
+    temperature: 0.1
+  },
+
+  [GenerationTask.IMPLEMENT_TO_PASS]: {
+    id: 'implement_to_pass',
+    name: 'Test-Driven Implementation',
+    description: 'Write the minimal implementation that makes failing tests pass',
+    systemMessage: `You are an expert backend developer doing strict Test-Driven Development.
+The tests you are given are failing and are the specification. Write the minimal
+implementation that makes them pass:
+1. Match the module paths and exports the tests import
+2. Proper error handling and validation
+3. Clean, maintainable, typed code
+4. Never change the tests`,
+    userPromptTemplate: `Implement {{component}} so that these failing tests pass:
+
+Tech Stack: {{techStack}}
+Component Specification: {{specification}}
+Tests: {{tests}}
+Test Results: {{testResults}}
+
+Return implementation files only; test files you return are ignored.
+
+${FILE_OUTPUT_FORMAT}`,
+    variables: ['component', 'techStack', 'specification', 'tests', 'testResults'],
+    maxTokens: 3000,
+    temperature: 0.2
+  },
+
   [GenerationTask.FIX_ISSUES]: {
     id: 'fix_issues',
     name: 'Issue Resolution',
@@ -172,7 +242,10 @@ Provide:
 1. Root cause explanation
 2. Fixed code
 3. Updated tests
-4. Prevention recommendations`,
+4. Prevention recommendations
+
+Return the complete new content of every file you change or add, and nothing for unchanged files.
+${FILE_OUTPUT_FORMAT}`,
     variables: ['issue', 'code', 'stackTrace', 'expectedBehavior'],
     maxTokens: 2000,
     temperature: 0.1
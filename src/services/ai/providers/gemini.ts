@@ -0,0 +1,104 @@
+import type {
+  GeminiProviderOptions,
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1StreamPart
+} from 'ai-sdk-provider-gemini-cli';
+import { AIServiceConfig, AIResponse } from '../types';
+import { AIProvider, ProviderRequest, ProviderStreamChunk } from './types';
+
+export class GeminiProvider implements AIProvider {
+  readonly name = 'gemini' as const;
+  private config: AIServiceConfig;
+  private model: LanguageModelV1 | null = null;
+
+  constructor(config: AIServiceConfig) {
+    this.config = config;
+  }
+
+  async complete(request: ProviderRequest): Promise<AIResponse> {
+    const model = await this.getModel(request.model);
+    const result = await model.doGenerate(this.buildCallOptions(request));
+
+    if (!result.text) {
+      throw new Error('No response content received from AI service');
+    }
+
+    const promptTokens = result.usage.promptTokens || 0;
+    const completionTokens = result.usage.completionTokens || 0;
+
+    return {
+      content: result.text,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      },
+      model: result.response?.modelId || request.model,
+      finishReason: result.finishReason
+    };
+  }
+
+  async *stream(request: ProviderRequest): AsyncGenerator<ProviderStreamChunk, void, undefined> {
+    const model = await this.getModel(request.model);
+    const { stream } = await model.doStream(this.buildCallOptions(request));
+    const reader = stream.getReader();
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        const part = value as LanguageModelV1StreamPart;
+        if (part.type === 'text-delta') {
+          yield { delta: part.textDelta };
+        } else if (part.type === 'finish') {
+          const promptTokens = part.usage.promptTokens || 0;
+          const completionTokens = part.usage.completionTokens || 0;
+          yield {
+            finishReason: part.finishReason,
+            usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+          };
+        } else if (part.type === 'error') {
+          throw part.error instanceof Error ? part.error : new Error(String(part.error));
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  private buildCallOptions(request: ProviderRequest): LanguageModelV1CallOptions {
+    const prompt: LanguageModelV1CallOptions['prompt'] = [];
+
+    if (request.systemMessage) {
+      prompt.push({ role: 'system', content: request.systemMessage });
+    }
+
+    prompt.push({ role: 'user', content: [{ type: 'text', text: request.prompt }] });
+
+    return {
+      inputFormat: 'messages',
+      mode: { type: 'regular' },
+      prompt,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      abortSignal: AbortSignal.timeout(request.timeout)
+    };
+  }
+
+  private async getModel(modelId: string): Promise<LanguageModelV1> {
+    if (!this.model) {
+      // Loaded lazily: the Gemini CLI core is heavy and only needed for this provider
+      const { createGeminiProvider } = await import('ai-sdk-provider-gemini-cli');
+
+      const options: GeminiProviderOptions = this.config.apiKey
+        ? { authType: 'gemini-api-key', apiKey: this.config.apiKey }
+        : { authType: 'oauth-personal' };
+
+      this.model = createGeminiProvider(options)(modelId);
+    }
+
+    return this.model;
+  }
+}
@@ -0,0 +1,23 @@
+import { AIServiceConfig } from '../types';
+import { AIProvider } from './types';
+import { OpenAIProvider } from './openai';
+import { GeminiProvider } from './gemini';
+import { MockProvider } from './mock';
+
+export function createProvider(config: AIServiceConfig): AIProvider {
+  switch (config.provider || 'openai') {
+    case 'openai':
+      return new OpenAIProvider(config);
+    case 'gemini':
+      return new GeminiProvider(config);
+    case 'mock':
+      return new MockProvider();
+    default:
+      throw new Error(`Unknown AI provider: ${config.provider}`);
+  }
+}
+
+export { OpenAIProvider } from './openai';
+export { GeminiProvider } from './gemini';
+export { MockProvider } from './mock';
+export * from './types';
@@ -0,0 +1,90 @@
+import OpenAI from 'openai';
+import { AIServiceConfig, AIResponse } from '../types';
+import { AIProvider, ProviderRequest, ProviderStreamChunk } from './types';
+
+export class OpenAIProvider implements AIProvider {
+  readonly name = 'openai' as const;
+  private openai: OpenAI;
+
+  constructor(config: AIServiceConfig) {
+    this.openai = new OpenAI({
+      apiKey: config.apiKey,
+      timeout: config.timeout
+    });
+  }
+
+  async complete(request: ProviderRequest): Promise<AIResponse> {
+    const completion = await this.openai.chat.completions.create({
+      model: request.model,
+      messages: this.buildMessages(request),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature
+    }, {
+      timeout: request.timeout
+    });
+
+    const choice = completion.choices[0];
+    if (!choice || !choice.message.content) {
+      throw new Error('No response content received from AI service');
+    }
+
+    return {
+      content: choice.message.content,
+      usage: {
+        promptTokens: completion.usage?.prompt_tokens || 0,
+        completionTokens: completion.usage?.completion_tokens || 0,
+        totalTokens: completion.usage?.total_tokens || 0
+      },
+      model: completion.model,
+      finishReason: choice.finish_reason || 'unknown'
+    };
+  }
+
+  async *stream(request: ProviderRequest): AsyncGenerator<ProviderStreamChunk, void, undefined> {
+    const stream = await this.openai.chat.completions.create({
+      model: request.model,
+      messages: this.buildMessages(request),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: true,
+      stream_options: { include_usage: true }
+    }, {
+      timeout: request.timeout
+    });
+
+    for await (const chunk of stream) {
+      const choice = chunk.choices[0];
+
+      yield {
+        model: chunk.model,
+        ...(choice?.delta?.content && { delta: choice.delta.content }),
+        ...(choice?.finish_reason && { finishReason: choice.finish_reason }),
+        ...(chunk.usage && {
+          usage: {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens
+          }
+        })
+      };
+    }
+  }
+
+  private buildMessages(request: ProviderRequest): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
+
+    if (request.systemMessage) {
+      messages.push({
+        role: 'system',
+        content: request.systemMessage
+      });
+    }
+
+    messages.push({
+      role: 'user',
+      content: request.prompt
+    });
+
+    return messages;
+  }
+}
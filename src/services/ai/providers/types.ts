@@ -0,0 +1,27 @@
+import { AIProviderName, AIResponse } from '../types';
+
+export interface ProviderRequest {
+  prompt: string;
+  systemMessage?: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  timeout: number;
+}
+
+export interface ProviderStreamChunk {
+  delta?: string;
+  finishReason?: string;
+  usage?: AIResponse['usage'];
+  model?: string;
+}
+
+/**
+ * A backend able to serve completions for AIServiceClient.
+ * Rate limiting, retries and cost tracking stay in the client.
+ */
+export interface AIProvider {
+  readonly name: AIProviderName;
+  complete(request: ProviderRequest): Promise<AIResponse>;
+  stream(request: ProviderRequest): AsyncIterable<ProviderStreamChunk>;
+}
@@ -1,14 +1,19 @@
 import { AIServiceClient } from './client';
-import { AIServiceConfig } from './types';
+import { UsageLedger } from './ledger';
+import { AIServiceConfig, AIProviderName } from './types';
+
+const PROVIDERS: AIProviderName[] = ['openai', 'gemini', 'mock'];
 
 export class AIService {
   private static instance: AIServiceClient | null = null;
   private static config: AIServiceConfig | null = null;
 
   static initialize(config: Partial<AIServiceConfig> = {}): void {
+    const provider = config.provider || this.resolveProvider();
     const defaultConfig: AIServiceConfig = {
-      apiKey: process.env.OPENAI_API_KEY || '',
-      model: process.env.OPENAI_MODEL || 'gpt-4-turbo',
+      provider,
+      apiKey: this.resolveApiKey(provider),
+      model: this.resolveModel(provider),
       maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS || '2000'),
       temperature: parseFloat(process.env.OPENAI_TEMPERATURE || '0.3'),
       timeout: parseInt(process.env.OPENAI_TIMEOUT || '60000'),
@@ -18,11 +23,12 @@ export class AIService {
 
     this.config = { ...defaultConfig, ...config };
     
-    if (!this.config.apiKey) {
+    // Gemini can fall back to the CLI's cached login and the mock provider needs no key
+    if (this.config.provider === 'openai' && !this.config.apiKey) {
       throw new Error('OpenAI API key is required. Set OPENAI_API_KEY environment variable.');
     }
 
-    this.instance = new AIServiceClient(this.config);
+    this.instance = new AIServiceClient(this.config, undefined, new UsageLedger());
   }
 
   static getInstance(): AIServiceClient {
@@ -40,6 +46,36 @@ export class AIService {
     this.instance = null;
     this.config = null;
   }
+
+  private static resolveProvider(): AIProviderName {
+    const provider = (process.env.AI_PROVIDER || 'openai').toLowerCase() as AIProviderName;
+    if (!PROVIDERS.includes(provider)) {
+      throw new Error(`Unknown AI provider "${process.env.AI_PROVIDER}". Use one of: ${PROVIDERS.join(', ')}`);
+    }
+    return provider;
+  }
+
+  private static resolveApiKey(provider: AIProviderName): string {
+    switch (provider) {
+      case 'gemini':
+        return process.env.GEMINI_API_KEY || '';
+      case 'mock':
+        return '';
+      default:
+        return process.env.OPENAI_API_KEY || '';
+    }
+  }
+
+  private static resolveModel(provider: AIProviderName): string {
+    switch (provider) {
+      case 'gemini':
+        return process.env.GEMINI_MODEL || 'gemini-2.5-pro';
+      case 'mock':
+        return 'mock';
+      default:
+        return process.env.OPENAI_MODEL || 'gpt-4-turbo';
+    }
+  }
 }
 
 // Export singleton instance getter
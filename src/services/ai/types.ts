@@ -1,4 +1,7 @@
+export type AIProviderName = 'openai' | 'gemini' | 'mock';
+
 export interface AIServiceConfig {
+  provider?: AIProviderName;
   apiKey: string;
   model: string;
   maxTokens: number;
@@ -6,6 +9,14 @@ export interface AIServiceConfig {
   timeout: number;
   maxRetries: number;
   retryDelay: number;
+  // Overrides the provider's list price for the model
+  pricing?: ModelPricing;
+}
+
+// In USD per 1K tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
 }
 
 export interface AIRequest {
@@ -13,6 +24,14 @@ export interface AIRequest {
   systemMessage?: string;
   maxTokens?: number;
   temperature?: number;
+  context?: UsageContext;
+}
+
+// Attributes a request to a user so its usage is recorded and budgeted
+export interface UsageContext {
+  userId: string;
+  projectId?: string;
+  task?: GenerationTask;
 }
 
 export interface AIResponse {
@@ -26,6 +45,10 @@ export interface AIResponse {
   finishReason: string;
 }
 
+export type AIStreamChunk =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; response: AIResponse };
+
 export interface RateLimitInfo {
   requestsPerMinute: number;
   tokensPerMinute: number;
@@ -57,6 +80,8 @@ export enum GenerationTask {
   RECOMMEND_TECH_STACK = 'recommend_tech_stack',
   GENERATE_CODE = 'generate_code',
   GENERATE_TESTS = 'generate_tests',
+  WRITE_FAILING_TESTS = 'write_failing_tests',
+  IMPLEMENT_TO_PASS = 'implement_to_pass',
   FIX_ISSUES = 'fix_issues',
   GENERATE_DOCUMENTATION = 'generate_documentation'
 }
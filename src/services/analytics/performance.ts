@@ -0,0 +1,55 @@
+import os from 'os';
+import mongoose from 'mongoose';
+import { round } from '@/utils/numbers';
+
+export interface PerformanceSample {
+  // Resident set size, in MB
+  memoryUsage: number;
+  // Process CPU time over wall time since the previous sample, across all cores
+  cpuUsagePercent: number;
+  // Mean duration of the database commands since the previous sample; null when none ran
+  databaseQueryTime: number | null;
+}
+
+/**
+ * Samples the resource usage of this process. Database query times come from
+ * the command events of a monitored Mongo client.
+ */
+export class PerformanceSampler {
+  private lastCpuUsage = process.cpuUsage();
+  private lastSampleAt = Date.now();
+  private queryTime = 0;
+  private queries = 0;
+
+  /**
+   * Time the commands of a client; it must have been created with monitorCommands
+   */
+  monitor(client: mongoose.mongo.MongoClient): void {
+    client.on('commandSucceeded', event => this.recordQuery(event.duration));
+    client.on('commandFailed', event => this.recordQuery(event.duration));
+  }
+
+  recordQuery(duration: number): void {
+    this.queryTime += duration;
+    this.queries++;
+  }
+
+  sample(): PerformanceSample {
+    const now = Date.now();
+    const cpu = process.cpuUsage(this.lastCpuUsage);
+    const elapsed = Math.max(now - this.lastSampleAt, 1);
+    const cores = os.cpus().length || 1;
+
+    const sample: PerformanceSample = {
+      memoryUsage: round(process.memoryUsage().rss / 1024 / 1024),
+      cpuUsagePercent: round(Math.min(100, (cpu.user + cpu.system) / 1000 / elapsed / cores * 100)),
+      databaseQueryTime: this.queries > 0 ? round(this.queryTime / this.queries) : null
+    };
+
+    this.lastCpuUsage = process.cpuUsage();
+    this.lastSampleAt = now;
+    this.queryTime = 0;
+    this.queries = 0;
+    return sample;
+  }
+}
@@ -0,0 +1,359 @@
+import { PipelineStage } from 'mongoose';
+import { Analytics } from '@/models/Analytics';
+import { numberFromEnv } from '@/config/env';
+import { round } from '@/utils/numbers';
+
+export type BucketSize = 'hour' | 'day' | 'week' | 'month';
+
+export const BUCKET_SIZES: BucketSize[] = ['hour', 'day', 'week', 'month'];
+
+export type StackDimension = 'language' | 'framework' | 'database';
+
+export const STACK_DIMENSIONS: StackDimension[] = ['language', 'framework', 'database'];
+
+export interface ReportRange {
+  from: Date;
+  // Exclusive
+  to: Date;
+  bucket: BucketSize;
+  projectType?: string;
+}
+
+export interface StackPopularityBucket {
+  bucket: Date;
+  // Entries of the reported stacks
+  total: number;
+  stacks: Array<{ value: string; count: number; share: number }>;
+}
+
+export interface DurationStats {
+  count: number;
+  median: number | null;
+  p95: number | null;
+}
+
+export interface CoverageByFramework {
+  framework: string;
+  // Over the reported buckets
+  count: number;
+  averageCoverage: number;
+  buckets: Array<{ bucket: Date; count: number; averageCoverage: number }>;
+}
+
+export interface ErrorFixTotals {
+  entries: number;
+  errorsEncountered: number;
+  aiFixesUsed: number;
+  // AI fixes per error; null when no errors were encountered
+  fixesPerError: number | null;
+}
+
+export interface SessionHistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+// Groups with fewer users than the minimum group size are left out of every report
+interface Suppressed {
+  suppressedGroups: number;
+}
+
+export interface StackPopularityReport extends Suppressed {
+  buckets: StackPopularityBucket[];
+}
+
+export interface CompletionTimeReport extends Suppressed {
+  // Over the reported buckets; null when none is
+  overall: DurationStats | null;
+  buckets: Array<DurationStats & { bucket: Date }>;
+}
+
+export interface CoverageReport extends Suppressed {
+  frameworks: CoverageByFramework[];
+}
+
+export interface ErrorFixReport extends Suppressed {
+  // Over the reported buckets; null when none is
+  overall: ErrorFixTotals | null;
+  buckets: Array<ErrorFixTotals & { bucket: Date }>;
+}
+
+export interface SessionHistogram extends Suppressed {
+  binSize: number;
+  // Sessions in the reported bins
+  total: number;
+  bins: SessionHistogramBin[];
+}
+
+// Groups as they come out of the pipelines, with their number of distinct users
+type Counted<T> = T & { users: number };
+
+export const DEFAULT_MIN_GROUP_SIZE = 5;
+
+// Nearest-rank percentile of the sorted `values` array built by a $group stage
+const percentile = (p: number) => ({
+  $cond: [
+    { $eq: [{ $size: '$values' }, 0] },
+    null,
+    { $arrayElemAt: ['$values', { $subtract: [{ $ceil: { $multiply: [p, { $size: '$values' }] } }, 1] }] }
+  ]
+});
+
+// Distinct users of a group, collected with $addToSet and counted with userCount. Hashes
+// made with different keys can't be linked, so a user active on both sides of a key
+// rotation would count twice; only the largest number of users under one key is counted.
+const userSet = { $addToSet: { version: { $ifNull: ['$hashKeyVersion', 0] }, hash: '$anonymizedUserHash' } };
+const userCount = {
+  $max: {
+    $map: {
+      input: { $setUnion: ['$users.version'] },
+      as: 'version',
+      in: { $size: { $filter: { input: '$users', cond: { $eq: ['$$this.version', '$$version'] } } } }
+    }
+  }
+};
+
+const errorFixTotals = (totals: { entries: number; errors: number; fixes: number }): ErrorFixTotals => ({
+  entries: totals.entries,
+  errorsEncountered: totals.errors,
+  aiFixesUsed: totals.fixes,
+  fixesPerError: totals.errors ? round(totals.fixes / totals.errors) : null
+});
+
+/**
+ * Reports over the anonymized Analytics entries, computed with aggregation pipelines.
+ * Every report covers entries with from <= timestamp < to; series are grouped into
+ * UTC buckets of the requested size. To keep individual users from being singled out,
+ * groups with fewer distinct users than the minimum group size are suppressed, and
+ * totals are computed from the reported groups only so they can't be subtracted.
+ */
+export class AnalyticsReportService {
+  private minGroupSize: number;
+
+  constructor(minGroupSize: number = numberFromEnv('ANALYTICS_MIN_GROUP_SIZE', DEFAULT_MIN_GROUP_SIZE)) {
+    this.minGroupSize = minGroupSize;
+  }
+
+  /**
+   * How often each language, framework or database was used per bucket, most used first
+   */
+  async stackPopularity(range: ReportRange, dimension: StackDimension): Promise<StackPopularityReport> {
+    const results = await Analytics.aggregate<{ _id: Date; stacks: Array<Counted<{ value: string; count: number }>> }>([
+      this.match(range),
+      {
+        $group: {
+          _id: { bucket: this.bucket(range), value: `$techStackUsed.${dimension}` },
+          count: { $sum: 1 },
+          users: userSet
+        }
+      },
+      { $sort: { '_id.bucket': 1, count: -1, '_id.value': 1 } },
+      {
+        $group: {
+          _id: '$_id.bucket',
+          stacks: { $push: { value: '$_id.value', count: '$count', users: userCount } }
+        }
+      },
+      { $sort: { _id: 1 } }
+    ]);
+
+    let suppressedGroups = 0;
+    const buckets = results.flatMap(result => {
+      const stacks = this.suppress(result.stacks, () => suppressedGroups++);
+      const total = stacks.reduce((sum, stack) => sum + stack.count, 0);
+
+      return stacks.length === 0 ? [] : [{
+        bucket: result._id,
+        total,
+        stacks: stacks.map(stack => ({ value: stack.value, count: stack.count, share: round(stack.count / total * 100) }))
+      }];
+    });
+
+    return { buckets, suppressedGroups };
+  }
+
+  /**
+   * Median and 95th percentile of generationMetrics.timeToComplete, overall and per bucket.
+   * Only sessions that ended with a completed generation have a completion time.
+   */
+  async completionTimes(range: ReportRange): Promise<CompletionTimeReport> {
+    const stats = { count: { $size: '$values' }, median: percentile(0.5), p95: percentile(0.95) };
+
+    const [result] = await Analytics.aggregate<{
+      overall: DurationStats[];
+      buckets: Array<Counted<DurationStats & { bucket: Date }>>;
+    }>([
+      this.match(range),
+      { $match: { 'generationMetrics.timeToComplete': { $gt: 0 } } },
+      { $sort: { 'generationMetrics.timeToComplete': 1 } },
+      { $group: { _id: this.bucket(range), values: { $push: '$generationMetrics.timeToComplete' }, users: userSet } },
+      { $set: { users: userCount } },
+      { $sort: { _id: 1 } },
+      {
+        $facet: {
+          buckets: [{ $project: { _id: 0, ...stats, users: 1, bucket: '$_id' } }],
+          overall: [
+            { $match: { users: { $gte: this.minGroupSize } } },
+            { $unwind: '$values' },
+            { $sort: { values: 1 } },
+            { $group: { _id: null, values: { $push: '$values' } } },
+            { $project: { _id: 0, ...stats } }
+          ]
+        }
+      }
+    ]);
+
+    let suppressedGroups = 0;
+    const buckets = this.suppress(result?.buckets || [], () => suppressedGroups++);
+    const [overall] = result?.overall || [];
+
+    return {
+      overall: overall ? { count: overall.count, median: overall.median, p95: overall.p95 } : null,
+      buckets: buckets.map(bucket => ({ bucket: bucket.bucket, count: bucket.count, median: bucket.median, p95: bucket.p95 })),
+      suppressedGroups
+    };
+  }
+
+  /**
+   * Average generationMetrics.testCoverage per framework, overall and per bucket
+   */
+  async coverageByFramework(range: ReportRange): Promise<CoverageReport> {
+    const results = await Analytics.aggregate<{
+      _id: string;
+      buckets: Array<Counted<{ bucket: Date; count: number; coverage: number }>>;
+    }>([
+      this.match(range),
+      {
+        $group: {
+          _id: { framework: '$techStackUsed.framework', bucket: this.bucket(range) },
+          count: { $sum: 1 },
+          coverage: { $sum: '$generationMetrics.testCoverage' },
+          users: userSet
+        }
+      },
+      { $sort: { '_id.bucket': 1 } },
+      {
+        $group: {
+          _id: '$_id.framework',
+          buckets: { $push: { bucket: '$_id.bucket', count: '$count', coverage: '$coverage', users: userCount } }
+        }
+      },
+      { $sort: { _id: 1 } }
+    ]);
+
+    let suppressedGroups = 0;
+    const frameworks = results
+      .flatMap(result => {
+        const buckets = this.suppress(result.buckets, () => suppressedGroups++);
+        const count = buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+        const coverage = buckets.reduce((sum, bucket) => sum + bucket.coverage, 0);
+
+        return buckets.length === 0 ? [] : [{
+          framework: result._id,
+          count,
+          averageCoverage: round(coverage / count),
+          buckets: buckets.map(bucket => ({
+            bucket: bucket.bucket,
+            count: bucket.count,
+            averageCoverage: round(bucket.coverage / bucket.count)
+          }))
+        }];
+      })
+      .sort((a, b) => b.averageCoverage - a.averageCoverage);
+
+    return { frameworks, suppressedGroups };
+  }
+
+  /**
+   * Errors encountered against AI fixes used during generation, overall and per bucket
+   */
+  async errorFixRatios(range: ReportRange): Promise<ErrorFixReport> {
+    const results = await Analytics.aggregate<Counted<{ _id: Date; entries: number; errors: number; fixes: number }>>([
+      this.match(range),
+      {
+        $group: {
+          _id: this.bucket(range),
+          entries: { $sum: 1 },
+          errors: { $sum: '$generationMetrics.errorsEncountered' },
+          fixes: { $sum: '$generationMetrics.aiFixesUsed' },
+          users: userSet
+        }
+      },
+      { $set: { users: userCount } },
+      { $sort: { _id: 1 } }
+    ]);
+
+    let suppressedGroups = 0;
+    const buckets = this.suppress(results, () => suppressedGroups++);
+    const overall = buckets.reduce(
+      (sum, bucket) => ({ entries: sum.entries + bucket.entries, errors: sum.errors + bucket.errors, fixes: sum.fixes + bucket.fixes }),
+      { entries: 0, errors: 0, fixes: 0 }
+    );
+
+    return {
+      overall: buckets.length > 0 ? errorFixTotals(overall) : null,
+      buckets: buckets.map(bucket => ({ bucket: bucket._id, ...errorFixTotals(bucket) })),
+      suppressedGroups
+    };
+  }
+
+  /**
+   * Histogram of session durations in bins of binSize milliseconds; empty bins are left out
+   */
+  async sessionDurations(range: ReportRange, binSize: number): Promise<SessionHistogram> {
+    const results = await Analytics.aggregate<Counted<{ _id: number; count: number }>>([
+      this.match(range),
+      {
+        $group: {
+          _id: { $multiply: [{ $floor: { $divide: ['$sessionDuration', binSize] } }, binSize] },
+          count: { $sum: 1 },
+          users: userSet
+        }
+      },
+      { $set: { users: userCount } },
+      { $sort: { _id: 1 } }
+    ]);
+
+    let suppressedGroups = 0;
+    const bins = this.suppress(results, () => suppressedGroups++)
+      .map(result => ({ from: result._id, to: result._id + binSize, count: result.count }));
+
+    return {
+      binSize,
+      total: bins.reduce((sum, bin) => sum + bin.count, 0),
+      bins,
+      suppressedGroups
+    };
+  }
+
+  // Groups with enough distinct users; onSuppressed is called for each of the others
+  private suppress<T extends { users: number }>(groups: T[], onSuppressed: () => void): T[] {
+    return groups.filter(group => {
+      if (group.users >= this.minGroupSize) return true;
+
+      onSuppressed();
+      return false;
+    });
+  }
+
+  private match(range: ReportRange): PipelineStage.Match {
+    return {
+      $match: {
+        timestamp: { $gte: range.from, $lt: range.to },
+        ...(range.projectType && { projectType: range.projectType })
+      }
+    };
+  }
+
+  private bucket(range: ReportRange) {
+    return {
+      $dateTrunc: {
+        date: '$timestamp',
+        unit: range.bucket,
+        timezone: 'UTC',
+        ...(range.bucket === 'week' && { startOfWeek: 'monday' })
+      }
+    };
+  }
+}
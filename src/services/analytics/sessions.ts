@@ -0,0 +1,292 @@
+import mongoose from 'mongoose';
+import { Analytics, IAnalytics, IUserInteractions } from '@/models/Analytics';
+import { Project, IProject, ITestRun } from '@/models/Project';
+import { GenerationEventBus, generationEvents } from '@/services/generation/events';
+import { numberFromEnv } from '@/config/env';
+import { round } from '@/utils/numbers';
+import { PerformanceSample, PerformanceSampler } from './performance';
+
+export type SessionInteraction = keyof IUserInteractions;
+
+export interface SessionClient {
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface SessionTrackerOptions {
+  // Idle time after which a session is closed and written, in milliseconds
+  timeout: number;
+  // How often performance is sampled and idle sessions are closed, in milliseconds
+  sampleInterval: number;
+}
+
+interface Average {
+  total: number;
+  count: number;
+}
+
+interface TrackedSession {
+  projectId: string;
+  client: SessionClient;
+  startedAt: number;
+  lastActivityAt: number;
+  // Sessions don't time out while their project is generating
+  generating: boolean;
+  interactions: IUserInteractions;
+  errorsEncountered: number;
+  responseTime: Average;
+  cpuUsage: Average;
+  queryTime: Average;
+  peakMemoryUsage: number;
+}
+
+const DEFAULT_TIMEOUT = 30 * 60 * 1000;
+const DEFAULT_SAMPLE_INTERVAL = 15 * 1000;
+
+const average = ({ total, count }: Average): number => count > 0 ? round(total / count) : 0;
+
+const emptyInteractions = (): IUserInteractions => ({
+  chatMessages: 0,
+  aiFixesUsed: 0,
+  manualEdits: 0,
+  testRunsExecuted: 0,
+  documentationViews: 0
+});
+
+// Analytics project types; generated projects are backends, APIs when they expose endpoints
+const projectType = (project: IProject): string =>
+  project.requirements?.apiEndpoints?.length ? 'api' : 'other';
+
+/**
+ * Follows what a user does on a project between the first request and the end of
+ * generation, or until the project has been idle for the timeout. Each closed session
+ * is written as one anonymized Analytics entry; sessions still open at shutdown are lost.
+ * Activity is ignored until the tracker is started.
+ */
+export class SessionTracker {
+  private sessions = new Map<string, TrackedSession>();
+  private options: SessionTrackerOptions;
+  private events: GenerationEventBus;
+  private sampler: PerformanceSampler;
+  private timer: NodeJS.Timeout | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(
+    options: Partial<SessionTrackerOptions> = {},
+    events: GenerationEventBus = generationEvents,
+    sampler?: PerformanceSampler
+  ) {
+    this.events = events;
+    this.sampler = sampler || new PerformanceSampler();
+    this.options = {
+      timeout: options.timeout || numberFromEnv('ANALYTICS_SESSION_TIMEOUT_MS', DEFAULT_TIMEOUT),
+      sampleInterval: options.sampleInterval || DEFAULT_SAMPLE_INTERVAL
+    };
+  }
+
+  get started(): boolean {
+    return this.timer !== null;
+  }
+
+  /**
+   * Start following generation events and sampling performance.
+   * Pass the application's Mongo client to measure database query times.
+   */
+  start(client?: mongoose.mongo.MongoClient): void {
+    if (this.started) return;
+
+    if (client) {
+      this.sampler.monitor(client);
+    }
+    this.unsubscribers = [
+      this.events.on('generation:status', ({ projectId, status }) => {
+        const session = this.session(projectId);
+        session.generating = status === 'generating';
+        if (status === 'completed') {
+          this.close(projectId, true);
+        }
+      }),
+      this.events.on('generation:error', ({ projectId }) => {
+        this.session(projectId).errorsEncountered++;
+      }),
+      this.events.on('generation:tests', ({ projectId, phase, status }) => {
+        const session = this.session(projectId);
+        session.interactions.testRunsExecuted++;
+        // Tests written first are meant to fail
+        if (status !== 'passed' && phase !== 'tests') {
+          session.errorsEncountered++;
+        }
+      })
+    ];
+    this.timer = setInterval(() => this.tick(), this.options.sampleInterval);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.sessions.clear();
+  }
+
+  /**
+   * Note a request on the project; the session keeps the latest client details
+   */
+  touch(projectId: string, client: SessionClient, responseTime?: number): void {
+    if (!this.started) return;
+
+    const session = this.session(projectId);
+    session.client = { ...session.client, ...client };
+    if (responseTime !== undefined) {
+      session.responseTime.total += responseTime;
+      session.responseTime.count++;
+    }
+  }
+
+  record(projectId: string, interaction: SessionInteraction): void {
+    if (!this.started) return;
+
+    this.session(projectId).interactions[interaction]++;
+  }
+
+  /**
+   * Count a test run requested by the user; runs that did not pass are errors encountered
+   */
+  recordTestRun(projectId: string, run: Pick<ITestRun, 'status'>): void {
+    if (!this.started) return;
+
+    const session = this.session(projectId);
+    session.interactions.testRunsExecuted++;
+    if (run.status !== 'passed') {
+      session.errorsEncountered++;
+    }
+  }
+
+  /**
+   * Close the sessions idle for longer than the timeout. Sessions without any
+   * interaction are dropped instead of written.
+   */
+  async closeIdle(now: number = Date.now()): Promise<void> {
+    const idle = [...this.sessions.values()].filter(session =>
+      !session.generating && now - session.lastActivityAt >= this.options.timeout);
+
+    await Promise.all(idle.map(session => this.close(session.projectId, false)));
+  }
+
+  /**
+   * End a session and write its Analytics entry.
+   * Returns null when there was nothing to write or the project is gone.
+   */
+  async close(projectId: string, generationCompleted: boolean): Promise<IAnalytics | null> {
+    const session = this.sessions.get(projectId);
+    if (!session) return null;
+    this.sessions.delete(projectId);
+
+    const interacted = Object.values(session.interactions).some(count => count > 0);
+    if (!generationCompleted && !interacted) return null;
+
+    try {
+      return await this.write(session, generationCompleted ? Date.now() : session.lastActivityAt, generationCompleted);
+    } catch (error) {
+      console.error(`Failed to write analytics for project ${projectId}:`, error);
+      return null;
+    }
+  }
+
+  private session(projectId: string): TrackedSession {
+    const now = Date.now();
+    let session = this.sessions.get(projectId);
+    if (!session) {
+      session = {
+        projectId,
+        client: {},
+        startedAt: now,
+        lastActivityAt: now,
+        generating: false,
+        interactions: emptyInteractions(),
+        errorsEncountered: 0,
+        responseTime: { total: 0, count: 0 },
+        cpuUsage: { total: 0, count: 0 },
+        queryTime: { total: 0, count: 0 },
+        peakMemoryUsage: 0
+      };
+      this.sessions.set(projectId, session);
+    }
+    session.lastActivityAt = now;
+    return session;
+  }
+
+  private applySample(session: TrackedSession, sample: PerformanceSample): void {
+    session.peakMemoryUsage = Math.max(session.peakMemoryUsage, sample.memoryUsage);
+    session.cpuUsage.total += sample.cpuUsagePercent;
+    session.cpuUsage.count++;
+    if (sample.databaseQueryTime !== null) {
+      session.queryTime.total += sample.databaseQueryTime;
+      session.queryTime.count++;
+    }
+  }
+
+  private tick(): void {
+    const sample = this.sampler.sample();
+    this.sessions.forEach(session => this.applySample(session, sample));
+
+    this.closeIdle().catch(error => {
+      console.error('Failed to close idle analytics sessions:', error);
+    });
+  }
+
+  private async write(session: TrackedSession, endedAt: number, generationCompleted: boolean): Promise<IAnalytics | null> {
+    const project = await Project.findById(session.projectId);
+    if (!project) return null;
+
+    // Sessions shorter than the sample interval get a sample of their own
+    if (session.cpuUsage.count === 0) {
+      this.applySample(session, this.sampler.sample());
+    }
+
+    const { techStack, analytics } = project;
+    const entry = Analytics.createAnonymizedEntry({
+      userId: project.userId.toString(),
+      ip: session.client.ip,
+      userAgent: session.client.userAgent,
+      projectType: projectType(project),
+      techStackUsed: {
+        language: techStack.language,
+        framework: techStack.framework,
+        database: techStack.database,
+        additionalTools: techStack.additionalTools || []
+      },
+      generationMetrics: {
+        // Only sessions that saw a generation through have a completion time of their own
+        timeToComplete: generationCompleted ? analytics.generationTime : 0,
+        linesOfCode: analytics.linesOfCode,
+        testCoverage: analytics.testCoverage,
+        filesGenerated: analytics.filesGenerated,
+        errorsEncountered: session.errorsEncountered,
+        aiFixesUsed: session.interactions.aiFixesUsed
+      },
+      userInteractions: session.interactions,
+      performanceMetrics: {
+        averageResponseTime: average(session.responseTime),
+        peakMemoryUsage: session.peakMemoryUsage,
+        cpuUsagePercent: average(session.cpuUsage),
+        databaseQueryTime: average(session.queryTime)
+      },
+      sessionDuration: Math.max(endedAt - session.startedAt, 0)
+    });
+
+    return entry.save();
+  }
+}
+
+let sessionTracker: SessionTracker | null = null;
+
+export const getSessionTracker = (): SessionTracker => {
+  if (!sessionTracker) {
+    sessionTracker = new SessionTracker();
+  }
+  return sessionTracker;
+};
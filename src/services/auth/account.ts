@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import { User, IUser } from '@/models/User';
+import { AccountToken, AccountTokenPurpose } from '@/models/AccountToken';
+import { Mailer, getMailer } from '@/services/mail/mailer';
+import { sessionService } from './sessions';
+
+const TOKEN_LIFETIMES: Record<AccountTokenPurpose, number> = {
+  password_reset: 60 * 60 * 1000, // 1 hour
+  email_verification: 24 * 60 * 60 * 1000 // 24 hours
+};
+
+/**
+ * Password reset and email verification. Tokens are random, stored only as a hash,
+ * expire, and are single use: issuing a new token invalidates older ones of the same purpose.
+ */
+export class AccountService {
+  private mailer: Mailer | null;
+
+  constructor(mailer?: Mailer) {
+    this.mailer = mailer || null;
+  }
+
+  async sendVerificationEmail(user: IUser): Promise<void> {
+    const token = await this.issueToken(user._id.toString(), 'email_verification');
+
+    await this.getMailer().send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: [
+        'Confirm your email address by opening this link:',
+        this.buildLink('/verify-email', token),
+        '',
+        'The link expires in 24 hours.'
+      ].join('\n')
+    });
+  }
+
+  /**
+   * Email a reset link when the account exists. Unknown addresses are ignored
+   * so the endpoint does not reveal which emails are registered.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    // Deleted accounts can't be recovered by resetting their password
+    const user = await User.findOne({ email, deletedAt: null });
+    if (!user) return;
+
+    const token = await this.issueToken(user._id.toString(), 'password_reset');
+
+    await this.getMailer().send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        'Choose a new password by opening this link:',
+        this.buildLink('/reset-password', token),
+        '',
+        'The link expires in 1 hour. If you did not request a reset, ignore this email.'
+      ].join('\n')
+    });
+  }
+
+  /**
+   * Set a new password and sign out every session. Returns false for invalid or used tokens.
+   */
+  async resetPassword(token: string, password: string): Promise<boolean> {
+    const userId = await this.consumeToken(token, 'password_reset');
+    if (!userId) return false;
+
+    const user = await User.findById(userId);
+    if (!user) return false;
+
+    user.passwordHash = password; // Will be hashed by pre-save middleware
+    // Receiving the reset email proves ownership of the address
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+    }
+    await user.save();
+
+    await sessionService.revokeAll(userId);
+    return true;
+  }
+
+  /**
+   * Set a new password chosen by the signed-in user and sign out every session
+   */
+  async changePassword(user: IUser, password: string): Promise<void> {
+    user.passwordHash = password; // Will be hashed by pre-save middleware
+    await user.save();
+
+    await sessionService.revokeAll(user._id.toString());
+  }
+
+  /**
+   * Move the account to a new address, which stays unverified until the link sent there
+   * is opened. Links already sent to the old address stop working.
+   */
+  async changeEmail(user: IUser, email: string): Promise<void> {
+    await AccountToken.updateMany(
+      { userId: user._id, usedAt: null },
+      { usedAt: new Date() }
+    );
+
+    user.email = email;
+    user.emailVerified = false;
+    user.emailVerifiedAt = undefined;
+    await user.save();
+  }
+
+  async verifyEmail(token: string): Promise<boolean> {
+    const userId = await this.consumeToken(token, 'email_verification');
+    if (!userId) return false;
+
+    const result = await User.updateOne(
+      { _id: userId },
+      { emailVerified: true, emailVerifiedAt: new Date() }
+    );
+    return result.matchedCount > 0;
+  }
+
+  private async issueToken(userId: string, purpose: AccountTokenPurpose): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+
+    await AccountToken.updateMany(
+      { userId, purpose, usedAt: null },
+      { usedAt: new Date() }
+    );
+    await AccountToken.create({
+      userId,
+      purpose,
+      tokenHash: AccountToken.hashToken(token),
+      expiresAt: new Date(Date.now() + TOKEN_LIFETIMES[purpose])
+    });
+
+    return token;
+  }
+
+  // Mark the token used and return its user, or null when invalid, expired or already used
+  private async consumeToken(token: string, purpose: AccountTokenPurpose): Promise<string | null> {
+    const now = new Date();
+    const record = await AccountToken.findOneAndUpdate(
+      { tokenHash: AccountToken.hashToken(token), purpose, usedAt: null, expiresAt: { $gt: now } },
+      { usedAt: now },
+      { new: true }
+    );
+
+    return record ? record.userId.toString() : null;
+  }
+
+  private buildLink(pathname: string, token: string): string {
+    const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    return `${baseUrl.replace(/\/$/, '')}${pathname}?token=${token}`;
+  }
+
+  private getMailer(): Mailer {
+    return this.mailer || getMailer();
+  }
+}
+
+export const accountService = new AccountService();
@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import { ApiKey, IApiKey, ApiKeyScope, API_KEY_PREFIX, API_KEY_SCOPES } from '@/models/ApiKey';
+
+const VISIBLE_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes?: ApiKeyScope[];
+  expiresAt?: Date | null;
+}
+
+export interface UpdateApiKeyInput {
+  name?: string;
+  scopes?: ApiKeyScope[];
+}
+
+/**
+ * Personal API keys. Only a sha256 hash is stored; the full key is returned once at creation.
+ */
+export class ApiKeyService {
+  async create(userId: string, input: CreateApiKeyInput): Promise<{ apiKey: IApiKey; key: string }> {
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+
+    const apiKey = await ApiKey.create({
+      userId,
+      name: input.name,
+      prefix: key.slice(0, VISIBLE_PREFIX_LENGTH),
+      keyHash: ApiKey.hashKey(key),
+      scopes: input.scopes || API_KEY_SCOPES,
+      expiresAt: input.expiresAt || null
+    });
+
+    return { apiKey, key };
+  }
+
+  async list(userId: string): Promise<IApiKey[]> {
+    return ApiKey.find({ userId, revokedAt: null }).sort({ createdAt: -1 });
+  }
+
+  async update(userId: string, id: string, input: UpdateApiKeyInput): Promise<IApiKey | null> {
+    return ApiKey.findOneAndUpdate(
+      { _id: id, userId, revokedAt: null },
+      input,
+      { new: true, runValidators: true }
+    );
+  }
+
+  async revoke(userId: string, id: string): Promise<boolean> {
+    const result = await ApiKey.updateOne(
+      { _id: id, userId, revokedAt: null },
+      { revokedAt: new Date() }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Resolve an active key and count the use. Returns null for unknown, revoked or expired keys.
+   */
+  async authenticate(key: string): Promise<IApiKey | null> {
+    const now = new Date();
+
+    return ApiKey.findOneAndUpdate(
+      {
+        keyHash: ApiKey.hashKey(key),
+        revokedAt: null,
+        $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }]
+      },
+      { $inc: { usageCount: 1 }, lastUsedAt: now },
+      { new: true }
+    );
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { User } from '@/models/User';
+import { RefreshToken } from '@/models/RefreshToken';
+import { generateTokens, verifyRefreshToken } from '@/middleware/auth';
+
+export type SessionErrorCode =
+  | 'INVALID_REFRESH_TOKEN'
+  | 'REFRESH_TOKEN_REUSED'
+  | 'USER_NOT_FOUND';
+
+export class SessionError extends Error {
+  readonly code: SessionErrorCode;
+
+  constructor(code: SessionErrorCode, message: string) {
+    super(message);
+    this.name = 'SessionError';
+    this.code = code;
+  }
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+/**
+ * Server-side refresh token store. Every refresh token is single use: exchanging it
+ * revokes it and issues a successor in the same family. Presenting a token that was
+ * already exchanged means it leaked, so the whole family is revoked.
+ * Access tokens stay stateless and expire on their own.
+ */
+export class SessionService {
+  /**
+   * Issue tokens for a new login, starting a new token family
+   */
+  async issue(userId: string, email: string): Promise<SessionTokens> {
+    const { tokens } = await this.createSession(userId, email);
+    return tokens;
+  }
+
+  /**
+   * Exchange a refresh token for a new pair. JWT errors (expired, malformed) are rethrown as-is.
+   */
+  async rotate(refreshToken: string): Promise<SessionTokens> {
+    const decoded = verifyRefreshToken(refreshToken);
+    if (!decoded.jti) {
+      throw new SessionError('INVALID_REFRESH_TOKEN', 'Invalid or expired refresh token');
+    }
+
+    // Claim the token atomically so two concurrent refreshes cannot both succeed
+    const stored = await RefreshToken.findOneAndUpdate(
+      { jti: decoded.jti, userId: decoded.id, revokedAt: null },
+      { revokedAt: new Date() },
+      { new: true }
+    );
+
+    if (!stored) {
+      const known = await RefreshToken.findOne({ jti: decoded.jti, userId: decoded.id });
+      if (known) {
+        await this.revokeFamily(known.family);
+        throw new SessionError(
+          'REFRESH_TOKEN_REUSED',
+          'Refresh token has already been used. All sessions from this login have been revoked.'
+        );
+      }
+      throw new SessionError('INVALID_REFRESH_TOKEN', 'Invalid or expired refresh token');
+    }
+
+    const user = await User.findById(decoded.id).select('-passwordHash');
+    if (!user) {
+      throw new SessionError('USER_NOT_FOUND', 'Invalid refresh token. User not found.');
+    }
+
+    const { tokens, jti } = await this.createSession(user._id.toString(), user.email, stored.family);
+    stored.replacedBy = jti;
+    await stored.save();
+
+    return tokens;
+  }
+
+  /**
+   * Revoke a single refresh token owned by the user. Returns false for unknown or foreign tokens.
+   */
+  async revoke(refreshToken: string, userId: string): Promise<boolean> {
+    let jti: string | undefined;
+    try {
+      jti = verifyRefreshToken(refreshToken).jti;
+    } catch (error) {
+      return false;
+    }
+
+    if (!jti) return false;
+
+    const result = await RefreshToken.updateOne(
+      { jti, userId, revokedAt: null },
+      { revokedAt: new Date() }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Revoke every active refresh token of the user and return how many were revoked
+   */
+  async revokeAll(userId: string): Promise<number> {
+    const result = await RefreshToken.updateMany(
+      { userId, revokedAt: null },
+      { revokedAt: new Date() }
+    );
+    return result.modifiedCount;
+  }
+
+  private async createSession(
+    userId: string,
+    email: string,
+    family?: string
+  ): Promise<{ tokens: SessionTokens; jti: string }> {
+    const jti = crypto.randomUUID();
+    const tokens = generateTokens(userId, email, { jti, family: family || jti });
+    const { exp } = jwt.decode(tokens.refreshToken) as { exp: number };
+
+    await RefreshToken.create({
+      jti,
+      userId,
+      family: family || jti,
+      expiresAt: new Date(exp * 1000)
+    });
+
+    return { tokens, jti };
+  }
+
+  private async revokeFamily(family: string): Promise<void> {
+    await RefreshToken.updateMany(
+      { family, revokedAt: null },
+      { revokedAt: new Date() }
+    );
+  }
+}
+
+export const sessionService = new SessionService();
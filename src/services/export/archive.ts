@@ -0,0 +1,160 @@
+import archiver, { Archiver } from 'archiver';
+import { IProject, IDirectoryStructure, ICodeFile } from '@/models/Project';
+import { OPENAPI_SECTION_TITLE } from '@/services/openapi/document';
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ['zip', 'tar.gz'];
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  zip: 'application/zip',
+  'tar.gz': 'application/gzip'
+};
+
+const MANIFEST_NAME = 'backendforge';
+
+export const MANIFEST_FILE = `${MANIFEST_NAME}.json`;
+
+export interface ExportEntry {
+  path: string;
+  content: string;
+  date: Date;
+}
+
+/**
+ * Convert a name to a lowercase, dash-separated slug usable in file names
+ */
+export function slugify(value: string, fallback = 'project'): string {
+  const slug = value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug || fallback;
+}
+
+/**
+ * Order generated files by walking the directory structure, so the archive mirrors the
+ * tree clients see. Files missing from a stale structure are appended in their stored order.
+ */
+export function orderFilesByStructure(files: ICodeFile[], structure?: IDirectoryStructure): ICodeFile[] {
+  const byPath = new Map(files.map(file => [file.path.replace(/^\/+/, ''), file]));
+  const ordered: ICodeFile[] = [];
+
+  const walk = (node: IDirectoryStructure) => {
+    if (node.type === 'file') {
+      const file = byPath.get(node.path.replace(/^\/+/, ''));
+      if (file) {
+        ordered.push(file);
+        byPath.delete(node.path.replace(/^\/+/, ''));
+      }
+      return;
+    }
+
+    for (const child of node.children || []) {
+      walk(child);
+    }
+  };
+
+  if (structure) {
+    walk(structure);
+  }
+
+  return [...ordered, ...byPath.values()];
+}
+
+/**
+ * Build the archive contents: generated files, documentation sections as markdown
+ * under docs/, and a manifest describing the project and its generation. The manifest
+ * is MANIFEST_FILE unless a generated file already uses that path.
+ */
+export function buildExportEntries(project: IProject, exportedAt: Date = new Date()): ExportEntry[] {
+  const files = orderFilesByStructure(project.generatedCode.files, project.generatedCode.structure);
+  const entries: ExportEntry[] = files.map(file => ({
+    path: file.path.replace(/^\/+/, ''),
+    content: file.content,
+    date: file.lastModified || exportedAt
+  }));
+
+  // Generated files keep their paths; docs and the manifest get a numbered name on a clash
+  const usedPaths = new Set(entries.map(entry => entry.path));
+  const claimPath = (baseName: string, extension: string): string => {
+    let entryPath = `${baseName}.${extension}`;
+    for (let suffix = 2; usedPaths.has(entryPath); suffix++) {
+      entryPath = `${baseName}-${suffix}.${extension}`;
+    }
+    usedPaths.add(entryPath);
+    return entryPath;
+  };
+  const documentation: string[] = [];
+
+  for (const section of project.documentation.sections) {
+    // The OpenAPI document is exported as-is so tools can load it
+    const isOpenApi = section.type === 'api' && section.title === OPENAPI_SECTION_TITLE;
+    const baseName = isOpenApi ? 'docs/openapi' : `docs/${slugify(section.title, section.type)}`;
+    const extension = isOpenApi ? 'json' : 'md';
+    const docPath = claimPath(baseName, extension);
+    documentation.push(docPath);
+    entries.push({
+      path: docPath,
+      content: isOpenApi ? `${section.content.trimEnd()}\n` : `# ${section.title}\n\n${section.content.trimEnd()}\n`,
+      date: section.lastUpdated || exportedAt
+    });
+  }
+
+  const manifest = {
+    name: project.name,
+    description: project.description,
+    status: project.status,
+    techStack: {
+      language: project.techStack.language,
+      framework: project.techStack.framework,
+      database: project.techStack.database,
+      additionalTools: project.techStack.additionalTools
+    },
+    generation: {
+      generationTime: project.analytics.generationTime,
+      linesOfCode: project.analytics.linesOfCode,
+      filesGenerated: project.analytics.filesGenerated,
+      testCoverage: project.analytics.testCoverage,
+      codeQuality: {
+        complexity: project.analytics.codeQuality.complexity,
+        maintainability: project.analytics.codeQuality.maintainability,
+        testCoverage: project.analytics.codeQuality.testCoverage,
+        codeSmells: project.analytics.codeQuality.codeSmells
+      }
+    },
+    files: files.map(file => ({
+      path: file.path.replace(/^\/+/, ''),
+      language: file.language,
+      lastModified: file.lastModified
+    })),
+    documentation,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    exportedAt
+  };
+
+  entries.push({
+    path: claimPath(MANIFEST_NAME, 'json'),
+    content: `${JSON.stringify(manifest, null, 2)}\n`,
+    date: exportedAt
+  });
+
+  return entries;
+}
+
+/**
+ * Create a streaming archive of the project. Every entry lives under a top-level
+ * folder named after the project; the caller pipes the stream and handles errors.
+ */
+export function createProjectArchive(project: IProject, format: ArchiveFormat): Archiver {
+  const archive = format === 'zip'
+    ? archiver('zip', { zlib: { level: 9 } })
+    : archiver('tar', { gzip: true, gzipOptions: { level: 9 } });
+  const rootFolder = slugify(project.name);
+
+  for (const entry of buildExportEntries(project)) {
+    archive.append(entry.content, { name: `${rootFolder}/${entry.path}`, date: entry.date });
+  }
+
+  // Failures are also emitted as "error" events on the stream, which the caller handles
+  archive.finalize().catch(() => undefined);
+  return archive;
+}
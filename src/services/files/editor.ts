@@ -0,0 +1,294 @@
+import mongoose from 'mongoose';
+import { IProject, ICodeFile, IChangeHistory } from '@/models/Project';
+import { IFileRevision } from '@/models/FileRevision';
+import { buildDirectoryStructure, countLinesOfCode, detectLanguage } from '@/services/generation/files';
+import { normalizeOutputPath, CodeOutputError } from '@/services/generation/parser';
+import { GitRepositoryService, getGitRepositoryService } from '@/services/git/repository';
+import { updateQualityMetrics } from '@/services/quality/analyzer';
+import { updateApiDocumentation } from '@/services/openapi/document';
+import { FileChange, FileHistoryService } from './history';
+
+export type FileEditErrorCode =
+  | 'INVALID_PATH'
+  | 'FILE_NOT_FOUND'
+  | 'FILE_EXISTS'
+  | 'REVISION_NOT_FOUND'
+  | 'REVISION_NOT_RESTORABLE'
+  | 'GENERATION_IN_PROGRESS';
+
+export class FileEditError extends Error {
+  readonly code: FileEditErrorCode;
+
+  constructor(code: FileEditErrorCode, message: string) {
+    super(message);
+    this.name = 'FileEditError';
+    this.code = code;
+  }
+}
+
+export interface NewFileInput {
+  path: string;
+  content: string;
+  language?: string;
+}
+
+/**
+ * Manual edits to a project's generated files. Every change keeps the directory
+ * structure in sync, is added to the change history, committed to the project
+ * repository and stored as a file revision with a unified diff.
+ */
+export class ProjectFileService {
+  private history: FileHistoryService;
+  private repositories: GitRepositoryService;
+
+  constructor(history?: FileHistoryService, repositories?: GitRepositoryService) {
+    this.history = history || new FileHistoryService();
+    this.repositories = repositories || getGitRepositoryService();
+  }
+
+  findFile(project: IProject, fileId: string): ICodeFile {
+    const file = project.generatedCode.files.find(candidate => candidate._id?.toString() === fileId);
+    if (!file) {
+      throw new FileEditError('FILE_NOT_FOUND', 'File not found');
+    }
+    return file;
+  }
+
+  async createFile(project: IProject, input: NewFileInput, author: string): Promise<ICodeFile> {
+    this.assertEditable(project);
+    const path = this.normalizePath(input.path);
+    this.assertPathAvailable(project, path);
+
+    project.generatedCode.files.push({
+      path,
+      content: input.content,
+      language: input.language || detectLanguage(path),
+      lastModified: new Date()
+    });
+    const file = project.generatedCode.files[project.generatedCode.files.length - 1];
+
+    await this.apply(project, [{
+      fileId: file._id!.toString(),
+      changeType: 'created',
+      path,
+      before: null,
+      after: input.content
+    }], author);
+
+    return file;
+  }
+
+  async updateFile(project: IProject, fileId: string, content: string, author: string): Promise<ICodeFile> {
+    this.assertEditable(project);
+    const file = this.findFile(project, fileId);
+    const before = file.content;
+
+    file.content = content;
+    file.lastModified = new Date();
+
+    await this.apply(project, [{ fileId, changeType: 'updated', path: file.path, before, after: content }], author);
+    return file;
+  }
+
+  async renameFile(project: IProject, fileId: string, newPath: string, author: string): Promise<ICodeFile> {
+    this.assertEditable(project);
+    const file = this.findFile(project, fileId);
+    const path = this.normalizePath(newPath);
+    const previousPath = file.path;
+
+    if (path === previousPath) {
+      return file;
+    }
+    this.assertPathAvailable(project, path);
+
+    const detected = detectLanguage(path);
+    file.path = path;
+    file.language = detected !== 'plaintext' ? detected : file.language;
+    file.lastModified = new Date();
+
+    await this.apply(project, [{
+      fileId,
+      changeType: 'renamed',
+      path,
+      previousPath,
+      before: file.content,
+      after: file.content
+    }], author);
+    return file;
+  }
+
+  async deleteFile(project: IProject, fileId: string, author: string): Promise<void> {
+    this.assertEditable(project);
+    const file = this.findFile(project, fileId);
+
+    // Saved as a $pull, so edits made meanwhile to the other files are kept
+    (project.generatedCode.files as mongoose.Types.Array<ICodeFile>).pull(file._id);
+
+    await this.apply(project, [{ fileId, changeType: 'deleted', path: file.path, before: file.content, after: null }], author);
+  }
+
+  async listRevisions(project: IProject, fileId: string): Promise<IFileRevision[]> {
+    const revisions = await this.history.list(project._id.toString(), fileId);
+    if (revisions.length === 0) {
+      // Files that were never edited have no stored revisions yet
+      this.findFile(project, fileId);
+    }
+    return revisions;
+  }
+
+  async getRevision(project: IProject, fileId: string, revision: number): Promise<IFileRevision> {
+    const found = await this.history.get(project._id.toString(), fileId, revision);
+    if (!found) {
+      throw new FileEditError('REVISION_NOT_FOUND', `Revision ${revision} not found`);
+    }
+    return found;
+  }
+
+  /**
+   * Restore the content of an old revision. A deleted file is recreated at the
+   * revision's path with its original ID, so its history continues.
+   */
+  async restoreRevision(project: IProject, fileId: string, revision: number, author: string): Promise<ICodeFile> {
+    this.assertEditable(project);
+    const target = await this.getRevision(project, fileId, revision);
+    if (target.changeType === 'deleted') {
+      throw new FileEditError('REVISION_NOT_RESTORABLE', 'A deletion cannot be restored; restore an earlier revision');
+    }
+
+    const existing = project.generatedCode.files.find(candidate => candidate._id?.toString() === fileId);
+    let file: ICodeFile;
+    let before: string | null;
+
+    if (existing) {
+      file = existing;
+      before = file.content;
+      file.content = target.content;
+      file.lastModified = new Date();
+    } else {
+      this.assertPathAvailable(project, target.path);
+      project.generatedCode.files.push({
+        _id: target.fileId,
+        path: target.path,
+        content: target.content,
+        language: detectLanguage(target.path),
+        lastModified: new Date()
+      });
+      file = project.generatedCode.files[project.generatedCode.files.length - 1];
+      before = null;
+    }
+
+    await this.apply(project, [{
+      fileId,
+      changeType: 'restored',
+      path: file.path,
+      before,
+      after: target.content
+    }], author, `Restored ${file.path} to revision ${revision}`);
+    return file;
+  }
+
+  /**
+   * Write several files as one change: existing paths are updated, new paths created.
+   * Files whose content is unchanged are skipped. Returns the recorded changes.
+   */
+  async writeFiles(
+    project: IProject,
+    files: Array<{ path: string; content: string }>,
+    author: string,
+    description: string
+  ): Promise<FileChange[]> {
+    this.assertEditable(project);
+    const changes: FileChange[] = [];
+
+    for (const input of files) {
+      const path = this.normalizePath(input.path);
+      const existing = project.generatedCode.files.find(file => file.path === path);
+
+      if (existing) {
+        if (existing.content === input.content) continue;
+        changes.push({ fileId: existing._id!.toString(), changeType: 'updated', path, before: existing.content, after: input.content });
+        existing.content = input.content;
+        existing.lastModified = new Date();
+      } else {
+        project.generatedCode.files.push({ path, content: input.content, language: detectLanguage(path), lastModified: new Date() });
+        const created = project.generatedCode.files[project.generatedCode.files.length - 1];
+        changes.push({ fileId: created._id!.toString(), changeType: 'created', path, before: null, after: input.content });
+      }
+    }
+
+    if (changes.length > 0) {
+      await this.apply(project, changes, author, description);
+    }
+    return changes;
+  }
+
+  private async apply(
+    project: IProject,
+    changes: FileChange[],
+    author: string,
+    description = this.describe(changes[0])
+  ): Promise<void> {
+    project.generatedCode.structure = buildDirectoryStructure(project.generatedCode.files);
+    project.analytics.linesOfCode = countLinesOfCode(project.generatedCode.files);
+    updateQualityMetrics(project);
+    try {
+      updateApiDocumentation(project);
+    } catch (error) {
+      console.error(`Failed to update the OpenAPI document of project ${project._id}:`, error);
+    }
+    project.addChangeHistory({
+      changeType: changes.length === 1 ? this.historyChangeType(changes[0]) : 'updated',
+      description,
+      author
+    });
+
+    try {
+      await this.repositories.commitProject(project, { description, author });
+    } catch (error) {
+      console.error(`Failed to commit file change for project ${project._id}:`, error);
+    }
+
+    await project.save();
+    await this.history.record(project._id.toString(), changes, author);
+  }
+
+  private describe(change: FileChange): string {
+    switch (change.changeType) {
+      case 'created': return `Created file ${change.path}`;
+      case 'renamed': return `Renamed file ${change.previousPath} to ${change.path}`;
+      case 'deleted': return `Deleted file ${change.path}`;
+      default: return `Updated file ${change.path}`;
+    }
+  }
+
+  private historyChangeType(change: FileChange): IChangeHistory['changeType'] {
+    if (change.changeType === 'created' || change.changeType === 'deleted') {
+      return change.changeType;
+    }
+    return 'updated';
+  }
+
+  private normalizePath(rawPath: string): string {
+    try {
+      return normalizeOutputPath(rawPath);
+    } catch (error) {
+      if (error instanceof CodeOutputError) {
+        throw new FileEditError('INVALID_PATH', `Invalid file path: ${rawPath}`);
+      }
+      throw error;
+    }
+  }
+
+  private assertPathAvailable(project: IProject, path: string): void {
+    if (project.generatedCode.files.some(file => file.path === path)) {
+      throw new FileEditError('FILE_EXISTS', `A file already exists at ${path}`);
+    }
+  }
+
+  // Generation replaces the file list, so edits made meanwhile would be lost
+  private assertEditable(project: IProject): void {
+    if (project.status === 'generating') {
+      throw new FileEditError('GENERATION_IN_PROGRESS', 'Files cannot be edited while generation is in progress');
+    }
+  }
+}
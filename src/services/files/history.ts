@@ -0,0 +1,146 @@
+import mongoose from 'mongoose';
+import { createTwoFilesPatch, FILE_HEADERS_ONLY } from 'diff';
+import { ICodeFile } from '@/models/Project';
+import { FileRevision, IFileRevision, FileChangeType } from '@/models/FileRevision';
+
+export interface FileChange {
+  fileId: string;
+  changeType: FileChangeType;
+  path: string;
+  previousPath?: string;
+  // Content before and after the change; null when the file did not exist
+  before: string | null;
+  after: string | null;
+}
+
+// Author of the baseline revision recorded for files that predate revision tracking
+const BASELINE_AUTHOR = 'system';
+
+// Attempts at numbering a revision when concurrent edits keep taking the next number
+const MAX_RECORD_ATTEMPTS = 5;
+
+const isDuplicateKeyError = (error: unknown): boolean => {
+  const { name, code } = (error || {}) as { name?: string; code?: number };
+  return name === 'MongoServerError' && code === 11000;
+};
+
+/**
+ * Unified diff for a change, using /dev/null for the missing side of creations and deletions
+ */
+export function createUnifiedDiff(change: Pick<FileChange, 'path' | 'previousPath' | 'before' | 'after'>): string {
+  return createTwoFilesPatch(
+    change.before === null ? '/dev/null' : `a/${change.previousPath || change.path}`,
+    change.after === null ? '/dev/null' : `b/${change.path}`,
+    change.before ?? '',
+    change.after ?? '',
+    undefined,
+    undefined,
+    { headerOptions: FILE_HEADERS_ONLY }
+  );
+}
+
+/**
+ * Compare a regenerated file list with the previous one. Files keep their _id when
+ * their path is unchanged so their revision history continues; new files get a fresh _id.
+ */
+export function trackFileChanges(previous: ICodeFile[], next: ICodeFile[]): FileChange[] {
+  const previousByPath = new Map(previous.map(file => [file.path, file]));
+  const changes: FileChange[] = [];
+
+  for (const file of next) {
+    const existing = previousByPath.get(file.path);
+    previousByPath.delete(file.path);
+
+    file._id = existing?._id || new mongoose.Types.ObjectId();
+    if (existing && existing.content === file.content) continue;
+
+    changes.push({
+      fileId: file._id.toString(),
+      changeType: existing ? 'updated' : 'created',
+      path: file.path,
+      before: existing ? existing.content : null,
+      after: file.content
+    });
+  }
+
+  for (const file of previousByPath.values()) {
+    if (!file._id) continue;
+    changes.push({
+      fileId: file._id.toString(),
+      changeType: 'deleted',
+      path: file.path,
+      before: file.content,
+      after: null
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Stores one revision per file change. Revisions are numbered per file from 1; a file
+ * without revisions gets a baseline revision of its previous content first, so edits to
+ * AI output generated before revision tracking still show a diff. The unique index on
+ * the number settles concurrent edits: the one that loses is numbered again after it.
+ */
+export class FileHistoryService {
+  async record(projectId: string, changes: FileChange[], author: string): Promise<IFileRevision[]> {
+    const revisions: IFileRevision[] = [];
+
+    for (const change of changes) {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          revisions.push(await this.recordChange(projectId, change, author));
+          break;
+        } catch (error) {
+          if (!isDuplicateKeyError(error) || attempt >= MAX_RECORD_ATTEMPTS) throw error;
+        }
+      }
+    }
+
+    return revisions;
+  }
+
+  /**
+   * Revisions of a file, newest first, without their content
+   */
+  async list(projectId: string, fileId: string): Promise<IFileRevision[]> {
+    return FileRevision.find({ projectId, fileId }).select('-content').sort({ revision: -1 });
+  }
+
+  async get(projectId: string, fileId: string, revision: number): Promise<IFileRevision | null> {
+    return FileRevision.findOne({ projectId, fileId, revision });
+  }
+
+  private async recordChange(projectId: string, change: FileChange, author: string): Promise<IFileRevision> {
+    const latest = await FileRevision.findLatest(projectId, change.fileId);
+    let revision = latest ? latest.revision + 1 : 1;
+
+    if (!latest && change.before !== null) {
+      const baselinePath = change.previousPath || change.path;
+      await FileRevision.create({
+        projectId,
+        fileId: change.fileId,
+        revision,
+        changeType: 'created',
+        path: baselinePath,
+        content: change.before,
+        diff: createUnifiedDiff({ path: baselinePath, before: null, after: change.before }),
+        author: BASELINE_AUTHOR
+      });
+      revision += 1;
+    }
+
+    return FileRevision.create({
+      projectId,
+      fileId: change.fileId,
+      revision,
+      changeType: change.changeType,
+      path: change.path,
+      previousPath: change.previousPath,
+      content: change.after ?? '',
+      diff: createUnifiedDiff(change),
+      author
+    });
+  }
+}
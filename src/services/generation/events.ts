@@ -0,0 +1,92 @@
+import { EventEmitter } from 'events';
+import { ProjectStatus, TestRunStatus, ITestRun } from '@/models/Project';
+import { TddPhase } from '@/models/TddIteration';
+import { AIResponse } from '@/services/ai/types';
+
+export interface GenerationStatusEvent {
+  projectId: string;
+  status: ProjectStatus;
+  previousStatus: ProjectStatus;
+  timestamp: Date;
+}
+
+export interface GenerationFileEvent {
+  projectId: string;
+  component: string;
+  path: string;
+  language: string;
+  timestamp: Date;
+}
+
+export interface GenerationUsageEvent {
+  projectId: string;
+  task: string;
+  usage: AIResponse['usage'];
+  totalTokens: number;
+  timestamp: Date;
+}
+
+export interface GenerationTestsEvent {
+  projectId: string;
+  component: string;
+  phase: TddPhase;
+  attempt: number;
+  status: TestRunStatus;
+  summary: ITestRun['summary'];
+  timestamp: Date;
+}
+
+// Progress of manual test runs, which happen outside generation
+export interface TestRunStatusEvent {
+  projectId: string;
+  status: 'running' | TestRunStatus;
+  summary?: ITestRun['summary'];
+  timestamp: Date;
+}
+
+export interface GenerationErrorEvent {
+  projectId: string;
+  message: string;
+  timestamp: Date;
+}
+
+export interface GenerationEventMap {
+  'generation:status': GenerationStatusEvent;
+  'generation:file': GenerationFileEvent;
+  'generation:usage': GenerationUsageEvent;
+  'generation:tests': GenerationTestsEvent;
+  'generation:error': GenerationErrorEvent;
+  'tests:status': TestRunStatusEvent;
+}
+
+export type GenerationEventName = keyof GenerationEventMap;
+
+/**
+ * Typed event bus for generation progress, consumed by the Socket.IO layer
+ */
+export class GenerationEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per connected namespace plus tests; avoid leak warnings
+    this.emitter.setMaxListeners(50);
+  }
+
+  emit<E extends GenerationEventName>(event: E, payload: GenerationEventMap[E]): void {
+    this.emitter.emit(event, payload);
+  }
+
+  on<E extends GenerationEventName>(event: E, listener: (payload: GenerationEventMap[E]) => void): () => void {
+    this.emitter.on(event, listener);
+    return () => {
+      this.emitter.off(event, listener);
+    };
+  }
+
+  removeAllListeners(): void {
+    this.emitter.removeAllListeners();
+  }
+}
+
+// Shared bus used by default across the application
+export const generationEvents = new GenerationEventBus();
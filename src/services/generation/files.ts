@@ -0,0 +1,110 @@
+import { ICodeFile, IDirectoryStructure } from '@/models/Project';
+
+// File extension to language mapping used when the model does not tag a block
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  py: 'python',
+  java: 'java',
+  go: 'go',
+  rb: 'ruby',
+  rs: 'rust',
+  cs: 'csharp',
+  php: 'php',
+  json: 'json',
+  yml: 'yaml',
+  yaml: 'yaml',
+  md: 'markdown',
+  sql: 'sql',
+  sh: 'shell',
+  html: 'html',
+  css: 'css',
+  env: 'dotenv',
+  dockerfile: 'dockerfile'
+};
+
+/**
+ * Detect the programming language of a file from its path
+ */
+export function detectLanguage(filePath: string): string {
+  const fileName = filePath.split('/').pop() || filePath;
+  if (fileName.toLowerCase() === 'dockerfile') {
+    return 'dockerfile';
+  }
+
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  return EXTENSION_LANGUAGES[extension] || 'plaintext';
+}
+
+/**
+ * Merge file lists, letting later files replace earlier ones with the same path
+ */
+export function mergeCodeFiles(...fileLists: ICodeFile[][]): ICodeFile[] {
+  const merged = new Map<string, ICodeFile>();
+  for (const files of fileLists) {
+    for (const file of files) {
+      merged.set(file.path, file);
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Build a directory tree rooted at "/" from a flat list of files
+ */
+export function buildDirectoryStructure(files: Pick<ICodeFile, 'path'>[]): IDirectoryStructure {
+  const root: IDirectoryStructure = {
+    name: 'root',
+    type: 'directory',
+    children: [],
+    path: '/'
+  };
+
+  for (const file of files) {
+    const segments = file.path.split('/').filter(Boolean);
+    let current = root;
+
+    segments.forEach((segment, index) => {
+      const isFile = index === segments.length - 1;
+      const nodePath = `/${segments.slice(0, index + 1).join('/')}`;
+      let node = current.children!.find(child => child.name === segment);
+
+      if (!node) {
+        node = isFile
+          ? { name: segment, type: 'file', path: nodePath }
+          : { name: segment, type: 'directory', children: [], path: nodePath };
+        current.children!.push(node);
+      }
+
+      current = node;
+    });
+  }
+
+  sortStructure(root);
+  return root;
+}
+
+/**
+ * Count lines of code across files, ignoring blank lines
+ */
+export function countLinesOfCode(files: Pick<ICodeFile, 'content'>[]): number {
+  return files.reduce(
+    (total, file) => total + file.content.split('\n').filter(line => line.trim().length > 0).length,
+    0
+  );
+}
+
+function sortStructure(node: IDirectoryStructure): void {
+  if (!node.children) return;
+
+  // Directories first, then alphabetical
+  node.children.sort((a, b) => {
+    if (a.type !== b.type) return a.type === 'directory' ? -1 : 1;
+    return a.name.localeCompare(b.name);
+  });
+  node.children.forEach(sortStructure);
+}
@@ -0,0 +1,7 @@
+export { GenerationOrchestrator } from './orchestrator';
+export type { GenerationComponent, GenerationMode, GenerationOptions, GenerationResult } from './orchestrator';
+export { TddJournal, diffFiles, summarizeTestRun } from './journal';
+export type { TddIterationRecord } from './journal';
+export { parseCodeOutput, normalizeOutputPath, CodeOutputError } from './parser';
+export type { CodeOutputParseResult, CodeOutputErrorCode } from './parser';
+export { detectLanguage, buildDirectoryStructure, countLinesOfCode, mergeCodeFiles } from './files';
@@ -0,0 +1,89 @@
+import { ICodeFile, ITestRun } from '@/models/Project';
+import { TddIteration, ITddIteration, ITddFileChange, ITddTestOutcome, TddPhase } from '@/models/TddIteration';
+import { createUnifiedDiff } from '@/services/files/history';
+
+export interface TddIterationRecord {
+  runId: string;
+  sequence: number;
+  component: string;
+  phase: TddPhase;
+  attempt: number;
+  // Project files before and after the iteration
+  before: ICodeFile[];
+  after: ICodeFile[];
+  testRun: ITestRun | null;
+}
+
+const MAX_RECORDED_FAILURES = 50;
+
+/**
+ * Files created or changed between two versions of the file list, with their diffs
+ */
+export function diffFiles(before: ICodeFile[], after: ICodeFile[]): ITddFileChange[] {
+  const previous = new Map(before.map(file => [file.path, file.content]));
+
+  return after
+    .filter(file => previous.get(file.path) !== file.content)
+    .map(file => {
+      const content = previous.get(file.path);
+      return {
+        path: file.path,
+        changeType: content === undefined ? 'created' as const : 'updated' as const,
+        content: file.content,
+        diff: createUnifiedDiff({ path: file.path, before: content ?? null, after: file.content })
+      };
+    });
+}
+
+export function summarizeTestRun(run: ITestRun): ITddTestOutcome {
+  return {
+    status: run.status,
+    total: run.summary.total,
+    passed: run.summary.passed,
+    failed: run.summary.failed,
+    failures: run.tests
+      .filter(test => test.status === 'failed')
+      .slice(0, MAX_RECORDED_FAILURES)
+      .map(test => ({ file: test.file, name: test.name, message: test.failureMessage || '' })),
+    ...(run.error && { error: run.error })
+  };
+}
+
+/**
+ * Stores every red-green iteration of a TDD generation run, so the evolution of each
+ * file can be replayed together with the test results that drove it.
+ */
+export class TddJournal {
+  async record(projectId: string, iteration: TddIterationRecord): Promise<ITddIteration> {
+    return TddIteration.create({
+      projectId,
+      runId: iteration.runId,
+      sequence: iteration.sequence,
+      component: iteration.component,
+      phase: iteration.phase,
+      attempt: iteration.attempt,
+      changes: diffFiles(iteration.before, iteration.after),
+      ...(iteration.testRun && { testRun: summarizeTestRun(iteration.testRun) })
+    });
+  }
+
+  async latestRunId(projectId: string): Promise<string | null> {
+    const latest = await TddIteration.findOne({ projectId }).sort({ createdAt: -1, sequence: -1 }).select('runId');
+    return latest ? latest.runId : null;
+  }
+
+  /**
+   * Iterations of a run in order; with a path, only those that changed that file
+   */
+  async list(projectId: string, runId: string, path?: string): Promise<ITddIteration[]> {
+    return TddIteration.find({
+      projectId,
+      runId,
+      ...(path && { 'changes.path': path })
+    }).sort({ sequence: 1 });
+  }
+
+  async get(projectId: string, runId: string, sequence: number): Promise<ITddIteration | null> {
+    return TddIteration.findOne({ projectId, runId, sequence });
+  }
+}
@@ -0,0 +1,637 @@
+import crypto from 'crypto';
+import { Project, IProject, ICodeFile, ITechStack, ITestRun, ProjectStatus, StatusTransitionError } from '@/models/Project';
+import { TddPhase } from '@/models/TddIteration';
+import { getAIService } from '@/services/ai/service';
+import { AIServiceClient } from '@/services/ai/client';
+import { GenerationTask, AIResponse, UsageContext } from '@/services/ai/types';
+import {
+  DescriptionAnalysisService,
+  AnalysisResult,
+  TechStack,
+  TechStackRecommendationRequest
+} from '@/services/ai/analysis';
+import { mergeCodeFiles, buildDirectoryStructure, countLinesOfCode } from './files';
+import { parseCodeOutput } from './parser';
+import { GenerationEventBus, generationEvents } from './events';
+import { GitRepositoryService, getGitRepositoryService } from '@/services/git/repository';
+import { FileChange, FileHistoryService, trackFileChanges } from '@/services/files/history';
+import { TestRunnerService, TestWorkspace, getTestRunnerService, isTestFile } from '@/services/testing/runner';
+import { updateQualityMetrics } from '@/services/quality/analyzer';
+import { updateApiDocumentation } from '@/services/openapi/document';
+import { TddJournal } from './journal';
+
+export interface GenerationComponent {
+  name: string;
+  specification: string;
+}
+
+// standard: one prompt per component; tdd: red-green loop driven by real test runs
+export type GenerationMode = 'standard' | 'tdd';
+
+export interface GenerationOptions {
+  preferences?: Partial<TechStack>;
+  scale?: TechStackRecommendationRequest['scale'];
+  author?: string;
+  mode?: GenerationMode;
+  // TDD mode: FIX_ISSUES rounds per component before giving up on green
+  maxFixAttempts?: number;
+}
+
+export interface GenerationResult {
+  analysis: AnalysisResult;
+  techStack: ITechStack;
+  components: GenerationComponent[];
+  files: ICodeFile[];
+  generationTime: number;
+  warnings: string[];
+  // TDD mode: the journal run and the final test results
+  tddRunId?: string;
+  testRun?: ITestRun;
+}
+
+// Per-run state threaded through the pipeline steps
+interface GenerationRunContext {
+  projectId: string;
+  usage: UsageContext;
+  warnings: string[];
+  totalTokens: number;
+  tdd?: TddRunState;
+}
+
+interface TddRunState {
+  runId: string;
+  maxFixAttempts: number;
+  // Iterations recorded so far; the next one gets sequence + 1
+  sequence: number;
+  testRuns: number;
+  lastRun: ITestRun | null;
+  // Shared by the iterations so dependencies are only installed again when they change
+  workspace: TestWorkspace;
+}
+
+const DEFAULT_MAX_FIX_ATTEMPTS = 3;
+
+// How truncation warnings name the output of each file-producing task
+const FILE_TASK_LABELS: Partial<Record<GenerationTask, string>> = {
+  [GenerationTask.GENERATE_TESTS]: 'tests',
+  [GenerationTask.WRITE_FAILING_TESTS]: 'tests',
+  [GenerationTask.FIX_ISSUES]: 'fix'
+};
+const MAX_FAILURE_REPORT_LENGTH = 6000;
+
+const formatFiles = (files: ICodeFile[]): string =>
+  files.map(file => `// ${file.path}\n${file.content}`).join('\n\n');
+
+export class GenerationOrchestrator {
+  private aiService: AIServiceClient;
+  private analysisService: DescriptionAnalysisService;
+  private events: GenerationEventBus;
+  private repositories: GitRepositoryService;
+  private fileHistory: FileHistoryService;
+  private testRunner: TestRunnerService;
+  private journal: TddJournal;
+
+  constructor(
+    aiService?: AIServiceClient,
+    analysisService?: DescriptionAnalysisService,
+    events: GenerationEventBus = generationEvents,
+    repositories?: GitRepositoryService,
+    fileHistory?: FileHistoryService,
+    testRunner?: TestRunnerService,
+    journal?: TddJournal
+  ) {
+    this.aiService = aiService || getAIService();
+    this.analysisService = analysisService || new DescriptionAnalysisService(this.aiService);
+    this.events = events;
+    this.repositories = repositories || getGitRepositoryService();
+    this.fileHistory = fileHistory || new FileHistoryService();
+    this.testRunner = testRunner || getTestRunnerService();
+    this.journal = journal || new TddJournal();
+  }
+
+  /**
+   * Run the full pipeline for a project: analyze, recommend, generate code and tests.
+   * In TDD mode each component is built test-first against real test runs instead.
+   * The project is saved at each status change and left in "completed" or "error".
+   */
+  async generateProject(project: IProject, options: GenerationOptions = {}): Promise<GenerationResult> {
+    const startTime = Date.now();
+    const author = options.author || 'system';
+    const context: GenerationRunContext = {
+      projectId: project._id.toString(),
+      usage: { userId: project.userId.toString(), projectId: project._id.toString() },
+      warnings: [],
+      totalTokens: 0
+    };
+
+    try {
+      await this.transition(project, 'generating', 'Generation started');
+
+      const analysis = await this.analysisService.analyzeDescription(project.description, context.usage);
+
+      const techStack = await this.selectTechStack(project, analysis, options, context);
+      const components = this.planComponents(analysis);
+
+      if (options.mode === 'tdd') {
+        context.tdd = await this.startTddRun(techStack, options, context);
+      }
+
+      let files: ICodeFile[] = [];
+      for (const component of components) {
+        if (context.tdd) {
+          files = await this.generateComponentTestFirst(component, files, techStack, analysis, context);
+        } else {
+          files = await this.generateComponentWithTests(component, files, techStack, analysis, context);
+        }
+      }
+      const { warnings, tdd } = context;
+
+      if (files.length === 0) {
+        throw new Error('AI service returned no files');
+      }
+
+      const generationTime = Date.now() - startTime;
+
+      const fileChanges = trackFileChanges(project.generatedCode.files, files);
+      project.techStack = techStack;
+      project.generatedCode.files = files;
+      project.generatedCode.structure = buildDirectoryStructure(files);
+      project.analytics.generationTime = generationTime;
+      project.analytics.linesOfCode = countLinesOfCode(files);
+      project.analytics.filesGenerated = files.length;
+      updateQualityMetrics(project);
+      project.requirements = {
+        dataModels: analysis.dataModels,
+        apiEndpoints: analysis.apiEndpoints,
+        authentication: analysis.authentication
+      };
+      this.documentApi(project, context);
+      if (tdd?.lastRun) {
+        this.testRunner.recordRun(project, tdd.lastRun, tdd.testRuns);
+      }
+      const change = {
+        changeType: 'updated' as const,
+        description: `Generated ${files.length} files for ${components.length} components`
+          + (warnings.length > 0 ? ` with ${warnings.length} warnings` : ''),
+        author
+      };
+      project.addChangeHistory(change);
+      await this.commitToRepository(project, change, context);
+      await this.transition(project, 'completed', `Generated ${files.length} files`);
+      await this.recordFileRevisions(project, fileChanges, author, context);
+
+      return {
+        analysis,
+        techStack,
+        components,
+        files,
+        generationTime,
+        warnings,
+        ...(tdd && { tddRunId: tdd.runId, testRun: tdd.lastRun || undefined })
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      project.analytics.generationTime = Date.now() - startTime;
+      project.addChangeHistory({
+        changeType: 'updated',
+        description: `Generation failed: ${message}`,
+        author
+      });
+      await this.releaseFailed(project, `Generation failed: ${message}`);
+      this.events.emit('generation:error', {
+        projectId: context.projectId,
+        message,
+        timestamp: new Date()
+      });
+
+      throw new Error(`Failed to generate project: ${message}`);
+    } finally {
+      if (context.tdd) {
+        await this.testRunner.closeWorkspace(context.tdd.workspace);
+      }
+    }
+  }
+
+  /**
+   * Split the analysis into independently generated components
+   */
+  planComponents(analysis: AnalysisResult): GenerationComponent[] {
+    const components: GenerationComponent[] = [];
+
+    for (const model of analysis.dataModels) {
+      components.push({
+        name: `${model.name} model`,
+        specification: JSON.stringify(model)
+      });
+    }
+
+    if (analysis.authentication.required) {
+      components.push({
+        name: 'authentication',
+        specification: JSON.stringify(analysis.authentication)
+      });
+    }
+
+    if (analysis.apiEndpoints.length > 0) {
+      components.push({
+        name: 'API routes',
+        specification: JSON.stringify(analysis.apiEndpoints)
+      });
+    }
+
+    if (components.length === 0) {
+      components.push({
+        name: 'application',
+        specification: JSON.stringify(analysis.functionality)
+      });
+    }
+
+    return components;
+  }
+
+  private async selectTechStack(
+    project: IProject,
+    analysis: AnalysisResult,
+    options: GenerationOptions,
+    context: GenerationRunContext
+  ): Promise<ITechStack> {
+    const { recommendations } = await this.analysisService.recommendTechStack({
+      requirements: analysis,
+      preferences: options.preferences || {
+        language: project.techStack.language,
+        framework: project.techStack.framework,
+        database: project.techStack.database
+      },
+      scale: options.scale,
+      context: context.usage
+    });
+
+    const best = [...recommendations].sort((a, b) => a.rank - b.rank)[0];
+    if (!best) {
+      return project.techStack;
+    }
+
+    return {
+      language: best.language,
+      framework: best.framework,
+      database: best.database,
+      additionalTools: best.additionalTools
+    };
+  }
+
+  private async generateComponentWithTests(
+    component: GenerationComponent,
+    files: ICodeFile[],
+    techStack: ITechStack,
+    analysis: AnalysisResult,
+    context: GenerationRunContext
+  ): Promise<ICodeFile[]> {
+    const componentFiles = await this.generateComponent(component, techStack, analysis, context);
+    const testFiles = await this.generateTests(component, componentFiles, techStack, analysis, context);
+    return mergeCodeFiles(files, componentFiles, testFiles);
+  }
+
+  /**
+   * TDD needs a stack the test runner supports; otherwise generation continues in standard
+   * mode. A sandbox that can't run anything stops generation here, before failures that
+   * aren't in the code are sent to the AI to fix.
+   */
+  private async startTddRun(
+    techStack: ITechStack,
+    options: GenerationOptions,
+    context: GenerationRunContext
+  ): Promise<TddRunState | undefined> {
+    const unavailable = this.testRunner.unavailableReason(techStack);
+    if (unavailable) {
+      context.warnings.push(`Generated without the test-first loop: ${unavailable.message}`);
+      return undefined;
+    }
+
+    const sandboxProblem = await this.testRunner.checkSandbox();
+    if (sandboxProblem) {
+      throw new Error(`Test-first generation is unavailable: ${sandboxProblem}`);
+    }
+
+    return {
+      runId: crypto.randomUUID(),
+      maxFixAttempts: options.maxFixAttempts ?? DEFAULT_MAX_FIX_ATTEMPTS,
+      sequence: 0,
+      testRuns: 0,
+      lastRun: null,
+      workspace: await this.testRunner.openWorkspace()
+    };
+  }
+
+  /**
+   * Red-green loop for one component: write failing tests and check they fail, implement,
+   * then feed failures to FIX_ISSUES until the tests pass or the retry budget is spent.
+   * Test files are never changed after the first step.
+   */
+  private async generateComponentTestFirst(
+    component: GenerationComponent,
+    files: ICodeFile[],
+    techStack: ITechStack,
+    analysis: AnalysisResult,
+    context: GenerationRunContext
+  ): Promise<ICodeFile[]> {
+    const tdd = context.tdd!;
+
+    const testsResponse = await this.aiService.generateWithTemplate(
+      GenerationTask.WRITE_FAILING_TESTS,
+      {
+        component: component.name,
+        techStack: JSON.stringify(techStack),
+        requirements: JSON.stringify(analysis.functionality),
+        specification: component.specification,
+        existingFiles: files.map(file => file.path).join('\n') || 'None'
+      },
+      { context: context.usage }
+    );
+    const tests = this.collectFiles(GenerationTask.WRITE_FAILING_TESTS, testsResponse, component, context)
+      .filter(file => isTestFile(file.path));
+
+    if (tests.length === 0) {
+      context.warnings.push(`No tests were written for ${component.name}; generated it without the test-first loop`);
+      return this.generateComponentWithTests(component, files, techStack, analysis, context);
+    }
+
+    let current = mergeCodeFiles(files, tests);
+    let run = await this.runTestIteration(component, 'tests', 0, files, current, techStack, context);
+    if (run.status === 'passed') {
+      context.warnings.push(`Tests for ${component.name} passed before any implementation was written`);
+    }
+
+    const implementationResponse = await this.aiService.generateWithTemplate(
+      GenerationTask.IMPLEMENT_TO_PASS,
+      {
+        component: component.name,
+        techStack: JSON.stringify(techStack),
+        specification: component.specification,
+        tests: formatFiles(tests),
+        testResults: this.describeFailures(run)
+      },
+      { context: context.usage }
+    );
+    const implementation = this.collectFiles(GenerationTask.IMPLEMENT_TO_PASS, implementationResponse, component, context)
+      .filter(file => !isTestFile(file.path));
+
+    const componentPaths = new Set([...tests, ...implementation].map(file => file.path));
+    let previous = current;
+    current = mergeCodeFiles(current, implementation);
+    run = await this.runTestIteration(component, 'implementation', 0, previous, current, techStack, context);
+
+    let attempt = 0;
+    while (run.status !== 'passed' && attempt < tdd.maxFixAttempts) {
+      attempt++;
+      const fixResponse = await this.aiService.generateWithTemplate(
+        GenerationTask.FIX_ISSUES,
+        {
+          issue: run.status === 'error'
+            ? `The tests for ${component.name} could not run: ${run.error}`
+            : `${run.summary.failed} of ${run.summary.total} tests fail for ${component.name}`,
+          code: formatFiles(current.filter(file => componentPaths.has(file.path))),
+          stackTrace: this.describeFailures(run),
+          expectedBehavior: 'All tests pass. Change implementation files only: the tests are the specification.'
+        },
+        { context: context.usage }
+      );
+      const fixes = this.collectFiles(GenerationTask.FIX_ISSUES, fixResponse, component, context)
+        .filter(file => !isTestFile(file.path));
+      if (fixes.length === 0) break;
+
+      fixes.forEach(file => componentPaths.add(file.path));
+      previous = current;
+      current = mergeCodeFiles(current, fixes);
+      run = await this.runTestIteration(component, 'fix', attempt, previous, current, techStack, context);
+    }
+
+    if (run.status !== 'passed') {
+      context.warnings.push(`Tests for ${component.name} still fail after ${attempt} fix attempts`);
+    }
+    return current;
+  }
+
+  /**
+   * Run the tests of the accumulated files and journal the iteration that produced them
+   */
+  private async runTestIteration(
+    component: GenerationComponent,
+    phase: TddPhase,
+    attempt: number,
+    before: ICodeFile[],
+    after: ICodeFile[],
+    techStack: ITechStack,
+    context: GenerationRunContext
+  ): Promise<ITestRun> {
+    const tdd = context.tdd!;
+    const run = await this.testRunner.execute(after, techStack, tdd.workspace);
+    tdd.testRuns++;
+    tdd.lastRun = run;
+    tdd.sequence++;
+
+    this.events.emit('generation:tests', {
+      projectId: context.projectId,
+      component: component.name,
+      phase,
+      attempt,
+      status: run.status,
+      summary: run.summary,
+      timestamp: new Date()
+    });
+
+    try {
+      await this.journal.record(context.projectId, {
+        runId: tdd.runId,
+        sequence: tdd.sequence,
+        component: component.name,
+        phase,
+        attempt,
+        before,
+        after,
+        testRun: run
+      });
+    } catch (error) {
+      context.warnings.push(`Failed to record TDD iteration: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return run;
+  }
+
+  private describeFailures(run: ITestRun): string {
+    if (run.status === 'error') {
+      return `${run.error}\n${run.output.slice(-2000)}`;
+    }
+
+    const failures = run.tests
+      .filter(test => test.status === 'failed')
+      .map(test => `${test.file} › ${test.name}\n${test.failureMessage || ''}`)
+      .join('\n\n');
+    return failures.slice(0, MAX_FAILURE_REPORT_LENGTH) || 'All tests pass';
+  }
+
+  private async generateComponent(
+    component: GenerationComponent,
+    techStack: ITechStack,
+    analysis: AnalysisResult,
+    context: GenerationRunContext
+  ): Promise<ICodeFile[]> {
+    const response = await this.aiService.generateWithTemplate(
+      GenerationTask.GENERATE_CODE,
+      {
+        component: component.name,
+        techStack: JSON.stringify(techStack),
+        requirements: JSON.stringify(analysis.functionality),
+        specification: component.specification
+      },
+      { context: context.usage }
+    );
+
+    return this.collectFiles(GenerationTask.GENERATE_CODE, response, component, context);
+  }
+
+  private async generateTests(
+    component: GenerationComponent,
+    files: ICodeFile[],
+    techStack: ITechStack,
+    analysis: AnalysisResult,
+    context: GenerationRunContext
+  ): Promise<ICodeFile[]> {
+    const implementationFiles = files.filter(file => !/\.(test|spec)\.\w+$/.test(file.path));
+    if (implementationFiles.length === 0) {
+      return [];
+    }
+
+    const response = await this.aiService.generateWithTemplate(
+      GenerationTask.GENERATE_TESTS,
+      {
+        code: implementationFiles.map(file => `// ${file.path}\n${file.content}`).join('\n\n'),
+        techStack: JSON.stringify(techStack),
+        requirements: JSON.stringify(analysis.functionality)
+      },
+      { context: context.usage }
+    );
+
+    return this.collectFiles(GenerationTask.GENERATE_TESTS, response, component, context);
+  }
+
+  /**
+   * Parse a file response, keeping complete files and noting truncated output.
+   * Emits token usage and one event per completed file.
+   */
+  private collectFiles(
+    task: GenerationTask,
+    response: AIResponse,
+    component: GenerationComponent,
+    context: GenerationRunContext
+  ): ICodeFile[] {
+    context.totalTokens += response.usage.totalTokens;
+    this.events.emit('generation:usage', {
+      projectId: context.projectId,
+      task,
+      usage: response.usage,
+      totalTokens: context.totalTokens,
+      timestamp: new Date()
+    });
+
+    const result = parseCodeOutput(response);
+    const label = `${component.name} ${FILE_TASK_LABELS[task] || 'code'}`;
+
+    if (result.truncated) {
+      context.warnings.push(result.partialFile
+        ? `Output for ${label} was truncated; incomplete file ${result.partialFile.path} was discarded`
+        : `Output for ${label} hit the token limit and may be missing files`);
+    }
+
+    for (const file of result.files) {
+      this.events.emit('generation:file', {
+        projectId: context.projectId,
+        component: component.name,
+        path: file.path,
+        language: file.language,
+        timestamp: new Date()
+      });
+    }
+
+    return result.files;
+  }
+
+  // An invalid OpenAPI document is reported as a warning and not stored
+  private documentApi(project: IProject, context: GenerationRunContext): void {
+    try {
+      updateApiDocumentation(project);
+    } catch (error) {
+      context.warnings.push(`Failed to document the API: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // A repository failure is reported as a warning; the generated files are already on the project
+  private async commitToRepository(
+    project: IProject,
+    change: { description: string; author: string },
+    context: GenerationRunContext
+  ): Promise<void> {
+    try {
+      await this.repositories.commitProject(project, change);
+    } catch (error) {
+      context.warnings.push(`Failed to commit to project repository: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async recordFileRevisions(
+    project: IProject,
+    changes: FileChange[],
+    author: string,
+    context: GenerationRunContext
+  ): Promise<void> {
+    try {
+      await this.fileHistory.record(project._id.toString(), changes, author);
+    } catch (error) {
+      context.warnings.push(`Failed to record file revisions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Move a failed generation to "error". When the project itself can't be saved, only its
+   * status is reset, and only if it is still "generating", so the claim never outlives the run.
+   */
+  private async releaseFailed(project: IProject, reason: string): Promise<void> {
+    try {
+      await this.transition(project, 'error', reason);
+      return;
+    } catch (error) {
+      // The status was changed concurrently, e.g. the user paused the project
+      if (error instanceof StatusTransitionError) return;
+      console.error(`Failed to save generation failure for project ${project._id}:`, error);
+    }
+
+    const released = await Project.updateOne(
+      { _id: project._id, status: 'generating' },
+      {
+        $set: { status: 'error' },
+        $push: { statusTimeline: { $each: [{ from: 'generating', to: 'error', reason, timestamp: new Date() }], $slice: -100 } }
+      }
+    );
+    if (released.modifiedCount > 0) {
+      this.events.emit('generation:status', {
+        projectId: project._id.toString(),
+        status: 'error',
+        previousStatus: 'generating',
+        timestamp: new Date()
+      });
+    }
+  }
+
+  private async transition(project: IProject, status: ProjectStatus, reason: string): Promise<void> {
+    const previousStatus = project.status;
+    project.setStatus(status, reason);
+    await project.save();
+
+    this.events.emit('generation:status', {
+      projectId: project._id.toString(),
+      status,
+      previousStatus,
+      timestamp: new Date()
+    });
+  }
+}
@@ -0,0 +1,109 @@
+import { ICodeFile } from '@/models/Project';
+import { AIResponse } from '@/services/ai/types';
+import { detectLanguage } from './files';
+
+export type CodeOutputErrorCode = 'INVALID_PATH' | 'PATH_TRAVERSAL' | 'DUPLICATE_PATH';
+
+export class CodeOutputError extends Error {
+  code: CodeOutputErrorCode;
+  path: string;
+
+  constructor(code: CodeOutputErrorCode, path: string, message: string) {
+    super(message);
+    this.name = 'CodeOutputError';
+    this.code = code;
+    this.path = path;
+  }
+}
+
+export interface CodeOutputParseResult {
+  files: ICodeFile[];
+  truncated: boolean;
+  partialFile?: ICodeFile;
+}
+
+// Opening fence: ```<language> path=<relative/path>
+const OPENING_FENCE = /^(`{3,})([\w+#.-]*)\s+path=("[^"]+"|\S+)\s*$/;
+
+/**
+ * Parse a GENERATE_CODE / GENERATE_TESTS response that follows FILE_OUTPUT_FORMAT.
+ * Throws CodeOutputError for unsafe or duplicate paths. An unterminated final block
+ * or a "length" finish reason is reported through `truncated`.
+ */
+export function parseCodeOutput(response: Pick<AIResponse, 'content' | 'finishReason'>): CodeOutputParseResult {
+  const lines = response.content.split(/\r?\n/);
+  const files: ICodeFile[] = [];
+  const seenPaths = new Set<string>();
+
+  let current: { fence: string; path: string; language: string; lines: string[] } | null = null;
+
+  for (const line of lines) {
+    if (current) {
+      if (line.trimEnd() === current.fence) {
+        files.push(toCodeFile(current.path, current.language, current.lines));
+        current = null;
+      } else {
+        current.lines.push(line);
+      }
+      continue;
+    }
+
+    const match = line.match(OPENING_FENCE);
+    if (!match) continue;
+
+    const [, fence, language, rawPath] = match;
+    const filePath = normalizeOutputPath(rawPath.replace(/^"|"$/g, ''));
+
+    if (seenPaths.has(filePath)) {
+      throw new CodeOutputError('DUPLICATE_PATH', filePath, `Duplicate file path in AI output: ${filePath}`);
+    }
+    seenPaths.add(filePath);
+
+    current = { fence, path: filePath, language, lines: [] };
+  }
+
+  const partialFile = current ? toCodeFile(current.path, current.language, current.lines) : undefined;
+
+  return {
+    files,
+    truncated: response.finishReason === 'length' || partialFile !== undefined,
+    ...(partialFile && { partialFile })
+  };
+}
+
+/**
+ * Normalize a model-supplied path and reject anything that escapes the project root
+ */
+export function normalizeOutputPath(rawPath: string): string {
+  const candidate = rawPath.trim().replace(/\\/g, '/');
+
+  if (!candidate || /[\0]/.test(candidate)) {
+    throw new CodeOutputError('INVALID_PATH', rawPath, `Invalid file path in AI output: "${rawPath}"`);
+  }
+
+  if (candidate.startsWith('/') || /^[a-zA-Z]:/.test(candidate)) {
+    throw new CodeOutputError('PATH_TRAVERSAL', rawPath, `Absolute file paths are not allowed: ${rawPath}`);
+  }
+
+  const segments = candidate.split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.includes('..')) {
+    throw new CodeOutputError('PATH_TRAVERSAL', rawPath, `File path escapes the project root: ${rawPath}`);
+  }
+
+  if (segments.length === 0) {
+    throw new CodeOutputError('INVALID_PATH', rawPath, `Invalid file path in AI output: "${rawPath}"`);
+  }
+
+  return segments.join('/');
+}
+
+function toCodeFile(filePath: string, fenceLanguage: string, lines: string[]): ICodeFile {
+  const detected = detectLanguage(filePath);
+
+  return {
+    path: filePath,
+    content: `${lines.join('\n')}\n`,
+    language: detected !== 'plaintext' ? detected : (fenceLanguage.toLowerCase() || 'plaintext'),
+    lastModified: new Date()
+  };
+}
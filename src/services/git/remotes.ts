@@ -0,0 +1,146 @@
+import dns from 'dns/promises';
+import fs from 'fs/promises';
+import net from 'net';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+export type RemoteCheck =
+  | {
+    allowed: true;
+    // curl resolve entry (host:port:addresses) pinning the push to the vetted addresses
+    resolve?: string;
+  }
+  | { allowed: false; reason: string };
+
+export interface RemoteCheckOptions {
+  // The project's own local repository; file:// remotes elsewhere in its directory,
+  // the repositories of other projects, are refused
+  ownRepository?: string;
+}
+
+// Loopback, private, link-local (cloud metadata), shared, reserved and multicast ranges
+const BLOCKED_SUBNETS: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 127, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6']
+];
+
+const blockedAddresses = new net.BlockList();
+BLOCKED_SUBNETS.forEach(([network, prefix, type]) => blockedAddresses.addSubnet(network, prefix, type));
+
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges too
+const isBlockedAddress = (address: string): boolean =>
+  blockedAddresses.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+/**
+ * Hosts from GIT_REMOTE_ALLOWLIST: exact names, or *.example.com for any subdomain
+ */
+const allowedHosts = (): string[] => (process.env.GIT_REMOTE_ALLOWLIST || '')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+
+const matchesHost = (hostname: string, pattern: string): boolean =>
+  pattern.startsWith('*.') ? hostname.endsWith(pattern.slice(1)) : hostname === pattern;
+
+const isWithin = (parent: string, target: string): boolean => {
+  const relative = path.relative(parent, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+};
+
+const realPath = async (target: string): Promise<string> => {
+  try {
+    return await fs.realpath(target);
+  } catch {
+    return path.resolve(target);
+  }
+};
+
+/**
+ * Whether a local path is in the repositories directory but not in the project's own
+ * repository, compared both as written and with symlinks resolved
+ */
+const isOtherRepository = async (target: string, ownRepository: string): Promise<boolean> => {
+  const candidates: Array<[string, string]> = [
+    [path.resolve(target), path.resolve(ownRepository)],
+    [await realPath(target), await realPath(ownRepository)]
+  ];
+  return candidates.some(([local, own]) => isWithin(path.dirname(own), local) && !isWithin(own, local));
+};
+
+/**
+ * Decide whether the server may push to a remote. file:// remotes need
+ * GIT_ALLOW_FILE_REMOTES and may not point at other projects' repositories. With GIT_REMOTE_ALLOWLIST set only the listed hosts are
+ * accepted, internal ones included; without it any host is, as long as all of its
+ * addresses are public. Those are then pinned so the push can't be sent elsewhere
+ * by a second DNS answer.
+ */
+export async function checkRemote(repoUrl: string, options: RemoteCheckOptions = {}): Promise<RemoteCheck> {
+  let url: URL;
+  try {
+    url = new URL(repoUrl);
+  } catch {
+    return { allowed: false, reason: 'Repository URL is not a valid URL' };
+  }
+
+  if (url.protocol === 'file:') {
+    if (process.env.GIT_ALLOW_FILE_REMOTES !== 'true') {
+      return { allowed: false, reason: 'file:// remotes are disabled on this server' };
+    }
+
+    let localPath: string;
+    try {
+      localPath = fileURLToPath(url);
+    } catch {
+      return { allowed: false, reason: 'Repository URL is not a valid file URL' };
+    }
+    if (options.ownRepository && await isOtherRepository(localPath, options.ownRepository)) {
+      return { allowed: false, reason: 'file:// remotes cannot point at the repositories of other projects' };
+    }
+    return { allowed: true };
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { allowed: false, reason: 'Repository URL must be an http(s) URL' };
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+  const allowlist = allowedHosts();
+  if (allowlist.length > 0) {
+    return allowlist.some(pattern => matchesHost(hostname, pattern))
+      ? { allowed: true }
+      : { allowed: false, reason: `${hostname} is not an allowed git host on this server` };
+  }
+
+  let addresses: string[];
+  try {
+    addresses = net.isIP(hostname)
+      ? [hostname]
+      : (await dns.lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+  } catch {
+    return { allowed: false, reason: `${hostname} could not be resolved` };
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    return { allowed: false, reason: `${hostname} resolves to a private or loopback address` };
+  }
+  if (net.isIP(hostname)) {
+    return { allowed: true };
+  }
+
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+  const pinned = addresses.map(address => (net.isIPv6(address) ? `[${address}]` : address));
+  return { allowed: true, resolve: `${hostname}:${port}:${pinned.join(',')}` };
+}
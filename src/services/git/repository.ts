@@ -0,0 +1,318 @@
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { IProject } from '@/models/Project';
+
+export class GitError extends Error {
+  readonly exitCode: number | null;
+  readonly stderr: string;
+
+  constructor(message: string, exitCode: number | null = null, stderr = '') {
+    super(message);
+    this.name = 'GitError';
+    this.exitCode = exitCode;
+    this.stderr = stderr;
+  }
+}
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+export interface GitSnapshot {
+  files: Array<{ path: string; content: string }>;
+  branch: string;
+  message: string;
+  author: GitAuthor;
+}
+
+export interface GitCommitResult {
+  commit: string;
+  changed: boolean;
+}
+
+export interface GitPushOptions {
+  remoteUrl: string;
+  commit: string;
+  branch: string;
+  credentials?: { username?: string; token: string };
+  allowFileProtocol?: boolean;
+  // curl resolve entry pinning the remote host to vetted addresses
+  resolve?: string;
+}
+
+interface RunOptions {
+  input?: string | Buffer;
+  env?: NodeJS.ProcessEnv;
+  timeout?: number;
+}
+
+const PUSH_TIMEOUT = 60000;
+
+/**
+ * Whether a failed push was refused because the remote branch has commits we don't have
+ */
+export function isRejectedPush(error: unknown): boolean {
+  return error instanceof GitError && /\[rejected\]|non-fast-forward|fetch first/.test(error.stderr);
+}
+
+/**
+ * Build a commit author from an IChangeHistory author, which is an email or a name like "system"
+ */
+export function toGitAuthor(author: string): GitAuthor {
+  const value = author.trim() || 'system';
+  return value.includes('@')
+    ? { name: value.split('@')[0], email: value }
+    : { name: value, email: `${value.toLowerCase().replace(/[^a-z0-9.-]+/g, '-')}@backendforge.local` };
+}
+
+/**
+ * One bare repository per project, written with git plumbing against a temporary
+ * index so no working tree is needed. Each commit is a full snapshot of the project files.
+ * Commits to the same project are serialized.
+ */
+export class GitRepositoryService {
+  private rootDir: string;
+  private queues = new Map<string, Promise<unknown>>();
+
+  constructor(rootDir: string = process.env.GIT_REPOS_DIR || path.join(process.cwd(), 'data', 'repos')) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  repositoryPath(projectId: string): string {
+    if (!/^[a-f0-9]{24}$/i.test(projectId)) {
+      throw new GitError(`Invalid project ID for repository: ${projectId}`);
+    }
+    return path.join(this.rootDir, `${projectId}.git`);
+  }
+
+  async exists(projectId: string): Promise<boolean> {
+    try {
+      await fs.access(path.join(this.repositoryPath(projectId), 'HEAD'));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async ensureRepository(projectId: string, branch: string): Promise<string> {
+    const repoPath = this.repositoryPath(projectId);
+
+    if (!await this.exists(projectId)) {
+      await fs.mkdir(this.rootDir, { recursive: true });
+      await this.run(['init', '--bare', '--quiet', repoPath]);
+      await this.git(repoPath, ['symbolic-ref', 'HEAD', `refs/heads/${branch}`]);
+    }
+
+    return repoPath;
+  }
+
+  async commitSnapshot(projectId: string, snapshot: GitSnapshot): Promise<GitCommitResult> {
+    return this.enqueue(projectId, () => this.writeSnapshot(projectId, snapshot));
+  }
+
+  /**
+   * Commit the project's current files and record the result in its gitIntegration.
+   * The caller is responsible for saving the project.
+   */
+  async commitProject(project: IProject, change: { description: string; author: string }): Promise<GitCommitResult> {
+    const branch = project.gitIntegration.branch || 'main';
+    const result = await this.commitSnapshot(project._id.toString(), {
+      files: project.generatedCode.files.map(file => ({ path: file.path, content: file.content })),
+      branch,
+      message: change.description,
+      author: toGitAuthor(change.author)
+    });
+
+    project.gitIntegration.branch = branch;
+    project.gitIntegration.lastCommit = result.commit;
+    project.gitIntegration.lastSyncAt = new Date();
+
+    return result;
+  }
+
+  /**
+   * Push a commit to a branch of a remote repository. Credentials and the protocol
+   * allow-list go through GIT_CONFIG_* variables so they never appear in process arguments.
+   */
+  async push(projectId: string, options: GitPushOptions): Promise<void> {
+    const config: Array<[string, string]> = [
+      ['protocol.allow', 'never'],
+      ['protocol.http.allow', 'always'],
+      ['protocol.https.allow', 'always'],
+      // A redirect would lead the push past the checks on the remote
+      ['http.followRedirects', 'false']
+    ];
+    if (options.allowFileProtocol) {
+      config.push(['protocol.file.allow', 'always']);
+    }
+    if (options.resolve) {
+      config.push(['http.curloptResolve', options.resolve]);
+    }
+    if (options.credentials) {
+      const basic = Buffer.from(`${options.credentials.username || 'git'}:${options.credentials.token}`).toString('base64');
+      config.push(['http.extraHeader', `Authorization: Basic ${basic}`]);
+    }
+
+    const env: NodeJS.ProcessEnv = { GIT_CONFIG_COUNT: String(config.length) };
+    config.forEach(([key, value], index) => {
+      env[`GIT_CONFIG_KEY_${index}`] = key;
+      env[`GIT_CONFIG_VALUE_${index}`] = value;
+    });
+
+    await this.git(
+      this.repositoryPath(projectId),
+      ['push', options.remoteUrl, `${options.commit}:refs/heads/${options.branch}`],
+      { env, timeout: PUSH_TIMEOUT }
+    );
+  }
+
+  async getHead(projectId: string, branch: string): Promise<string | null> {
+    if (!await this.exists(projectId)) return null;
+    return this.resolve(this.repositoryPath(projectId), `refs/heads/${branch}`);
+  }
+
+  async removeRepository(projectId: string): Promise<void> {
+    await fs.rm(this.repositoryPath(projectId), { recursive: true, force: true });
+  }
+
+  /**
+   * Spawn git-upload-pack in stateless RPC mode for the smart HTTP protocol
+   */
+  uploadPack(projectId: string, options: { advertiseRefs?: boolean } = {}): ChildProcessWithoutNullStreams {
+    const args = ['upload-pack', '--stateless-rpc'];
+    if (options.advertiseRefs) {
+      args.push('--advertise-refs');
+    }
+    args.push(this.repositoryPath(projectId));
+
+    return spawn('git', args, { env: this.baseEnv() });
+  }
+
+  private async writeSnapshot(projectId: string, snapshot: GitSnapshot): Promise<GitCommitResult> {
+    await this.run(['check-ref-format', '--branch', snapshot.branch]);
+    const repoPath = await this.ensureRepository(projectId, snapshot.branch);
+    const ref = `refs/heads/${snapshot.branch}`;
+    const parent = await this.resolve(repoPath, ref);
+
+    const indexFile = path.join(os.tmpdir(), `backendforge-index-${crypto.randomUUID()}`);
+    const indexEnv = { GIT_INDEX_FILE: indexFile };
+
+    try {
+      const entries: string[] = [];
+      for (const file of snapshot.files) {
+        const blob = await this.git(repoPath, ['hash-object', '-w', '--stdin'], { input: file.content });
+        entries.push(`100644 ${blob}\t${file.path.replace(/^\/+/, '')}`);
+      }
+
+      if (entries.length > 0) {
+        await this.git(repoPath, ['update-index', '--add', '--index-info'], {
+          input: `${entries.join('\n')}\n`,
+          env: indexEnv
+        });
+      }
+      const tree = await this.git(repoPath, ['write-tree'], { env: indexEnv });
+
+      if (parent && await this.resolve(repoPath, `${parent}^{tree}`) === tree) {
+        return { commit: parent, changed: false };
+      }
+
+      const date = new Date().toISOString();
+      const commit = await this.git(
+        repoPath,
+        ['commit-tree', tree, ...(parent ? ['-p', parent] : [])],
+        {
+          input: snapshot.message,
+          env: {
+            GIT_AUTHOR_NAME: snapshot.author.name,
+            GIT_AUTHOR_EMAIL: snapshot.author.email,
+            GIT_AUTHOR_DATE: date,
+            GIT_COMMITTER_NAME: 'BackendForge',
+            GIT_COMMITTER_EMAIL: 'git@backendforge.local',
+            GIT_COMMITTER_DATE: date
+          }
+        }
+      );
+
+      // Passing the expected old value makes the update fail instead of losing a concurrent commit
+      await this.git(repoPath, ['update-ref', ref, commit, parent || '']);
+
+      return { commit, changed: true };
+    } finally {
+      await fs.rm(indexFile, { force: true });
+    }
+  }
+
+  private async resolve(repoPath: string, revision: string): Promise<string | null> {
+    try {
+      return await this.git(repoPath, ['rev-parse', '--verify', '--quiet', revision]);
+    } catch (error) {
+      if (error instanceof GitError && error.exitCode === 1) return null;
+      throw error;
+    }
+  }
+
+  private async enqueue<T>(projectId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(projectId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.queues.set(projectId, next);
+
+    try {
+      return await next;
+    } finally {
+      if (this.queues.get(projectId) === next) {
+        this.queues.delete(projectId);
+      }
+    }
+  }
+
+  private git(repoPath: string, args: string[], options: RunOptions = {}): Promise<string> {
+    return this.run([`--git-dir=${repoPath}`, ...args], options);
+  }
+
+  private run(args: string[], options: RunOptions = {}): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = spawn('git', args, { env: { ...this.baseEnv(), ...options.env }, timeout: options.timeout });
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+
+      child.stdout.on('data', chunk => stdout.push(chunk));
+      child.stderr.on('data', chunk => stderr.push(chunk));
+      child.on('error', error => reject(new GitError(`Failed to run git: ${error.message}`)));
+      child.on('close', code => {
+        if (code === 0) {
+          resolve(Buffer.concat(stdout).toString('utf8').trim());
+          return;
+        }
+
+        const message = Buffer.concat(stderr).toString('utf8').trim();
+        reject(new GitError(`git ${args[args[0].startsWith('--git-dir') ? 1 : 0]} failed${message ? `: ${message}` : ''}`, code, message));
+      });
+
+      child.stdin.end(options.input);
+    });
+  }
+
+  // Keep user and system git configuration out of server-side repositories
+  private baseEnv(): NodeJS.ProcessEnv {
+    return {
+      PATH: process.env.PATH,
+      HOME: os.tmpdir(),
+      GIT_CONFIG_NOSYSTEM: '1',
+      GIT_CONFIG_GLOBAL: os.devNull,
+      GIT_TERMINAL_PROMPT: '0'
+    };
+  }
+}
+
+let gitRepositoryService: GitRepositoryService | null = null;
+
+export const getGitRepositoryService = (): GitRepositoryService => {
+  if (!gitRepositoryService) {
+    gitRepositoryService = new GitRepositoryService();
+  }
+  return gitRepositoryService;
+};
@@ -0,0 +1,121 @@
+import { IProject } from '@/models/Project';
+import { GitRepositoryService, getGitRepositoryService, isRejectedPush } from './repository';
+import { checkRemote } from './remotes';
+import { decryptSecret } from './secrets';
+
+export type GitSyncErrorCode =
+  | 'REMOTE_NOT_CONFIGURED'
+  | 'REMOTE_NOT_ALLOWED'
+  | 'CREDENTIALS_UNREADABLE'
+  | 'PUSH_FAILED';
+
+export class GitSyncError extends Error {
+  readonly code: GitSyncErrorCode;
+
+  constructor(code: GitSyncErrorCode, message: string) {
+    super(message);
+    this.name = 'GitSyncError';
+    this.code = code;
+  }
+}
+
+export interface GitSyncResult {
+  remoteUrl: string;
+  branch: string;
+  commit: string;
+  // True when the configured branch had diverged and the commit went to a fallback branch
+  conflict: boolean;
+}
+
+export const CONFLICT_BRANCH_PREFIX = 'backendforge/';
+
+/**
+ * Branch name used when the configured branch rejects a push, e.g. backendforge/20261019T101500Z
+ */
+export const conflictBranchName = (date: Date = new Date()): string =>
+  `${CONFLICT_BRANCH_PREFIX}${date.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '')}`;
+
+/**
+ * Pushes a project's local repository to its configured remote. The local repository
+ * is brought up to date first, so projects generated before repositories existed can sync too.
+ * Every attempt is recorded in the project's change history; the caller saves the project.
+ */
+export class GitSyncService {
+  private repositories: GitRepositoryService;
+
+  constructor(repositories?: GitRepositoryService) {
+    this.repositories = repositories || getGitRepositoryService();
+  }
+
+  async sync(project: IProject, author: string): Promise<GitSyncResult> {
+    const { repoUrl, credentials } = project.gitIntegration;
+    if (!repoUrl) {
+      throw new GitSyncError('REMOTE_NOT_CONFIGURED', 'Project has no remote repository configured');
+    }
+
+    // Checked again at push time: the allowlist or the host's addresses may have changed
+    const remote = await checkRemote(repoUrl, {
+      ownRepository: this.repositories.repositoryPath(project._id.toString())
+    });
+    if (!remote.allowed) {
+      throw new GitSyncError('REMOTE_NOT_ALLOWED', remote.reason);
+    }
+
+    let token: string | undefined;
+    if (credentials) {
+      try {
+        token = decryptSecret(credentials.token);
+      } catch {
+        throw new GitSyncError('CREDENTIALS_UNREADABLE', 'Stored git credentials could not be decrypted; set them again');
+      }
+    }
+
+    const { commit } = await this.repositories.commitProject(project, {
+      description: 'Sync project files',
+      author
+    });
+    const branch = project.gitIntegration.branch || 'main';
+    const pushOptions = {
+      remoteUrl: repoUrl,
+      commit,
+      allowFileProtocol: repoUrl.startsWith('file:'),
+      resolve: remote.resolve,
+      ...(token !== undefined && { credentials: { username: credentials?.username, token } })
+    };
+    const shortCommit = commit.slice(0, 7);
+
+    try {
+      let result: GitSyncResult;
+
+      try {
+        await this.repositories.push(project._id.toString(), { ...pushOptions, branch });
+        result = { remoteUrl: repoUrl, branch, commit, conflict: false };
+      } catch (error) {
+        if (!isRejectedPush(error)) throw error;
+
+        const fallback = conflictBranchName();
+        await this.repositories.push(project._id.toString(), { ...pushOptions, branch: fallback });
+        result = { remoteUrl: repoUrl, branch: fallback, commit, conflict: true };
+      }
+
+      project.gitIntegration.lastSyncAt = new Date();
+      project.addChangeHistory({
+        changeType: 'updated',
+        description: result.conflict
+          ? `Pushed ${shortCommit} to ${repoUrl} on ${result.branch} because ${branch} has diverged`
+          : `Pushed ${shortCommit} to ${repoUrl} on ${branch}`,
+        author
+      });
+
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      project.addChangeHistory({
+        changeType: 'updated',
+        description: `Push of ${shortCommit} to ${repoUrl} failed: ${message}`,
+        author
+      });
+      throw new GitSyncError('PUSH_FAILED', message);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Outgoing mail transport. Production transports (SMTP, provider APIs) plug in
+ * through setMailer; console and file transports cover development and tests.
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+export class FileMailer implements Mailer {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${message.to.replace(/[^\w.@-]/g, '_')}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+let mailer: Mailer | null = null;
+
+export const createMailer = (): Mailer => {
+  switch (process.env.MAIL_TRANSPORT || 'console') {
+    case 'file':
+      return new FileMailer(process.env.MAIL_DIR || path.join(process.cwd(), 'tmp', 'mail'));
+    case 'console':
+      return new ConsoleMailer();
+    default:
+      throw new Error(`Unknown mail transport "${process.env.MAIL_TRANSPORT}". Use one of: console, file`);
+  }
+};
+
+export const getMailer = (): Mailer => {
+  if (!mailer) {
+    mailer = createMailer();
+  }
+  return mailer;
+};
+
+export const setMailer = (instance: Mailer | null): void => {
+  mailer = instance;
+};
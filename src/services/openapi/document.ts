@@ -0,0 +1,321 @@
+import Ajv2020, { ErrorObject, ValidateFunction } from 'ajv/dist/2020';
+import { IProject, ICodeFile, IDataModelRequirement, IRequirements } from '@/models/Project';
+import { extractExpressRoutes, ExpressRoute, HttpMethod } from './routes';
+import { OPENAPI_3_1_SCHEMA } from './schema';
+
+export type OpenApiErrorCode = 'INVALID_DOCUMENT';
+
+export class OpenApiError extends Error {
+  readonly code: OpenApiErrorCode;
+  readonly errors: string[];
+
+  constructor(code: OpenApiErrorCode, message: string, errors: string[] = []) {
+    super(message);
+    this.name = 'OpenApiError';
+    this.code = code;
+    this.errors = errors;
+  }
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  tags: string[];
+  parameters?: JsonSchema[];
+  requestBody?: JsonSchema;
+  responses: Record<string, JsonSchema>;
+  security?: Array<Record<string, string[]>>;
+  // Where the route is registered in the generated code
+  'x-source': { file: string; line: number };
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  tags: Array<{ name: string }>;
+  paths: Record<string, Partial<Record<HttpMethod, OpenApiOperation>>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes?: Record<string, JsonSchema>;
+  };
+  security?: Array<Record<string, string[]>>;
+}
+
+// Title of the documentation section the document is stored in
+export const OPENAPI_SECTION_TITLE = 'OpenAPI';
+
+const METHOD_ORDER: HttpMethod[] = ['get', 'post', 'put', 'patch', 'delete', 'options', 'head'];
+const BODY_METHODS = new Set<HttpMethod>(['post', 'put', 'patch']);
+// Endpoints that must be reachable without credentials
+const PUBLIC_PATH = /\/(login|logout|register|signup|sign-up|signin|sign-in|health)(\/|$)/i;
+const SECURITY_SCHEME = 'auth';
+
+let validateSchema: ValidateFunction | null = null;
+
+const words = (text: string): string[] => text.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+
+const capitalize = (word: string): string => word.charAt(0).toUpperCase() + word.slice(1);
+
+const schemaName = (name: string): string => words(name).map(capitalize).join('') || 'Model';
+
+const singular = (word: string): string =>
+  word.replace(/ies$/i, 'y').replace(/(s|x|z|ch|sh)es$/i, '$1').replace(/([^s])s$/i, '$1');
+
+/**
+ * Convert an Express path to OpenAPI syntax: /items/:id(\\d+)? becomes /items/{id}
+ */
+export function toOpenApiPath(expressPath: string): { path: string; parameters: string[] } {
+  const parameters: string[] = [];
+  const path = expressPath.replace(/:(\w+)(\([^)]*\))?\??/g, (_, name: string) => {
+    parameters.push(name);
+    return `{${name}}`;
+  });
+  return { path: path.length > 1 ? path.replace(/\/$/, '') : path, parameters };
+}
+
+const FIELD_TYPES: Array<[RegExp, JsonSchema]> = [
+  [/^(int|integer|long)$/, { type: 'integer' }],
+  [/^(number|float|double|decimal|money)$/, { type: 'number' }],
+  [/^(bool|boolean)$/, { type: 'boolean' }],
+  [/^(date|datetime|timestamp)$/, { type: 'string', format: 'date-time' }],
+  [/^email$/, { type: 'string', format: 'email' }],
+  [/^(url|uri)$/, { type: 'string', format: 'uri' }],
+  [/^(object|json|map|mixed)$/, { type: 'object' }]
+];
+
+// Types guessed from field names when the analysis gives none
+const NAMED_FIELD_TYPES: Array<[RegExp, JsonSchema]> = [
+  [/(At|Date|_at)$|^(date|timestamp)$/, { type: 'string', format: 'date-time' }],
+  [/^(is|has|can)[A-Z_]|^(active|enabled|completed|done|published)$/, { type: 'boolean' }],
+  [/(count|price|amount|quantity|total|age|rating|score)$/i, { type: 'number' }],
+  [/^email$/i, { type: 'string', format: 'email' }]
+];
+
+/**
+ * Schema of a data model field as the analysis describes it: "title", "price: number",
+ * "tags: string[]", "owner (User)" or "dueDate?: Date"
+ */
+export function fieldSchema(field: string, modelNames: Map<string, string>): { name: string; schema: JsonSchema } | null {
+  const match = field.trim().match(/^([A-Za-z_$][\w$]*)\??\s*(?:[:(]\s*([^)]*?)\s*\)?)?$/);
+  if (!match) return null;
+
+  const [, name, rawType = ''] = match;
+  const typeName = rawType.replace(/\[\]$|^Array<(.*)>$/, '$1').trim();
+  const isArray = rawType !== typeName || /^array$/i.test(typeName);
+  const model = modelNames.get(typeName.toLowerCase());
+
+  let schema: JsonSchema;
+  if (model) {
+    schema = { type: 'string', description: `${model} ID` };
+  } else if (typeName && !/^array$/i.test(typeName)) {
+    schema = FIELD_TYPES.find(([pattern]) => pattern.test(typeName.toLowerCase()))?.[1] || { type: 'string' };
+  } else {
+    schema = NAMED_FIELD_TYPES.find(([pattern]) => pattern.test(name))?.[1] || { type: 'string' };
+  }
+
+  return { name, schema: isArray ? { type: 'array', items: schema } : schema };
+}
+
+const modelSchema = (model: IDataModelRequirement, modelNames: Map<string, string>): JsonSchema => {
+  const properties: Record<string, JsonSchema> = { id: { type: 'string', readOnly: true } };
+  for (const field of model.fields) {
+    const parsed = fieldSchema(field, modelNames);
+    if (parsed && parsed.name !== 'id' && parsed.name !== '_id') {
+      properties[parsed.name] = parsed.schema;
+    }
+  }
+  return { type: 'object', properties };
+};
+
+const securityScheme = (type: string): JsonSchema => {
+  if (/api.?key/i.test(type)) return { type: 'apiKey', in: 'header', name: 'X-API-Key' };
+  if (/basic/i.test(type)) return { type: 'http', scheme: 'basic' };
+  return { type: 'http', scheme: 'bearer', ...(/jwt/i.test(type) && { bearerFormat: 'JWT' }) };
+};
+
+// Path segments that name the resource: /api/v1/projects/{id}/tasks -> projects, tasks
+const resourceSegments = (path: string): string[] =>
+  path.split('/').filter(segment => segment && !segment.startsWith('{') && !/^(api|v\d+)$/i.test(segment));
+
+const readPackageVersion = (files: ICodeFile[]): string => {
+  const manifest = files.find(file => file.path === 'package.json');
+  try {
+    const version = manifest && JSON.parse(manifest.content).version;
+    return typeof version === 'string' && version ? version : '1.0.0';
+  } catch {
+    return '1.0.0';
+  }
+};
+
+/**
+ * Build an OpenAPI 3.1 document from the routes registered in the project's Express
+ * code. The stored analysis adds endpoint descriptions, the data model schemas used
+ * for request and response bodies, and the security scheme.
+ */
+export function buildOpenApiDocument(project: Pick<IProject, 'name' | 'description' | 'generatedCode' | 'requirements'>): OpenApiDocument {
+  const requirements: IRequirements = project.requirements || {
+    dataModels: [],
+    apiEndpoints: [],
+    authentication: { required: false, type: '' }
+  };
+  const files = project.generatedCode.files;
+
+  const modelNames = new Map(requirements.dataModels.map(model => [model.name.toLowerCase(), schemaName(model.name)]));
+  const schemas: Record<string, JsonSchema> = {};
+  for (const model of requirements.dataModels) {
+    schemas[schemaName(model.name)] = modelSchema(model, modelNames);
+  }
+
+  const descriptions = new Map(requirements.apiEndpoints.map(endpoint => [
+    `${endpoint.method.toLowerCase()} ${toOpenApiPath(endpoint.path).path}`,
+    endpoint.description
+  ]));
+
+  const secured = requirements.authentication.required;
+  const document: OpenApiDocument = {
+    openapi: '3.1.0',
+    info: { title: project.name, version: readPackageVersion(files), description: project.description },
+    tags: [],
+    paths: {},
+    components: {
+      schemas,
+      ...(secured && { securitySchemes: { [SECURITY_SCHEME]: securityScheme(requirements.authentication.type) } })
+    },
+    ...(secured && { security: [{ [SECURITY_SCHEME]: [] }] })
+  };
+
+  const routes = [...extractExpressRoutes(files)].sort((a, b) =>
+    a.path.localeCompare(b.path) || METHOD_ORDER.indexOf(a.method) - METHOD_ORDER.indexOf(b.method)
+  );
+  const operationIds = new Set<string>();
+  const tags = new Set<string>();
+
+  for (const route of routes) {
+    const { path, parameters } = toOpenApiPath(route.path);
+    const operation = buildOperation(route, path, parameters, {
+      description: descriptions.get(`${route.method} ${path}`),
+      modelNames,
+      secured
+    });
+
+    let operationId = operation.operationId;
+    for (let suffix = 2; operationIds.has(operationId); suffix++) {
+      operationId = `${operation.operationId}${suffix}`;
+    }
+    operationIds.add(operationId);
+    operation.tags.forEach(tag => tags.add(tag));
+
+    document.paths[path] = { ...document.paths[path], [route.method]: { ...operation, operationId } };
+  }
+
+  document.tags = [...tags].sort().map(name => ({ name }));
+  return document;
+}
+
+function buildOperation(
+  route: ExpressRoute,
+  path: string,
+  parameters: string[],
+  context: { description?: string; modelNames: Map<string, string>; secured: boolean }
+): OpenApiOperation {
+  const segments = resourceSegments(path);
+  const resource = segments[segments.length - 1];
+  const model = resource ? context.modelNames.get(singular(resource).toLowerCase()) : undefined;
+  const isItem = path.endsWith('}');
+  const modelRef = model && { $ref: `#/components/schemas/${model}` };
+
+  const responses: Record<string, JsonSchema> = {};
+  if (route.method === 'delete') {
+    responses['204'] = { description: 'Deleted' };
+  } else {
+    const body = modelRef && (route.method === 'get' && !isItem ? { type: 'array', items: modelRef } : modelRef);
+    responses[route.method === 'post' ? '201' : '200'] = {
+      description: route.method === 'post' ? 'Created' : 'Successful response',
+      ...(body && { content: { 'application/json': { schema: body } } })
+    };
+  }
+  if (BODY_METHODS.has(route.method)) responses['400'] = { description: 'Invalid request' };
+  if (context.secured && !PUBLIC_PATH.test(path)) responses['401'] = { description: 'Authentication required' };
+  if (parameters.length > 0) responses['404'] = { description: 'Not found' };
+
+  const idWords = [
+    ...words(path.replace(/\{\w+\}/g, '')),
+    ...parameters.flatMap((parameter, index) => [index === 0 ? 'By' : 'And', parameter])
+  ];
+
+  return {
+    operationId: route.method + idWords.map(capitalize).join(''),
+    summary: context.description || `${route.method.toUpperCase()} ${path}`,
+    tags: segments.length > 0 ? [segments[0]] : [],
+    ...(parameters.length > 0 && {
+      parameters: parameters.map(name => ({ name, in: 'path', required: true, schema: { type: 'string' } }))
+    }),
+    ...(BODY_METHODS.has(route.method) && modelRef && {
+      requestBody: { required: true, content: { 'application/json': { schema: modelRef } } }
+    }),
+    responses,
+    ...(context.secured && PUBLIC_PATH.test(path) && { security: [] }),
+    'x-source': { file: route.file, line: route.line }
+  };
+}
+
+const formatError = (error: ErrorObject): string => `${error.instancePath || '/'} ${error.message}`;
+
+/**
+ * Validate a document against the OpenAPI 3.1 schema; returns the problems found
+ */
+export function validateOpenApiDocument(document: unknown): string[] {
+  if (!validateSchema) {
+    validateSchema = new Ajv2020({ allErrors: true, strict: false, validateFormats: false }).compile(OPENAPI_3_1_SCHEMA);
+  }
+  if (validateSchema(document)) return [];
+  return [...new Set((validateSchema.errors || []).map(formatError))];
+}
+
+/**
+ * Build and validate the project's OpenAPI document and store it as its "api"
+ * documentation section. The project is not saved.
+ */
+export function updateApiDocumentation(project: IProject): OpenApiDocument {
+  const document = buildOpenApiDocument(project);
+  const errors = validateOpenApiDocument(document);
+  if (errors.length > 0) {
+    throw new OpenApiError('INVALID_DOCUMENT', `Generated OpenAPI document is invalid: ${errors[0]}`, errors);
+  }
+
+  const section = {
+    title: OPENAPI_SECTION_TITLE,
+    type: 'api' as const,
+    content: JSON.stringify(document, null, 2),
+    lastUpdated: new Date()
+  };
+  const existing = project.documentation.sections.findIndex(
+    candidate => candidate.type === 'api' && candidate.title === OPENAPI_SECTION_TITLE
+  );
+
+  if (existing >= 0) {
+    project.documentation.sections[existing] = section;
+  } else {
+    project.documentation.sections.push(section);
+  }
+  project.documentation.lastUpdated = section.lastUpdated;
+  return document;
+}
+
+/**
+ * The stored OpenAPI document of a project, or null when it has none yet
+ */
+export function getStoredApiDocument(project: IProject): OpenApiDocument | null {
+  const section = project.documentation.sections.find(
+    candidate => candidate.type === 'api' && candidate.title === OPENAPI_SECTION_TITLE
+  );
+  if (!section) return null;
+
+  try {
+    return JSON.parse(section.content) as OpenApiDocument;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,279 @@
+import path from 'path';
+import ts from 'typescript';
+import { ICodeFile } from '@/models/Project';
+import { isTestFile } from '@/services/testing/runner';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete' | 'options' | 'head';
+
+export interface ExpressRoute {
+  method: HttpMethod;
+  // Express syntax, mount prefixes included: /api/items/:id
+  path: string;
+  file: string;
+  line: number;
+}
+
+interface RouteCall {
+  receiver: string;
+  method: HttpMethod;
+  path: string;
+  line: number;
+}
+
+interface MountCall {
+  receiver: string;
+  prefix: string;
+  // A router of the same file, or the file a mounted router is imported from
+  target: { local: string } | { file: string };
+}
+
+interface FileRoutes {
+  routes: RouteCall[];
+  mounts: MountCall[];
+}
+
+const HTTP_METHODS = new Set<string>(['get', 'post', 'put', 'patch', 'delete', 'options', 'head']);
+const SOURCE_EXTENSIONS = ['.ts', '.js', '.mjs', '.cjs', '.tsx', '.jsx'];
+// Receivers that are routers even where their creation is out of sight, e.g. function parameters
+const ROUTER_NAME = /^(app|router|server|api)$|Router$/;
+
+const isSourceFile = (filePath: string): boolean =>
+  SOURCE_EXTENSIONS.some(extension => filePath.endsWith(extension)) && !filePath.endsWith('.d.ts') && !isTestFile(filePath);
+
+const stringValue = (node: ts.Node | undefined): string | undefined =>
+  node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) ? node.text : undefined;
+
+const unique = (values: string[]): string[] => [...new Set(values)];
+
+const joinPaths = (...parts: string[]): string => {
+  const joined = parts.join('/').replace(/\/{2,}/g, '/').replace(/(.)\/$/, '$1');
+  return joined.startsWith('/') ? joined : `/${joined}`;
+};
+
+/**
+ * Resolve a relative import to one of the project's files, trying source extensions and index files
+ */
+const resolveImport = (fromFile: string, specifier: string, known: Set<string>): string | undefined => {
+  if (!specifier.startsWith('.')) return undefined;
+
+  const base = path.posix.normalize(path.posix.join(path.posix.dirname(fromFile), specifier)).replace(/\.js$/, '');
+  const candidates = [
+    base,
+    ...SOURCE_EXTENSIONS.map(extension => `${base}${extension}`),
+    ...SOURCE_EXTENSIONS.map(extension => `${base}/index${extension}`)
+  ];
+  return candidates.find(candidate => known.has(candidate));
+};
+
+// The receiver of a route call: router.get(...), or router.route('/x').get(...) chains
+const routeReceiver = (expression: ts.Expression): { receiver: string; prefix: string } | undefined => {
+  if (ts.isIdentifier(expression)) {
+    return { receiver: expression.text, prefix: '' };
+  }
+  if (ts.isCallExpression(expression) && ts.isPropertyAccessExpression(expression.expression)) {
+    const callee = expression.expression;
+    if (callee.name.text === 'route') {
+      const routePath = stringValue(expression.arguments[0]);
+      const inner = routeReceiver(callee.expression);
+      return routePath !== undefined && inner ? { receiver: inner.receiver, prefix: joinPaths(inner.prefix, routePath) } : undefined;
+    }
+    if (HTTP_METHODS.has(callee.name.text) || callee.name.text === 'all') {
+      return routeReceiver(callee.expression);
+    }
+  }
+  return undefined;
+};
+
+function collectFileRoutes(file: ICodeFile, known: Set<string>): FileRoutes {
+  const sourceFile = ts.createSourceFile(file.path, file.content, ts.ScriptTarget.Latest, true);
+  const imports = new Map<string, string>();
+  const result: FileRoutes = { routes: [], mounts: [] };
+
+  // Identifiers holding express() or Router() instances
+  const routers = new Set<string>();
+  const isRouterFactory = (node: ts.Expression | undefined): boolean => {
+    if (!node || !ts.isCallExpression(node)) return false;
+    const callee = node.expression;
+    const name = ts.isIdentifier(callee) ? callee.text : ts.isPropertyAccessExpression(callee) ? callee.name.text : '';
+    return name === 'express' || name === 'Router';
+  };
+  const isRouter = (name: string): boolean => routers.has(name) || ROUTER_NAME.test(name);
+
+  const requiredFile = (node: ts.Expression | undefined): string | undefined => {
+    if (!node || !ts.isCallExpression(node) || !ts.isIdentifier(node.expression) || node.expression.text !== 'require') {
+      return undefined;
+    }
+    const specifier = stringValue(node.arguments[0]);
+    return specifier ? resolveImport(file.path, specifier, known) : undefined;
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isImportDeclaration(node) && node.importClause) {
+      const target = resolveImport(file.path, stringValue(node.moduleSpecifier) || '', known);
+      const { name, namedBindings } = node.importClause;
+      if (target && name) imports.set(name.text, target);
+      if (target && namedBindings && ts.isNamedImports(namedBindings)) {
+        namedBindings.elements.forEach(element => imports.set(element.name.text, target));
+      }
+    } else if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+      const initializer = node.initializer;
+      const target = requiredFile(initializer)
+        || (initializer && ts.isPropertyAccessExpression(initializer) ? requiredFile(initializer.expression) : undefined);
+      if (target) imports.set(node.name.text, target);
+      if (isRouterFactory(initializer)) routers.add(node.name.text);
+    } else if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+      const method = node.expression.name.text;
+      const receiver = routeReceiver(node.expression.expression);
+      const line = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1;
+
+      if (receiver && isRouter(receiver.receiver) && method === 'use') {
+        const prefix = stringValue(node.arguments[0]);
+        for (const argument of node.arguments.slice(prefix === undefined ? 0 : 1)) {
+          const required = requiredFile(argument);
+          if (required) {
+            result.mounts.push({ receiver: receiver.receiver, prefix: prefix || '', target: { file: required } });
+          } else if (ts.isIdentifier(argument)) {
+            result.mounts.push({ receiver: receiver.receiver, prefix: prefix || '', target: { local: argument.text } });
+          }
+        }
+      } else if (receiver && isRouter(receiver.receiver) && (HTTP_METHODS.has(method) || method === 'all')) {
+        // router.route('/x').get(handler) has no path of its own; app.get('env') reads a setting
+        const routePath = receiver.prefix ? '' : stringValue(node.arguments[0]);
+        const isRoute = receiver.prefix ? node.arguments.length > 0 : node.arguments.length > 1 && routePath?.startsWith('/');
+        if (routePath !== undefined && isRoute) {
+          const methods = method === 'all' ? ['get', 'post', 'put', 'patch', 'delete'] as HttpMethod[] : [method as HttpMethod];
+          methods.forEach(httpMethod => result.routes.push({
+            receiver: receiver.receiver,
+            method: httpMethod,
+            path: joinPaths(receiver.prefix, routePath),
+            line
+          }));
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  // Imported routers are mounted by file; local identifiers that were imported point there too
+  result.mounts = result.mounts.map(mount =>
+    'local' in mount.target && imports.has(mount.target.local)
+      ? { ...mount, target: { file: imports.get(mount.target.local)! } }
+      : mount
+  );
+  return result;
+}
+
+// Routers are told apart by file and identifier; identifiers never contain '#'
+const routerKey = (file: string, receiver: string): string => `${file}#${receiver}`;
+
+const splitRouterKey = (key: string): [string, string] => {
+  const separator = key.lastIndexOf('#');
+  return [key.slice(0, separator), key.slice(separator + 1)];
+};
+
+/**
+ * Memoize a recursive resolution over a graph that may have cycles, such as routers
+ * mounting each other. `compute` resolves neighbours through `visit`, which returns
+ * undefined for keys on the current path instead of looping. Results that depend on
+ * such a cut further up the path differ by entry point, so only the others are cached.
+ */
+function memoizeOverCycles<T>(compute: (key: string, visit: (key: string) => T | undefined) => T): (key: string) => T {
+  const cache = new Map<string, T>();
+  const path: string[] = [];
+  // Shallowest position on the path a cut was made at since the current key was entered
+  let cutAt = Infinity;
+
+  const visit = (key: string): T | undefined => {
+    const onPath = path.indexOf(key);
+    if (onPath >= 0) {
+      cutAt = Math.min(cutAt, onPath);
+      return undefined;
+    }
+    return resolve(key);
+  };
+
+  const resolve = (key: string): T => {
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+
+    const depth = path.push(key) - 1;
+    const outerCutAt = cutAt;
+    cutAt = Infinity;
+    const result = compute(key, visit);
+    path.pop();
+
+    if (cutAt >= depth) {
+      cache.set(key, result);
+    }
+    cutAt = Math.min(cutAt, outerCutAt);
+    return result;
+  };
+
+  return resolve;
+}
+
+/**
+ * Find the routes registered in generated Express code. Routers mounted with
+ * app.use('/prefix', router), locally or from imported files, get their prefix;
+ * files that are never mounted are assumed to be mounted at the root.
+ */
+export function extractExpressRoutes(files: ICodeFile[]): ExpressRoute[] {
+  const sources = files.filter(file => isSourceFile(file.path));
+  const known = new Set(sources.map(file => file.path));
+  const collected = new Map(sources.map(file => [file.path, collectFileRoutes(file, known)]));
+
+  // Mounts of imported routers, by the file they are imported from
+  const mountedBy = new Map<string, Array<{ parent: string; mount: MountCall }>>();
+  for (const [parent, fileRoutes] of collected) {
+    for (const mount of fileRoutes.mounts) {
+      if ('file' in mount.target) {
+        mountedBy.set(mount.target.file, [...(mountedBy.get(mount.target.file) || []), { parent, mount }]);
+      }
+    }
+  }
+
+  // Routers only mounted within a cycle are taken to be mounted at the root
+  const orRoot = (prefixes: string[]): string[] => (prefixes.length > 0 ? prefixes : ['']);
+
+  // Prefixes a file's routers get from being mounted by other files
+  const filePrefixes = memoizeOverCycles<string[]>((file, visit) => {
+    const mounts = mountedBy.get(file) || [];
+    if (mounts.length === 0) return [''];
+
+    return unique(mounts.flatMap(({ parent, mount }) => (visit(parent) || []).flatMap(parentPrefix =>
+      orRoot(receiverPrefixes(routerKey(parent, mount.receiver)))
+        .map(receiverPrefix => joinPaths(parentPrefix, receiverPrefix, mount.prefix))
+    )));
+  });
+
+  // Prefixes a router gets from being mounted on another router of the same file
+  const receiverPrefixes = memoizeOverCycles<string[]>((key, visit) => {
+    const [file, receiver] = splitRouterKey(key);
+    const mounts = collected.get(file)!.mounts.filter(mount => 'local' in mount.target && mount.target.local === receiver);
+    if (mounts.length === 0) return [''];
+
+    return unique(mounts.flatMap(mount =>
+      (visit(routerKey(file, mount.receiver)) || []).map(prefix => joinPaths(prefix, mount.prefix))
+    ));
+  });
+
+  const routes: ExpressRoute[] = [];
+  const seen = new Set<string>();
+  for (const [file, fileRoutes] of collected) {
+    const prefixes = orRoot(filePrefixes(file));
+    for (const route of fileRoutes.routes) {
+      for (const filePrefix of prefixes) {
+        for (const receiverPrefix of orRoot(receiverPrefixes(routerKey(file, route.receiver)))) {
+          const fullPath = joinPaths(filePrefix, receiverPrefix, route.path);
+          const key = `${route.method} ${fullPath}`;
+          if (seen.has(key)) continue;
+
+          seen.add(key);
+          routes.push({ method: route.method, path: fullPath, file, line: route.line });
+        }
+      }
+    }
+  }
+  return routes;
+}
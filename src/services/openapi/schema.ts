@@ -0,0 +1,394 @@
+/**
+ * The OpenAPI 3.1 document schema (https://spec.openapis.org/oas/3.1/schema/2022-10-07),
+ * kept in sync by hand. Schema Objects are only checked to be objects or booleans, as
+ * in the official schema without its JSON Schema dialect.
+ */
+const extensions = { patternProperties: { '^x-': true } };
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+const mapOf = (ref: string) => ({ type: 'object', additionalProperties: { $ref: ref } });
+
+// Objects that may be given inline or as a { $ref } to a component
+const orReference = (ref: string) => ({
+  if: { type: 'object', required: ['$ref'] },
+  then: { $ref: '#/$defs/reference' },
+  else: { $ref: ref }
+});
+
+export const OPENAPI_3_1_SCHEMA = {
+  $id: 'https://spec.openapis.org/oas/3.1/schema/2022-10-07',
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  type: 'object',
+  properties: {
+    openapi: { type: 'string', pattern: '^3\\.1\\.\\d+(-.+)?$' },
+    info: { $ref: '#/$defs/info' },
+    jsonSchemaDialect: { type: 'string', format: 'uri' },
+    servers: { type: 'array', items: { $ref: '#/$defs/server' } },
+    paths: { $ref: '#/$defs/paths' },
+    webhooks: mapOf('#/$defs/path-item-or-reference'),
+    components: { $ref: '#/$defs/components' },
+    security: { type: 'array', items: { $ref: '#/$defs/security-requirement' } },
+    tags: { type: 'array', items: { $ref: '#/$defs/tag' } },
+    externalDocs: { $ref: '#/$defs/external-documentation' }
+  },
+  required: ['openapi', 'info'],
+  anyOf: [{ required: ['paths'] }, { required: ['components'] }, { required: ['webhooks'] }],
+  ...extensions,
+  unevaluatedProperties: false,
+  $defs: {
+    info: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        summary: { type: 'string' },
+        description: { type: 'string' },
+        termsOfService: { type: 'string', format: 'uri' },
+        contact: { $ref: '#/$defs/contact' },
+        license: { $ref: '#/$defs/license' },
+        version: { type: 'string' }
+      },
+      required: ['title', 'version'],
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    contact: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        url: { type: 'string', format: 'uri' },
+        email: { type: 'string', format: 'email' }
+      },
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    license: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        identifier: { type: 'string' },
+        url: { type: 'string', format: 'uri' }
+      },
+      required: ['name'],
+      dependentSchemas: { identifier: { not: { required: ['url'] } } },
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    server: {
+      type: 'object',
+      properties: {
+        url: { type: 'string', format: 'uri-reference' },
+        description: { type: 'string' },
+        variables: mapOf('#/$defs/server-variable')
+      },
+      required: ['url'],
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    'server-variable': {
+      type: 'object',
+      properties: {
+        enum: { ...stringArray, minItems: 1 },
+        default: { type: 'string' },
+        description: { type: 'string' }
+      },
+      required: ['default'],
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    components: {
+      type: 'object',
+      properties: {
+        schemas: mapOf('#/$defs/schema'),
+        responses: mapOf('#/$defs/response-or-reference'),
+        parameters: mapOf('#/$defs/parameter-or-reference'),
+        examples: mapOf('#/$defs/example-or-reference'),
+        requestBodies: mapOf('#/$defs/request-body-or-reference'),
+        headers: mapOf('#/$defs/header-or-reference'),
+        securitySchemes: mapOf('#/$defs/security-scheme-or-reference'),
+        links: mapOf('#/$defs/link-or-reference'),
+        callbacks: mapOf('#/$defs/callbacks-or-reference'),
+        pathItems: mapOf('#/$defs/path-item-or-reference')
+      },
+      patternProperties: {
+        '^(schemas|responses|parameters|examples|requestBodies|headers|securitySchemes|links|callbacks|pathItems)$': {
+          $comment: 'Component names may only use these characters',
+          propertyNames: { pattern: '^[a-zA-Z0-9._-]+$' }
+        },
+        '^x-': true
+      },
+      unevaluatedProperties: false
+    },
+    paths: {
+      type: 'object',
+      patternProperties: {
+        '^/': { $ref: '#/$defs/path-item' },
+        '^x-': true
+      },
+      unevaluatedProperties: false
+    },
+    'path-item': {
+      type: 'object',
+      properties: {
+        $ref: { type: 'string', format: 'uri-reference' },
+        summary: { type: 'string' },
+        description: { type: 'string' },
+        servers: { type: 'array', items: { $ref: '#/$defs/server' } },
+        parameters: { type: 'array', items: { $ref: '#/$defs/parameter-or-reference' } },
+        get: { $ref: '#/$defs/operation' },
+        put: { $ref: '#/$defs/operation' },
+        post: { $ref: '#/$defs/operation' },
+        delete: { $ref: '#/$defs/operation' },
+        options: { $ref: '#/$defs/operation' },
+        head: { $ref: '#/$defs/operation' },
+        patch: { $ref: '#/$defs/operation' },
+        trace: { $ref: '#/$defs/operation' }
+      },
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    'path-item-or-reference': orReference('#/$defs/path-item'),
+    operation: {
+      type: 'object',
+      properties: {
+        tags: stringArray,
+        summary: { type: 'string' },
+        description: { type: 'string' },
+        externalDocs: { $ref: '#/$defs/external-documentation' },
+        operationId: { type: 'string' },
+        parameters: { type: 'array', items: { $ref: '#/$defs/parameter-or-reference' } },
+        requestBody: { $ref: '#/$defs/request-body-or-reference' },
+        responses: { $ref: '#/$defs/responses' },
+        callbacks: mapOf('#/$defs/callbacks-or-reference'),
+        deprecated: { type: 'boolean' },
+        security: { type: 'array', items: { $ref: '#/$defs/security-requirement' } },
+        servers: { type: 'array', items: { $ref: '#/$defs/server' } }
+      },
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    'external-documentation': {
+      type: 'object',
+      properties: {
+        description: { type: 'string' },
+        url: { type: 'string', format: 'uri' }
+      },
+      required: ['url'],
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    parameter: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        in: { enum: ['query', 'header', 'path', 'cookie'] },
+        description: { type: 'string' },
+        required: { type: 'boolean' },
+        deprecated: { type: 'boolean' },
+        allowEmptyValue: { type: 'boolean' },
+        style: { type: 'string' },
+        explode: { type: 'boolean' },
+        allowReserved: { type: 'boolean' },
+        schema: { $ref: '#/$defs/schema' },
+        content: { $ref: '#/$defs/content', minProperties: 1, maxProperties: 1 },
+        example: true,
+        examples: mapOf('#/$defs/example-or-reference')
+      },
+      required: ['name', 'in'],
+      oneOf: [{ required: ['schema'] }, { required: ['content'] }],
+      if: { properties: { in: { const: 'path' } }, required: ['in'] },
+      then: { properties: { required: { const: true } }, required: ['required'] },
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    'parameter-or-reference': orReference('#/$defs/parameter'),
+    'request-body': {
+      type: 'object',
+      properties: {
+        description: { type: 'string' },
+        content: { $ref: '#/$defs/content' },
+        required: { type: 'boolean' }
+      },
+      required: ['content'],
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    'request-body-or-reference': orReference('#/$defs/request-body'),
+    content: {
+      type: 'object',
+      additionalProperties: { $ref: '#/$defs/media-type' },
+      propertyNames: { format: 'media-range' }
+    },
+    'media-type': {
+      type: 'object',
+      properties: {
+        schema: { $ref: '#/$defs/schema' },
+        encoding: mapOf('#/$defs/encoding'),
+        example: true,
+        examples: mapOf('#/$defs/example-or-reference')
+      },
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    encoding: {
+      type: 'object',
+      properties: {
+        contentType: { type: 'string', format: 'media-range' },
+        headers: mapOf('#/$defs/header-or-reference'),
+        style: { enum: ['form', 'spaceDelimited', 'pipeDelimited', 'deepObject'] },
+        explode: { type: 'boolean' },
+        allowReserved: { type: 'boolean' }
+      },
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    responses: {
+      type: 'object',
+      properties: {
+        default: { $ref: '#/$defs/response-or-reference' }
+      },
+      patternProperties: {
+        '^[1-5](?:[0-9]{2}|XX)$': { $ref: '#/$defs/response-or-reference' },
+        '^x-': true
+      },
+      minProperties: 1,
+      unevaluatedProperties: false
+    },
+    response: {
+      type: 'object',
+      properties: {
+        description: { type: 'string' },
+        headers: mapOf('#/$defs/header-or-reference'),
+        content: { $ref: '#/$defs/content' },
+        links: mapOf('#/$defs/link-or-reference')
+      },
+      required: ['description'],
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    'response-or-reference': orReference('#/$defs/response'),
+    callbacks: {
+      type: 'object',
+      additionalProperties: { $ref: '#/$defs/path-item-or-reference' }
+    },
+    'callbacks-or-reference': orReference('#/$defs/callbacks'),
+    example: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string' },
+        description: { type: 'string' },
+        value: true,
+        externalValue: { type: 'string', format: 'uri' }
+      },
+      not: { required: ['value', 'externalValue'] },
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    'example-or-reference': orReference('#/$defs/example'),
+    link: {
+      type: 'object',
+      properties: {
+        operationRef: { type: 'string', format: 'uri-reference' },
+        operationId: { type: 'string' },
+        parameters: { type: 'object', additionalProperties: true },
+        requestBody: true,
+        description: { type: 'string' },
+        server: { $ref: '#/$defs/server' }
+      },
+      oneOf: [{ required: ['operationRef'] }, { required: ['operationId'] }],
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    'link-or-reference': orReference('#/$defs/link'),
+    header: {
+      type: 'object',
+      properties: {
+        description: { type: 'string' },
+        required: { type: 'boolean' },
+        deprecated: { type: 'boolean' },
+        schema: { $ref: '#/$defs/schema' },
+        content: { $ref: '#/$defs/content', minProperties: 1, maxProperties: 1 },
+        style: { const: 'simple' },
+        explode: { type: 'boolean' },
+        example: true,
+        examples: mapOf('#/$defs/example-or-reference')
+      },
+      oneOf: [{ required: ['schema'] }, { required: ['content'] }],
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    'header-or-reference': orReference('#/$defs/header'),
+    tag: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        externalDocs: { $ref: '#/$defs/external-documentation' }
+      },
+      required: ['name'],
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    reference: {
+      type: 'object',
+      properties: {
+        $ref: { type: 'string', format: 'uri-reference' },
+        summary: { type: 'string' },
+        description: { type: 'string' }
+      },
+      unevaluatedProperties: false
+    },
+    schema: {
+      type: ['object', 'boolean']
+    },
+    'security-scheme': {
+      type: 'object',
+      properties: {
+        type: { enum: ['apiKey', 'http', 'mutualTLS', 'oauth2', 'openIdConnect'] },
+        description: { type: 'string' },
+        name: { type: 'string' },
+        in: { enum: ['query', 'header', 'cookie'] },
+        scheme: { type: 'string' },
+        bearerFormat: { type: 'string' },
+        flows: { $ref: '#/$defs/oauth-flows' },
+        openIdConnectUrl: { type: 'string', format: 'uri' }
+      },
+      required: ['type'],
+      allOf: [
+        { if: { properties: { type: { const: 'apiKey' } } }, then: { required: ['name', 'in'] } },
+        { if: { properties: { type: { const: 'http' } } }, then: { required: ['scheme'] } },
+        { if: { properties: { type: { const: 'oauth2' } } }, then: { required: ['flows'] } },
+        { if: { properties: { type: { const: 'openIdConnect' } } }, then: { required: ['openIdConnectUrl'] } }
+      ],
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    'security-scheme-or-reference': orReference('#/$defs/security-scheme'),
+    'oauth-flows': {
+      type: 'object',
+      properties: {
+        implicit: { $ref: '#/$defs/oauth-flow', required: ['authorizationUrl', 'scopes'] },
+        password: { $ref: '#/$defs/oauth-flow', required: ['tokenUrl', 'scopes'] },
+        clientCredentials: { $ref: '#/$defs/oauth-flow', required: ['tokenUrl', 'scopes'] },
+        authorizationCode: { $ref: '#/$defs/oauth-flow', required: ['authorizationUrl', 'tokenUrl', 'scopes'] }
+      },
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    'oauth-flow': {
+      type: 'object',
+      properties: {
+        authorizationUrl: { type: 'string', format: 'uri' },
+        tokenUrl: { type: 'string', format: 'uri' },
+        refreshUrl: { type: 'string', format: 'uri' },
+        scopes: { type: 'object', additionalProperties: { type: 'string' } }
+      },
+      ...extensions,
+      unevaluatedProperties: false
+    },
+    'security-requirement': {
+      type: 'object',
+      additionalProperties: stringArray
+    }
+  }
+};
@@ -0,0 +1,80 @@
+import { OpenApiDocument, JsonSchema } from './document';
+import { HttpMethod } from './routes';
+
+const escapeHtml = (value: unknown): string =>
+  String(value).replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const describeSchema = (schema: JsonSchema | undefined): string => {
+  if (!schema) return '';
+  if (typeof schema.$ref === 'string') return schema.$ref.split('/').pop()!;
+  if (schema.type === 'array') return `${describeSchema(schema.items as JsonSchema)}[]`;
+  return String(schema.format || schema.type || 'object');
+};
+
+const STYLES = `
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; color: #1f2328; }
+h1 { margin-bottom: 0; } .version { color: #59636e; }
+.operation { border: 1px solid #d1d9e0; border-radius: 6px; margin: 0.75rem 0; padding: 0.5rem 1rem; }
+.method { display: inline-block; min-width: 4.5rem; font-weight: 600; text-transform: uppercase; }
+.get { color: #0969da; } .post { color: #1a7f37; } .put, .patch { color: #9a6700; } .delete { color: #cf222e; }
+code { background: #f6f8fa; padding: 0 0.25rem; } table { border-collapse: collapse; margin: 0.5rem 0; }
+td, th { border: 1px solid #d1d9e0; padding: 0.25rem 0.5rem; text-align: left; }
+.source { color: #59636e; font-size: 0.85rem; }
+`;
+
+/**
+ * Render an OpenAPI document as a static HTML page: operations grouped by tag, then
+ * the component schemas. Needs no scripts, so it works under the API's CSP.
+ */
+export function renderOpenApiViewer(document: OpenApiDocument, specUrl: string): string {
+  const operations = Object.entries(document.paths).flatMap(([path, item]) =>
+    (Object.entries(item) as Array<[HttpMethod, NonNullable<typeof item[HttpMethod]>]>)
+      .map(([method, operation]) => ({ path, method, operation }))
+  );
+  const groups = new Map<string, typeof operations>();
+  for (const entry of operations) {
+    const tag = entry.operation.tags[0] || 'default';
+    groups.set(tag, [...(groups.get(tag) || []), entry]);
+  }
+
+  const renderOperation = ({ path, method, operation }: typeof operations[number]): string => {
+    const body = operation.requestBody as { content?: Record<string, { schema?: JsonSchema }> } | undefined;
+    const responses = Object.entries(operation.responses).map(([status, response]) => {
+      const content = response.content as Record<string, { schema?: JsonSchema }> | undefined;
+      return `<tr><td>${escapeHtml(status)}</td><td>${escapeHtml(response.description)}</td>`
+        + `<td>${escapeHtml(describeSchema(content?.['application/json']?.schema))}</td></tr>`;
+    });
+
+    return `<div class="operation">
+<p><span class="method ${method}">${method}</span> <code>${escapeHtml(path)}</code> ${escapeHtml(operation.summary)}</p>
+${body ? `<p>Request body: <code>${escapeHtml(describeSchema(body.content?.['application/json']?.schema))}</code></p>` : ''}
+<table><tr><th>Status</th><th>Description</th><th>Body</th></tr>${responses.join('')}</table>
+<p class="source">${escapeHtml(operation['x-source'].file)}:${operation['x-source'].line}</p>
+</div>`;
+  };
+
+  const schemas = Object.entries(document.components.schemas).map(([name, schema]) => {
+    const properties = Object.entries((schema.properties || {}) as Record<string, JsonSchema>)
+      .map(([property, propertySchema]) => `<tr><td>${escapeHtml(property)}</td><td>${escapeHtml(describeSchema(propertySchema))}</td></tr>`);
+    return `<h3 id="schema-${escapeHtml(name)}">${escapeHtml(name)}</h3>
+<table><tr><th>Field</th><th>Type</th></tr>${properties.join('')}</table>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(document.info.title)} API</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(document.info.title)}</h1>
+<p class="version">Version ${escapeHtml(document.info.version)} &middot; OpenAPI ${escapeHtml(document.openapi)} &middot; <a href="${escapeHtml(specUrl)}">openapi.json</a></p>
+<p>${escapeHtml(document.info.description)}</p>
+${operations.length === 0 ? '<p>No routes were found in the generated code.</p>' : ''}
+${[...groups.entries()].map(([tag, entries]) => `<h2>${escapeHtml(tag)}</h2>\n${entries.map(renderOperation).join('\n')}`).join('\n')}
+${schemas.length > 0 ? `<h2>Schemas</h2>\n${schemas.join('\n')}` : ''}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,135 @@
+import { User, IUser } from '@/models/User';
+import { Project } from '@/models/Project';
+import { FileRevision } from '@/models/FileRevision';
+import { FixProposal } from '@/models/FixProposal';
+import { TddIteration } from '@/models/TddIteration';
+import { ApiKey } from '@/models/ApiKey';
+import { RefreshToken } from '@/models/RefreshToken';
+import { AccountToken } from '@/models/AccountToken';
+import { UsageRecord } from '@/models/UsageRecord';
+import { Analytics } from '@/models/Analytics';
+import { sessionService } from '@/services/auth/sessions';
+import { GitRepositoryService, getGitRepositoryService } from '@/services/git/repository';
+import { numberFromEnv } from '@/config/env';
+
+const DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_GRACE_DAYS = 30;
+const DEFAULT_PURGE_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * Account deletion in two steps. Deleting an account signs the user out everywhere,
+ * revokes their API keys and removes their analytics straight away; the account, its
+ * projects and everything attached to them are purged once the grace period has passed.
+ */
+export class AccountDeletionService {
+  private repositories: GitRepositoryService;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(repositories?: GitRepositoryService) {
+    this.repositories = repositories || getGitRepositoryService();
+  }
+
+  get gracePeriod(): number {
+    return numberFromEnv('ACCOUNT_DELETION_GRACE_DAYS', DEFAULT_GRACE_DAYS) * DAY;
+  }
+
+  /**
+   * Soft-delete the account and queue it for purging after the grace period
+   */
+  async scheduleDeletion(user: IUser, now: Date = new Date()): Promise<IUser> {
+    const userId = user._id.toString();
+
+    user.deletedAt = now;
+    user.deletionScheduledFor = new Date(now.getTime() + this.gracePeriod);
+    await user.save();
+
+    await sessionService.revokeAll(userId);
+    await ApiKey.updateMany({ userId, revokedAt: null }, { revokedAt: now });
+    await AccountToken.updateMany({ userId, usedAt: null }, { usedAt: now });
+    await this.removeAnalytics(userId);
+
+    return user;
+  }
+
+  /**
+   * Permanently delete the user and everything they own. The user document goes last,
+   * so a purge that fails part way is picked up again on the next run.
+   */
+  async purge(userId: string): Promise<void> {
+    const projects = await Project.find({ userId }).select('_id');
+    const projectIds = projects.map(project => project._id);
+
+    await Promise.all([
+      FileRevision.deleteMany({ projectId: { $in: projectIds } }),
+      FixProposal.deleteMany({ projectId: { $in: projectIds } }),
+      TddIteration.deleteMany({ projectId: { $in: projectIds } })
+    ]);
+    await Project.deleteMany({ userId });
+
+    for (const projectId of projectIds) {
+      try {
+        await this.repositories.removeRepository(projectId.toString());
+      } catch (error) {
+        console.error(`Failed to remove repository for project ${projectId}:`, error);
+      }
+    }
+
+    await Promise.all([
+      UsageRecord.deleteMany({ userId }),
+      ApiKey.deleteMany({ userId }),
+      RefreshToken.deleteMany({ userId }),
+      AccountToken.deleteMany({ userId })
+    ]);
+    await this.removeAnalytics(userId);
+    await User.deleteOne({ _id: userId });
+  }
+
+  /**
+   * Purge the accounts whose grace period is over and return how many were purged
+   */
+  async purgeDue(now: Date = new Date()): Promise<number> {
+    const users = await User.find({ deletionScheduledFor: { $ne: null, $lte: now } }).select('_id');
+
+    let purged = 0;
+    for (const user of users) {
+      try {
+        await this.purge(user._id.toString());
+        purged++;
+      } catch (error) {
+        console.error(`Failed to purge account ${user._id}:`, error);
+      }
+    }
+    return purged;
+  }
+
+  start(interval: number = numberFromEnv('ACCOUNT_PURGE_INTERVAL_MS', DEFAULT_PURGE_INTERVAL)): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.purgeDue().catch(error => {
+        console.error('Failed to purge deleted accounts:', error);
+      });
+    }, interval);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async removeAnalytics(userId: string): Promise<void> {
+    await Analytics.deleteMany({ anonymizedUserHash: { $in: Analytics.userHashes(userId) } });
+  }
+}
+
+let accountDeletionService: AccountDeletionService | null = null;
+
+export const getAccountDeletionService = (): AccountDeletionService => {
+  if (!accountDeletionService) {
+    accountDeletionService = new AccountDeletionService();
+  }
+  return accountDeletionService;
+};
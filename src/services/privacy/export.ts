@@ -0,0 +1,139 @@
+import archiver, { Archiver } from 'archiver';
+import { User, IUser } from '@/models/User';
+import { Project, IProject } from '@/models/Project';
+import { FileRevision, IFileRevision } from '@/models/FileRevision';
+import { FixProposal, IFixProposal } from '@/models/FixProposal';
+import { TddIteration, ITddIteration } from '@/models/TddIteration';
+import { ApiKey, IApiKey } from '@/models/ApiKey';
+import { UsageRecord, IUsageRecord } from '@/models/UsageRecord';
+import { Analytics, IAnalytics } from '@/models/Analytics';
+import { ExportEntry, buildExportEntries, slugify } from '@/services/export/archive';
+
+export type UserDataFormat = 'json' | 'zip';
+
+export const USER_DATA_FORMATS: UserDataFormat[] = ['zip', 'json'];
+
+export const ACCOUNT_FILE = 'account.json';
+
+export interface UserProjectData {
+  project: IProject;
+  fileRevisions: IFileRevision[];
+  fixProposals: IFixProposal[];
+  tddIterations: ITddIteration[];
+}
+
+export interface UserData {
+  user: IUser;
+  projects: UserProjectData[];
+  apiKeys: IApiKey[];
+  usage: IUsageRecord[];
+  analytics: IAnalytics[];
+}
+
+/**
+ * Load everything stored about a user: the profile and preferences, every project with
+ * its edit, fix and TDD history, API keys, AI usage and the user's anonymized analytics.
+ * Returns null when the user does not exist.
+ */
+export async function collectUserData(userId: string): Promise<UserData | null> {
+  const user = await User.findById(userId);
+  if (!user) return null;
+
+  const [projects, apiKeys, usage, analytics] = await Promise.all([
+    Project.find({ userId }).sort({ createdAt: 1 }),
+    ApiKey.find({ userId }).sort({ createdAt: 1 }),
+    UsageRecord.find({ userId }).sort({ createdAt: 1 }),
+    Analytics.find({ anonymizedUserHash: { $in: Analytics.userHashes(userId) } }).sort({ timestamp: 1 })
+  ]);
+
+  const projectData = await Promise.all(projects.map(async project => {
+    const [fileRevisions, fixProposals, tddIterations] = await Promise.all([
+      FileRevision.find({ projectId: project._id }).sort({ fileId: 1, revision: 1 }),
+      FixProposal.find({ projectId: project._id }).sort({ createdAt: 1 }),
+      TddIteration.find({ projectId: project._id }).sort({ createdAt: 1, sequence: 1 })
+    ]);
+    return { project, fileRevisions, fixProposals, tddIterations };
+  }));
+
+  return { user, projects: projectData, apiKeys, usage, analytics };
+}
+
+const serializeAccount = (data: UserData, exportedAt: Date) => ({
+  exportedAt,
+  account: data.user.toJSON(),
+  apiKeys: data.apiKeys.map(apiKey => apiKey.toJSON()),
+  aiUsage: data.usage.map(record => record.toJSON()),
+  analytics: data.analytics.map(entry => entry.toJSON())
+});
+
+const serializeHistory = (projectData: UserProjectData) => ({
+  fileRevisions: projectData.fileRevisions.map(revision => revision.toJSON()),
+  fixProposals: projectData.fixProposals.map(proposal => proposal.toJSON()),
+  tddIterations: projectData.tddIterations.map(iteration => iteration.toJSON())
+});
+
+/**
+ * The whole export as a single JSON document
+ */
+export function serializeUserData(data: UserData, exportedAt: Date = new Date()) {
+  return {
+    ...serializeAccount(data, exportedAt),
+    projects: data.projects.map(projectData => ({
+      ...projectData.project.toJSON(),
+      history: serializeHistory(projectData)
+    }))
+  };
+}
+
+/**
+ * Build the archive contents: the account under account.json and a folder per project
+ * holding its record and history in project.json next to the project export itself.
+ * File contents only appear in the project export, not again in project.json.
+ */
+export function buildUserDataEntries(data: UserData, exportedAt: Date = new Date()): ExportEntry[] {
+  const entries: ExportEntry[] = [{
+    path: ACCOUNT_FILE,
+    content: `${JSON.stringify(serializeAccount(data, exportedAt), null, 2)}\n`,
+    date: exportedAt
+  }];
+  const usedFolders = new Set<string>();
+
+  for (const projectData of data.projects) {
+    const { project } = projectData;
+    const baseName = slugify(project.name);
+    let folder = baseName;
+    for (let suffix = 2; usedFolders.has(folder); suffix++) {
+      folder = `${baseName}-${suffix}`;
+    }
+    usedFolders.add(folder);
+
+    const record = project.toJSON();
+    delete record.generatedCode.files;
+
+    entries.push({
+      path: `projects/${folder}/project.json`,
+      content: `${JSON.stringify({ ...record, history: serializeHistory(projectData) }, null, 2)}\n`,
+      date: project.updatedAt || exportedAt
+    });
+    for (const entry of buildExportEntries(project, exportedAt)) {
+      entries.push({ ...entry, path: `projects/${folder}/export/${entry.path}` });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Create a streaming zip of the user's data; the caller pipes the stream and handles errors
+ */
+export function createUserDataArchive(data: UserData, exportedAt: Date = new Date()): Archiver {
+  const archive = archiver('zip', { zlib: { level: 9 } });
+
+  for (const entry of buildUserDataEntries(data, exportedAt)) {
+    archive.append(entry.content, { name: entry.path, date: entry.date });
+  }
+
+  // Failures are also emitted as "error" events on the stream, which the caller handles
+  archive.finalize().catch(() => undefined);
+  return archive;
+}
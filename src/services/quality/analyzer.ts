@@ -0,0 +1,259 @@
+import ts from 'typescript';
+import { IProject, ICodeFile, IQualityMetrics } from '@/models/Project';
+import { round } from '@/utils/numbers';
+import { findDuplicateBlocks } from './duplicates';
+
+export type CodeSmellType = 'long-function' | 'complex-function' | 'duplicate-block' | 'explicit-any';
+
+export interface CodeSmell {
+  type: CodeSmellType;
+  line: number;
+  message: string;
+}
+
+export interface FunctionMetrics {
+  name: string;
+  line: number;
+  lines: number;
+  complexity: number;
+}
+
+export interface FileQualityReport {
+  path: string;
+  linesOfCode: number;
+  // Cyclomatic complexity of the whole file: module code plus every function
+  complexity: number;
+  // Maintainability index, 0-100
+  maintainability: number;
+  functions: FunctionMetrics[];
+  smells: CodeSmell[];
+}
+
+export interface QualityReport {
+  // Average cyclomatic complexity per function, LOC-weighted maintainability and smell count
+  metrics: Pick<IQualityMetrics, 'complexity' | 'maintainability' | 'codeSmells'>;
+  files: FileQualityReport[];
+}
+
+export const LONG_FUNCTION_LINES = 50;
+export const COMPLEX_FUNCTION_THRESHOLD = 10;
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  ts: ts.ScriptKind.TS,
+  mts: ts.ScriptKind.TS,
+  cts: ts.ScriptKind.TS,
+  tsx: ts.ScriptKind.TSX,
+  js: ts.ScriptKind.JS,
+  mjs: ts.ScriptKind.JS,
+  cjs: ts.ScriptKind.JS,
+  jsx: ts.ScriptKind.JSX
+};
+
+const DECISION_OPERATORS = new Set([
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken,
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken
+]);
+
+const scriptKind = (filePath: string): ts.ScriptKind | undefined => {
+  if (filePath.endsWith('.d.ts')) return undefined;
+  const extension = filePath.includes('.') ? filePath.split('.').pop()!.toLowerCase() : '';
+  return SCRIPT_KINDS[extension];
+};
+
+export const isAnalyzable = (filePath: string): boolean => scriptKind(filePath) !== undefined;
+
+const isDecisionPoint = (node: ts.Node): boolean => {
+  switch (node.kind) {
+    case ts.SyntaxKind.IfStatement:
+    case ts.SyntaxKind.ConditionalExpression:
+    case ts.SyntaxKind.CaseClause:
+    case ts.SyntaxKind.ForStatement:
+    case ts.SyntaxKind.ForInStatement:
+    case ts.SyntaxKind.ForOfStatement:
+    case ts.SyntaxKind.WhileStatement:
+    case ts.SyntaxKind.DoStatement:
+    case ts.SyntaxKind.CatchClause:
+      return true;
+    case ts.SyntaxKind.BinaryExpression:
+      return DECISION_OPERATORS.has((node as ts.BinaryExpression).operatorToken.kind);
+    default:
+      return false;
+  }
+};
+
+const isFunctionWithBody = (node: ts.Node): node is ts.FunctionLikeDeclaration =>
+  ts.isFunctionLike(node) && Boolean((node as ts.FunctionLikeDeclaration).body);
+
+// Decision points of a node, without those of functions nested in it
+const countDecisions = (node: ts.Node): number => {
+  let count = 0;
+  const visit = (child: ts.Node): void => {
+    if (isFunctionWithBody(child)) return;
+    if (isDecisionPoint(child)) count++;
+    ts.forEachChild(child, visit);
+  };
+  ts.forEachChild(node, visit);
+  return count;
+};
+
+const functionName = (node: ts.FunctionLikeDeclaration, sourceFile: ts.SourceFile): string => {
+  if (ts.isConstructorDeclaration(node)) return 'constructor';
+  if (node.name) return node.name.getText(sourceFile);
+
+  const parent = node.parent;
+  if ((ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent))
+    && parent.name) {
+    return parent.name.getText(sourceFile);
+  }
+  return '<anonymous>';
+};
+
+const lineOf = (sourceFile: ts.SourceFile, position: number): number =>
+  sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+// Numeric, string, regex and template literal tokens
+const isLiteralToken = (kind: ts.SyntaxKind): boolean =>
+  kind >= ts.SyntaxKind.FirstLiteralToken && kind <= ts.SyntaxKind.LastTemplateToken;
+
+// Halstead volume: identifiers and literals are operands, every other token an operator
+const halsteadVolume = (sourceFile: ts.SourceFile): number => {
+  const operators = new Set<ts.SyntaxKind>();
+  const operands = new Set<string>();
+  let total = 0;
+
+  const visit = (node: ts.Node): void => {
+    const children = node.getChildren(sourceFile);
+    if (children.length > 0) {
+      children.forEach(visit);
+      return;
+    }
+    if (node.kind === ts.SyntaxKind.EndOfFileToken || ts.isJSDoc(node)) return;
+
+    total++;
+    if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node) || isLiteralToken(node.kind)) {
+      operands.add(node.getText(sourceFile));
+    } else {
+      operators.add(node.kind);
+    }
+  };
+  visit(sourceFile);
+
+  const vocabulary = operators.size + operands.size;
+  return vocabulary > 1 ? total * Math.log2(vocabulary) : 0;
+};
+
+const countLines = (content: string): number =>
+  content.split('\n').filter(line => {
+    const trimmed = line.trim();
+    return trimmed.length > 0 && !/^(\/\/|\/\*|\*)/.test(trimmed);
+  }).length;
+
+/**
+ * Maintainability index, normalized to 0-100 (the Visual Studio variant of
+ * 171 - 5.2 ln(Halstead volume) - 0.23 complexity - 16.2 ln(lines of code))
+ */
+export function maintainabilityIndex(volume: number, complexity: number, linesOfCode: number): number {
+  const index = 171
+    - 5.2 * Math.log(Math.max(volume, 1))
+    - 0.23 * complexity
+    - 16.2 * Math.log(Math.max(linesOfCode, 1));
+  return round(Math.min(100, Math.max(0, index * 100 / 171)));
+}
+
+/**
+ * Metrics of one TypeScript/JavaScript file; duplicates are found across files by analyzeCodeQuality
+ */
+export function analyzeFile(file: Pick<ICodeFile, 'path' | 'content'>): FileQualityReport {
+  const sourceFile = ts.createSourceFile(file.path, file.content, ts.ScriptTarget.Latest, true, scriptKind(file.path));
+  const functions: FunctionMetrics[] = [];
+  const smells: CodeSmell[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (isFunctionWithBody(node)) {
+      const line = lineOf(sourceFile, node.getStart(sourceFile));
+      const metrics: FunctionMetrics = {
+        name: functionName(node, sourceFile),
+        line,
+        lines: lineOf(sourceFile, node.getEnd()) - line + 1,
+        complexity: 1 + countDecisions(node)
+      };
+      functions.push(metrics);
+
+      if (metrics.lines > LONG_FUNCTION_LINES) {
+        smells.push({ type: 'long-function', line, message: `${metrics.name} is ${metrics.lines} lines long` });
+      }
+      if (metrics.complexity > COMPLEX_FUNCTION_THRESHOLD) {
+        smells.push({ type: 'complex-function', line, message: `${metrics.name} has a cyclomatic complexity of ${metrics.complexity}` });
+      }
+    } else if (node.kind === ts.SyntaxKind.AnyKeyword) {
+      smells.push({ type: 'explicit-any', line: lineOf(sourceFile, node.getStart(sourceFile)), message: 'Explicit any' });
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  // Every function adds its own entry path on top of the decisions inside it
+  const complexity = 1 + countDecisions(sourceFile) + functions.reduce((sum, fn) => sum + fn.complexity, 0);
+  const linesOfCode = countLines(file.content);
+
+  return {
+    path: file.path,
+    linesOfCode,
+    complexity,
+    maintainability: maintainabilityIndex(halsteadVolume(sourceFile), complexity, linesOfCode),
+    functions,
+    smells
+  };
+}
+
+/**
+ * Analyze the TypeScript/JavaScript files of a project. Other files are skipped.
+ */
+export function analyzeCodeQuality(files: Pick<ICodeFile, 'path' | 'content'>[]): QualityReport {
+  const analyzable = files.filter(file => isAnalyzable(file.path));
+  const reports = analyzable.map(analyzeFile);
+  const byPath = new Map(reports.map(report => [report.path, report]));
+
+  for (const block of findDuplicateBlocks(analyzable)) {
+    byPath.get(block.path)!.smells.push({
+      type: 'duplicate-block',
+      line: block.startLine,
+      message: `Lines ${block.startLine}-${block.endLine} duplicate ${block.original.path}:${block.original.line}`
+    });
+  }
+  reports.forEach(report => report.smells.sort((a, b) => a.line - b.line));
+
+  const functions = reports.flatMap(report => report.functions);
+  const totalLines = reports.reduce((sum, report) => sum + report.linesOfCode, 0);
+
+  return {
+    metrics: {
+      complexity: functions.length > 0
+        ? round(functions.reduce((sum, fn) => sum + fn.complexity, 0) / functions.length)
+        : 0,
+      maintainability: totalLines > 0
+        ? round(reports.reduce((sum, report) => sum + report.maintainability * report.linesOfCode, 0) / totalLines)
+        : 0,
+      codeSmells: reports.reduce((sum, report) => sum + report.smells.length, 0)
+    },
+    files: reports
+  };
+}
+
+/**
+ * Recompute the project's code quality metrics from its current files.
+ * Test coverage comes from test runs and is left untouched.
+ */
+export function updateQualityMetrics(project: IProject): QualityReport {
+  const report = analyzeCodeQuality(project.generatedCode.files);
+  const quality = project.analytics.codeQuality;
+
+  quality.complexity = report.metrics.complexity;
+  quality.maintainability = report.metrics.maintainability;
+  quality.codeSmells = report.metrics.codeSmells;
+  return report;
+}
@@ -0,0 +1,71 @@
+import { ICodeFile } from '@/models/Project';
+
+export interface DuplicateBlock {
+  path: string;
+  startLine: number;
+  endLine: number;
+  // Where the same lines appear first
+  original: { path: string; line: number };
+}
+
+// Consecutive significant lines that must repeat before they count as a duplicate
+export const MIN_DUPLICATE_LINES = 6;
+
+// Lines that repeat everywhere without being copy-paste: blanks, comments, imports, bare braces
+const TRIVIAL_LINE = /^(\/\/|\/\*|\*|import\s|export\s+\*\s+from\s)|^[\s{}()[\];,]*$/;
+
+interface SignificantLine {
+  text: string;
+  line: number;
+}
+
+const significantLines = (content: string): SignificantLine[] =>
+  content
+    .split('\n')
+    .map((text, index) => ({ text: text.trim().replace(/\s+/g, ' '), line: index + 1 }))
+    .filter(({ text }) => !TRIVIAL_LINE.test(text));
+
+/**
+ * Find blocks of at least MIN_DUPLICATE_LINES significant lines that already appeared
+ * earlier in the same or another file. Whitespace differences are ignored; the first
+ * occurrence is not reported, each later copy is reported once.
+ */
+export function findDuplicateBlocks(files: Pick<ICodeFile, 'path' | 'content'>[]): DuplicateBlock[] {
+  const seen = new Map<string, { path: string; index: number; line: number }>();
+  const blocks: DuplicateBlock[] = [];
+
+  for (const file of files) {
+    const lines = significantLines(file.content);
+    let current: DuplicateBlock | null = null;
+    let currentEnd = -1;
+
+    for (let index = 0; index + MIN_DUPLICATE_LINES <= lines.length; index++) {
+      const key = lines.slice(index, index + MIN_DUPLICATE_LINES).map(line => line.text).join('\n');
+      const first = seen.get(key);
+
+      // A window overlapping its own first occurrence is a run of repeated lines, not a copy
+      if (!first || (first.path === file.path && index - first.index < MIN_DUPLICATE_LINES)) {
+        if (!first) {
+          seen.set(key, { path: file.path, index, line: lines[index].line });
+        }
+        continue;
+      }
+
+      const end = index + MIN_DUPLICATE_LINES - 1;
+      if (current && index <= currentEnd + 1) {
+        current.endLine = lines[end].line;
+      } else {
+        current = {
+          path: file.path,
+          startLine: lines[index].line,
+          endLine: lines[end].line,
+          original: { path: first.path, line: first.line }
+        };
+        blocks.push(current);
+      }
+      currentEnd = end;
+    }
+  }
+
+  return blocks;
+}
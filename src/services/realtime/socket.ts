@@ -0,0 +1,136 @@
+import { Server as HttpServer } from 'http';
+import mongoose from 'mongoose';
+import { Server, Namespace, Socket } from 'socket.io';
+import jwt from 'jsonwebtoken';
+import { verifyAccessToken } from '@/middleware/auth';
+import { User } from '@/models/User';
+import { Project } from '@/models/Project';
+import { GenerationEventBus, GenerationEventName, generationEvents } from '@/services/generation/events';
+
+export const GENERATION_NAMESPACE = '/generation';
+
+export interface SocketUser {
+  id: string;
+  email: string;
+}
+
+export interface SubscriptionAck {
+  ok: boolean;
+  error?: string;
+}
+
+type AckCallback = (response: SubscriptionAck) => void;
+
+const FORWARDED_EVENTS: GenerationEventName[] = [
+  'generation:status',
+  'generation:file',
+  'generation:usage',
+  'generation:tests',
+  'generation:error',
+  'tests:status'
+];
+
+export const projectRoom = (projectId: string): string => `project:${projectId}`;
+
+/**
+ * Socket.IO middleware verifying the same access JWT accepted by authMiddleware.
+ * The token is read from the handshake auth payload or the Authorization header.
+ */
+export const authenticateSocket = async (socket: Socket, next: (err?: Error) => void): Promise<void> => {
+  try {
+    const token = (socket.handshake.auth?.token as string | undefined)
+      || socket.handshake.headers.authorization?.replace('Bearer ', '');
+
+    if (!token) {
+      next(new Error('Access denied. No token provided.'));
+      return;
+    }
+
+    const decoded = verifyAccessToken(token);
+
+    const user = await User.findById(decoded.id).select('-passwordHash');
+    if (!user || user.deletedAt) {
+      next(new Error('Invalid token. User not found.'));
+      return;
+    }
+
+    socket.data.user = { id: decoded.id, email: decoded.email } as SocketUser;
+    next();
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      next(new Error('Token expired'));
+      return;
+    }
+
+    next(new Error(error instanceof Error && error.message === 'Invalid token type' ? 'Invalid token type' : 'Invalid token'));
+  }
+};
+
+/**
+ * Register per-connection handlers letting users join rooms for projects they own
+ */
+export const handleConnection = (socket: Socket): void => {
+  const user = socket.data.user as SocketUser;
+
+  socket.on('project:subscribe', async (projectId: string, ack?: AckCallback) => {
+    try {
+      if (!mongoose.isValidObjectId(projectId)) {
+        ack?.({ ok: false, error: 'Invalid project ID' });
+        return;
+      }
+
+      const project = await Project.findOne({ _id: projectId, userId: user.id }).select('_id status');
+      if (!project) {
+        ack?.({ ok: false, error: 'Project not found' });
+        return;
+      }
+
+      await socket.join(projectRoom(projectId));
+      ack?.({ ok: true });
+    } catch (error) {
+      console.error('Socket subscribe error:', error);
+      ack?.({ ok: false, error: 'Server error during subscription' });
+    }
+  });
+
+  socket.on('project:unsubscribe', async (projectId: string, ack?: AckCallback) => {
+    await socket.leave(projectRoom(projectId));
+    ack?.({ ok: true });
+  });
+};
+
+/**
+ * Forward generation events from the bus to the matching project room.
+ * Returns a function that detaches the listeners.
+ */
+export const forwardGenerationEvents = (
+  namespace: Namespace,
+  events: GenerationEventBus = generationEvents
+): (() => void) => {
+  const unsubscribers = FORWARDED_EVENTS.map(eventName =>
+    events.on(eventName, payload => {
+      namespace.to(projectRoom(payload.projectId)).emit(eventName, payload);
+    })
+  );
+
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+};
+
+/**
+ * Attach Socket.IO to the HTTP server and expose the authenticated generation namespace
+ */
+export const initializeSocketServer = (httpServer: HttpServer): Server => {
+  const io = new Server(httpServer, {
+    cors: {
+      origin: process.env.FRONTEND_URL || 'http://localhost:3000',
+      credentials: true
+    }
+  });
+
+  const namespace = io.of(GENERATION_NAMESPACE);
+  namespace.use(authenticateSocket);
+  namespace.on('connection', handleConnection);
+  forwardGenerationEvents(namespace);
+
+  return io;
+};
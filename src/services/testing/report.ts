@@ -0,0 +1,105 @@
+import path from 'path';
+import { ICoverageSummary, ITestResult, ITestRun } from '@/models/Project';
+
+// Subset of the report written by `jest --json`
+export interface JestReport {
+  success: boolean;
+  numTotalTests: number;
+  numPassedTests: number;
+  numFailedTests: number;
+  numPendingTests: number;
+  numTodoTests?: number;
+  testResults: Array<{
+    name: string;
+    status: 'passed' | 'failed';
+    message?: string;
+    assertionResults: Array<{
+      fullName: string;
+      status: 'passed' | 'failed' | 'pending' | 'skipped' | 'todo' | 'disabled';
+      duration?: number | null;
+      failureMessages?: string[];
+    }>;
+  }>;
+}
+
+// Subset of coverage-summary.json written by the json-summary reporter
+export interface CoverageSummaryReport {
+  total: Record<keyof ICoverageSummary, { pct: number | 'Unknown' }>;
+}
+
+const MAX_TEST_RESULTS = 500;
+const MAX_FAILURE_MESSAGE_LENGTH = 2000;
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+// Drop colours and the stack frames of Jest itself
+const cleanMessage = (message: string): string => {
+  const plain = message
+    .replace(ANSI_PATTERN, '')
+    .split('\n')
+    .filter(line => !/^\s*at .*node_modules/.test(line) && !/^\s*at new Promise \(<anonymous>\)/.test(line))
+    .join('\n')
+    .trim();
+  return plain.length > MAX_FAILURE_MESSAGE_LENGTH ? `${plain.slice(0, MAX_FAILURE_MESSAGE_LENGTH)}...` : plain;
+};
+
+/**
+ * Flatten a Jest report into per-test results with paths relative to the workspace.
+ * Suites that failed to run (syntax or import errors) become a single failed result.
+ */
+export function parseJestReport(report: JestReport, workspace: string): Pick<ITestRun, 'status' | 'summary' | 'tests'> {
+  const tests: ITestResult[] = [];
+
+  for (const suite of report.testResults) {
+    const file = path.relative(workspace, suite.name).split(path.sep).join('/');
+
+    if (suite.status === 'failed' && suite.assertionResults.length === 0) {
+      tests.push({
+        file,
+        name: 'Test suite failed to run',
+        status: 'failed',
+        duration: 0,
+        failureMessage: cleanMessage(suite.message || 'Unknown error')
+      });
+      continue;
+    }
+
+    for (const assertion of suite.assertionResults) {
+      const failures = assertion.failureMessages || [];
+      tests.push({
+        file,
+        name: assertion.fullName,
+        status: assertion.status === 'passed' || assertion.status === 'failed' ? assertion.status : 'skipped',
+        duration: assertion.duration || 0,
+        ...(failures.length > 0 && { failureMessage: cleanMessage(failures.join('\n\n')) })
+      });
+    }
+  }
+
+  const failedSuites = tests.filter(test => test.name === 'Test suite failed to run').length;
+
+  return {
+    status: report.success ? 'passed' : 'failed',
+    summary: {
+      total: report.numTotalTests + failedSuites,
+      passed: report.numPassedTests,
+      failed: report.numFailedTests + failedSuites,
+      skipped: report.numPendingTests + (report.numTodoTests || 0)
+    },
+    tests: tests.slice(0, MAX_TEST_RESULTS)
+  };
+}
+
+export function parseCoverageSummary(report: CoverageSummaryReport): ICoverageSummary {
+  const percentage = (key: keyof ICoverageSummary): number => {
+    const pct = report.total[key]?.pct;
+    return typeof pct === 'number' ? Math.round(pct * 100) / 100 : 0;
+  };
+
+  return {
+    lines: percentage('lines'),
+    statements: percentage('statements'),
+    functions: percentage('functions'),
+    branches: percentage('branches')
+  };
+}
@@ -0,0 +1,494 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FilterQuery } from 'mongoose';
+import { Project, IProject, ICodeFile, ITechStack, ITestRun } from '@/models/Project';
+import { GenerationEventBus, generationEvents } from '@/services/generation/events';
+import { parseCoverageSummary, parseJestReport, CoverageSummaryReport, JestReport } from './report';
+import { runSandboxed, SandboxLimits, SandboxResult } from './sandbox';
+import { numberFromEnv } from '@/config/env';
+
+export type TestRunErrorCode =
+  | 'UNSUPPORTED_STACK'
+  | 'NO_TESTS'
+  | 'RUN_IN_PROGRESS'
+  | 'GENERATION_IN_PROGRESS'
+  | 'SANDBOX_UNAVAILABLE';
+
+export class TestRunError extends Error {
+  readonly code: TestRunErrorCode;
+
+  constructor(code: TestRunErrorCode, message: string) {
+    super(message);
+    this.name = 'TestRunError';
+    this.code = code;
+  }
+}
+
+export interface TestRunnerOptions {
+  // Where run workspaces are created
+  workDir: string;
+  // npm cache used for offline installs; runs only ever get a copy of it
+  npmCache: string;
+  // Local registry mirror; installs may only reach the network when it is set
+  registry?: string;
+  installTimeout: number;
+  limits: Omit<SandboxLimits, 'isolateNetwork'>;
+}
+
+/**
+ * A workspace kept across the runs of one test-first generation: dependencies are
+ * installed once, and again only when package.json or the lockfile change
+ */
+export interface TestWorkspace {
+  runDir: string;
+  // The package.json and lockfile node_modules was installed from
+  installedFrom: string | null;
+}
+
+// The package.json fields the runner reads or adds; the project's other fields are kept as they are
+export interface WorkspaceManifest {
+  name?: string;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  jest?: unknown;
+  [field: string]: unknown;
+}
+
+const SUPPORTED_LANGUAGES = ['javascript', 'typescript', 'node', 'node.js', 'nodejs'];
+const TEST_FILE_PATTERN = /(^|\/)__tests__\/|\.(test|spec)\.[cm]?[jt]sx?$/;
+const JEST_CONFIG_PATTERN = /^jest\.config\.(js|ts|cjs|mjs|json)$/;
+const REPORT_DIR = '.backendforge';
+
+// Slack on top of the run timeouts before a claim left by a crashed run expires
+const RUN_CLAIM_GRACE_MS = 60000;
+
+// Versions the runner adds when a project does not declare its own
+const TEST_DEPENDENCIES: Record<string, string> = {
+  jest: '^29.7.0'
+};
+const TYPESCRIPT_TEST_DEPENDENCIES: Record<string, string> = {
+  'ts-jest': '^29.1.1',
+  typescript: '^5.2.2',
+  '@types/jest': '^29.5.8'
+};
+
+export const isTestFile = (filePath: string): boolean => TEST_FILE_PATTERN.test(filePath);
+
+const isTypeScript = (techStack: ITechStack): boolean => techStack.language.toLowerCase() === 'typescript';
+
+/**
+ * Build the package.json written to the workspace: the project's own manifest, with
+ * Jest (and ts-jest for TypeScript) added when missing.
+ */
+export function buildWorkspaceManifest(files: ICodeFile[], techStack: ITechStack): WorkspaceManifest {
+  const existing = files.find(file => file.path === 'package.json');
+  let manifest: WorkspaceManifest = { name: 'backendforge-project', version: '1.0.0', private: true };
+
+  if (existing) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(existing.content);
+    } catch {
+      throw new Error('package.json is not valid JSON');
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('package.json must contain a JSON object');
+    }
+    manifest = parsed as WorkspaceManifest;
+  }
+
+  const declared = { ...manifest.dependencies, ...manifest.devDependencies };
+  const required = {
+    ...TEST_DEPENDENCIES,
+    ...(isTypeScript(techStack) && TYPESCRIPT_TEST_DEPENDENCIES)
+  };
+  const missing = Object.entries(required).filter(([name]) => !declared[name]);
+
+  if (missing.length > 0) {
+    manifest.devDependencies = { ...manifest.devDependencies, ...Object.fromEntries(missing) };
+  }
+  return manifest;
+}
+
+/**
+ * Runs the Jest suite of generated projects. Each run gets a fresh temp workspace, or
+ * one shared by the runs of a test-first generation, installs dependencies from its
+ * own copy of the npm cache or a local mirror, and executes under CPU, memory, time
+ * and network limits with nothing of the host writable but the workspace (see
+ * sandbox.ts). The shared cache is never written; warm it outside the runner.
+ */
+export class TestRunnerService {
+  private options: TestRunnerOptions;
+  private events: GenerationEventBus;
+  private sandboxCheck: Promise<string | null> | null = null;
+
+  constructor(options: Partial<TestRunnerOptions> = {}, events: GenerationEventBus = generationEvents) {
+    this.options = {
+      workDir: options.workDir || process.env.TEST_RUNNER_WORK_DIR || os.tmpdir(),
+      npmCache: options.npmCache || process.env.TEST_RUNNER_NPM_CACHE || path.join(process.cwd(), 'data', 'npm-cache'),
+      registry: options.registry ?? process.env.TEST_RUNNER_REGISTRY,
+      installTimeout: options.installTimeout ?? numberFromEnv('TEST_RUNNER_INSTALL_TIMEOUT_MS', 300000),
+      limits: options.limits || {
+        timeout: numberFromEnv('TEST_RUNNER_TIMEOUT_MS', 120000),
+        cpuSeconds: numberFromEnv('TEST_RUNNER_CPU_SECONDS', 120),
+        memoryMb: numberFromEnv('TEST_RUNNER_MEMORY_MB', 512)
+      }
+    };
+    this.events = events;
+  }
+
+  /**
+   * Claim the project for a manual test run, refusing projects that can't be tested
+   * and those held by generation or another run. The claim is stored on the project so
+   * it holds across server processes; one left by a crashed run expires once the run
+   * would have timed out.
+   */
+  async claimRun(project: IProject): Promise<void> {
+    this.assertRunnable(project.generatedCode.files, project.techStack);
+
+    const startedAt = new Date();
+    const claimed = await Project.findOneAndUpdate(
+      {
+        _id: project._id,
+        status: { $ne: 'generating' },
+        ...this.idleCondition()
+      },
+      { $set: { testRunStartedAt: startedAt } }
+    ).select('_id');
+
+    if (!claimed) {
+      const current = await Project.findById(project._id).select('status');
+      if (current?.status === 'generating') {
+        throw new TestRunError('GENERATION_IN_PROGRESS', 'Project generation is in progress');
+      }
+      throw new TestRunError('RUN_IN_PROGRESS', 'Tests are already running for this project');
+    }
+
+    project.testRunStartedAt = startedAt;
+  }
+
+  /**
+   * Query condition matching the projects no manual test run holds
+   */
+  idleCondition(): FilterQuery<IProject> {
+    return { $or: [{ testRunStartedAt: null }, { testRunStartedAt: { $lt: this.claimCutoff() } }] };
+  }
+
+  /**
+   * Whether a manual test run currently holds the project
+   */
+  isRunning(project: Pick<IProject, 'testRunStartedAt'>): boolean {
+    return !!project.testRunStartedAt && project.testRunStartedAt >= this.claimCutoff();
+  }
+
+  /**
+   * Run the tests of a project claimed with claimRun, store the results and coverage
+   * on it and release the claim. Progress is reported as tests:status events.
+   */
+  async runProject(project: IProject): Promise<ITestRun> {
+    const projectId = project._id.toString();
+    let run: ITestRun | undefined;
+
+    this.events.emit('tests:status', { projectId, status: 'running', timestamp: new Date() });
+    try {
+      run = await this.execute(project.generatedCode.files, project.techStack);
+      this.recordRun(project, run);
+      return run;
+    } finally {
+      project.testRunStartedAt = null;
+      await project.save();
+
+      this.events.emit('tests:status', {
+        projectId,
+        status: run?.status || 'error',
+        ...(run && { summary: run.summary }),
+        timestamp: new Date()
+      });
+    }
+  }
+
+  /**
+   * Why tests of this stack can't be run here, or null when they can
+   */
+  unavailableReason(techStack: ITechStack): { code: TestRunErrorCode; message: string } | null {
+    if (!SUPPORTED_LANGUAGES.includes(techStack.language.toLowerCase())) {
+      return { code: 'UNSUPPORTED_STACK', message: `Running tests is not supported for ${techStack.language} projects` };
+    }
+    if (process.platform !== 'linux') {
+      return { code: 'SANDBOX_UNAVAILABLE', message: 'The test sandbox requires Linux' };
+    }
+    return null;
+  }
+
+  /**
+   * Check that commands can run in the sandbox on this server. Resolves with why not,
+   * or null when they can; a working sandbox is only probed once.
+   */
+  async checkSandbox(): Promise<string | null> {
+    if (!this.sandboxCheck) {
+      this.sandboxCheck = this.probeSandbox();
+    }
+
+    const problem = await this.sandboxCheck;
+    if (problem) {
+      this.sandboxCheck = null;
+    }
+    return problem;
+  }
+
+  async openWorkspace(): Promise<TestWorkspace> {
+    await fs.mkdir(this.options.workDir, { recursive: true });
+    return {
+      runDir: await fs.mkdtemp(path.join(this.options.workDir, 'backendforge-run-')),
+      installedFrom: null
+    };
+  }
+
+  async closeWorkspace(workspace: TestWorkspace): Promise<void> {
+    await fs.rm(workspace.runDir, { recursive: true, force: true });
+  }
+
+  /**
+   * Run the tests of a set of files without touching any project, in a workspace of their
+   * own or in `shared`, reusing the dependencies it already has installed
+   */
+  async execute(files: ICodeFile[], techStack: ITechStack, shared?: TestWorkspace): Promise<ITestRun> {
+    this.assertRunnable(files, techStack);
+
+    const startedAt = new Date();
+    const run = shared || await this.openWorkspace();
+    const workspace = path.join(run.runDir, 'workspace');
+    const npmCache = path.join(run.runDir, 'npm-cache');
+
+    const failed = (error: string, output = ''): ITestRun => ({
+      status: 'error',
+      startedAt,
+      finishedAt: new Date(),
+      summary: { total: 0, passed: 0, failed: 0, skipped: 0 },
+      tests: [],
+      error,
+      output
+    });
+
+    try {
+      let installFrom: string;
+      try {
+        installFrom = await this.writeWorkspace(workspace, files, techStack);
+        if (run.installedFrom !== installFrom) {
+          run.installedFrom = null;
+          await fs.rm(npmCache, { recursive: true, force: true });
+          await this.copyNpmCache(npmCache);
+        }
+      } catch (error) {
+        return failed(`Could not prepare the workspace: ${(error as Error).message}`);
+      }
+
+      if (run.installedFrom !== installFrom) {
+        // The install is the only step that sees the cache copy
+        const install = await this.sandboxed(workspace, 'npm', this.installArgs(npmCache), {
+          ...this.options.limits,
+          timeout: this.options.installTimeout,
+          isolateNetwork: !this.options.registry
+        }, [npmCache]);
+        if (install.timedOut || install.exitCode !== 0) {
+          return failed(
+            install.timedOut ? 'Dependency installation timed out' : `Dependency installation failed (exit code ${install.exitCode})`,
+            install.output
+          );
+        }
+        run.installedFrom = installFrom;
+      }
+
+      const reportPath = path.join(workspace, REPORT_DIR, 'report.json');
+      const coverageDir = path.join(workspace, REPORT_DIR, 'coverage');
+      const jest = await this.sandboxed(workspace, 'node', [
+        path.join('node_modules', 'jest', 'bin', 'jest.js'),
+        '--ci',
+        '--runInBand',
+        '--no-watchman',
+        '--json',
+        `--outputFile=${reportPath}`,
+        '--coverage',
+        '--coverageReporters=json-summary',
+        `--coverageDirectory=${coverageDir}`
+      ], { ...this.options.limits, isolateNetwork: true });
+
+      if (jest.timedOut) {
+        return failed(`Tests timed out after ${Math.round(this.options.limits.timeout / 1000)}s`, jest.output);
+      }
+
+      const report = await this.readJson<JestReport>(reportPath);
+      if (!report) {
+        return failed(`Jest exited without a report (exit code ${jest.exitCode})`, jest.output);
+      }
+
+      const coverage = await this.readJson<CoverageSummaryReport>(path.join(coverageDir, 'coverage-summary.json'));
+
+      return {
+        ...parseJestReport(report, workspace),
+        startedAt,
+        finishedAt: new Date(),
+        ...(coverage && { coverage: parseCoverageSummary(coverage) }),
+        output: jest.output
+      };
+    } finally {
+      if (!shared) {
+        await this.closeWorkspace(run);
+      }
+    }
+  }
+
+  /**
+   * Store a run as the project's latest results; `runs` counts the runs it concludes
+   */
+  recordRun(project: IProject, run: ITestRun, runs = 1): void {
+    project.lastTestRun = run;
+    project.analytics.testRunsExecuted = (project.analytics.testRunsExecuted || 0) + runs;
+
+    if (run.coverage) {
+      project.analytics.testCoverage = run.coverage.lines;
+      project.analytics.codeQuality.testCoverage = run.coverage.lines;
+    }
+  }
+
+  private assertRunnable(files: ICodeFile[], techStack: ITechStack): void {
+    const unavailable = this.unavailableReason(techStack);
+    if (unavailable) {
+      throw new TestRunError(unavailable.code, unavailable.message);
+    }
+    if (!files.some(file => isTestFile(file.path))) {
+      throw new TestRunError('NO_TESTS', 'Project has no test files');
+    }
+  }
+
+  // Claims older than this were left by runs that can no longer be going on
+  private claimCutoff(): Date {
+    return new Date(Date.now() - this.options.installTimeout - this.options.limits.timeout - RUN_CLAIM_GRACE_MS);
+  }
+
+  // Run an empty Node script in the sandbox; if that fails, no test can run here
+  private async probeSandbox(): Promise<string | null> {
+    const probe = await this.openWorkspace();
+    const cwd = path.join(probe.runDir, 'workspace');
+
+    try {
+      await fs.mkdir(cwd);
+      const result = await this.sandboxed(cwd, 'node', ['-e', ''], { ...this.options.limits, isolateNetwork: true });
+      if (result.timedOut || result.exitCode !== 0) {
+        return `The test sandbox does not work on this server: ${result.output.trim() || `exit code ${result.exitCode}`}`;
+      }
+      return null;
+    } catch (error) {
+      return `The test sandbox does not work on this server: ${(error as Error).message}`;
+    } finally {
+      await this.closeWorkspace(probe);
+    }
+  }
+
+  /**
+   * Write the files to the workspace, replacing everything but installed dependencies.
+   * Returns what the install depends on: package.json and the lockfile.
+   */
+  private async writeWorkspace(workspace: string, files: ICodeFile[], techStack: ITechStack): Promise<string> {
+    await fs.mkdir(workspace, { recursive: true });
+    for (const entry of await fs.readdir(workspace)) {
+      if (entry !== 'node_modules') {
+        await fs.rm(path.join(workspace, entry), { recursive: true, force: true });
+      }
+    }
+
+    for (const file of files) {
+      const target = path.resolve(workspace, file.path);
+      if (!target.startsWith(workspace + path.sep)) {
+        throw new Error(`File path escapes the workspace: ${file.path}`);
+      }
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, file.content);
+    }
+
+    const manifest = buildWorkspaceManifest(files, techStack);
+    const manifestJson = JSON.stringify(manifest, null, 2);
+    await fs.writeFile(path.join(workspace, 'package.json'), manifestJson);
+
+    const hasJestConfig = Boolean(manifest.jest) || files.some(file => JEST_CONFIG_PATTERN.test(file.path));
+    if (!hasJestConfig) {
+      const config = isTypeScript(techStack)
+        ? "module.exports = { preset: 'ts-jest', testEnvironment: 'node' };\n"
+        : "module.exports = { testEnvironment: 'node' };\n";
+      await fs.writeFile(path.join(workspace, 'jest.config.js'), config);
+    }
+
+    const lockfile = files.find(file => file.path === 'package-lock.json');
+    return JSON.stringify([manifestJson, lockfile?.content ?? null]);
+  }
+
+  // A run may write to its cache, so it gets a copy; nothing it does reaches other runs
+  private async copyNpmCache(target: string): Promise<void> {
+    try {
+      await fs.cp(this.options.npmCache, target, { recursive: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      await fs.mkdir(target);
+    }
+  }
+
+  private installArgs(npmCache: string): string[] {
+    return [
+      'install',
+      '--ignore-scripts',
+      '--no-audit',
+      '--no-fund',
+      '--loglevel=error',
+      `--cache=${npmCache}`,
+      ...(this.options.registry ? [`--registry=${this.options.registry}`, '--prefer-offline'] : ['--offline'])
+    ];
+  }
+
+  private async sandboxed(
+    workspace: string,
+    command: string,
+    args: string[],
+    limits: SandboxLimits,
+    writable: string[] = []
+  ): Promise<SandboxResult> {
+    try {
+      return await runSandboxed({
+        command,
+        args,
+        cwd: workspace,
+        writable,
+        // Only what the tools need: no server configuration or secrets
+        env: {
+          PATH: process.env.PATH,
+          HOME: workspace,
+          NODE_ENV: 'test',
+          CI: 'true',
+          FORCE_COLOR: '0',
+          NODE_OPTIONS: `--max-old-space-size=${limits.memoryMb}`,
+          npm_config_update_notifier: 'false'
+        }
+      }, limits);
+    } catch (error) {
+      throw new TestRunError('SANDBOX_UNAVAILABLE', (error as Error).message);
+    }
+  }
+
+  private async readJson<T>(filePath: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+    } catch {
+      return null;
+    }
+  }
+}
+
+let testRunnerService: TestRunnerService | null = null;
+
+export const getTestRunnerService = (): TestRunnerService => {
+  if (!testRunnerService) {
+    testRunnerService = new TestRunnerService();
+  }
+  return testRunnerService;
+};
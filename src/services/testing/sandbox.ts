@@ -0,0 +1,174 @@
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export interface SandboxLimits {
+  timeout: number; // wall clock, in milliseconds
+  cpuSeconds: number;
+  memoryMb: number;
+  // Run without network access (a private, empty network namespace)
+  isolateNetwork: boolean;
+}
+
+export interface SandboxCommand {
+  command: string;
+  args: string[];
+  // The working directory; it is the only place the command can write besides `writable`
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  // Further directories the command may read and write
+  writable?: string[];
+}
+
+export interface SandboxResult {
+  exitCode: number | null;
+  timedOut: boolean;
+  output: string;
+}
+
+const MAX_OUTPUT_LENGTH = 20000;
+
+// Node reserves far more address space than it uses; leave room above the heap limit
+const ADDRESS_SPACE_FACTOR = 4;
+
+// Commands run as nobody inside their user namespace, without any capability
+const SANDBOX_UID = 65534;
+
+// Host paths the command can read: the system and, wherever it is installed, Node itself
+const NODE_PREFIX = path.dirname(path.dirname(process.execPath));
+const SYSTEM_PATHS = ['/usr', '/bin', '/lib', '/lib64', '/etc/ssl', '/etc/ca-certificates', '/etc/resolv.conf', '/etc/hosts'];
+export const READ_ONLY_PATHS = SYSTEM_PATHS.some(systemPath => NODE_PREFIX.startsWith(`${systemPath}/`))
+  ? SYSTEM_PATHS
+  : [...SYSTEM_PATHS, NODE_PREFIX];
+
+/**
+ * Builds the sandbox filesystem in the new mount namespace, then runs the command
+ * chrooted into it. The root is an empty tmpfs with a private /tmp, /proc and the
+ * basic devices; the arguments are: root, read-only paths, --, writable paths, --,
+ * working directory, command. Missing paths are skipped and directory symlinks
+ * (/bin -> usr/bin) are recreated rather than mounted.
+ */
+const SETUP_SCRIPT = `set -e
+root="$1"; shift
+mount -t tmpfs -o mode=0755 tmpfs "$root"
+mkdir -p "$root/tmp" "$root/proc" "$root/dev"
+mount -t tmpfs -o mode=1777 tmpfs "$root/tmp"
+mount -t proc proc "$root/proc"
+for device in null zero random urandom; do
+  touch "$root/dev/$device"
+  mount --bind "/dev/$device" "$root/dev/$device"
+done
+for mode in ro rw; do
+  while [ "$1" != "--" ]; do
+    if [ -L "$1" ] && [ -d "$1" ]; then
+      mkdir -p "$root$(dirname "$1")"
+      ln -s "$(readlink "$1")" "$root$1"
+    elif [ -e "$1" ]; then
+      if [ -d "$1" ]; then mkdir -p "$root$1"; else mkdir -p "$root$(dirname "$1")"; touch "$root$1"; fi
+      mount --rbind "$1" "$root$1"
+      if [ "$mode" = ro ]; then mount -o remount,bind,ro,nosuid,nodev "$root$1"; fi
+    fi
+    shift
+  done
+  shift
+done
+cwd="$1"; shift
+exec unshare --user --map-user=${SANDBOX_UID} --map-group=${SANDBOX_UID} --root="$root" --wd="$cwd" -- "$@"`;
+
+/**
+ * Wrap a command with prlimit (CPU time and address space) and unshare: private user,
+ * mount and PID namespaces, and no network when requested. All of it is util-linux.
+ * The command only sees the read-only system paths, its working directory and the
+ * writable paths, mounted at their own locations under `root`, an empty directory.
+ */
+export function buildSandboxedCommand(
+  sandboxed: Pick<SandboxCommand, 'command' | 'args' | 'cwd' | 'writable'>,
+  limits: SandboxLimits,
+  root: string
+): { command: string; args: string[] } {
+  return {
+    command: 'prlimit',
+    args: [
+      `--cpu=${limits.cpuSeconds}`,
+      `--as=${limits.memoryMb * ADDRESS_SPACE_FACTOR * 1024 * 1024}`,
+      '--',
+      'unshare',
+      '--user',
+      '--map-root-user',
+      '--mount',
+      '--pid',
+      '--fork',
+      '--kill-child',
+      ...(limits.isolateNetwork ? ['--net'] : []),
+      '--',
+      'sh',
+      '-c',
+      SETUP_SCRIPT,
+      'sandbox',
+      root,
+      ...READ_ONLY_PATHS,
+      '--',
+      sandboxed.cwd,
+      ...(sandboxed.writable || []),
+      '--',
+      sandboxed.cwd,
+      sandboxed.command,
+      ...sandboxed.args
+    ]
+  };
+}
+
+/**
+ * Run a command under the sandbox limits. Resolves with the exit code and the tail
+ * of the combined output; the whole process group is killed on timeout.
+ */
+export async function runSandboxed(sandboxed: SandboxCommand, limits: SandboxLimits): Promise<SandboxResult> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'backendforge-root-'));
+  const { command, args } = buildSandboxedCommand(sandboxed, limits, root);
+
+  try {
+    return await new Promise<SandboxResult>((resolve, reject) => {
+      const child = spawn(command, args, {
+        cwd: sandboxed.cwd,
+        env: sandboxed.env,
+        detached: true,
+        stdio: ['ignore', 'pipe', 'pipe']
+      });
+      let output = '';
+      let timedOut = false;
+
+      const append = (chunk: Buffer): void => {
+        output = (output + chunk.toString('utf8')).slice(-MAX_OUTPUT_LENGTH);
+      };
+      const killGroup = (): void => {
+        try {
+          process.kill(-child.pid!, 'SIGKILL');
+        } catch {
+          // Already exited
+        }
+      };
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killGroup();
+      }, limits.timeout);
+
+      child.stdout.on('data', append);
+      child.stderr.on('data', append);
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(new Error(`Failed to start sandbox: ${error.message}`));
+      });
+      child.on('close', code => {
+        clearTimeout(timer);
+        // Children left behind by the command must not outlive the run
+        killGroup();
+        resolve({ exitCode: code, timedOut, output });
+      });
+    });
+  } finally {
+    // The tmpfs was mounted in the sandbox's namespace only; the directory is empty here
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
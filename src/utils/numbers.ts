@@ -0,0 +1,2 @@
+// Round to two decimals for reported figures
+export const round = (value: number): number => Math.round(value * 100) / 100;
@@ -0,0 +1,111 @@
+import request from 'supertest';
+import app from '../src/app';
+import { Analytics } from '../src/models/Analytics';
+
+describe('Analytics API', () => {
+  let accessToken: string;
+
+  beforeEach(async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({
+        email: 'analytics@example.com',
+        password: 'Password123'
+      });
+    accessToken = response.body.accessToken;
+
+    // Five users: enough for the default minimum group size
+    await Analytics.create(['a', 'b', 'c', 'd', 'e'].map(user => ({
+      anonymizedUserHash: user.repeat(64),
+      projectType: 'api',
+      techStackUsed: { language: 'typescript', framework: 'express', database: 'mongodb', additionalTools: [] },
+      generationMetrics: { timeToComplete: 5000, linesOfCode: 200, testCoverage: 75, filesGenerated: 8, errorsEncountered: 2, aiFixesUsed: 1 },
+      userInteractions: { chatMessages: 1, aiFixesUsed: 1, manualEdits: 0, testRunsExecuted: 2, documentationViews: 0 },
+      performanceMetrics: { averageResponseTime: 100, peakMemoryUsage: 64, cpuUsagePercent: 10, databaseQueryTime: 5 },
+      sessionDuration: 600000,
+      timestamp: new Date(Date.now() - 60 * 60 * 1000)
+    })));
+  });
+
+  const get = (path: string) => request(app).get(`/api/analytics${path}`).set('Authorization', `Bearer ${accessToken}`);
+
+  describe('GET /api/analytics/stacks', () => {
+    it('should report stack popularity for the last 30 days by default', async () => {
+      const response = await get('/stacks?dimension=language').expect(200);
+
+      expect(response.body.range).toMatchObject({ bucket: 'day', projectType: null });
+      expect(response.body.buckets).toHaveLength(1);
+      expect(response.body.buckets[0].stacks).toEqual([{ value: 'typescript', count: 5, share: 100 }]);
+      expect(response.body.suppressedGroups).toBe(0);
+    });
+
+    it('should suppress groups with too few users', async () => {
+      await Analytics.create({
+        anonymizedUserHash: 'f'.repeat(64),
+        projectType: 'api',
+        techStackUsed: { language: 'python', framework: 'fastapi', database: 'postgresql', additionalTools: [] },
+        generationMetrics: { timeToComplete: 9000, linesOfCode: 100, testCoverage: 50, filesGenerated: 4, errorsEncountered: 0, aiFixesUsed: 0 },
+        userInteractions: { chatMessages: 0, aiFixesUsed: 0, manualEdits: 0, testRunsExecuted: 0, documentationViews: 0 },
+        performanceMetrics: { averageResponseTime: 100, peakMemoryUsage: 64, cpuUsagePercent: 10, databaseQueryTime: 5 },
+        sessionDuration: 60000,
+        timestamp: new Date(Date.now() - 60 * 60 * 1000)
+      });
+
+      const response = await get('/stacks?dimension=language').expect(200);
+
+      expect(response.body.buckets[0].stacks).toEqual([{ value: 'typescript', count: 5, share: 100 }]);
+      expect(response.body.suppressedGroups).toBe(1);
+    });
+
+    it('should reject unknown dimensions', async () => {
+      const response = await get('/stacks?dimension=editor').expect(400);
+
+      expect(response.body).toHaveProperty('field', 'dimension');
+    });
+  });
+
+  describe('GET /api/analytics/completion-times', () => {
+    it('should return percentiles', async () => {
+      const response = await get('/completion-times').expect(200);
+
+      expect(response.body.overall).toEqual({ count: 5, median: 5000, p95: 5000 });
+    });
+
+    it('should reject ranges that end before they start', async () => {
+      await get('/completion-times?from=2026-03-02T00:00:00Z&to=2026-03-01T00:00:00Z').expect(400);
+    });
+
+    it('should reject ranges with too many buckets', async () => {
+      const response = await get('/completion-times?from=2020-01-01T00:00:00Z&to=2026-01-01T00:00:00Z&bucket=hour')
+        .expect(400);
+
+      expect(response.body).toHaveProperty('field', 'bucket');
+    });
+  });
+
+  describe('other reports', () => {
+    it('should report coverage, error/fix ratios and session durations', async () => {
+      const coverage = await get('/coverage').expect(200);
+      const errorFixes = await get('/error-fixes?bucket=week').expect(200);
+      const sessions = await get('/sessions?binMinutes=15').expect(200);
+
+      expect(coverage.body.frameworks[0]).toMatchObject({ framework: 'express', averageCoverage: 75 });
+      expect(errorFixes.body.overall).toMatchObject({ errorsEncountered: 10, aiFixesUsed: 5, fixesPerError: 0.5 });
+      expect(sessions.body).toMatchObject({ binSize: 900000, total: 5, bins: [{ from: 0, to: 900000, count: 5 }] });
+    });
+  });
+
+  describe('API key scopes', () => {
+    it('should require the analytics:read scope', async () => {
+      const { body } = await request(app)
+        .post('/api/api-keys')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Dashboard', scopes: ['projects:read'] });
+
+      await request(app)
+        .get('/api/analytics/coverage')
+        .set('Authorization', `Bearer ${body.key}`)
+        .expect(403);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import request from 'supertest';
+import app from '../src/app';
+import { ApiKey } from '../src/models/ApiKey';
+
+describe('API Keys API', () => {
+  let accessToken: string;
+
+  const createApiKey = (body: Record<string, unknown> = { name: 'CI' }) => {
+    return request(app)
+      .post('/api/api-keys')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send(body);
+  };
+
+  beforeEach(async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({
+        email: 'apikeys@example.com',
+        password: 'Password123'
+      });
+
+    accessToken = response.body.accessToken;
+  });
+
+  describe('POST /api/api-keys', () => {
+    it('should create a key and show it only once', async () => {
+      const response = await createApiKey({ name: 'CI', scopes: ['projects:read'] }).expect(201);
+
+      expect(response.body.key).toMatch(/^bfk_/);
+      expect(response.body.apiKey).toMatchObject({
+        name: 'CI',
+        prefix: response.body.key.slice(0, 12),
+        scopes: ['projects:read'],
+        usageCount: 0
+      });
+      expect(response.body.apiKey).not.toHaveProperty('keyHash');
+
+      const stored = await ApiKey.findById(response.body.apiKey.id);
+      expect(stored!.keyHash).not.toBe(response.body.key);
+    });
+
+    it('should reject unknown scopes', async () => {
+      const response = await createApiKey({ name: 'CI', scopes: ['admin'] }).expect(400);
+
+      expect(response.body).toHaveProperty('field', 'scopes');
+    });
+
+    it('should require a name', async () => {
+      const response = await createApiKey({}).expect(400);
+
+      expect(response.body).toHaveProperty('error', 'API key name is required');
+    });
+
+    it('should not let an API key create other keys', async () => {
+      const { body } = await createApiKey().expect(201);
+
+      const response = await request(app)
+        .post('/api/api-keys')
+        .set('Authorization', `Bearer ${body.key}`)
+        .send({ name: 'Escalated' })
+        .expect(403);
+
+      expect(response.body).toHaveProperty('code', 'SESSION_REQUIRED');
+    });
+  });
+
+  describe('GET /api/api-keys', () => {
+    it('should list active keys without secrets', async () => {
+      await createApiKey({ name: 'First' });
+      await createApiKey({ name: 'Second' });
+
+      const response = await request(app)
+        .get('/api/api-keys')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.apiKeys.map((key: { name: string }) => key.name)).toEqual(['Second', 'First']);
+      expect(response.body.apiKeys[0]).not.toHaveProperty('key');
+    });
+  });
+
+  describe('PATCH /api/api-keys/:id', () => {
+    it('should rename and rescope a key', async () => {
+      const { body } = await createApiKey();
+
+      const response = await request(app)
+        .patch(`/api/api-keys/${body.apiKey.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Deploy', scopes: ['projects:generate'] })
+        .expect(200);
+
+      expect(response.body.apiKey).toMatchObject({ name: 'Deploy', scopes: ['projects:generate'] });
+    });
+
+    it('should return 404 for unknown keys', async () => {
+      await request(app)
+        .patch('/api/api-keys/507f1f77bcf86cd799439011')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Deploy' })
+        .expect(404);
+    });
+  });
+
+  describe('DELETE /api/api-keys/:id', () => {
+    it('should revoke a key so it can no longer authenticate', async () => {
+      const { body } = await createApiKey();
+
+      await request(app)
+        .delete(`/api/api-keys/${body.apiKey.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .get('/api/projects')
+        .set('Authorization', `Bearer ${body.key}`)
+        .expect(401);
+
+      expect(response.body).toHaveProperty('code', 'INVALID_API_KEY');
+    });
+  });
+
+  describe('authenticating with an API key', () => {
+    it('should access projects and track usage', async () => {
+      const { body } = await createApiKey({ name: 'CI', scopes: ['projects:read'] });
+
+      await request(app)
+        .get('/api/projects')
+        .set('X-API-Key', body.key)
+        .expect(200);
+      await request(app)
+        .get('/api/projects')
+        .set('Authorization', `Bearer ${body.key}`)
+        .expect(200);
+
+      const stored = await ApiKey.findById(body.apiKey.id);
+      expect(stored!.usageCount).toBe(2);
+      expect(stored!.lastUsedAt).toBeDefined();
+    });
+
+    it('should enforce key scopes', async () => {
+      const { body } = await createApiKey({ name: 'CI', scopes: ['projects:read'] });
+
+      const response = await request(app)
+        .post('/api/projects')
+        .set('Authorization', `Bearer ${body.key}`)
+        .send({
+          name: 'From CI',
+          description: 'Created by a CI job',
+          techStack: { language: 'typescript', framework: 'express', database: 'mongodb' }
+        })
+        .expect(403);
+
+      expect(response.body).toHaveProperty('code', 'INSUFFICIENT_SCOPE');
+    });
+  });
+});
@@ -1,8 +1,28 @@
 import request from 'supertest';
 import app from '../src/app';
 import { User } from '../src/models/User';
+import { MailMessage, setMailer } from '../src/services/mail/mailer';
 
 describe('Authentication', () => {
+  const sentMail: MailMessage[] = [];
+
+  const tokenFromMail = (subject: string): string => {
+    const message = sentMail.filter(mail => mail.subject === subject).pop()!;
+    return message.text.match(/token=([a-f0-9]+)/)![1];
+  };
+
+  beforeAll(() => {
+    setMailer({ send: async message => { sentMail.push(message); } });
+  });
+
+  afterAll(() => {
+    setMailer(null);
+  });
+
+  beforeEach(() => {
+    sentMail.length = 0;
+  });
+
   describe('POST /api/auth/register', () => {
     it('should register a new user successfully', async () => {
       const userData = {
@@ -175,6 +195,39 @@ describe('Authentication', () => {
       expect(response.body.accessToken).not.toBe(refreshToken);
     });
 
+    it('should not accept a refresh token twice', async () => {
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+
+      expect(response.body).toHaveProperty('code', 'REFRESH_TOKEN_REUSED');
+    });
+
+    it('should revoke the token family when a rotated token is reused', async () => {
+      const rotated = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: rotated.body.refreshToken })
+        .expect(401);
+
+      expect(response.body).toHaveProperty('code', 'REFRESH_TOKEN_REUSED');
+    });
+
     it('should not refresh with invalid refresh token', async () => {
       const response = await request(app)
         .post('/api/auth/refresh')
@@ -215,6 +268,7 @@ describe('Authentication', () => {
 
   describe('POST /api/auth/logout', () => {
     let accessToken: string;
+    let refreshToken: string;
 
     beforeEach(async () => {
       // Create a test user and get access token
@@ -228,6 +282,7 @@ describe('Authentication', () => {
         .send(userData);
 
       accessToken = response.body.accessToken;
+      refreshToken = response.body.refreshToken;
     });
 
     it('should logout with valid access token', async () => {
@@ -239,6 +294,19 @@ describe('Authentication', () => {
       expect(response.body).toHaveProperty('message', 'Logged out successfully');
     });
 
+    it('should revoke the refresh token on logout', async () => {
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ refreshToken })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+    });
+
     it('should not logout without token', async () => {
       const response = await request(app)
         .post('/api/auth/logout')
@@ -257,6 +325,316 @@ describe('Authentication', () => {
     });
   });
 
+  describe('POST /api/auth/logout-all', () => {
+    it('should revoke the refresh tokens of every session', async () => {
+      const userData = {
+        email: 'logout-all@example.com',
+        password: 'Password123'
+      };
+
+      const registerResponse = await request(app)
+        .post('/api/auth/register')
+        .send(userData);
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send(userData);
+
+      const response = await request(app)
+        .post('/api/auth/logout-all')
+        .set('Authorization', `Bearer ${loginResponse.body.accessToken}`)
+        .expect(200);
+
+      expect(response.body).toHaveProperty('revokedSessions', 2);
+
+      for (const refreshToken of [registerResponse.body.refreshToken, loginResponse.body.refreshToken]) {
+        await request(app)
+          .post('/api/auth/refresh')
+          .send({ refreshToken })
+          .expect(401);
+      }
+    });
+
+    it('should not logout all sessions without token', async () => {
+      await request(app)
+        .post('/api/auth/logout-all')
+        .expect(401);
+    });
+  });
+
+  describe('email verification', () => {
+    const userData = {
+      email: 'verify@example.com',
+      password: 'Password123'
+    };
+
+    it('should send a verification email on registration', async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send(userData)
+        .expect(201);
+
+      expect(response.body.user).toHaveProperty('emailVerified', false);
+      expect(sentMail).toHaveLength(1);
+      expect(sentMail[0].to).toBe(userData.email);
+    });
+
+    it('should verify the email with the mailed token only once', async () => {
+      await request(app).post('/api/auth/register').send(userData);
+      const token = tokenFromMail('Verify your email address');
+
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token })
+        .expect(200);
+
+      const user = await User.findOne({ email: userData.email });
+      expect(user!.emailVerified).toBe(true);
+
+      const response = await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('code', 'INVALID_VERIFICATION_TOKEN');
+    });
+
+    it('should resend the verification email and invalidate the previous token', async () => {
+      const registerResponse = await request(app).post('/api/auth/register').send(userData);
+      const firstToken = tokenFromMail('Verify your email address');
+
+      await request(app)
+        .post('/api/auth/verify-email/resend')
+        .set('Authorization', `Bearer ${registerResponse.body.accessToken}`)
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: firstToken })
+        .expect(400);
+
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: tokenFromMail('Verify your email address') })
+        .expect(200);
+    });
+
+    it('should block unverified users from the API when verification is required', async () => {
+      const registerResponse = await request(app).post('/api/auth/register').send(userData);
+      process.env.REQUIRE_EMAIL_VERIFICATION = 'true';
+
+      try {
+        const response = await request(app)
+          .get('/api/projects')
+          .set('Authorization', `Bearer ${registerResponse.body.accessToken}`)
+          .expect(403);
+
+        expect(response.body).toHaveProperty('code', 'EMAIL_NOT_VERIFIED');
+
+        await request(app)
+          .get('/api/auth/me')
+          .set('Authorization', `Bearer ${registerResponse.body.accessToken}`)
+          .expect(200);
+      } finally {
+        delete process.env.REQUIRE_EMAIL_VERIFICATION;
+      }
+    });
+  });
+
+  describe('password reset', () => {
+    const userData = {
+      email: 'reset@example.com',
+      password: 'Password123'
+    };
+
+    beforeEach(async () => {
+      await request(app).post('/api/auth/register').send(userData);
+      sentMail.length = 0;
+    });
+
+    it('should give the same response for unknown emails without sending mail', async () => {
+      const known = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: userData.email })
+        .expect(200);
+      const unknown = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'nobody@example.com' })
+        .expect(200);
+
+      expect(unknown.body).toEqual(known.body);
+      expect(sentMail).toHaveLength(1);
+    });
+
+    it('should reset the password with the mailed token', async () => {
+      await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: userData.email });
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: tokenFromMail('Reset your password'), password: 'NewPassword456' })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/login')
+        .send(userData)
+        .expect(401);
+
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'NewPassword456' })
+        .expect(200);
+    });
+
+    it('should not accept a reset token twice', async () => {
+      await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: userData.email });
+      const token = tokenFromMail('Reset your password');
+
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'NewPassword456' })
+        .expect(200);
+
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'OtherPassword789' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('code', 'INVALID_RESET_TOKEN');
+    });
+
+    it('should validate the new password', async () => {
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: 'abc', password: 'weak' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('field', 'password');
+    });
+  });
+
+  describe('POST /api/auth/change-password', () => {
+    const userData = {
+      email: 'change-password@example.com',
+      password: 'Password123'
+    };
+    let accessToken: string;
+    let refreshToken: string;
+
+    beforeEach(async () => {
+      const response = await request(app).post('/api/auth/register').send(userData);
+      accessToken = response.body.accessToken;
+      refreshToken = response.body.refreshToken;
+    });
+
+    it('should change the password and sign out other sessions', async () => {
+      const response = await request(app)
+        .post('/api/auth/change-password')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ currentPassword: userData.password, password: 'NewPassword456' })
+        .expect(200);
+
+      expect(response.body).toHaveProperty('accessToken');
+      expect(response.body).toHaveProperty('refreshToken');
+
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: response.body.refreshToken })
+        .expect(200);
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'NewPassword456' })
+        .expect(200);
+    });
+
+    it('should require the current password', async () => {
+      const response = await request(app)
+        .post('/api/auth/change-password')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ currentPassword: 'WrongPassword1', password: 'NewPassword456' })
+        .expect(401);
+
+      expect(response.body).toHaveProperty('field', 'currentPassword');
+    });
+
+    it('should validate the new password', async () => {
+      const response = await request(app)
+        .post('/api/auth/change-password')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ currentPassword: userData.password, password: 'weak' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('field', 'password');
+    });
+  });
+
+  describe('POST /api/auth/change-email', () => {
+    const userData = {
+      email: 'change-email@example.com',
+      password: 'Password123'
+    };
+    let accessToken: string;
+
+    beforeEach(async () => {
+      const response = await request(app).post('/api/auth/register').send(userData);
+      accessToken = response.body.accessToken;
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: tokenFromMail('Verify your email address') });
+      sentMail.length = 0;
+    });
+
+    it('should change the email and send a verification link to the new address', async () => {
+      const response = await request(app)
+        .post('/api/auth/change-email')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ currentPassword: userData.password, email: 'New-Address@example.com' })
+        .expect(200);
+
+      expect(response.body.user).toMatchObject({ email: 'new-address@example.com', emailVerified: false });
+      expect(sentMail).toHaveLength(1);
+      expect(sentMail[0].to).toBe('new-address@example.com');
+
+      await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token: tokenFromMail('Verify your email address') })
+        .expect(200);
+      const user = await User.findOne({ email: 'new-address@example.com' });
+      expect(user!.emailVerified).toBe(true);
+    });
+
+    it('should require the current password', async () => {
+      const response = await request(app)
+        .post('/api/auth/change-email')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ currentPassword: 'WrongPassword1', email: 'new-address@example.com' })
+        .expect(401);
+
+      expect(response.body).toHaveProperty('field', 'currentPassword');
+      expect(sentMail).toHaveLength(0);
+    });
+
+    it('should not take an address used by another account', async () => {
+      await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'taken@example.com', password: 'Password123' });
+
+      const response = await request(app)
+        .post('/api/auth/change-email')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ currentPassword: userData.password, email: 'taken@example.com' })
+        .expect(409);
+
+      expect(response.body).toHaveProperty('field', 'email');
+    });
+  });
+
   describe('GET /api/auth/me', () => {
     let accessToken: string;
     let userId: string;
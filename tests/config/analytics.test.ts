@@ -0,0 +1,55 @@
+import {
+  DEFAULT_ANALYTICS_SECRET,
+  assertAnalyticsConfig,
+  currentAnalyticsHashKey,
+  getAnalyticsHashKeys
+} from '../../src/config/analytics';
+
+describe('Analytics configuration', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.ANALYTICS_HASH_KEYS;
+    delete process.env.ANALYTICS_SALT;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should order versioned keys newest first', () => {
+    process.env.ANALYTICS_HASH_KEYS = '1:old-secret, 3:newest-secret ,2:newer:secret';
+
+    expect(getAnalyticsHashKeys()).toEqual([
+      { version: 3, secret: 'newest-secret' },
+      { version: 2, secret: 'newer:secret' },
+      { version: 1, secret: 'old-secret' }
+    ]);
+    expect(currentAnalyticsHashKey().version).toBe(3);
+  });
+
+  it('should fall back to ANALYTICS_SALT and then the development default', () => {
+    expect(getAnalyticsHashKeys()).toEqual([{ version: 1, secret: DEFAULT_ANALYTICS_SECRET }]);
+
+    process.env.ANALYTICS_SALT = 'legacy-salt';
+    expect(getAnalyticsHashKeys()).toEqual([{ version: 1, secret: 'legacy-salt' }]);
+  });
+
+  it('should reject malformed keys', () => {
+    for (const keys of ['secret-without-version', '0:zero', 'two:secret', '1:', '1:a,1:b']) {
+      process.env.ANALYTICS_HASH_KEYS = keys;
+      expect(() => getAnalyticsHashKeys()).toThrow(/ANALYTICS_HASH_KEYS/);
+    }
+  });
+
+  it('should refuse the default secret in production only', () => {
+    expect(() => assertAnalyticsConfig('development')).not.toThrow();
+    expect(() => assertAnalyticsConfig('production')).toThrow('ANALYTICS_HASH_KEYS must be set');
+
+    process.env.ANALYTICS_HASH_KEYS = `2:a-real-secret,1:${DEFAULT_ANALYTICS_SECRET}`;
+    expect(() => assertAnalyticsConfig('production')).toThrow();
+
+    process.env.ANALYTICS_HASH_KEYS = '1:a-real-secret';
+    expect(() => assertAnalyticsConfig('production')).not.toThrow();
+  });
+});
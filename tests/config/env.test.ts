@@ -0,0 +1,25 @@
+import { numberFromEnv } from '../../src/config/env';
+
+describe('numberFromEnv', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  it('should read positive numbers', () => {
+    process.env.TEST_LIMIT = '2.5';
+
+    expect(numberFromEnv('TEST_LIMIT', 10)).toBe(2.5);
+  });
+
+  it.each([undefined, '', 'ten', '0', '-3'])('should fall back for %p', value => {
+    if (value === undefined) {
+      delete process.env.TEST_LIMIT;
+    } else {
+      process.env.TEST_LIMIT = value;
+    }
+
+    expect(numberFromEnv('TEST_LIMIT', 10)).toBe(10);
+  });
+});
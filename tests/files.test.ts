@@ -0,0 +1,202 @@
+import request from 'supertest';
+import app from '../src/app';
+import { Project } from '../src/models/Project';
+
+describe('Project Files API', () => {
+  let accessToken: string;
+  let projectId: string;
+
+  const filesUrl = (suffix = '') => `/api/projects/${projectId}/files${suffix}`;
+
+  const createFile = (path = 'src/app.ts', content = 'export const app = 1;\n') => request(app)
+    .post(filesUrl())
+    .set('Authorization', `Bearer ${accessToken}`)
+    .send({ path, content });
+
+  beforeEach(async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({
+        email: 'files@example.com',
+        password: 'Password123'
+      });
+    accessToken = response.body.accessToken;
+
+    const project = await request(app)
+      .post('/api/projects')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        name: 'Files Project',
+        description: 'A project for file editing',
+        techStack: { language: 'typescript', framework: 'express', database: 'mongodb' }
+      });
+    projectId = project.body.project._id;
+  });
+
+  describe('POST /api/projects/:id/files', () => {
+    it('should create a file and update the structure', async () => {
+      const response = await createFile().expect(201);
+
+      expect(response.body.file).toMatchObject({ path: 'src/app.ts', language: 'typescript' });
+
+      const listed = await request(app)
+        .get(filesUrl())
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(listed.body.files).toEqual([expect.objectContaining({ path: 'src/app.ts' })]);
+      expect(listed.body.files[0]).not.toHaveProperty('content');
+      expect(listed.body.structure.children[0].name).toBe('src');
+    });
+
+    it('should reject duplicate paths', async () => {
+      await createFile().expect(201);
+
+      const response = await createFile().expect(409);
+
+      expect(response.body).toHaveProperty('code', 'FILE_EXISTS');
+    });
+
+    it('should reject unsafe paths', async () => {
+      const response = await createFile('../../etc/passwd').expect(400);
+
+      expect(response.body).toHaveProperty('code', 'INVALID_PATH');
+    });
+
+    it('should require content', async () => {
+      const response = await request(app)
+        .post(filesUrl())
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ path: 'src/app.ts' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'File content is required');
+    });
+  });
+
+  describe('file revisions', () => {
+    let fileId: string;
+
+    beforeEach(async () => {
+      const created = await createFile();
+      fileId = created.body.file._id;
+    });
+
+    it('should keep a revision with a diff for every edit', async () => {
+      await request(app)
+        .put(filesUrl(`/${fileId}`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ content: 'export const app = 2;\n' })
+        .expect(200);
+      await request(app)
+        .post(filesUrl(`/${fileId}/rename`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ path: 'src/server.ts' })
+        .expect(200);
+
+      const response = await request(app)
+        .get(filesUrl(`/${fileId}/revisions`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.revisions.map((revision: any) => [revision.revision, revision.changeType])).toEqual([
+        [3, 'renamed'],
+        [2, 'updated'],
+        [1, 'created']
+      ]);
+      expect(response.body.revisions[1].diff).toContain('-export const app = 1;\n+export const app = 2;');
+      expect(response.body.revisions[1].author).toBe('files@example.com');
+      expect(response.body.revisions[0]).not.toHaveProperty('content');
+    });
+
+    it('should show a file at a given revision', async () => {
+      await request(app)
+        .put(filesUrl(`/${fileId}`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ content: 'changed\n' })
+        .expect(200);
+
+      const response = await request(app)
+        .get(filesUrl(`/${fileId}/revisions/1`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.revision).toMatchObject({ revision: 1, content: 'export const app = 1;\n' });
+    });
+
+    it('should restore an old revision', async () => {
+      await request(app)
+        .put(filesUrl(`/${fileId}`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ content: 'changed\n' })
+        .expect(200);
+
+      const response = await request(app)
+        .post(filesUrl(`/${fileId}/revisions/1/restore`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.file.content).toBe('export const app = 1;\n');
+
+      const project = await Project.findById(projectId);
+      expect(project!.generatedCode.files[0].content).toBe('export const app = 1;\n');
+    });
+
+    it('should restore a deleted file', async () => {
+      await request(app)
+        .delete(filesUrl(`/${fileId}`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      await request(app)
+        .post(filesUrl(`/${fileId}/revisions/1/restore`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .get(filesUrl(`/${fileId}`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.file).toMatchObject({ path: 'src/app.ts', content: 'export const app = 1;\n' });
+    });
+
+    it('should report unknown revisions', async () => {
+      const response = await request(app)
+        .get(filesUrl(`/${fileId}/revisions/42`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+
+      expect(response.body).toHaveProperty('code', 'REVISION_NOT_FOUND');
+    });
+
+    it('should reject invalid revision numbers', async () => {
+      const response = await request(app)
+        .get(filesUrl(`/${fileId}/revisions/first`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'Invalid revision');
+    });
+  });
+
+  it('should reject invalid file ids', async () => {
+    const response = await request(app)
+      .get(filesUrl('/not-an-id'))
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(400);
+
+    expect(response.body).toHaveProperty('error', 'Invalid file ID');
+  });
+
+  it('should not expose files of other users', async () => {
+    const other = await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'other-files@example.com', password: 'Password123' });
+
+    await request(app)
+      .get(filesUrl())
+      .set('Authorization', `Bearer ${other.body.accessToken}`)
+      .expect(404);
+  });
+});
@@ -0,0 +1,185 @@
+import request from 'supertest';
+import app from '../src/app';
+import { Project } from '../src/models/Project';
+import { FileEditError, ProjectFileService } from '../src/services/files/editor';
+
+describe('Project Fixes API', () => {
+  let accessToken: string;
+  let projectId: string;
+
+  const projectUrl = (suffix: string) => `/api/projects/${projectId}${suffix}`;
+
+  const proposeFix = (body: Record<string, unknown> = { issue: 'Listing todos returns an empty array' }) => request(app)
+    .post(projectUrl('/fix'))
+    .set('Authorization', `Bearer ${accessToken}`)
+    .send(body);
+
+  beforeEach(async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({
+        email: 'fixes@example.com',
+        password: 'Password123'
+      });
+    accessToken = response.body.accessToken;
+
+    const project = await request(app)
+      .post('/api/projects')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        name: 'Fixes Project',
+        description: 'A project for AI fixes',
+        techStack: { language: 'typescript', framework: 'express', database: 'mongodb' }
+      });
+    projectId = project.body.project._id;
+
+    await request(app)
+      .post(projectUrl('/files'))
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({ path: 'src/todos.ts', content: 'export const todos = [];\n' });
+  });
+
+  describe('POST /api/projects/:id/fix', () => {
+    it('should propose patches with a previewable diff without changing files', async () => {
+      const response = await proposeFix().expect(201);
+
+      expect(response.body.proposal).toMatchObject({
+        status: 'pending',
+        explanation: 'Root cause: mock analysis.',
+        patches: [{
+          path: 'src/todos.ts',
+          changeType: 'updated',
+          diff: expect.stringContaining('+// Fixed by the mock provider')
+        }]
+      });
+
+      const project = await Project.findById(projectId);
+      expect(project!.generatedCode.files[0].content).toBe('export const todos = [];\n');
+    });
+
+    it('should require an issue description', async () => {
+      const response = await proposeFix({}).expect(400);
+
+      expect(response.body).toHaveProperty('error', 'Issue description is required');
+    });
+
+    it('should refuse projects without files', async () => {
+      await Project.updateOne({ _id: projectId }, { 'generatedCode.files': [] });
+
+      const response = await proposeFix().expect(409);
+
+      expect(response.body).toHaveProperty('code', 'NOTHING_TO_FIX');
+    });
+  });
+
+  describe('resolving fix proposals', () => {
+    let fixId: string;
+
+    beforeEach(async () => {
+      const response = await proposeFix();
+      fixId = response.body.proposal._id;
+    });
+
+    it('should apply an accepted fix, count it and record history', async () => {
+      const response = await request(app)
+        .post(projectUrl(`/fixes/${fixId}/accept`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.proposal.status).toBe('accepted');
+      expect(response.body.aiFixesUsed).toBe(1);
+
+      const project = await Project.findById(projectId);
+      expect(project!.generatedCode.files[0].content).toContain('// Fixed by the mock provider');
+      expect(project!.analytics.aiFixesUsed).toBe(1);
+      expect(project!.documentation.history.at(-1)).toMatchObject({
+        changeType: 'updated',
+        description: 'Applied AI fix: Listing todos returns an empty array',
+        author: 'fixes@example.com'
+      });
+
+      const revisions = await request(app)
+        .get(projectUrl(`/files/${project!.generatedCode.files[0]._id}/revisions`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      expect(revisions.body.revisions).toHaveLength(2);
+    });
+
+    it('should not apply a fix twice', async () => {
+      await request(app)
+        .post(projectUrl(`/fixes/${fixId}/accept`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const response = await request(app)
+        .post(projectUrl(`/fixes/${fixId}/accept`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(409);
+
+      expect(response.body).toHaveProperty('code', 'PROPOSAL_RESOLVED');
+    });
+
+    it('should refuse fixes for files edited since the proposal', async () => {
+      const project = await Project.findById(projectId);
+      await request(app)
+        .put(projectUrl(`/files/${project!.generatedCode.files[0]._id}`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ content: 'export const todos = [1];\n' })
+        .expect(200);
+
+      const response = await request(app)
+        .post(projectUrl(`/fixes/${fixId}/accept`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(409);
+
+      expect(response.body).toHaveProperty('code', 'STALE_PROPOSAL');
+    });
+
+    it('should answer file edit errors with their own status', async () => {
+      const writeFiles = jest.spyOn(ProjectFileService.prototype, 'writeFiles')
+        .mockRejectedValue(new FileEditError('INVALID_PATH', 'Invalid file path: ../todos.ts'));
+
+      try {
+        const response = await request(app)
+          .post(projectUrl(`/fixes/${fixId}/accept`))
+          .set('Authorization', `Bearer ${accessToken}`)
+          .expect(400);
+
+        expect(response.body).toHaveProperty('code', 'INVALID_PATH');
+      } finally {
+        writeFiles.mockRestore();
+      }
+    });
+
+    it('should reject a fix without changing files', async () => {
+      const response = await request(app)
+        .post(projectUrl(`/fixes/${fixId}/reject`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.proposal.status).toBe('rejected');
+
+      const project = await Project.findById(projectId);
+      expect(project!.generatedCode.files[0].content).toBe('export const todos = [];\n');
+      expect(project!.analytics.aiFixesUsed).toBe(0);
+    });
+
+    it('should return the proposal', async () => {
+      const response = await request(app)
+        .get(projectUrl(`/fixes/${fixId}`))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.proposal._id).toBe(fixId);
+    });
+
+    it('should return 404 for unknown proposals', async () => {
+      const response = await request(app)
+        .get(projectUrl('/fixes/507f1f77bcf86cd799439011'))
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+
+      expect(response.body).toHaveProperty('code', 'PROPOSAL_NOT_FOUND');
+    });
+  });
+});
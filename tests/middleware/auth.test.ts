@@ -2,20 +2,27 @@ import jwt from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
 import { 
   authMiddleware, 
+  accountAuthMiddleware,
+  requireScope,
+  requireSession,
   generateAccessToken, 
   generateRefreshToken, 
   generateTokens, 
   verifyRefreshToken,
+  verifyAccessToken,
   AuthenticatedRequest,
   TokenPayload
 } from '../../src/middleware/auth';
 import { User } from '../../src/models/User';
+import { apiKeyService } from '../../src/services/auth/apiKeys';
 
 // Mock dependencies
 jest.mock('../../src/models/User');
+jest.mock('../../src/services/auth/apiKeys');
 jest.mock('jsonwebtoken');
 
 const mockUser = jest.mocked(User);
+const mockApiKeyService = jest.mocked(apiKeyService);
 const mockJwt = jest.mocked(jwt);
 
 describe('JWT Authentication Service', () => {
@@ -74,6 +81,18 @@ describe('JWT Authentication Service', () => {
       expect(token).toBe(mockToken);
     });
 
+    it('should embed the token id and family for stored sessions', () => {
+      mockJwt.sign.mockReturnValue('mock-refresh-token' as any);
+
+      generateRefreshToken(mockUserId, mockEmail, { jti: 'token-id', family: 'family-id' });
+
+      expect(mockJwt.sign).toHaveBeenCalledWith(
+        { id: mockUserId, email: mockEmail, type: 'refresh', family: 'family-id' },
+        mockJwtSecret,
+        { expiresIn: '7d', jwtid: 'token-id' }
+      );
+    });
+
     it('should throw error when JWT_SECRET is not configured', () => {
       delete process.env.JWT_SECRET;
 
@@ -144,6 +163,30 @@ describe('JWT Authentication Service', () => {
     });
   });
 
+  describe('verifyAccessToken', () => {
+    it('should verify valid access token', () => {
+      const mockPayload: TokenPayload = {
+        id: mockUserId,
+        email: mockEmail,
+        type: 'access'
+      };
+
+      mockJwt.verify.mockReturnValue(mockPayload as any);
+
+      const result = verifyAccessToken('valid-access-token');
+
+      expect(mockJwt.verify).toHaveBeenCalledWith('valid-access-token', mockJwtSecret);
+      expect(result).toEqual(mockPayload);
+    });
+
+    it('should throw error for refresh token', () => {
+      mockJwt.verify.mockReturnValue({ id: mockUserId, email: mockEmail, type: 'refresh' } as any);
+
+      expect(() => verifyAccessToken('refresh-token'))
+        .toThrow('Invalid token type');
+    });
+  });
+
   describe('authMiddleware', () => {
     let mockReq: Partial<AuthenticatedRequest>;
     let mockRes: Partial<Response>;
@@ -282,6 +325,135 @@ describe('JWT Authentication Service', () => {
       expect(mockNext).not.toHaveBeenCalled();
     });
 
+    it('should reject users who deleted their account', async () => {
+      (mockReq.header as jest.Mock).mockReturnValue('Bearer valid-token');
+      mockJwt.verify.mockReturnValue({ id: mockUserId, email: mockEmail, type: 'access' } as any);
+      mockUser.findById.mockReturnValue({
+        select: jest.fn().mockResolvedValue({ email: mockEmail, deletedAt: new Date() })
+      } as any);
+
+      await authMiddleware(mockReq as AuthenticatedRequest, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(401);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        error: 'Account has been deleted',
+        code: 'ACCOUNT_DELETED'
+      });
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    describe('API keys', () => {
+      const apiKey = 'bfk_0123456789abcdef';
+
+      it('should authenticate a valid API key from the Authorization header', async () => {
+        (mockReq.header as jest.Mock).mockImplementation((name: string) =>
+          name === 'Authorization' ? `Bearer ${apiKey}` : undefined);
+        mockApiKeyService.authenticate.mockResolvedValue({
+          _id: 'key-id',
+          userId: mockUserId,
+          scopes: ['projects:read']
+        } as any);
+        mockUser.findById.mockReturnValue({
+          select: jest.fn().mockResolvedValue({ _id: mockUserId, email: mockEmail })
+        } as any);
+
+        await authMiddleware(mockReq as AuthenticatedRequest, mockRes as Response, mockNext);
+
+        expect(mockApiKeyService.authenticate).toHaveBeenCalledWith(apiKey);
+        expect(mockJwt.verify).not.toHaveBeenCalled();
+        expect(mockReq.user).toEqual({
+          id: mockUserId,
+          email: mockEmail,
+          apiKey: { id: 'key-id', scopes: ['projects:read'] }
+        });
+        expect(mockNext).toHaveBeenCalled();
+      });
+
+      it('should accept the X-API-Key header', async () => {
+        (mockReq.header as jest.Mock).mockImplementation((name: string) =>
+          name === 'X-API-Key' ? apiKey : undefined);
+        mockApiKeyService.authenticate.mockResolvedValue({
+          _id: 'key-id',
+          userId: mockUserId,
+          scopes: ['projects:read']
+        } as any);
+        mockUser.findById.mockReturnValue({
+          select: jest.fn().mockResolvedValue({ _id: mockUserId, email: mockEmail })
+        } as any);
+
+        await authMiddleware(mockReq as AuthenticatedRequest, mockRes as Response, mockNext);
+
+        expect(mockNext).toHaveBeenCalled();
+      });
+
+      it('should reject unknown or revoked API keys', async () => {
+        (mockReq.header as jest.Mock).mockReturnValue(`Bearer ${apiKey}`);
+        mockApiKeyService.authenticate.mockResolvedValue(null);
+
+        await authMiddleware(mockReq as AuthenticatedRequest, mockRes as Response, mockNext);
+
+        expect(mockRes.status).toHaveBeenCalledWith(401);
+        expect(mockRes.json).toHaveBeenCalledWith({
+          error: 'Invalid, expired or revoked API key',
+          code: 'INVALID_API_KEY'
+        });
+        expect(mockNext).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('email verification', () => {
+      const mockPayload: TokenPayload = {
+        id: mockUserId,
+        email: mockEmail,
+        type: 'access'
+      };
+
+      beforeEach(() => {
+        process.env.REQUIRE_EMAIL_VERIFICATION = 'true';
+        (mockReq.header as jest.Mock).mockReturnValue('Bearer valid-token');
+        mockJwt.verify.mockReturnValue(mockPayload as any);
+      });
+
+      afterEach(() => {
+        delete process.env.REQUIRE_EMAIL_VERIFICATION;
+      });
+
+      it('should block unverified users when verification is required', async () => {
+        mockUser.findById.mockReturnValue({
+          select: jest.fn().mockResolvedValue({ _id: mockUserId, emailVerified: false })
+        } as any);
+
+        await authMiddleware(mockReq as AuthenticatedRequest, mockRes as Response, mockNext);
+
+        expect(mockRes.status).toHaveBeenCalledWith(403);
+        expect(mockRes.json).toHaveBeenCalledWith({
+          error: 'Email address not verified',
+          code: 'EMAIL_NOT_VERIFIED'
+        });
+        expect(mockNext).not.toHaveBeenCalled();
+      });
+
+      it('should allow verified users', async () => {
+        mockUser.findById.mockReturnValue({
+          select: jest.fn().mockResolvedValue({ _id: mockUserId, emailVerified: true })
+        } as any);
+
+        await authMiddleware(mockReq as AuthenticatedRequest, mockRes as Response, mockNext);
+
+        expect(mockNext).toHaveBeenCalled();
+      });
+
+      it('should let unverified users reach account routes', async () => {
+        mockUser.findById.mockReturnValue({
+          select: jest.fn().mockResolvedValue({ _id: mockUserId, emailVerified: false })
+        } as any);
+
+        await accountAuthMiddleware(mockReq as AuthenticatedRequest, mockRes as Response, mockNext);
+
+        expect(mockNext).toHaveBeenCalled();
+      });
+    });
+
     it('should handle server configuration error', async () => {
       delete process.env.JWT_SECRET;
       const mockToken = 'valid-token';
@@ -315,4 +487,65 @@ describe('JWT Authentication Service', () => {
       expect(mockNext).not.toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+
+  describe('requireScope', () => {
+    let mockRes: Partial<Response>;
+    let mockNext: NextFunction;
+
+    beforeEach(() => {
+      mockRes = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn()
+      };
+      mockNext = jest.fn();
+    });
+
+    it('should allow JWT sessions', () => {
+      const req = { user: { id: mockUserId, email: mockEmail } } as AuthenticatedRequest;
+
+      requireScope('projects:write')(req, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it('should allow API keys holding the scope', () => {
+      const req = {
+        user: { id: mockUserId, email: mockEmail, apiKey: { id: 'key-id', scopes: ['projects:write'] } }
+      } as AuthenticatedRequest;
+
+      requireScope('projects:write')(req, mockRes as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it('should reject API keys without the scope', () => {
+      const req = {
+        user: { id: mockUserId, email: mockEmail, apiKey: { id: 'key-id', scopes: ['projects:read'] } }
+      } as AuthenticatedRequest;
+
+      requireScope('projects:generate')(req, mockRes as Response, mockNext);
+
+      expect(mockRes.status).toHaveBeenCalledWith(403);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        error: 'API key is missing the projects:generate scope',
+        code: 'INSUFFICIENT_SCOPE'
+      });
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requireSession', () => {
+    it('should reject requests authenticated with an API key', () => {
+      const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+      const next = jest.fn();
+      const req = {
+        user: { id: mockUserId, email: mockEmail, apiKey: { id: 'key-id', scopes: [] } }
+      } as unknown as AuthenticatedRequest;
+
+      requireSession(req, res as unknown as Response, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+});
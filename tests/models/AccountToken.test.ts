@@ -0,0 +1,35 @@
+import mongoose from 'mongoose';
+import { AccountToken } from '../../src/models/AccountToken';
+
+describe('AccountToken Model', () => {
+  const validTokenData = {
+    userId: new mongoose.Types.ObjectId(),
+    purpose: 'password_reset',
+    tokenHash: AccountToken.hashToken('raw-token'),
+    expiresAt: new Date(Date.now() + 60000)
+  };
+
+  it('should create a token with valid data', async () => {
+    const token = await new AccountToken(validTokenData).save();
+
+    expect(token.purpose).toBe('password_reset');
+    expect(token.usedAt).toBeNull();
+    expect(token.createdAt).toBeDefined();
+  });
+
+  it('should reject unknown purposes', async () => {
+    const token = new AccountToken({ ...validTokenData, purpose: 'login' });
+
+    await expect(token.save()).rejects.toThrow('Token purpose must be one of: password_reset, email_verification');
+  });
+
+  describe('hashToken', () => {
+    it('should produce a sha256 hex digest that differs from the token', () => {
+      const hash = AccountToken.hashToken('raw-token');
+
+      expect(hash).toMatch(/^[a-f0-9]{64}$/);
+      expect(hash).not.toBe('raw-token');
+      expect(AccountToken.hashToken('raw-token')).toBe(hash);
+    });
+  });
+});
@@ -1,5 +1,14 @@
 import mongoose from 'mongoose';
-import { Analytics, IAnalytics, ITechStackUsed, IGenerationMetrics, IUserInteractions, IPerformanceMetrics } from '../../src/models/Analytics';
+import crypto from 'crypto';
+import {
+  Analytics,
+  IAnalytics,
+  ITechStackUsed,
+  IGenerationMetrics,
+  IUserInteractions,
+  IPerformanceMetrics,
+  truncateIP
+} from '../../src/models/Analytics';
 
 describe('Analytics Model', () => {
   const validTechStack: ITechStackUsed = {
@@ -404,6 +413,71 @@ describe('Analytics Model', () => {
 
       expect(hash1).toBe(hash2);
     });
+
+    it('should hash the network of an IP address', () => {
+      expect(analytics.anonymizeIP('192.168.1.1')).toBe(analytics.anonymizeIP('192.168.1.254'));
+      expect(analytics.anonymizeIP('192.168.1.1')).not.toBe(analytics.anonymizeIP('192.168.2.1'));
+      expect(analytics.anonymizeIP('2001:db8:85a3::8a2e:370:7334')).toBe(analytics.anonymizeIP('2001:db8:85a3:ffff::1'));
+      expect(analytics.anonymizeIP('not-an-ip')).toBeUndefined();
+    });
+
+    it('should use a keyed hash rather than a salted SHA-256', () => {
+      const legacy = crypto.createHash('sha256').update('user123default-salt-change-in-production').digest('hex');
+
+      expect(analytics.generateAnonymizedHash('user123')).not.toBe(legacy);
+    });
+
+    describe('key rotation', () => {
+      const originalKeys = process.env.ANALYTICS_HASH_KEYS;
+
+      afterEach(() => {
+        if (originalKeys === undefined) {
+          delete process.env.ANALYTICS_HASH_KEYS;
+        } else {
+          process.env.ANALYTICS_HASH_KEYS = originalKeys;
+        }
+      });
+
+      it('should hash with the newest key version', () => {
+        process.env.ANALYTICS_HASH_KEYS = '1:first-secret';
+        const before = analytics.generateAnonymizedHash('user123');
+
+        process.env.ANALYTICS_HASH_KEYS = '2:second-secret,1:first-secret';
+        const after = analytics.generateAnonymizedHash('user123');
+
+        expect(after).toMatch(/^[a-f0-9]{64}$/);
+        expect(after).not.toBe(before);
+      });
+
+      it('should list the hashes of every retained key and the legacy hash', () => {
+        process.env.ANALYTICS_HASH_KEYS = '1:first-secret';
+        const first = analytics.generateAnonymizedHash('user123');
+        process.env.ANALYTICS_HASH_KEYS = '2:second-secret,1:first-secret';
+        const second = analytics.generateAnonymizedHash('user123');
+
+        const hashes = Analytics.userHashes('user123');
+
+        expect(hashes).toHaveLength(3);
+        expect(hashes).toEqual(expect.arrayContaining([first, second]));
+        expect(hashes).toContain(crypto.createHash('sha256').update('user123default-salt-change-in-production').digest('hex'));
+      });
+
+      it('should record the key version on new entries', () => {
+        process.env.ANALYTICS_HASH_KEYS = '3:third-secret,2:second-secret';
+
+        const entry = Analytics.createAnonymizedEntry({
+          userId: 'user123',
+          projectType: 'api',
+          techStackUsed: validTechStack,
+          generationMetrics: validGenerationMetrics,
+          userInteractions: validUserInteractions,
+          performanceMetrics: validPerformanceMetrics,
+          sessionDuration: 1000
+        });
+
+        expect(entry.hashKeyVersion).toBe(3);
+      });
+    });
   });
 
   describe('Pre-save Validation', () => {
@@ -555,4 +629,24 @@ describe('Analytics Model', () => {
       expect(savedAnalytics.sessionDuration).toBe(0);
     });
   });
-});
\ No newline at end of file
+
+  describe('truncateIP', () => {
+    it('should keep the /24 network of IPv4 addresses', () => {
+      expect(truncateIP('203.0.113.77')).toBe('203.0.113.0/24');
+      expect(truncateIP('::ffff:203.0.113.77')).toBe('203.0.113.0/24');
+    });
+
+    it('should keep the /48 network of IPv6 addresses', () => {
+      expect(truncateIP('2001:0db8:85a3:0000:0000:8a2e:0370:7334')).toBe('2001:db8:85a3::/48');
+      expect(truncateIP('2001:db8::1')).toBe('2001:db8:0::/48');
+      expect(truncateIP('::1')).toBe('0:0:0::/48');
+      expect(truncateIP('fe80::1%eth0')).toBe('fe80:0:0::/48');
+    });
+
+    it('should reject values that are not IP addresses', () => {
+      expect(truncateIP('')).toBeNull();
+      expect(truncateIP('example.com')).toBeNull();
+      expect(truncateIP('300.1.1.1')).toBeNull();
+    });
+  });
+});
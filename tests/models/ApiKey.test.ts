@@ -0,0 +1,38 @@
+import mongoose from 'mongoose';
+import { ApiKey } from '../../src/models/ApiKey';
+
+describe('ApiKey Model', () => {
+  const validKeyData = {
+    userId: new mongoose.Types.ObjectId(),
+    name: 'CI',
+    prefix: 'bfk_01234567',
+    keyHash: ApiKey.hashKey('bfk_0123456789'),
+    scopes: ['projects:read']
+  };
+
+  it('should create an API key with defaults', async () => {
+    const apiKey = await new ApiKey(validKeyData).save();
+
+    expect(apiKey.usageCount).toBe(0);
+    expect(apiKey.revokedAt).toBeNull();
+    expect(apiKey.expiresAt).toBeNull();
+  });
+
+  it('should reject unknown scopes', async () => {
+    const apiKey = new ApiKey({ ...validKeyData, scopes: ['admin'] });
+
+    await expect(apiKey.save()).rejects.toThrow('Scope must be one of');
+  });
+
+  it('should require at least one scope', async () => {
+    const apiKey = new ApiKey({ ...validKeyData, scopes: [] });
+
+    await expect(apiKey.save()).rejects.toThrow('At least one scope is required');
+  });
+
+  it('should not expose the key hash in JSON', () => {
+    const apiKey = new ApiKey(validKeyData);
+
+    expect(apiKey.toJSON()).not.toHaveProperty('keyHash');
+  });
+});
@@ -0,0 +1,74 @@
+import mongoose from 'mongoose';
+import { FileRevision } from '../../src/models/FileRevision';
+
+describe('FileRevision Model', () => {
+  const projectId = new mongoose.Types.ObjectId();
+  const fileId = new mongoose.Types.ObjectId();
+
+  const validRevisionData = {
+    projectId,
+    fileId,
+    revision: 1,
+    changeType: 'created',
+    path: 'src/app.ts',
+    content: 'export {};\n',
+    diff: '--- /dev/null\n+++ b/src/app.ts\n',
+    author: 'dev@example.com'
+  };
+
+  describe('FileRevision Schema Validation', () => {
+    it('should create a revision with valid data', async () => {
+      const revision = await new FileRevision(validRevisionData).save();
+
+      expect(revision.revision).toBe(1);
+      expect(revision.changeType).toBe('created');
+      expect(revision.createdAt).toBeDefined();
+    });
+
+    it('should require project, file, revision, path and author', async () => {
+      const revision = new FileRevision({});
+
+      await expect(revision.save()).rejects.toThrow(mongoose.Error.ValidationError);
+    });
+
+    it('should reject unknown change types', async () => {
+      const revision = new FileRevision({ ...validRevisionData, changeType: 'moved' });
+
+      await expect(revision.save()).rejects.toThrow(mongoose.Error.ValidationError);
+    });
+
+    it('should allow empty content for deletions', async () => {
+      const revision = await new FileRevision({ ...validRevisionData, changeType: 'deleted', content: '' }).save();
+
+      expect(revision.content).toBe('');
+    });
+
+    it('should not allow the same revision number twice for a file', async () => {
+      await FileRevision.init();
+      await new FileRevision(validRevisionData).save();
+
+      await expect(new FileRevision(validRevisionData).save()).rejects.toThrow();
+    });
+  });
+
+  describe('findLatest', () => {
+    it('should return the highest revision of a file', async () => {
+      await FileRevision.create([
+        validRevisionData,
+        { ...validRevisionData, revision: 3, changeType: 'updated' },
+        { ...validRevisionData, revision: 2, changeType: 'updated' },
+        { ...validRevisionData, fileId: new mongoose.Types.ObjectId(), revision: 7 }
+      ]);
+
+      const latest = await FileRevision.findLatest(projectId.toString(), fileId.toString());
+
+      expect(latest?.revision).toBe(3);
+    });
+
+    it('should return null for files without revisions', async () => {
+      const latest = await FileRevision.findLatest(projectId.toString(), new mongoose.Types.ObjectId().toString());
+
+      expect(latest).toBeNull();
+    });
+  });
+});
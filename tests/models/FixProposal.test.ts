@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+import { FixProposal } from '../../src/models/FixProposal';
+
+describe('FixProposal Model', () => {
+  const validProposalData = {
+    projectId: new mongoose.Types.ObjectId(),
+    userId: new mongoose.Types.ObjectId(),
+    issue: 'Deleting a todo returns 500',
+    explanation: 'The collection was undefined.',
+    patches: [{
+      path: 'src/routes/todos.ts',
+      changeType: 'updated',
+      before: 'items.delete();\n',
+      after: 'items?.delete();\n',
+      diff: '--- a/src/routes/todos.ts\n+++ b/src/routes/todos.ts\n'
+    }]
+  };
+
+  it('should create a pending proposal with valid data', async () => {
+    const proposal = await new FixProposal(validProposalData).save();
+
+    expect(proposal.status).toBe('pending');
+    expect(proposal.patches).toHaveLength(1);
+    expect(proposal.createdAt).toBeDefined();
+    expect(proposal.resolvedAt).toBeUndefined();
+  });
+
+  it('should require project, user and issue', async () => {
+    const proposal = new FixProposal({});
+
+    await expect(proposal.save()).rejects.toThrow(mongoose.Error.ValidationError);
+  });
+
+  it('should reject unknown patch change types', async () => {
+    const proposal = new FixProposal({
+      ...validProposalData,
+      patches: [{ ...validProposalData.patches[0], changeType: 'deleted' }]
+    });
+
+    await expect(proposal.save()).rejects.toThrow(mongoose.Error.ValidationError);
+  });
+
+  it('should reject unknown statuses', async () => {
+    const proposal = new FixProposal({ ...validProposalData, status: 'merged' });
+
+    await expect(proposal.save()).rejects.toThrow(mongoose.Error.ValidationError);
+  });
+});
@@ -1,5 +1,5 @@
 import mongoose from 'mongoose';
-import { Project, IProject, ITechStack, ICodeFile, IDocumentationSection } from '../../src/models/Project';
+import { Project, StatusTransitionError, IProject, ITechStack, ICodeFile, IDocumentationSection } from '../../src/models/Project';
 import { User } from '../../src/models/User';
 
 describe('Project Model', () => {
@@ -248,6 +248,75 @@ describe('Project Model', () => {
       const savedProject = await project.save();
 
       expect(savedProject.validateStatus()).toBe(true);
+
+      savedProject.status = 'completed';
+      expect(savedProject.validateStatus()).toBe(false);
+    });
+
+    it('should reject illegal transitions on save', async () => {
+      const project = await new Project({ userId, ...validProjectData }).save();
+
+      project.status = 'completed';
+
+      const error = await project.save().catch(caught => caught);
+      expect(error).toBeInstanceOf(StatusTransitionError);
+      expect(error).toMatchObject({ code: 'INVALID_STATUS_TRANSITION', from: 'planning', to: 'completed' });
+    });
+
+    it('should check transitions against the stored status of loaded projects', async () => {
+      const created = await new Project({ userId, ...validProjectData }).save();
+      const project = await Project.findById(created._id);
+
+      project!.status = 'completed';
+
+      await expect(project!.save()).rejects.toThrow('Cannot change project status from planning to completed');
+    });
+
+    it('should not overwrite a status changed concurrently', async () => {
+      const created = await new Project({ userId, ...validProjectData, status: 'generating' }).save();
+      const generating = await Project.findById(created._id);
+      const patched = await Project.findById(created._id);
+
+      patched!.setStatus('paused', 'Paused by the user');
+      await patched!.save();
+
+      generating!.setStatus('completed', 'Generated 4 files');
+      generating!.name = 'Generated';
+      const error = await generating!.save().catch(caught => caught);
+
+      expect(error).toBeInstanceOf(StatusTransitionError);
+      expect(error).toMatchObject({ from: 'paused', to: 'completed' });
+      const stored = await Project.findById(created._id);
+      expect(stored).toMatchObject({ status: 'paused', name: validProjectData.name });
+    });
+
+    it('should allow legal transitions in sequence', async () => {
+      const project = await new Project({ userId, ...validProjectData }).save();
+
+      project.setStatus('generating', 'Generation started');
+      await project.save();
+      project.setStatus('completed', 'Generated 4 files');
+      await project.save();
+
+      expect(project.status).toBe('completed');
+    });
+
+    it('should record every status change in the timeline', async () => {
+      const project = await new Project({ userId, ...validProjectData }).save();
+
+      project.setStatus('generating', 'Generation started');
+      await project.save();
+      project.status = 'error';
+      await project.save();
+      project.name = 'Renamed';
+      await project.save();
+
+      expect(project.statusTimeline.map(({ from, to, reason }) => ({ from, to, reason }))).toEqual([
+        { from: null, to: 'planning', reason: 'Project created' },
+        { from: 'planning', to: 'generating', reason: 'Generation started' },
+        { from: 'generating', to: 'error', reason: 'Status updated' }
+      ]);
+      expect(project.statusTimeline[1].timestamp).toBeInstanceOf(Date);
     });
   });
 
@@ -478,7 +547,8 @@ describe('Project Model', () => {
     it('should allow valid repository URLs', async () => {
       const validUrls = [
         'https://github.com/user/repo.git',
-        'http://gitlab.com/user/repo.git'
+        'http://gitlab.com/user/repo.git',
+        'file:///srv/git/repo.git'
       ];
 
       for (const repoUrl of validUrls) {
@@ -499,6 +569,23 @@ describe('Project Model', () => {
         await Project.deleteOne({ _id: savedProject._id });
       }
     });
+
+    it('should not serialize the stored credential token', async () => {
+      const project = new Project({
+        userId,
+        ...validProjectData,
+        gitIntegration: {
+          repoUrl: 'https://github.com/user/repo.git',
+          credentials: { username: 'ci', token: 'v1:encrypted' }
+        }
+      });
+      const savedProject = await project.save();
+
+      const json = savedProject.toJSON();
+
+      expect(json.gitIntegration.credentials).toEqual({ username: 'ci' });
+      expect(savedProject.gitIntegration.credentials!.token).toBe('v1:encrypted');
+    });
   });
 
   describe('Analytics', () => {
@@ -568,6 +655,46 @@ describe('Project Model', () => {
     });
   });
 
+  describe('Test Runs', () => {
+    it('should store the latest test run', async () => {
+      const project = await new Project({
+        userId,
+        ...validProjectData,
+        lastTestRun: {
+          status: 'failed',
+          startedAt: new Date(),
+          finishedAt: new Date(),
+          summary: { total: 2, passed: 1, failed: 1, skipped: 0 },
+          tests: [
+            { file: 'tests/app.test.ts', name: 'app starts', status: 'passed', duration: 5 },
+            { file: 'tests/app.test.ts', name: 'app stops', status: 'failed', duration: 3, failureMessage: 'Expected 0' }
+          ],
+          coverage: { lines: 75, statements: 70, functions: 50, branches: 25 }
+        }
+      }).save();
+
+      expect(project.lastTestRun!.tests).toHaveLength(2);
+      expect(project.lastTestRun!.coverage!.lines).toBe(75);
+      expect(project.lastTestRun!.output).toBe('');
+      expect(project.analytics.testRunsExecuted).toBe(0);
+    });
+
+    it('should validate test result statuses', async () => {
+      const project = new Project({
+        userId,
+        ...validProjectData,
+        lastTestRun: {
+          status: 'passed',
+          startedAt: new Date(),
+          finishedAt: new Date(),
+          tests: [{ file: 'tests/app.test.ts', name: 'app starts', status: 'flaky' }]
+        }
+      });
+
+      await expect(project.save()).rejects.toThrow(mongoose.Error.ValidationError);
+    });
+  });
+
   describe('Change History', () => {
     it('should add change history entries', async () => {
       const projectData = {
@@ -0,0 +1,46 @@
+import mongoose from 'mongoose';
+import { RefreshToken } from '../../src/models/RefreshToken';
+
+describe('RefreshToken Model', () => {
+  const validTokenData = {
+    jti: 'token-id',
+    userId: new mongoose.Types.ObjectId(),
+    family: 'token-id',
+    expiresAt: new Date(Date.now() + 60000)
+  };
+
+  it('should create a refresh token with valid data', async () => {
+    const token = await new RefreshToken(validTokenData).save();
+
+    expect(token.jti).toBe('token-id');
+    expect(token.revokedAt).toBeNull();
+    expect(token.createdAt).toBeDefined();
+  });
+
+  it('should require jti, user, family and expiry', async () => {
+    await expect(new RefreshToken({}).save()).rejects.toThrow(mongoose.Error.ValidationError);
+  });
+
+  it('should enforce unique token ids', async () => {
+    await RefreshToken.init();
+    await new RefreshToken(validTokenData).save();
+
+    await expect(new RefreshToken(validTokenData).save()).rejects.toThrow();
+  });
+
+  describe('isActive', () => {
+    it('should be active until revoked', () => {
+      const token = new RefreshToken(validTokenData);
+      expect(token.isActive()).toBe(true);
+
+      token.revokedAt = new Date();
+      expect(token.isActive()).toBe(false);
+    });
+
+    it('should be inactive once expired', () => {
+      const token = new RefreshToken({ ...validTokenData, expiresAt: new Date(Date.now() - 1000) });
+
+      expect(token.isActive()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import mongoose from 'mongoose';
+import { TddIteration } from '../../src/models/TddIteration';
+
+describe('TddIteration Model', () => {
+  const validIterationData = {
+    projectId: new mongoose.Types.ObjectId(),
+    runId: 'b2c7a1e0-0000-4000-8000-000000000001',
+    sequence: 1,
+    component: 'Todo model',
+    phase: 'tests',
+    changes: [{
+      path: 'tests/todo.test.ts',
+      changeType: 'created',
+      content: 'it("creates todos", () => {});\n',
+      diff: '--- /dev/null\n+++ b/tests/todo.test.ts\n'
+    }],
+    testRun: {
+      status: 'failed',
+      total: 1,
+      passed: 0,
+      failed: 1,
+      failures: [{ file: 'tests/todo.test.ts', name: 'creates todos', message: "Cannot find module '../src/todo'" }]
+    }
+  };
+
+  it('should create an iteration with valid data', async () => {
+    const iteration = await new TddIteration(validIterationData).save();
+
+    expect(iteration.attempt).toBe(0);
+    expect(iteration.changes).toHaveLength(1);
+    expect(iteration.testRun!.failures[0].name).toBe('creates todos');
+    expect(iteration.createdAt).toBeDefined();
+  });
+
+  it('should require project, run, sequence, component and phase', async () => {
+    const iteration = new TddIteration({});
+
+    await expect(iteration.save()).rejects.toThrow(mongoose.Error.ValidationError);
+  });
+
+  it('should reject unknown phases', async () => {
+    const iteration = new TddIteration({ ...validIterationData, phase: 'refactor' });
+
+    await expect(iteration.save()).rejects.toThrow(mongoose.Error.ValidationError);
+  });
+
+  it('should not allow the same sequence number twice in a run', async () => {
+    await TddIteration.init();
+    await new TddIteration(validIterationData).save();
+
+    await expect(new TddIteration(validIterationData).save()).rejects.toThrow();
+  });
+});
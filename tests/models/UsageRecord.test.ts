@@ -0,0 +1,63 @@
+import mongoose from 'mongoose';
+import { UsageRecord } from '../../src/models/UsageRecord';
+
+describe('UsageRecord Model', () => {
+  const userId = new mongoose.Types.ObjectId();
+
+  const validRecordData = {
+    userId,
+    task: 'generate_code',
+    provider: 'openai',
+    aiModel: 'gpt-4-turbo',
+    promptTokens: 100,
+    completionTokens: 50,
+    totalTokens: 150,
+    cost: 0.0025
+  };
+
+  describe('UsageRecord Schema Validation', () => {
+    it('should create a usage record with valid data', async () => {
+      const record = await new UsageRecord(validRecordData).save();
+
+      expect(record.userId.toString()).toBe(userId.toString());
+      expect(record.totalTokens).toBe(150);
+      expect(record.cost).toBe(0.0025);
+      expect(record.createdAt).toBeDefined();
+    });
+
+    it('should require user, provider and AI model', async () => {
+      const record = new UsageRecord({});
+
+      await expect(record.save()).rejects.toThrow(mongoose.Error.ValidationError);
+    });
+
+    it('should reject negative costs', async () => {
+      const record = new UsageRecord({ ...validRecordData, cost: -1 });
+
+      await expect(record.save()).rejects.toThrow('Cost cannot be negative');
+    });
+  });
+
+  describe('summarize', () => {
+    it('should total requests, tokens and cost since the given date', async () => {
+      await UsageRecord.create([
+        { ...validRecordData, createdAt: new Date('2026-03-10T12:00:00Z') },
+        { ...validRecordData, createdAt: new Date('2026-03-15T08:00:00Z') },
+        { ...validRecordData, createdAt: new Date('2026-03-15T09:00:00Z') },
+        { ...validRecordData, userId: new mongoose.Types.ObjectId(), createdAt: new Date('2026-03-15T09:00:00Z') }
+      ]);
+
+      const summary = await UsageRecord.summarize(userId.toString(), new Date('2026-03-15T00:00:00Z'));
+
+      expect(summary.requests).toBe(2);
+      expect(summary.tokens).toBe(300);
+      expect(summary.cost).toBeCloseTo(0.005);
+    });
+
+    it('should return zeros when there is no usage', async () => {
+      const summary = await UsageRecord.summarize(userId.toString(), new Date());
+
+      expect(summary).toEqual({ requests: 0, tokens: 0, cost: 0 });
+    });
+  });
+});
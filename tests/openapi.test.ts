@@ -0,0 +1,67 @@
+import request from 'supertest';
+import app from '../src/app';
+
+describe('Project OpenAPI API', () => {
+  let accessToken: string;
+  let projectId: string;
+
+  beforeEach(async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({
+        email: 'openapi@example.com',
+        password: 'Password123'
+      });
+    accessToken = response.body.accessToken;
+
+    const project = await request(app)
+      .post('/api/projects')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        name: 'Documented Project',
+        description: 'A project with an API',
+        techStack: { language: 'typescript', framework: 'express', database: 'mongodb' }
+      });
+    projectId = project.body.project._id;
+
+    await request(app)
+      .post(`/api/projects/${projectId}/files`)
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        path: 'src/app.ts',
+        content: "const app = express();\napp.get('/api/widgets/:id', showWidget);\n"
+      });
+  });
+
+  describe('GET /api/projects/:id/openapi.json', () => {
+    it('should return the document stored after the last edit', async () => {
+      const response = await request(app)
+        .get(`/api/projects/${projectId}/openapi.json`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.openapi).toBe('3.1.0');
+      expect(response.body.info.title).toBe('Documented Project');
+      expect(response.body.paths['/api/widgets/{id}'].get.operationId).toBe('getApiWidgetsById');
+    });
+
+    it('should return 404 for projects of other users', async () => {
+      await request(app)
+        .get('/api/projects/507f1f77bcf86cd799439011/openapi.json')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/projects/:id/openapi', () => {
+    it('should render the document as HTML', async () => {
+      const response = await request(app)
+        .get(`/api/projects/${projectId}/openapi`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect('Content-Type', /html/)
+        .expect(200);
+
+      expect(response.text).toContain('<code>/api/widgets/{id}</code>');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import request from 'supertest';
+import app from '../src/app';
+
+describe('Project Quality API', () => {
+  let accessToken: string;
+  let projectId: string;
+
+  beforeEach(async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({
+        email: 'quality@example.com',
+        password: 'Password123'
+      });
+    accessToken = response.body.accessToken;
+
+    const project = await request(app)
+      .post('/api/projects')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        name: 'Analyzed Project',
+        description: 'A project for quality analysis',
+        techStack: { language: 'typescript', framework: 'express', database: 'mongodb' }
+      });
+    projectId = project.body.project._id;
+  });
+
+  describe('GET /api/projects/:id/quality', () => {
+    it('should return project metrics with a per-file breakdown', async () => {
+      await request(app)
+        .post(`/api/projects/${projectId}/files`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ path: 'src/app.ts', content: 'export const handle = (input: any) => input || null;\n' });
+
+      const response = await request(app)
+        .get(`/api/projects/${projectId}/quality`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.metrics).toMatchObject({ complexity: 2, codeSmells: 1, testCoverage: 0 });
+      expect(response.body.files).toHaveLength(1);
+      expect(response.body.files[0]).toMatchObject({
+        path: 'src/app.ts',
+        functions: [{ name: 'handle', line: 1, lines: 1, complexity: 2 }],
+        smells: [{ type: 'explicit-any', line: 1 }]
+      });
+    });
+
+    it('should store the metrics when files change', async () => {
+      await request(app)
+        .post(`/api/projects/${projectId}/files`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ path: 'src/app.ts', content: 'export const app = (a?: number) => a ?? 0;\n' });
+
+      const response = await request(app)
+        .get(`/api/projects/${projectId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.project.analytics.codeQuality.complexity).toBe(2);
+    });
+
+    it('should return 404 for projects of other users', async () => {
+      await request(app)
+        .get('/api/projects/507f1f77bcf86cd799439011/quality')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+    });
+  });
+});
@@ -72,7 +72,8 @@ describe('DescriptionAnalysisService', () => {
 
       expect(mockAIService.generateWithTemplate).toHaveBeenCalledWith(
         GenerationTask.ANALYZE_DESCRIPTION,
-        { description }
+        { description },
+        undefined
       );
 
       expect(result).toEqual({
@@ -206,7 +207,8 @@ describe('DescriptionAnalysisService', () => {
           requirements: JSON.stringify(mockAnalysisResult),
           preferences: JSON.stringify({}),
           scale: 'medium'
-        }
+        },
+        undefined
       );
 
       expect(result.recommendations).toHaveLength(2);
@@ -265,7 +267,8 @@ describe('DescriptionAnalysisService', () => {
           requirements: JSON.stringify(mockAnalysisResult),
           preferences: JSON.stringify(preferences),
           scale: 'small'
-        }
+        },
+        undefined
       );
 
       expect(result.recommendations[0].language).toBe('Python');
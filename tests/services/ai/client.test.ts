@@ -1,5 +1,6 @@
 import { AIServiceClient } from '../../../src/services/ai/client';
 import { AIServiceConfig, GenerationTask } from '../../../src/services/ai/types';
+import { UsageLedger } from '../../../src/services/ai/ledger';
 import OpenAI from 'openai';
 
 // Mock OpenAI
@@ -62,6 +63,45 @@ describe('AIServiceClient', () => {
     });
   });
 
+  describe('provider selection', () => {
+    it('should use an injected provider instead of OpenAI', async () => {
+      const provider = {
+        name: 'mock' as const,
+        complete: jest.fn().mockResolvedValue({
+          content: 'From provider',
+          usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+          model: 'custom',
+          finishReason: 'stop'
+        }),
+        stream: jest.fn()
+      };
+      MockedOpenAI.mockClear();
+
+      const customClient = new AIServiceClient(defaultConfig, provider);
+      const response = await customClient.generate({ prompt: 'Test prompt' });
+
+      expect(MockedOpenAI).not.toHaveBeenCalled();
+      expect(response.content).toBe('From provider');
+      expect(provider.complete).toHaveBeenCalledWith({
+        prompt: 'Test prompt',
+        systemMessage: undefined,
+        model: 'gpt-4-turbo',
+        maxTokens: 2000,
+        temperature: 0.3,
+        timeout: 60000
+      });
+    });
+
+    it('should create the mock provider from configuration', async () => {
+      MockedOpenAI.mockClear();
+
+      const mockClient = new AIServiceClient({ ...defaultConfig, provider: 'mock', apiKey: '' });
+
+      expect(MockedOpenAI).not.toHaveBeenCalled();
+      expect(await mockClient.healthCheck()).toBe(true);
+    });
+  });
+
   describe('generate', () => {
     const mockResponse = {
       choices: [{
@@ -185,6 +225,139 @@ describe('AIServiceClient', () => {
     });
   });
 
+  describe('generateStream', () => {
+    const createStream = (deltas: string[], options: { usage?: boolean; failAfter?: Error } = {}) => ({
+      async *[Symbol.asyncIterator]() {
+        for (const delta of deltas) {
+          yield { model: 'gpt-4-turbo', choices: [{ delta: { content: delta }, finish_reason: null }] };
+        }
+        if (options.failAfter) {
+          throw options.failAfter;
+        }
+        yield { model: 'gpt-4-turbo', choices: [{ delta: {}, finish_reason: 'stop' }] };
+        if (options.usage !== false) {
+          yield {
+            model: 'gpt-4-turbo',
+            choices: [],
+            usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 }
+          };
+        }
+      }
+    });
+
+    const collect = async (iterator: AsyncIterable<any>) => {
+      const chunks: any[] = [];
+      for await (const chunk of iterator) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    };
+
+    it('should yield deltas followed by the final response', async () => {
+      mockChatCompletions.create.mockResolvedValue(createStream(['Hello', ' world']) as any);
+
+      const chunks = await collect(client.generateStream({ prompt: 'Test prompt' }));
+
+      expect(chunks).toEqual([
+        { type: 'delta', content: 'Hello' },
+        { type: 'delta', content: ' world' },
+        {
+          type: 'done',
+          response: {
+            content: 'Hello world',
+            usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+            model: 'gpt-4-turbo',
+            finishReason: 'stop'
+          }
+        }
+      ]);
+      expect(mockChatCompletions.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          stream: true,
+          stream_options: { include_usage: true }
+        }),
+        { timeout: 60000 }
+      );
+    });
+
+    it('should record final usage in cost tracking', async () => {
+      mockChatCompletions.create.mockResolvedValue(createStream(['Hi']) as any);
+
+      await collect(client.generateStream({ prompt: 'Test prompt' }));
+
+      const costTracking = client.getCostTracking();
+      expect(costTracking.requestCount).toBe(1);
+      expect(costTracking.tokenCount).toBe(150);
+      expect(client.getRateLimitInfo().currentRequests).toBe(1);
+    });
+
+    it('should estimate usage when the stream does not report it', async () => {
+      mockChatCompletions.create.mockResolvedValue(createStream(['12345678'], { usage: false }) as any);
+
+      const chunks = await collect(client.generateStream({ prompt: 'abcd' }));
+
+      expect(chunks[chunks.length - 1].response.usage).toEqual({
+        promptTokens: 1,
+        completionTokens: 2,
+        totalTokens: 3
+      });
+    });
+
+    it('should retry when the request fails before the first token', async () => {
+      mockChatCompletions.create
+        .mockRejectedValueOnce(new Error('rate limit exceeded'))
+        .mockResolvedValueOnce(createStream(['Retried']) as any);
+
+      const chunks = await collect(client.generateStream({ prompt: 'Test prompt' }));
+
+      expect(chunks[0]).toEqual({ type: 'delta', content: 'Retried' });
+      expect(mockChatCompletions.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry once tokens have been streamed', async () => {
+      mockChatCompletions.create.mockResolvedValue(
+        createStream(['Partial'], { failAfter: new Error('server_error') }) as any
+      );
+
+      const chunks: any[] = [];
+      await expect((async () => {
+        for await (const chunk of client.generateStream({ prompt: 'Test prompt' })) {
+          chunks.push(chunk);
+        }
+      })()).rejects.toMatchObject({
+        code: 'SERVER_ERROR',
+        retryable: false
+      });
+
+      expect(chunks).toEqual([{ type: 'delta', content: 'Partial' }]);
+      expect(mockChatCompletions.create).toHaveBeenCalledTimes(1);
+      expect(client.getCostTracking().requestCount).toBe(0);
+    });
+
+    it('should stream with a prompt template', async () => {
+      mockChatCompletions.create.mockResolvedValue(createStream(['{}']) as any);
+
+      const chunks = await collect(client.generateStreamWithTemplate(
+        GenerationTask.ANALYZE_DESCRIPTION,
+        { description: 'A simple REST API' }
+      ));
+
+      expect(chunks[chunks.length - 1].type).toBe('done');
+      expect(mockChatCompletions.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          max_tokens: 2000,
+          messages: expect.arrayContaining([
+            expect.objectContaining({
+              role: 'user',
+              content: expect.stringContaining('A simple REST API')
+            })
+          ])
+        }),
+        expect.anything()
+      );
+    });
+  });
+
   describe('generateWithTemplate', () => {
     const mockResponse = {
       choices: [{
@@ -307,5 +480,110 @@ describe('AIServiceClient', () => {
       expect(costTracking.requestCount).toBe(0);
       expect(costTracking.tokenCount).toBe(0);
     });
+
+    it('should price usage with the provider price of the model', async () => {
+      mockChatCompletions.create.mockResolvedValue({
+        choices: [{ message: { content: 'Priced' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 1000, completion_tokens: 1000, total_tokens: 2000 },
+        model: 'gpt-4o'
+      } as any);
+      const pricedClient = new AIServiceClient({ ...defaultConfig, model: 'gpt-4o' });
+
+      await pricedClient.generate({ prompt: 'Test prompt' });
+
+      expect(pricedClient.getCostTracking().totalCost).toBeCloseTo(0.0125, 10);
+    });
+
+    it('should refuse models without a price', () => {
+      expect(() => new AIServiceClient({ ...defaultConfig, model: 'gpt-5-preview' }))
+        .toThrow('No pricing known for openai model "gpt-5-preview"');
+    });
+
+    it('should use the configured price for other models', () => {
+      const environment = { ...process.env };
+      process.env.AI_PRICE_INPUT_PER_1K = '0.002';
+      process.env.AI_PRICE_OUTPUT_PER_1K = '0.008';
+
+      try {
+        expect(() => new AIServiceClient({ ...defaultConfig, model: 'gpt-5-preview' })).not.toThrow();
+      } finally {
+        process.env = environment;
+      }
+    });
+  });
+
+  describe('usage ledger', () => {
+    let ledger: jest.Mocked<UsageLedger>;
+    let ledgerClient: AIServiceClient;
+
+    const completion = {
+      choices: [{ message: { content: 'Ledger response' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 1000, completion_tokens: 1000, total_tokens: 2000 },
+      model: 'gpt-4-turbo'
+    };
+
+    beforeEach(() => {
+      ledger = {
+        record: jest.fn().mockResolvedValue(undefined),
+        assertWithinBudget: jest.fn().mockResolvedValue(undefined),
+        getReport: jest.fn()
+      } as any;
+
+      ledgerClient = new AIServiceClient(defaultConfig, undefined, ledger);
+      mockChatCompletions.create.mockResolvedValue(completion as any);
+    });
+
+    it('should record attributed requests with task, tokens and cost', async () => {
+      await ledgerClient.generateWithTemplate(
+        GenerationTask.ANALYZE_DESCRIPTION,
+        { description: 'A todo API' },
+        { context: { userId: 'user-1', projectId: 'project-1' } }
+      );
+
+      expect(ledger.assertWithinBudget).toHaveBeenCalledWith('user-1');
+      expect(ledger.record).toHaveBeenCalledWith({
+        context: { userId: 'user-1', projectId: 'project-1', task: GenerationTask.ANALYZE_DESCRIPTION },
+        provider: 'openai',
+        model: 'gpt-4-turbo',
+        usage: { promptTokens: 1000, completionTokens: 1000, totalTokens: 2000 },
+        cost: expect.closeTo(0.04, 10)
+      });
+    });
+
+    it('should not record unattributed requests', async () => {
+      await ledgerClient.generate({ prompt: 'Test prompt' });
+
+      expect(ledger.assertWithinBudget).not.toHaveBeenCalled();
+      expect(ledger.record).not.toHaveBeenCalled();
+    });
+
+    it('should refuse requests once the budget is exhausted', async () => {
+      ledger.assertWithinBudget.mockRejectedValue({
+        name: 'AIServiceError',
+        message: 'Daily AI budget of $1.00 exceeded',
+        code: 'BUDGET_EXCEEDED',
+        retryable: false,
+        costExceeded: true
+      });
+
+      await expect(ledgerClient.generateWithTemplate(
+        GenerationTask.GENERATE_CODE,
+        { component: 'API', techStack: '{}', requirements: '[]', specification: '{}' },
+        { context: { userId: 'user-1' } }
+      )).rejects.toMatchObject({ code: 'BUDGET_EXCEEDED', costExceeded: true });
+
+      expect(mockChatCompletions.create).not.toHaveBeenCalled();
+    });
+
+    it('should still return the response when recording fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      ledger.record.mockRejectedValue(new Error('Database unavailable'));
+
+      const response = await ledgerClient.generate({ prompt: 'Test prompt', context: { userId: 'user-1' } });
+
+      expect(response.content).toBe('Ledger response');
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to record AI usage:', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
   });
-});
\ No newline at end of file
+});
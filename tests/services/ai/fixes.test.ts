@@ -0,0 +1,259 @@
+import mongoose from 'mongoose';
+import { IssueFixService, FixError, selectRelevantFiles } from '../../../src/services/ai/fixes';
+import { AIServiceClient } from '../../../src/services/ai/client';
+import { GenerationTask } from '../../../src/services/ai/types';
+import { ProjectFileService } from '../../../src/services/files/editor';
+import { FixProposal } from '../../../src/models/FixProposal';
+import { Project, IProject, ICodeFile } from '../../../src/models/Project';
+
+jest.mock('../../../src/models/FixProposal');
+
+const mockFixProposal = jest.mocked(FixProposal);
+
+const codeFile = (path: string, content: string): ICodeFile => ({
+  path,
+  content,
+  language: 'typescript',
+  lastModified: new Date()
+});
+
+describe('selectRelevantFiles', () => {
+  const files = [
+    codeFile('src/app.ts', 'import { todos } from "./routes/todos";\n'),
+    codeFile('src/routes/todos.ts', 'export const todos = router.delete("/:id", removeTodo);\n'),
+    codeFile('src/models/user.ts', 'export interface User { email: string }\n'),
+    codeFile('tests/todos.test.ts', 'describe("todos", () => {});\n')
+  ];
+
+  it('should prefer files named in the stack trace and add their tests', () => {
+    const selected = selectRelevantFiles(files, {
+      issue: 'Deleting a todo returns 500',
+      stackTrace: 'TypeError: undefined\n    at removeTodo (src/routes/todos.ts:12:5)'
+    });
+
+    expect(selected[0].path).toBe('src/routes/todos.ts');
+    expect(selected.map(file => file.path)).toContain('tests/todos.test.ts');
+    expect(selected.map(file => file.path)).not.toContain('src/models/user.ts');
+  });
+
+  it('should always include explicitly requested files first', () => {
+    const selected = selectRelevantFiles(files, { issue: 'Deleting a todo returns 500', files: ['src/models/user.ts'] });
+
+    expect(selected[0].path).toBe('src/models/user.ts');
+  });
+
+  it('should fall back to the project files when nothing matches', () => {
+    const selected = selectRelevantFiles(files, { issue: 'It is broken' });
+
+    expect(selected.map(file => file.path)).toEqual(files.map(file => file.path));
+  });
+});
+
+describe('IssueFixService', () => {
+  let service: IssueFixService;
+  let mockAIService: jest.Mocked<AIServiceClient>;
+  let mockFiles: jest.Mocked<ProjectFileService>;
+  let project: IProject;
+
+  const userId = new mongoose.Types.ObjectId().toString();
+  const proposalId = new mongoose.Types.ObjectId().toString();
+
+  const aiResponse = (content: string) => ({
+    content,
+    usage: { promptTokens: 10, completionTokens: 10, totalTokens: 20 },
+    model: 'mock',
+    finishReason: 'stop'
+  });
+
+  const pendingProposal = (overrides: Record<string, unknown> = {}) => ({
+    _id: proposalId,
+    projectId: project._id,
+    issue: 'Deleting a todo returns 500',
+    status: 'pending',
+    patches: [{
+      path: 'src/routes/todos.ts',
+      changeType: 'updated',
+      before: 'export const remove = () => items.delete();\n',
+      after: 'export const remove = () => items?.delete();\n',
+      diff: ''
+    }],
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAIService = { generateWithTemplate: jest.fn() } as any;
+    mockFiles = { writeFiles: jest.fn().mockResolvedValue([]) } as any;
+    service = new IssueFixService(mockAIService, mockFiles);
+
+    project = new Project({
+      userId,
+      name: 'Todo API',
+      description: 'A simple todo list backend',
+      techStack: { language: 'typescript', framework: 'express', database: 'mongodb' },
+      status: 'completed',
+      generatedCode: {
+        files: [
+          { path: 'src/app.ts', content: 'export const app = 1;\n', language: 'typescript' },
+          { path: 'src/routes/todos.ts', content: 'export const remove = () => items.delete();\n', language: 'typescript' }
+        ]
+      }
+    });
+
+    mockFixProposal.create.mockImplementation(async (data: any) => ({ ...data, status: 'pending' }) as any);
+  });
+
+  describe('propose', () => {
+    it('should send the relevant files and store the answer as per-file patches', async () => {
+      mockAIService.generateWithTemplate.mockResolvedValue(aiResponse([
+        'The todos route calls delete on an undefined collection.',
+        '',
+        '```typescript path=src/routes/todos.ts',
+        'export const remove = () => items?.delete();',
+        '```',
+        '',
+        '```typescript path=tests/todos.test.ts',
+        'it("deletes", () => {});',
+        '```'
+      ].join('\n')));
+
+      const proposal = await service.propose(project, {
+        issue: 'Deleting a todo returns 500',
+        stackTrace: 'at remove (src/routes/todos.ts:1:1)'
+      }, userId);
+
+      expect(mockAIService.generateWithTemplate).toHaveBeenCalledWith(
+        GenerationTask.FIX_ISSUES,
+        expect.objectContaining({
+          issue: 'Deleting a todo returns 500',
+          code: expect.stringMatching(/^\/\/ src\/routes\/todos\.ts\n/),
+          expectedBehavior: 'Not provided'
+        }),
+        { context: { userId, projectId: project._id.toString() } }
+      );
+      expect(proposal.explanation).toBe('The todos route calls delete on an undefined collection.');
+      expect(proposal.patches).toEqual([
+        expect.objectContaining({
+          path: 'src/routes/todos.ts',
+          changeType: 'updated',
+          before: 'export const remove = () => items.delete();\n',
+          after: 'export const remove = () => items?.delete();\n',
+          diff: expect.stringContaining('+export const remove = () => items?.delete();')
+        }),
+        expect.objectContaining({ path: 'tests/todos.test.ts', changeType: 'created', before: '' })
+      ]);
+    });
+
+    it('should leave out files the AI returned unchanged', async () => {
+      mockAIService.generateWithTemplate.mockResolvedValue(aiResponse(
+        'Nothing to change.\n\n```typescript path=src/app.ts\nexport const app = 1;\n```'
+      ));
+
+      const proposal = await service.propose(project, { issue: 'The app does not start' }, userId);
+
+      expect(proposal.patches).toEqual([]);
+    });
+
+    it('should reject projects without files', async () => {
+      project.generatedCode.files = [];
+
+      await expect(service.propose(project, { issue: 'Deleting a todo returns 500' }, userId))
+        .rejects.toMatchObject({ code: 'NOTHING_TO_FIX' });
+      expect(mockAIService.generateWithTemplate).not.toHaveBeenCalled();
+    });
+
+    it('should reject requested files that do not exist', async () => {
+      await expect(service.propose(project, { issue: 'Deleting a todo returns 500', files: ['src/missing.ts'] }, userId))
+        .rejects.toMatchObject({ code: 'FILE_NOT_FOUND' });
+    });
+
+    it('should report answers with unusable file paths', async () => {
+      mockAIService.generateWithTemplate.mockResolvedValue(aiResponse('```typescript path=../../etc/passwd\nroot\n```'));
+
+      const error = await service.propose(project, { issue: 'Deleting a todo returns 500' }, userId)
+        .catch(caught => caught);
+
+      expect(error).toBeInstanceOf(FixError);
+      expect(error.code).toBe('INVALID_AI_OUTPUT');
+    });
+  });
+
+  describe('accept', () => {
+    it('should apply the patches, count the fix and resolve the proposal', async () => {
+      const accepted = { ...pendingProposal(), status: 'accepted' };
+      mockFixProposal.findOne.mockResolvedValue(pendingProposal() as any);
+      mockFixProposal.findOneAndUpdate.mockResolvedValue(accepted as any);
+
+      const result = await service.accept(project, proposalId, 'dev@example.com');
+
+      expect(result).toBe(accepted);
+      expect(mockFixProposal.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: proposalId, status: 'pending' },
+        { status: 'accepted', resolvedAt: expect.any(Date) },
+        { new: true }
+      );
+      expect(mockFiles.writeFiles).toHaveBeenCalledWith(
+        project,
+        [{ path: 'src/routes/todos.ts', content: 'export const remove = () => items?.delete();\n' }],
+        'dev@example.com',
+        'Applied AI fix: Deleting a todo returns 500'
+      );
+      expect(project.analytics.aiFixesUsed).toBe(1);
+    });
+
+    it('should refuse proposals whose files changed since', async () => {
+      mockFixProposal.findOne.mockResolvedValue(pendingProposal() as any);
+      project.generatedCode.files[1].content = 'export const remove = () => null;\n';
+
+      await expect(service.accept(project, proposalId, 'dev@example.com'))
+        .rejects.toMatchObject({ code: 'STALE_PROPOSAL' });
+      expect(mockFiles.writeFiles).not.toHaveBeenCalled();
+    });
+
+    it('should refuse proposals that were already resolved', async () => {
+      mockFixProposal.findOne.mockResolvedValue(pendingProposal({ status: 'rejected' }) as any);
+
+      await expect(service.accept(project, proposalId, 'dev@example.com'))
+        .rejects.toMatchObject({ code: 'PROPOSAL_RESOLVED' });
+    });
+
+    it('should refuse proposals without changes', async () => {
+      mockFixProposal.findOne.mockResolvedValue(pendingProposal({ patches: [] }) as any);
+
+      await expect(service.accept(project, proposalId, 'dev@example.com'))
+        .rejects.toMatchObject({ code: 'NO_CHANGES_PROPOSED' });
+    });
+
+    it('should reopen the proposal when applying fails', async () => {
+      mockFixProposal.findOne.mockResolvedValue(pendingProposal() as any);
+      mockFixProposal.findOneAndUpdate.mockResolvedValue(pendingProposal({ status: 'accepted' }) as any);
+      mockFiles.writeFiles.mockRejectedValue(new Error('save failed'));
+
+      await expect(service.accept(project, proposalId, 'dev@example.com')).rejects.toThrow('save failed');
+      expect(mockFixProposal.updateOne).toHaveBeenCalledWith(
+        { _id: proposalId },
+        { status: 'pending', $unset: { resolvedAt: 1 } }
+      );
+    });
+
+    it('should report unknown proposals', async () => {
+      mockFixProposal.findOne.mockResolvedValue(null);
+
+      await expect(service.accept(project, proposalId, 'dev@example.com'))
+        .rejects.toMatchObject({ code: 'PROPOSAL_NOT_FOUND' });
+    });
+  });
+
+  describe('reject', () => {
+    it('should mark a pending proposal as rejected without touching files', async () => {
+      mockFixProposal.findOne.mockResolvedValue(pendingProposal() as any);
+      mockFixProposal.findOneAndUpdate.mockResolvedValue(pendingProposal({ status: 'rejected' }) as any);
+
+      const result = await service.reject(project, proposalId);
+
+      expect(result.status).toBe('rejected');
+      expect(mockFiles.writeFiles).not.toHaveBeenCalled();
+      expect(project.analytics.aiFixesUsed).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { UsageLedger } from '../../../src/services/ai/ledger';
+import { GenerationTask } from '../../../src/services/ai/types';
+import { User } from '../../../src/models/User';
+import { UsageRecord } from '../../../src/models/UsageRecord';
+
+jest.mock('../../../src/models/User');
+jest.mock('../../../src/models/UsageRecord');
+
+const mockUser = jest.mocked(User);
+const mockUsageRecord = jest.mocked(UsageRecord);
+
+describe('UsageLedger', () => {
+  const userId = '507f1f77bcf86cd799439011';
+  const now = new Date('2026-03-15T10:30:00Z');
+  let ledger: UsageLedger;
+
+  const withBudgets = (dailyBudget: number | null, monthlyBudget: number | null) => {
+    mockUser.findById.mockReturnValue({
+      select: jest.fn().mockResolvedValue({ settings: { dailyBudget, monthlyBudget } })
+    } as any);
+  };
+
+  const withSpend = (daily: number, monthly: number) => {
+    mockUsageRecord.summarize.mockImplementation(async (_userId: string, since: Date) => ({
+      requests: 1,
+      tokens: 1000,
+      cost: since.getUTCDate() === 1 ? monthly : daily
+    }));
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    ledger = new UsageLedger();
+  });
+
+  describe('record', () => {
+    it('should store the usage record and add the tokens to the user', async () => {
+      await ledger.record({
+        context: { userId, projectId: '507f1f77bcf86cd799439012', task: GenerationTask.GENERATE_CODE },
+        provider: 'openai',
+        model: 'gpt-4-turbo',
+        usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+        cost: 0.0025
+      });
+
+      expect(mockUsageRecord.create).toHaveBeenCalledWith({
+        userId,
+        projectId: '507f1f77bcf86cd799439012',
+        task: GenerationTask.GENERATE_CODE,
+        provider: 'openai',
+        aiModel: 'gpt-4-turbo',
+        promptTokens: 100,
+        completionTokens: 50,
+        totalTokens: 150,
+        cost: 0.0025
+      });
+      expect(mockUser.updateOne).toHaveBeenCalledWith(
+        { _id: userId },
+        { $inc: { 'settings.apiKeyUsage': 150 } }
+      );
+    });
+  });
+
+  describe('assertWithinBudget', () => {
+    it('should allow users without budgets', async () => {
+      withBudgets(null, null);
+
+      await expect(ledger.assertWithinBudget(userId, now)).resolves.toBeUndefined();
+      expect(mockUsageRecord.summarize).not.toHaveBeenCalled();
+    });
+
+    it('should allow spending below the budgets', async () => {
+      withBudgets(5, 50);
+      withSpend(4.99, 20);
+
+      await expect(ledger.assertWithinBudget(userId, now)).resolves.toBeUndefined();
+    });
+
+    it('should measure periods from the start of the UTC day and month', async () => {
+      withBudgets(5, 50);
+      withSpend(0, 0);
+
+      await ledger.assertWithinBudget(userId, now);
+
+      expect(mockUsageRecord.summarize).toHaveBeenCalledWith(userId, new Date('2026-03-15T00:00:00Z'));
+      expect(mockUsageRecord.summarize).toHaveBeenCalledWith(userId, new Date('2026-03-01T00:00:00Z'));
+    });
+
+    it('should refuse with costExceeded once the daily budget is spent', async () => {
+      withBudgets(5, null);
+      withSpend(5, 5);
+
+      await expect(ledger.assertWithinBudget(userId, now)).rejects.toMatchObject({
+        name: 'AIServiceError',
+        message: 'Daily AI budget of $5.00 exceeded',
+        code: 'BUDGET_EXCEEDED',
+        statusCode: 402,
+        retryable: false,
+        costExceeded: true
+      });
+    });
+
+    it('should refuse once the monthly budget is spent', async () => {
+      withBudgets(null, 50);
+      withSpend(1, 50.5);
+
+      await expect(ledger.assertWithinBudget(userId, now)).rejects.toMatchObject({
+        message: 'Monthly AI budget of $50.00 exceeded',
+        costExceeded: true
+      });
+    });
+  });
+
+  describe('getReport', () => {
+    it('should summarize both periods with their budgets', async () => {
+      withBudgets(5, null);
+      withSpend(1.5, 12);
+
+      const report = await ledger.getReport(userId, now);
+
+      expect(report).toEqual({
+        daily: { requests: 1, tokens: 1000, cost: 1.5, budget: 5 },
+        monthly: { requests: 1, tokens: 1000, cost: 12, budget: null }
+      });
+    });
+  });
+});
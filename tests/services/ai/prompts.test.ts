@@ -1,4 +1,4 @@
-import { getPromptTemplate, renderPrompt, PROMPT_TEMPLATES } from '../../../src/services/ai/prompts';
+import { getPromptTemplate, renderPrompt, PROMPT_TEMPLATES, FILE_OUTPUT_FORMAT } from '../../../src/services/ai/prompts';
 import { GenerationTask } from '../../../src/services/ai/types';
 
 describe('Prompts', () => {
@@ -9,6 +9,8 @@ describe('Prompts', () => {
         GenerationTask.RECOMMEND_TECH_STACK,
         GenerationTask.GENERATE_CODE,
         GenerationTask.GENERATE_TESTS,
+        GenerationTask.WRITE_FAILING_TESTS,
+        GenerationTask.IMPLEMENT_TO_PASS,
         GenerationTask.FIX_ISSUES,
         GenerationTask.GENERATE_DOCUMENTATION
       ];
@@ -90,6 +92,12 @@ describe('Prompts', () => {
       expect(template.variables).toContain('requirements');
     });
 
+    it('should include the file output format in file-producing templates', () => {
+      expect(getPromptTemplate(GenerationTask.GENERATE_CODE).userPromptTemplate).toContain(FILE_OUTPUT_FORMAT);
+      expect(getPromptTemplate(GenerationTask.GENERATE_TESTS).userPromptTemplate).toContain(FILE_OUTPUT_FORMAT);
+      expect(FILE_OUTPUT_FORMAT).toContain('```typescript path=src/models/user.ts');
+    });
+
     it('should return correct template for issue fixing task', () => {
       const template = getPromptTemplate(GenerationTask.FIX_ISSUES);
       
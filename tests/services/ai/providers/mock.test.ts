@@ -0,0 +1,154 @@
+import { MockProvider } from '../../../../src/services/ai/providers/mock';
+import { AIServiceClient } from '../../../../src/services/ai/client';
+import { DescriptionAnalysisService } from '../../../../src/services/ai/analysis';
+import { GenerationTask } from '../../../../src/services/ai/types';
+import { getPromptTemplate, renderPrompt } from '../../../../src/services/ai/prompts';
+import { parseCodeOutput } from '../../../../src/services/generation/parser';
+
+describe('MockProvider', () => {
+  const provider = new MockProvider();
+
+  const requestFor = (task: GenerationTask, variables: Record<string, string>) => {
+    const template = getPromptTemplate(task);
+    return {
+      prompt: renderPrompt(template, variables),
+      systemMessage: template.systemMessage,
+      model: 'mock',
+      maxTokens: template.maxTokens,
+      temperature: template.temperature,
+      timeout: 1000
+    };
+  };
+
+  it('should answer health checks with OK', async () => {
+    const response = await provider.complete({
+      prompt: 'Hello, please respond with "OK"',
+      model: 'mock',
+      maxTokens: 10,
+      temperature: 0,
+      timeout: 1000
+    });
+
+    expect(response.content).toBe('OK');
+    expect(response.finishReason).toBe('stop');
+    expect(response.usage.totalTokens).toBe(response.usage.promptTokens + response.usage.completionTokens);
+  });
+
+  it('should return an analysis the analysis service accepts', async () => {
+    const client = new AIServiceClient({
+      provider: 'mock',
+      apiKey: '',
+      model: 'mock',
+      maxTokens: 2000,
+      temperature: 0.3,
+      timeout: 1000,
+      maxRetries: 1,
+      retryDelay: 0
+    });
+    const analysisService = new DescriptionAnalysisService(client);
+
+    const analysis = await analysisService.analyzeDescription('An inventory API');
+    const { recommendations } = await analysisService.recommendTechStack({ requirements: analysis });
+
+    expect(analysis.dataModels[0].name).toBe('Item');
+    expect(analysis.apiEndpoints).toHaveLength(4);
+    expect(recommendations[0]).toMatchObject({ language: 'TypeScript', framework: 'Express.js' });
+  });
+
+  it('should return code in the file output format', async () => {
+    const response = await provider.complete(requestFor(GenerationTask.GENERATE_CODE, {
+      component: 'Item model',
+      techStack: '{}',
+      requirements: '[]',
+      specification: '{}'
+    }));
+
+    const result = parseCodeOutput(response);
+
+    expect(result.truncated).toBe(false);
+    expect(result.files.map(file => file.path)).toEqual(['tests/item-model.test.ts', 'src/item-model.ts']);
+    expect(result.files[1].content).toContain('export function itemModel()');
+  });
+
+  it('should generate tests for the provided source file', async () => {
+    const response = await provider.complete(requestFor(GenerationTask.GENERATE_TESTS, {
+      code: '// src/item-model.ts\nexport function itemModel() {}',
+      techStack: '{}',
+      requirements: '[]'
+    }));
+
+    const result = parseCodeOutput(response);
+
+    expect(result.files).toHaveLength(1);
+    expect(result.files[0].path).toBe('tests/item-model.test.ts');
+    expect(result.files[0].content).toContain("from '../src/item-model'");
+  });
+
+  it('should write failing tests first and then an implementation for them', async () => {
+    const testsResponse = await provider.complete(requestFor(GenerationTask.WRITE_FAILING_TESTS, {
+      component: 'Item model',
+      techStack: '{}',
+      requirements: '[]',
+      specification: '{}',
+      existingFiles: 'None'
+    }));
+    const tests = parseCodeOutput(testsResponse).files;
+
+    const implementationResponse = await provider.complete(requestFor(GenerationTask.IMPLEMENT_TO_PASS, {
+      component: 'Item model',
+      techStack: '{}',
+      specification: '{}',
+      tests: tests.map(file => `// ${file.path}\n${file.content}`).join('\n\n'),
+      testResults: 'Cannot find module'
+    }));
+    const implementation = parseCodeOutput(implementationResponse).files;
+
+    expect(tests.map(file => file.path)).toEqual(['tests/item-model.test.ts']);
+    expect(implementation.map(file => file.path)).toEqual(['src/item-model.ts']);
+    expect(implementation[0].content).toContain('export function itemModel()');
+  });
+
+  it('should echo a fixed copy of the first context file for issue fixes', async () => {
+    const response = await provider.complete(requestFor(GenerationTask.FIX_ISSUES, {
+      issue: 'Items are never deleted',
+      code: '// src/items.ts\nexport const items = [];\n\n// src/app.ts\nexport const app = 1;',
+      stackTrace: 'Not provided',
+      expectedBehavior: 'Not provided'
+    }));
+
+    const result = parseCodeOutput(response);
+
+    expect(result.files).toHaveLength(1);
+    expect(result.files[0].path).toBe('src/items.ts');
+    expect(result.files[0].content).toBe('// Fixed by the mock provider\nexport const items = [];\n');
+  });
+
+  it('should be deterministic', async () => {
+    const request = requestFor(GenerationTask.GENERATE_CODE, {
+      component: 'API routes',
+      techStack: '{}',
+      requirements: '[]',
+      specification: '{}'
+    });
+
+    const first = await provider.complete(request);
+    const second = await provider.complete(request);
+
+    expect(first).toEqual(second);
+  });
+
+  it('should stream the same content as complete', async () => {
+    const request = requestFor(GenerationTask.ANALYZE_DESCRIPTION, { description: 'A todo API' });
+    const expected = await provider.complete(request);
+
+    let content = '';
+    let usage;
+    for await (const chunk of provider.stream(request)) {
+      content += chunk.delta || '';
+      usage = chunk.usage || usage;
+    }
+
+    expect(content).toBe(expected.content);
+    expect(usage).toEqual(expected.usage);
+  });
+});
@@ -1,8 +1,10 @@
 import { AIService, getAIService } from '../../../src/services/ai/service';
 import { AIServiceClient } from '../../../src/services/ai/client';
+import { UsageLedger } from '../../../src/services/ai/ledger';
 
 // Mock the AIServiceClient
 jest.mock('../../../src/services/ai/client');
+jest.mock('../../../src/services/ai/ledger');
 const MockedAIServiceClient = AIServiceClient as jest.MockedClass<typeof AIServiceClient>;
 
 describe('AIService', () => {
@@ -12,6 +14,7 @@ describe('AIService', () => {
     jest.clearAllMocks();
     AIService.reset();
     process.env = { ...originalEnv };
+    delete process.env.AI_PROVIDER;
   });
 
   afterAll(() => {
@@ -31,6 +34,7 @@ describe('AIService', () => {
       AIService.initialize();
 
       expect(MockedAIServiceClient).toHaveBeenCalledWith({
+        provider: 'openai',
         apiKey: 'test-key',
         model: 'gpt-4',
         maxTokens: 1500,
@@ -38,7 +42,7 @@ describe('AIService', () => {
         timeout: 30000,
         maxRetries: 5,
         retryDelay: 2000
-      });
+      }, undefined, expect.any(UsageLedger));
     });
 
     it('should use default values when environment variables are not set', () => {
@@ -47,6 +51,7 @@ describe('AIService', () => {
       AIService.initialize();
 
       expect(MockedAIServiceClient).toHaveBeenCalledWith({
+        provider: 'openai',
         apiKey: 'test-key',
         model: 'gpt-4-turbo',
         maxTokens: 2000,
@@ -54,7 +59,7 @@ describe('AIService', () => {
         timeout: 60000,
         maxRetries: 3,
         retryDelay: 1000
-      });
+      }, undefined, expect.any(UsageLedger));
     });
 
     it('should override defaults with provided configuration', () => {
@@ -69,6 +74,7 @@ describe('AIService', () => {
       AIService.initialize(customConfig);
 
       expect(MockedAIServiceClient).toHaveBeenCalledWith({
+        provider: 'openai',
         apiKey: 'test-key',
         model: 'gpt-3.5-turbo',
         maxTokens: 1000,
@@ -76,7 +82,7 @@ describe('AIService', () => {
         timeout: 60000,
         maxRetries: 3,
         retryDelay: 1000
-      });
+      }, undefined, expect.any(UsageLedger));
     });
 
     it('should throw error when API key is not provided', () => {
@@ -86,6 +92,47 @@ describe('AIService', () => {
         AIService.initialize();
       }).toThrow('OpenAI API key is required. Set OPENAI_API_KEY environment variable.');
     });
+
+    it('should initialize the mock provider without an API key', () => {
+      delete process.env.OPENAI_API_KEY;
+      process.env.AI_PROVIDER = 'mock';
+
+      expect(() => AIService.initialize()).not.toThrow();
+      expect(MockedAIServiceClient).toHaveBeenCalledWith(expect.objectContaining({
+        provider: 'mock',
+        apiKey: '',
+        model: 'mock'
+      }), undefined, expect.any(UsageLedger));
+    });
+
+    it('should use Gemini settings when the Gemini provider is selected', () => {
+      delete process.env.OPENAI_API_KEY;
+      process.env.AI_PROVIDER = 'gemini';
+      process.env.GEMINI_API_KEY = 'gemini-key';
+      process.env.GEMINI_MODEL = 'gemini-2.5-flash';
+
+      AIService.initialize();
+
+      expect(MockedAIServiceClient).toHaveBeenCalledWith(expect.objectContaining({
+        provider: 'gemini',
+        apiKey: 'gemini-key',
+        model: 'gemini-2.5-flash'
+      }), undefined, expect.any(UsageLedger));
+    });
+
+    it('should prefer an explicitly configured provider', () => {
+      delete process.env.OPENAI_API_KEY;
+
+      AIService.initialize({ provider: 'mock' });
+
+      expect(AIService.getConfig()?.provider).toBe('mock');
+    });
+
+    it('should reject unknown providers', () => {
+      process.env.AI_PROVIDER = 'unknown';
+
+      expect(() => AIService.initialize()).toThrow('Unknown AI provider "unknown"');
+    });
   });
 
   describe('getInstance', () => {
@@ -122,6 +169,7 @@ describe('AIService', () => {
       const config = AIService.getConfig();
 
       expect(config).toEqual({
+        provider: 'openai',
         apiKey: 'test-key',
         model: 'gpt-4-turbo',
         maxTokens: 2000,
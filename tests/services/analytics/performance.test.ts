@@ -0,0 +1,26 @@
+import { EventEmitter } from 'events';
+import { PerformanceSampler } from '../../../src/services/analytics/performance';
+
+describe('PerformanceSampler', () => {
+  it('should sample memory and CPU usage of the process', () => {
+    const sample = new PerformanceSampler().sample();
+
+    expect(sample.memoryUsage).toBeGreaterThan(0);
+    expect(sample.cpuUsagePercent).toBeGreaterThanOrEqual(0);
+    expect(sample.cpuUsagePercent).toBeLessThanOrEqual(100);
+    expect(sample.databaseQueryTime).toBeNull();
+  });
+
+  it('should average the commands of a monitored client between samples', () => {
+    const sampler = new PerformanceSampler();
+    const client = new EventEmitter();
+    sampler.monitor(client as any);
+
+    client.emit('commandSucceeded', { duration: 4 });
+    client.emit('commandSucceeded', { duration: 10 });
+    client.emit('commandFailed', { duration: 1 });
+
+    expect(sampler.sample().databaseQueryTime).toBe(5);
+    expect(sampler.sample().databaseQueryTime).toBeNull();
+  });
+});
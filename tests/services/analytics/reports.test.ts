@@ -0,0 +1,186 @@
+import { AnalyticsReportService, ReportRange } from '../../../src/services/analytics/reports';
+import { Analytics } from '../../../src/models/Analytics';
+
+describe('AnalyticsReportService', () => {
+  // Every group is reported unless a test asks for a larger minimum group size
+  const reports = new AnalyticsReportService(1);
+
+  const range: ReportRange = {
+    from: new Date('2026-03-01T00:00:00Z'),
+    to: new Date('2026-03-03T00:00:00Z'),
+    bucket: 'day'
+  };
+
+  const entry = (overrides: {
+    timestamp: string;
+    user?: string;
+    hashKeyVersion?: number;
+    framework?: string;
+    projectType?: string;
+    timeToComplete?: number;
+    testCoverage?: number;
+    errorsEncountered?: number;
+    aiFixesUsed?: number;
+    sessionDuration?: number;
+  }) => ({
+    anonymizedUserHash: (overrides.user || 'a').repeat(64),
+    hashKeyVersion: overrides.hashKeyVersion,
+    projectType: overrides.projectType || 'api',
+    techStackUsed: { language: 'typescript', framework: overrides.framework || 'express', database: 'mongodb', additionalTools: [] },
+    generationMetrics: {
+      timeToComplete: overrides.timeToComplete ?? 1000,
+      linesOfCode: 100,
+      testCoverage: overrides.testCoverage ?? 80,
+      filesGenerated: 5,
+      errorsEncountered: overrides.errorsEncountered ?? 0,
+      aiFixesUsed: overrides.aiFixesUsed ?? 0
+    },
+    userInteractions: { chatMessages: 0, aiFixesUsed: 0, manualEdits: 0, testRunsExecuted: 0, documentationViews: 0 },
+    performanceMetrics: { averageResponseTime: 100, peakMemoryUsage: 64, cpuUsagePercent: 10, databaseQueryTime: 5 },
+    sessionDuration: overrides.sessionDuration ?? 60000,
+    timestamp: new Date(overrides.timestamp)
+  });
+
+  beforeEach(async () => {
+    await Analytics.create([
+      entry({ timestamp: '2026-03-01T08:00:00Z', framework: 'express', timeToComplete: 1000, testCoverage: 90, errorsEncountered: 4, aiFixesUsed: 2, sessionDuration: 30000 }),
+      entry({ timestamp: '2026-03-01T09:00:00Z', framework: 'express', timeToComplete: 3000, testCoverage: 70, sessionDuration: 90000 }),
+      entry({ timestamp: '2026-03-01T10:00:00Z', framework: 'fastify', timeToComplete: 2000, testCoverage: 50, errorsEncountered: 1, aiFixesUsed: 1, sessionDuration: 400000 }),
+      entry({ timestamp: '2026-03-02T12:00:00Z', framework: 'fastify', timeToComplete: 10000, testCoverage: 60, projectType: 'microservice' }),
+      // Outside the range
+      entry({ timestamp: '2026-03-03T00:00:00Z', framework: 'nestjs' })
+    ]);
+  });
+
+  it('should count stack usage per bucket, most used first', async () => {
+    const { buckets } = await reports.stackPopularity(range, 'framework');
+
+    expect(buckets).toEqual([
+      {
+        bucket: new Date('2026-03-01T00:00:00Z'),
+        total: 3,
+        stacks: [{ value: 'express', count: 2, share: 66.67 }, { value: 'fastify', count: 1, share: 33.33 }]
+      },
+      {
+        bucket: new Date('2026-03-02T00:00:00Z'),
+        total: 1,
+        stacks: [{ value: 'fastify', count: 1, share: 100 }]
+      }
+    ]);
+  });
+
+  it('should compute completion time percentiles', async () => {
+    const report = await reports.completionTimes(range);
+
+    expect(report.overall).toEqual({ count: 4, median: 2000, p95: 10000 });
+    expect(report.buckets[0]).toEqual({ bucket: new Date('2026-03-01T00:00:00Z'), count: 3, median: 2000, p95: 3000 });
+  });
+
+  it('should average test coverage by framework', async () => {
+    const { frameworks } = await reports.coverageByFramework(range);
+
+    expect(frameworks.map(framework => [framework.framework, framework.averageCoverage, framework.count])).toEqual([
+      ['express', 80, 2],
+      ['fastify', 55, 2]
+    ]);
+    expect(frameworks[1].buckets).toHaveLength(2);
+  });
+
+  it('should relate AI fixes to errors', async () => {
+    const report = await reports.errorFixRatios(range);
+
+    expect(report.overall).toEqual({ entries: 4, errorsEncountered: 5, aiFixesUsed: 3, fixesPerError: 0.6 });
+    expect(report.buckets[1]).toMatchObject({ errorsEncountered: 0, fixesPerError: null });
+  });
+
+  it('should build a session duration histogram', async () => {
+    const histogram = await reports.sessionDurations(range, 60000);
+
+    expect(histogram).toEqual({
+      binSize: 60000,
+      total: 4,
+      bins: [
+        { from: 0, to: 60000, count: 1 },
+        { from: 60000, to: 120000, count: 2 },
+        { from: 360000, to: 420000, count: 1 }
+      ],
+      suppressedGroups: 0
+    });
+  });
+
+  it('should filter by project type', async () => {
+    const report = await reports.completionTimes({ ...range, projectType: 'microservice' });
+
+    expect(report.overall).toEqual({ count: 1, median: 10000, p95: 10000 });
+  });
+
+  it('should return empty reports for ranges without entries', async () => {
+    const empty = { ...range, from: new Date('2025-01-01T00:00:00Z'), to: new Date('2025-01-02T00:00:00Z') };
+
+    expect(await reports.completionTimes(empty)).toEqual({ overall: null, buckets: [], suppressedGroups: 0 });
+    expect((await reports.errorFixRatios(empty)).overall).toBeNull();
+  });
+
+  describe('with a minimum group size', () => {
+    const protectedReports = new AnalyticsReportService(2);
+
+    beforeEach(async () => {
+      await Analytics.create(entry({ timestamp: '2026-03-01T11:00:00Z', user: 'b', framework: 'express', timeToComplete: 4000 }));
+    });
+
+    it('should leave out groups with fewer distinct users', async () => {
+      const stacks = await protectedReports.stackPopularity(range, 'framework');
+
+      expect(stacks.buckets).toEqual([{
+        bucket: new Date('2026-03-01T00:00:00Z'),
+        total: 3,
+        stacks: [{ value: 'express', count: 3, share: 100 }]
+      }]);
+      // fastify on both days
+      expect(stacks.suppressedGroups).toBe(2);
+    });
+
+    it('should suppress every kind of report group', async () => {
+      const times = await protectedReports.completionTimes(range);
+      const coverage = await protectedReports.coverageByFramework(range);
+      const errorFixes = await protectedReports.errorFixRatios(range);
+      const sessions = await protectedReports.sessionDurations(range, 60000);
+
+      expect(times.buckets.map(bucket => bucket.bucket)).toEqual([new Date('2026-03-01T00:00:00Z')]);
+      expect(times.suppressedGroups).toBe(1);
+      expect(coverage.frameworks.map(framework => framework.framework)).toEqual(['express']);
+      expect(errorFixes.buckets).toHaveLength(1);
+      expect(sessions.bins).toEqual([{ from: 60000, to: 120000, count: 3 }]);
+      expect(sessions.total).toBe(3);
+    });
+
+    it('should compute totals from the reported groups only', async () => {
+      const times = await protectedReports.completionTimes(range);
+      const coverage = await protectedReports.coverageByFramework(range);
+      const errorFixes = await protectedReports.errorFixRatios(range);
+
+      // The second day has a single user
+      expect(times.overall).toEqual({ count: 4, median: 2000, p95: 4000 });
+      expect(coverage.frameworks[0]).toMatchObject({ framework: 'express', count: 3 });
+      expect(errorFixes.overall).toEqual({ entries: 4, errorsEncountered: 5, aiFixesUsed: 3, fixesPerError: 0.6 });
+    });
+
+    it('should suppress the overall figures of ranges with too few users', async () => {
+      const report = await protectedReports.errorFixRatios({ ...range, projectType: 'microservice' });
+
+      expect(report).toEqual({ overall: null, buckets: [], suppressedGroups: 1 });
+    });
+
+    it('should not count a user twice across a key rotation', async () => {
+      const rotated = { ...range, from: new Date('2026-03-05T00:00:00Z'), to: new Date('2026-03-06T00:00:00Z') };
+      await Analytics.create([
+        entry({ timestamp: '2026-03-05T08:00:00Z', user: 'c', hashKeyVersion: 1 }),
+        entry({ timestamp: '2026-03-05T09:00:00Z', user: 'd', hashKeyVersion: 2 })
+      ]);
+
+      const report = await protectedReports.stackPopularity(rotated, 'framework');
+
+      expect(report).toEqual({ buckets: [], suppressedGroups: 1 });
+    });
+  });
+});
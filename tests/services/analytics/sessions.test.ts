@@ -0,0 +1,210 @@
+import { SessionTracker } from '../../../src/services/analytics/sessions';
+import { PerformanceSampler } from '../../../src/services/analytics/performance';
+import { GenerationEventBus } from '../../../src/services/generation/events';
+import { Analytics } from '../../../src/models/Analytics';
+import { Project } from '../../../src/models/Project';
+
+jest.mock('../../../src/models/Analytics');
+jest.mock('../../../src/models/Project');
+
+const mockAnalytics = jest.mocked(Analytics);
+const mockProject = jest.mocked(Project);
+
+describe('SessionTracker', () => {
+  const projectId = '507f1f77bcf86cd799439012';
+  const timeout = 60000;
+  let events: GenerationEventBus;
+  let sampler: jest.Mocked<PerformanceSampler>;
+  let tracker: SessionTracker;
+  let save: jest.Mock;
+
+  const project = {
+    _id: projectId,
+    userId: { toString: () => '507f1f77bcf86cd799439011' },
+    techStack: { language: 'TypeScript', framework: 'Express', database: 'MongoDB', additionalTools: ['jest'] },
+    requirements: { dataModels: [], apiEndpoints: [{ path: '/items', method: 'GET', description: 'List items' }] },
+    analytics: {
+      generationTime: 42000,
+      linesOfCode: 800,
+      testCoverage: 85,
+      filesGenerated: 12,
+      aiFixesUsed: 3,
+      testRunsExecuted: 7
+    }
+  };
+
+  const status = (next: 'generating' | 'completed' | 'error', previousStatus = 'planning') =>
+    events.emit('generation:status', { projectId, status: next, previousStatus: previousStatus as any, timestamp: new Date() });
+
+  const writtenEntry = () => mockAnalytics.createAnonymizedEntry.mock.calls[0][0];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    events = new GenerationEventBus();
+    sampler = {
+      monitor: jest.fn(),
+      recordQuery: jest.fn(),
+      sample: jest.fn().mockReturnValue({ memoryUsage: 120, cpuUsagePercent: 20, databaseQueryTime: 4 })
+    } as unknown as jest.Mocked<PerformanceSampler>;
+    tracker = new SessionTracker({ timeout, sampleInterval: 1000 }, events, sampler);
+
+    save = jest.fn().mockImplementation(function(this: unknown) { return Promise.resolve(this); });
+    mockAnalytics.createAnonymizedEntry.mockImplementation(() => ({ save }) as any);
+    mockProject.findById.mockResolvedValue(project as any);
+  });
+
+  afterEach(() => {
+    tracker.stop();
+  });
+
+  it('should ignore activity until started', async () => {
+    tracker.record(projectId, 'manualEdits');
+    tracker.touch(projectId, { ip: '203.0.113.7' }, 25);
+
+    tracker.start();
+    await tracker.closeIdle(Date.now() + timeout);
+
+    expect(mockAnalytics.createAnonymizedEntry).not.toHaveBeenCalled();
+  });
+
+  it('should write one entry with the session counts when generation completes', async () => {
+    tracker.start();
+    tracker.touch(projectId, { ip: '203.0.113.7', userAgent: 'Mozilla/5.0' }, 30);
+    tracker.touch(projectId, {}, 50);
+    tracker.record(projectId, 'chatMessages');
+    tracker.record(projectId, 'aiFixesUsed');
+    tracker.record(projectId, 'manualEdits');
+    tracker.record(projectId, 'manualEdits');
+    tracker.record(projectId, 'documentationViews');
+    tracker.recordTestRun(projectId, { status: 'failed' });
+    tracker.recordTestRun(projectId, { status: 'passed' });
+
+    status('generating');
+    events.emit('generation:error', { projectId, message: 'AI service unavailable', timestamp: new Date() });
+    status('completed', 'generating');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(mockAnalytics.createAnonymizedEntry).toHaveBeenCalledTimes(1);
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(writtenEntry()).toMatchObject({
+      userId: '507f1f77bcf86cd799439011',
+      ip: '203.0.113.7',
+      userAgent: 'Mozilla/5.0',
+      projectType: 'api',
+      techStackUsed: { language: 'TypeScript', framework: 'Express', database: 'MongoDB', additionalTools: ['jest'] },
+      generationMetrics: {
+        timeToComplete: 42000,
+        linesOfCode: 800,
+        testCoverage: 85,
+        filesGenerated: 12,
+        errorsEncountered: 2,
+        aiFixesUsed: 1
+      },
+      userInteractions: {
+        chatMessages: 1,
+        aiFixesUsed: 1,
+        manualEdits: 2,
+        testRunsExecuted: 2,
+        documentationViews: 1
+      },
+      performanceMetrics: {
+        averageResponseTime: 40,
+        peakMemoryUsage: 120,
+        cpuUsagePercent: 20,
+        databaseQueryTime: 4
+      }
+    });
+    expect(writtenEntry().sessionDuration).toBeGreaterThanOrEqual(0);
+
+    // A new session starts afterwards
+    await tracker.close(projectId, true);
+    expect(mockAnalytics.createAnonymizedEntry).toHaveBeenCalledTimes(1);
+  });
+
+  it('should count test-first runs, except the failing tests written first', async () => {
+    tracker.start();
+    const tests = (phase: 'tests' | 'implementation' | 'fix', testStatus: 'passed' | 'failed') => events.emit('generation:tests', {
+      projectId,
+      component: 'Item model',
+      phase,
+      attempt: 0,
+      status: testStatus,
+      summary: { total: 2, passed: 0, failed: 2, skipped: 0 },
+      timestamp: new Date()
+    });
+
+    status('generating');
+    tests('tests', 'failed');
+    tests('implementation', 'failed');
+    tests('fix', 'passed');
+    status('completed', 'generating');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(writtenEntry().userInteractions.testRunsExecuted).toBe(3);
+    expect(writtenEntry().generationMetrics.errorsEncountered).toBe(1);
+  });
+
+  it('should close idle sessions with interactions and drop the others', async () => {
+    const otherProjectId = '507f1f77bcf86cd799439013';
+    tracker.start();
+    tracker.touch(projectId, { ip: '203.0.113.7' }, 10);
+    tracker.record(projectId, 'manualEdits');
+    tracker.touch(otherProjectId, {}, 10);
+
+    await tracker.closeIdle(Date.now() + timeout - 1000);
+    expect(mockAnalytics.createAnonymizedEntry).not.toHaveBeenCalled();
+
+    await tracker.closeIdle(Date.now() + timeout);
+
+    expect(mockAnalytics.createAnonymizedEntry).toHaveBeenCalledTimes(1);
+    expect(mockProject.findById).toHaveBeenCalledWith(projectId);
+    expect(writtenEntry().userInteractions.manualEdits).toBe(1);
+    // Neither the project's generation time nor its lifetime fixes belong to this session
+    expect(writtenEntry().generationMetrics).toMatchObject({ timeToComplete: 0, aiFixesUsed: 0 });
+    // Idle time does not count towards the session
+    expect(writtenEntry().sessionDuration).toBeLessThan(timeout);
+    expect(await tracker.close(otherProjectId, false)).toBeNull();
+  });
+
+  it('should keep generating sessions open past the timeout', async () => {
+    tracker.start();
+    tracker.record(projectId, 'chatMessages');
+    status('generating');
+
+    await tracker.closeIdle(Date.now() + timeout * 10);
+
+    expect(mockAnalytics.createAnonymizedEntry).not.toHaveBeenCalled();
+  });
+
+  it('should not write entries for deleted projects', async () => {
+    mockProject.findById.mockResolvedValue(null);
+    tracker.start();
+    tracker.record(projectId, 'manualEdits');
+
+    expect(await tracker.close(projectId, false)).toBeNull();
+    expect(mockAnalytics.createAnonymizedEntry).not.toHaveBeenCalled();
+  });
+
+  it('should report failed writes without throwing', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    save.mockRejectedValue(new Error('Invalid anonymized user hash format'));
+    tracker.start();
+    tracker.record(projectId, 'manualEdits');
+
+    expect(await tracker.close(projectId, false)).toBeNull();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('should monitor the database client and stop following events when stopped', async () => {
+    const client = {} as any;
+    tracker.start(client);
+    expect(sampler.monitor).toHaveBeenCalledWith(client);
+
+    tracker.stop();
+    status('completed', 'generating');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(mockProject.findById).not.toHaveBeenCalled();
+  });
+});
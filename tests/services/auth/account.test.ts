@@ -0,0 +1,172 @@
+import { AccountService } from '../../../src/services/auth/account';
+import { sessionService } from '../../../src/services/auth/sessions';
+import { User } from '../../../src/models/User';
+import { AccountToken } from '../../../src/models/AccountToken';
+
+jest.mock('../../../src/models/User');
+jest.mock('../../../src/models/AccountToken');
+jest.mock('../../../src/services/auth/sessions');
+
+const mockUser = jest.mocked(User);
+const mockAccountToken = jest.mocked(AccountToken);
+const mockSessionService = jest.mocked(sessionService);
+
+describe('AccountService', () => {
+  const userId = '507f1f77bcf86cd799439011';
+  const email = 'account@example.com';
+  let mailer: { send: jest.Mock };
+  let accounts: AccountService;
+
+  const sentToken = (): string => {
+    const text: string = mailer.send.mock.calls[0][0].text;
+    return text.match(/token=([a-f0-9]+)/)![1];
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.FRONTEND_URL = 'https://app.example.com/';
+    mailer = { send: jest.fn().mockResolvedValue(undefined) };
+    accounts = new AccountService(mailer);
+    mockAccountToken.hashToken.mockImplementation((token: string) => `hash:${token}`);
+  });
+
+  afterEach(() => {
+    delete process.env.FRONTEND_URL;
+  });
+
+  describe('sendVerificationEmail', () => {
+    it('should store a hashed token and email a verification link', async () => {
+      await accounts.sendVerificationEmail({ _id: userId, email } as any);
+
+      const token = sentToken();
+      expect(mailer.send).toHaveBeenCalledWith({
+        to: email,
+        subject: 'Verify your email address',
+        text: expect.stringContaining(`https://app.example.com/verify-email?token=${token}`)
+      });
+      expect(mockAccountToken.create).toHaveBeenCalledWith({
+        userId,
+        purpose: 'email_verification',
+        tokenHash: `hash:${token}`,
+        expiresAt: expect.any(Date)
+      });
+    });
+
+    it('should invalidate earlier tokens for the same purpose', async () => {
+      await accounts.sendVerificationEmail({ _id: userId, email } as any);
+
+      expect(mockAccountToken.updateMany).toHaveBeenCalledWith(
+        { userId, purpose: 'email_verification', usedAt: null },
+        { usedAt: expect.any(Date) }
+      );
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should email a reset link that expires in an hour', async () => {
+      mockUser.findOne.mockResolvedValue({ _id: userId, email } as any);
+      const before = Date.now();
+
+      await accounts.requestPasswordReset(email);
+
+      expect(mailer.send.mock.calls[0][0].text).toContain('https://app.example.com/reset-password?token=');
+      const { expiresAt } = (mockAccountToken.create as jest.Mock).mock.calls[0][0];
+      expect(expiresAt.getTime() - before).toBeGreaterThanOrEqual(60 * 60 * 1000);
+      expect(expiresAt.getTime() - before).toBeLessThan(61 * 60 * 1000);
+    });
+
+    it('should do nothing for unknown emails', async () => {
+      mockUser.findOne.mockResolvedValue(null);
+
+      await accounts.requestPasswordReset('unknown@example.com');
+
+      expect(mockAccountToken.create).not.toHaveBeenCalled();
+      expect(mailer.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should consume the token, set the password and revoke all sessions', async () => {
+      const user = { passwordHash: 'old', emailVerified: false, save: jest.fn().mockResolvedValue(undefined) } as any;
+      mockAccountToken.findOneAndUpdate.mockResolvedValue({ userId: { toString: () => userId } } as any);
+      mockUser.findById.mockResolvedValue(user);
+
+      const result = await accounts.resetPassword('raw-token', 'NewPassword123');
+
+      expect(result).toBe(true);
+      expect(mockAccountToken.findOneAndUpdate).toHaveBeenCalledWith(
+        { tokenHash: 'hash:raw-token', purpose: 'password_reset', usedAt: null, expiresAt: { $gt: expect.any(Date) } },
+        { usedAt: expect.any(Date) },
+        { new: true }
+      );
+      expect(user.passwordHash).toBe('NewPassword123');
+      expect(user.emailVerified).toBe(true);
+      expect(user.save).toHaveBeenCalled();
+      expect(mockSessionService.revokeAll).toHaveBeenCalledWith(userId);
+    });
+
+    it('should reject invalid, expired or used tokens', async () => {
+      mockAccountToken.findOneAndUpdate.mockResolvedValue(null);
+
+      await expect(accounts.resetPassword('raw-token', 'NewPassword123')).resolves.toBe(false);
+      expect(mockUser.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should set the password and revoke all sessions', async () => {
+      const user = { _id: userId, passwordHash: 'old', save: jest.fn().mockResolvedValue(undefined) } as any;
+
+      await accounts.changePassword(user, 'NewPassword123');
+
+      expect(user.passwordHash).toBe('NewPassword123');
+      expect(user.save).toHaveBeenCalled();
+      expect(mockSessionService.revokeAll).toHaveBeenCalledWith(userId);
+    });
+  });
+
+  describe('changeEmail', () => {
+    it('should mark the new address unverified and invalidate outstanding links', async () => {
+      const user = {
+        _id: userId,
+        email,
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+        save: jest.fn().mockResolvedValue(undefined)
+      } as any;
+
+      await accounts.changeEmail(user, 'new@example.com');
+
+      expect(mockAccountToken.updateMany).toHaveBeenCalledWith(
+        { userId, usedAt: null },
+        { usedAt: expect.any(Date) }
+      );
+      expect(user).toMatchObject({ email: 'new@example.com', emailVerified: false, emailVerifiedAt: undefined });
+      expect(user.save).toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should mark the user as verified', async () => {
+      mockAccountToken.findOneAndUpdate.mockResolvedValue({ userId: { toString: () => userId } } as any);
+      mockUser.updateOne.mockResolvedValue({ matchedCount: 1 } as any);
+
+      await expect(accounts.verifyEmail('raw-token')).resolves.toBe(true);
+      expect(mockUser.updateOne).toHaveBeenCalledWith(
+        { _id: userId },
+        { emailVerified: true, emailVerifiedAt: expect.any(Date) }
+      );
+    });
+
+    it('should reject tokens issued for another purpose', async () => {
+      mockAccountToken.findOneAndUpdate.mockResolvedValue(null);
+
+      await expect(accounts.verifyEmail('raw-token')).resolves.toBe(false);
+      expect(mockAccountToken.findOneAndUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ purpose: 'email_verification' }),
+        expect.anything(),
+        expect.anything()
+      );
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { ApiKeyService } from '../../../src/services/auth/apiKeys';
+import { ApiKey, API_KEY_SCOPES } from '../../../src/models/ApiKey';
+
+jest.mock('../../../src/models/ApiKey', () => ({
+  ...jest.requireActual('../../../src/models/ApiKey'),
+  ApiKey: {
+    create: jest.fn(),
+    find: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    hashKey: jest.fn((key: string) => `hash:${key}`)
+  }
+}));
+
+const mockApiKey = jest.mocked(ApiKey);
+
+describe('ApiKeyService', () => {
+  const userId = '507f1f77bcf86cd799439011';
+  const keyId = '507f1f77bcf86cd799439012';
+  let apiKeys: ApiKeyService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    apiKeys = new ApiKeyService();
+  });
+
+  describe('create', () => {
+    it('should store only the hash and a short prefix of the key', async () => {
+      mockApiKey.create.mockImplementation(async (doc: any) => doc);
+
+      const { key } = await apiKeys.create(userId, { name: 'CI', scopes: ['projects:read'] });
+
+      expect(key).toMatch(/^bfk_[a-f0-9]{48}$/);
+      expect(mockApiKey.create).toHaveBeenCalledWith({
+        userId,
+        name: 'CI',
+        prefix: key.slice(0, 12),
+        keyHash: `hash:${key}`,
+        scopes: ['projects:read'],
+        expiresAt: null
+      });
+    });
+
+    it('should grant every scope by default', async () => {
+      mockApiKey.create.mockImplementation(async (doc: any) => doc);
+
+      await apiKeys.create(userId, { name: 'CI' });
+
+      expect(mockApiKey.create).toHaveBeenCalledWith(expect.objectContaining({ scopes: API_KEY_SCOPES }));
+    });
+
+    it('should generate a different key every time', async () => {
+      mockApiKey.create.mockImplementation(async (doc: any) => doc);
+
+      const first = await apiKeys.create(userId, { name: 'CI' });
+      const second = await apiKeys.create(userId, { name: 'CI' });
+
+      expect(first.key).not.toBe(second.key);
+    });
+  });
+
+  describe('list', () => {
+    it('should list the active keys of the user, newest first', async () => {
+      const sort = jest.fn().mockResolvedValue([]);
+      mockApiKey.find.mockReturnValue({ sort } as any);
+
+      await apiKeys.list(userId);
+
+      expect(mockApiKey.find).toHaveBeenCalledWith({ userId, revokedAt: null });
+      expect(sort).toHaveBeenCalledWith({ createdAt: -1 });
+    });
+  });
+
+  describe('update', () => {
+    it('should rename and rescope an active key of the user', async () => {
+      await apiKeys.update(userId, keyId, { name: 'Deploy', scopes: ['projects:generate'] });
+
+      expect(mockApiKey.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: keyId, userId, revokedAt: null },
+        { name: 'Deploy', scopes: ['projects:generate'] },
+        { new: true, runValidators: true }
+      );
+    });
+  });
+
+  describe('revoke', () => {
+    it('should report whether a key was revoked', async () => {
+      mockApiKey.updateOne.mockResolvedValueOnce({ modifiedCount: 1 } as any);
+      mockApiKey.updateOne.mockResolvedValueOnce({ modifiedCount: 0 } as any);
+
+      await expect(apiKeys.revoke(userId, keyId)).resolves.toBe(true);
+      await expect(apiKeys.revoke(userId, keyId)).resolves.toBe(false);
+      expect(mockApiKey.updateOne).toHaveBeenCalledWith(
+        { _id: keyId, userId, revokedAt: null },
+        { revokedAt: expect.any(Date) }
+      );
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should look up active, unexpired keys by hash and count the use', async () => {
+      await apiKeys.authenticate('bfk_secret');
+
+      expect(mockApiKey.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          keyHash: 'hash:bfk_secret',
+          revokedAt: null,
+          $or: [{ expiresAt: null }, { expiresAt: { $gt: expect.any(Date) } }]
+        },
+        { $inc: { usageCount: 1 }, lastUsedAt: expect.any(Date) },
+        { new: true }
+      );
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import jwt from 'jsonwebtoken';
+import { SessionService, SessionError } from '../../../src/services/auth/sessions';
+import { generateRefreshToken } from '../../../src/middleware/auth';
+import { User } from '../../../src/models/User';
+import { RefreshToken } from '../../../src/models/RefreshToken';
+
+jest.mock('../../../src/models/User');
+jest.mock('../../../src/models/RefreshToken');
+
+const mockUser = jest.mocked(User);
+const mockRefreshToken = jest.mocked(RefreshToken);
+
+describe('SessionService', () => {
+  const userId = '507f1f77bcf86cd799439011';
+  const email = 'session@example.com';
+  let sessions: SessionService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.JWT_SECRET = 'test-jwt-secret';
+    sessions = new SessionService();
+  });
+
+  describe('issue', () => {
+    it('should store a refresh token that starts its own family', async () => {
+      const tokens = await sessions.issue(userId, email);
+
+      const decoded = jwt.verify(tokens.refreshToken, 'test-jwt-secret') as jwt.JwtPayload;
+      expect(decoded.jti).toBeDefined();
+      expect(decoded.family).toBe(decoded.jti);
+      expect(mockRefreshToken.create).toHaveBeenCalledWith({
+        jti: decoded.jti,
+        userId,
+        family: decoded.jti,
+        expiresAt: new Date(decoded.exp! * 1000)
+      });
+    });
+  });
+
+  describe('rotate', () => {
+    const storedToken = (family: string) => ({
+      family,
+      replacedBy: undefined as string | undefined,
+      save: jest.fn().mockResolvedValue(undefined)
+    });
+
+    it('should revoke the presented token and issue a successor in the same family', async () => {
+      const refreshToken = generateRefreshToken(userId, email, { jti: 'jti-1', family: 'family-1' });
+      const stored = storedToken('family-1');
+      mockRefreshToken.findOneAndUpdate.mockResolvedValue(stored as any);
+      mockUser.findById.mockReturnValue({ select: jest.fn().mockResolvedValue({ _id: userId, email }) } as any);
+
+      const tokens = await sessions.rotate(refreshToken);
+
+      expect(mockRefreshToken.findOneAndUpdate).toHaveBeenCalledWith(
+        { jti: 'jti-1', userId, revokedAt: null },
+        { revokedAt: expect.any(Date) },
+        { new: true }
+      );
+      const decoded = jwt.decode(tokens.refreshToken) as jwt.JwtPayload;
+      expect(decoded.family).toBe('family-1');
+      expect(decoded.jti).not.toBe('jti-1');
+      expect(stored.replacedBy).toBe(decoded.jti);
+      expect(stored.save).toHaveBeenCalled();
+    });
+
+    it('should revoke the whole family when a rotated token is reused', async () => {
+      const refreshToken = generateRefreshToken(userId, email, { jti: 'jti-1', family: 'family-1' });
+      mockRefreshToken.findOneAndUpdate.mockResolvedValue(null);
+      mockRefreshToken.findOne.mockResolvedValue({ family: 'family-1' } as any);
+
+      await expect(sessions.rotate(refreshToken)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_REUSED' });
+
+      expect(mockRefreshToken.updateMany).toHaveBeenCalledWith(
+        { family: 'family-1', revokedAt: null },
+        { revokedAt: expect.any(Date) }
+      );
+    });
+
+    it('should reject tokens that were never stored', async () => {
+      const refreshToken = generateRefreshToken(userId, email, { jti: 'unknown', family: 'unknown' });
+      mockRefreshToken.findOneAndUpdate.mockResolvedValue(null);
+      mockRefreshToken.findOne.mockResolvedValue(null);
+
+      await expect(sessions.rotate(refreshToken)).rejects.toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+      expect(mockRefreshToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject refresh tokens without a token id', async () => {
+      const refreshToken = generateRefreshToken(userId, email);
+
+      await expect(sessions.rotate(refreshToken)).rejects.toBeInstanceOf(SessionError);
+      expect(mockRefreshToken.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should reject tokens of deleted users', async () => {
+      const refreshToken = generateRefreshToken(userId, email, { jti: 'jti-1', family: 'family-1' });
+      mockRefreshToken.findOneAndUpdate.mockResolvedValue(storedToken('family-1') as any);
+      mockUser.findById.mockReturnValue({ select: jest.fn().mockResolvedValue(null) } as any);
+
+      await expect(sessions.rotate(refreshToken)).rejects.toMatchObject({ code: 'USER_NOT_FOUND' });
+      expect(mockRefreshToken.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revoke', () => {
+    it('should revoke an active token owned by the user', async () => {
+      const refreshToken = generateRefreshToken(userId, email, { jti: 'jti-1', family: 'family-1' });
+      mockRefreshToken.updateOne.mockResolvedValue({ modifiedCount: 1 } as any);
+
+      await expect(sessions.revoke(refreshToken, userId)).resolves.toBe(true);
+      expect(mockRefreshToken.updateOne).toHaveBeenCalledWith(
+        { jti: 'jti-1', userId, revokedAt: null },
+        { revokedAt: expect.any(Date) }
+      );
+    });
+
+    it('should ignore malformed tokens', async () => {
+      await expect(sessions.revoke('not-a-token', userId)).resolves.toBe(false);
+      expect(mockRefreshToken.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeAll', () => {
+    it('should revoke every active token of the user', async () => {
+      mockRefreshToken.updateMany.mockResolvedValue({ modifiedCount: 3 } as any);
+
+      await expect(sessions.revokeAll(userId)).resolves.toBe(3);
+      expect(mockRefreshToken.updateMany).toHaveBeenCalledWith(
+        { userId, revokedAt: null },
+        { revokedAt: expect.any(Date) }
+      );
+    });
+  });
+});
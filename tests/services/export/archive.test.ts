@@ -0,0 +1,176 @@
+import zlib from 'zlib';
+import mongoose from 'mongoose';
+import { Readable } from 'stream';
+import {
+  buildExportEntries,
+  createProjectArchive,
+  orderFilesByStructure,
+  slugify,
+  MANIFEST_FILE
+} from '../../../src/services/export/archive';
+import { buildDirectoryStructure } from '../../../src/services/generation/files';
+import { Project, IProject, ICodeFile } from '../../../src/models/Project';
+
+describe('Project archive export', () => {
+  const lastModified = new Date('2026-01-01T00:00:00Z');
+
+  const file = (path: string, content = `// ${path}\n`): ICodeFile => ({
+    path,
+    content,
+    language: 'typescript',
+    lastModified
+  });
+
+  const createProject = (files: ICodeFile[]): IProject => {
+    const project = new Project({
+      userId: new mongoose.Types.ObjectId(),
+      name: 'Todo API!',
+      description: 'A todo API',
+      techStack: { language: 'typescript', framework: 'express', database: 'mongodb', additionalTools: ['jest'] },
+      status: 'completed'
+    });
+
+    project.generatedCode.files = files;
+    project.generatedCode.structure = buildDirectoryStructure(files);
+    project.documentation.sections = [
+      { title: 'API Reference', content: 'GET /todos', type: 'api', lastUpdated: lastModified },
+      { title: 'Getting started', content: 'npm install', type: 'guide', lastUpdated: lastModified }
+    ];
+    project.analytics.generationTime = 1200;
+    project.analytics.linesOfCode = 42;
+    project.analytics.filesGenerated = files.length;
+    return project;
+  };
+
+  const readStream = async (stream: Readable): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  };
+
+  // Names of the regular files in an uncompressed tar stream
+  const tarEntryNames = (tar: Buffer): string[] => {
+    const names: string[] = [];
+    let offset = 0;
+
+    while (offset + 512 <= tar.length && tar[offset] !== 0) {
+      const header = tar.subarray(offset, offset + 512);
+      const name = header.subarray(0, 100).toString('utf8').replace(/\0.*$/s, '');
+      const prefix = header.subarray(345, 500).toString('utf8').replace(/\0.*$/s, '');
+      const size = parseInt(header.subarray(124, 136).toString('utf8').replace(/\0.*$/s, '').trim(), 8) || 0;
+
+      names.push(prefix ? `${prefix}/${name}` : name);
+      offset += 512 + Math.ceil(size / 512) * 512;
+    }
+
+    return names;
+  };
+
+  describe('slugify', () => {
+    it('should produce file-name safe slugs', () => {
+      expect(slugify('Todo API!')).toBe('todo-api');
+      expect(slugify('***')).toBe('project');
+      expect(slugify('***', 'api')).toBe('api');
+    });
+  });
+
+  describe('orderFilesByStructure', () => {
+    it('should follow the directory structure and keep unlisted files', () => {
+      const files = [file('src/b.ts'), file('README.md'), file('src/a.ts')];
+      const structure = buildDirectoryStructure([file('src/b.ts'), file('src/a.ts')]);
+
+      const ordered = orderFilesByStructure(files, structure);
+
+      expect(ordered.map(entry => entry.path)).toEqual(['src/a.ts', 'src/b.ts', 'README.md']);
+    });
+  });
+
+  describe('buildExportEntries', () => {
+    it('should include files, markdown docs and a manifest', () => {
+      const exportedAt = new Date('2026-02-01T00:00:00Z');
+      const project = createProject([file('src/app.ts'), file('package.json', '{}\n')]);
+
+      const entries = buildExportEntries(project, exportedAt);
+
+      expect(entries.map(entry => entry.path)).toEqual([
+        'src/app.ts',
+        'package.json',
+        'docs/api-reference.md',
+        'docs/getting-started.md',
+        MANIFEST_FILE
+      ]);
+      expect(entries[2].content).toBe('# API Reference\n\nGET /todos\n');
+
+      const manifest = JSON.parse(entries[4].content);
+      expect(manifest).toMatchObject({
+        name: 'Todo API!',
+        status: 'completed',
+        techStack: { language: 'typescript', framework: 'express', database: 'mongodb', additionalTools: ['jest'] },
+        generation: { generationTime: 1200, linesOfCode: 42, filesGenerated: 2 },
+        documentation: ['docs/api-reference.md', 'docs/getting-started.md'],
+        exportedAt: exportedAt.toISOString()
+      });
+      expect(manifest.files).toEqual([
+        { path: 'src/app.ts', language: 'typescript', lastModified: lastModified.toISOString() },
+        { path: 'package.json', language: 'typescript', lastModified: lastModified.toISOString() }
+      ]);
+    });
+
+    it('should not overwrite generated files with documentation', () => {
+      const project = createProject([file('docs/api-reference.md', '# Generated\n')]);
+
+      const paths = buildExportEntries(project).map(entry => entry.path);
+
+      expect(paths).toContain('docs/api-reference.md');
+      expect(paths).toContain('docs/api-reference-2.md');
+    });
+
+    it('should not overwrite a generated file with the manifest', () => {
+      const project = createProject([file(MANIFEST_FILE, '{"generated":true}\n')]);
+
+      const entries = buildExportEntries(project);
+      const paths = entries.map(entry => entry.path);
+
+      expect(new Set(paths).size).toBe(paths.length);
+      expect(entries.find(entry => entry.path === MANIFEST_FILE)!.content).toBe('{"generated":true}\n');
+      expect(JSON.parse(entries.find(entry => entry.path === 'backendforge-2.json')!.content)).toHaveProperty('name', 'Todo API!');
+    });
+
+    it('should export the OpenAPI document as JSON', () => {
+      const project = createProject([file('src/app.ts')]);
+      project.documentation.sections.push({ title: 'OpenAPI', content: '{"openapi":"3.1.0"}', type: 'api', lastUpdated: new Date() });
+
+      const entry = buildExportEntries(project).find(candidate => candidate.path === 'docs/openapi.json');
+
+      expect(entry!.content).toBe('{"openapi":"3.1.0"}\n');
+    });
+  });
+
+  describe('createProjectArchive', () => {
+    it('should create a tar.gz archive under a project folder', async () => {
+      const project = createProject([file('src/app.ts')]);
+
+      const archive = await readStream(createProjectArchive(project, 'tar.gz'));
+      const names = tarEntryNames(zlib.gunzipSync(archive));
+
+      expect(names).toEqual([
+        'todo-api/src/app.ts',
+        'todo-api/docs/api-reference.md',
+        'todo-api/docs/getting-started.md',
+        `todo-api/${MANIFEST_FILE}`
+      ]);
+    });
+
+    it('should create a zip archive', async () => {
+      const project = createProject([file('src/app.ts')]);
+
+      const archive = await readStream(createProjectArchive(project, 'zip'));
+
+      expect(archive.subarray(0, 4)).toEqual(Buffer.from([0x50, 0x4b, 0x03, 0x04]));
+      expect(archive.includes('todo-api/src/app.ts')).toBe(true);
+      expect(archive.includes(`todo-api/${MANIFEST_FILE}`)).toBe(true);
+    });
+  });
+});
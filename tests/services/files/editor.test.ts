@@ -0,0 +1,264 @@
+import mongoose from 'mongoose';
+import { ProjectFileService, FileEditError } from '../../../src/services/files/editor';
+import { FileHistoryService } from '../../../src/services/files/history';
+import { GitRepositoryService } from '../../../src/services/git/repository';
+import { Project, IProject } from '../../../src/models/Project';
+
+describe('ProjectFileService', () => {
+  let service: ProjectFileService;
+  let mockHistory: jest.Mocked<FileHistoryService>;
+  let mockRepositories: jest.Mocked<GitRepositoryService>;
+  let project: IProject;
+
+  const author = 'dev@example.com';
+  const fileId = (index = 0) => project.generatedCode.files[index]._id!.toString();
+
+  beforeEach(() => {
+    mockHistory = {
+      record: jest.fn().mockResolvedValue([]),
+      list: jest.fn().mockResolvedValue([]),
+      get: jest.fn().mockResolvedValue(null)
+    } as any;
+    mockRepositories = {
+      commitProject: jest.fn().mockResolvedValue({ commit: 'a'.repeat(40), changed: true })
+    } as any;
+    service = new ProjectFileService(mockHistory, mockRepositories);
+
+    project = new Project({
+      userId: new mongoose.Types.ObjectId(),
+      name: 'Todo API',
+      description: 'A simple todo list backend',
+      techStack: { language: 'typescript', framework: 'express', database: 'mongodb' },
+      status: 'completed',
+      generatedCode: {
+        files: [{ path: 'src/app.ts', content: 'export const app = 1;\n', language: 'typescript' }]
+      }
+    });
+    jest.spyOn(project, 'save').mockResolvedValue(project);
+  });
+
+  describe('createFile', () => {
+    it('should add the file, update the structure and record a revision', async () => {
+      const file = await service.createFile(project, { path: './src/routes/todos.ts', content: 'export {};\n' }, author);
+
+      expect(file.path).toBe('src/routes/todos.ts');
+      expect(file.language).toBe('typescript');
+      expect(project.generatedCode.structure.children![0].children!.map(child => child.name)).toEqual(['routes', 'app.ts']);
+      expect(project.documentation.history.at(-1)).toMatchObject({
+        changeType: 'created',
+        description: 'Created file src/routes/todos.ts',
+        author
+      });
+      expect(mockRepositories.commitProject).toHaveBeenCalledWith(project, {
+        description: 'Created file src/routes/todos.ts',
+        author
+      });
+      expect(project.save).toHaveBeenCalled();
+      expect(mockHistory.record).toHaveBeenCalledWith(project._id.toString(), [{
+        fileId: file._id!.toString(),
+        changeType: 'created',
+        path: 'src/routes/todos.ts',
+        before: null,
+        after: 'export {};\n'
+      }], author);
+    });
+
+    it('should reject paths outside the project', async () => {
+      await expect(service.createFile(project, { path: '../secrets', content: '' }, author))
+        .rejects.toMatchObject({ code: 'INVALID_PATH' });
+    });
+
+    it('should reject existing paths', async () => {
+      await expect(service.createFile(project, { path: 'src/app.ts', content: '' }, author))
+        .rejects.toMatchObject({ code: 'FILE_EXISTS' });
+    });
+
+    it('should refuse edits while generation is running', async () => {
+      project.status = 'generating';
+
+      await expect(service.createFile(project, { path: 'src/new.ts', content: '' }, author))
+        .rejects.toMatchObject({ code: 'GENERATION_IN_PROGRESS' });
+    });
+  });
+
+  describe('updateFile', () => {
+    it('should replace the content and record the previous version', async () => {
+      const file = await service.updateFile(project, fileId(), 'export const app = 2;\n', author);
+
+      expect(file.content).toBe('export const app = 2;\n');
+      expect(mockHistory.record).toHaveBeenCalledWith(project._id.toString(), [expect.objectContaining({
+        changeType: 'updated',
+        before: 'export const app = 1;\n',
+        after: 'export const app = 2;\n'
+      })], author);
+    });
+
+    it('should recompute the code quality metrics', async () => {
+      await service.updateFile(project, fileId(), 'export const parse = (input: any) => input ?? null;\n', author);
+
+      expect(project.analytics.codeQuality).toMatchObject({ complexity: 2, codeSmells: 1 });
+      expect(project.analytics.codeQuality.maintainability).toBeGreaterThan(0);
+    });
+
+    it('should report unknown files', async () => {
+      const error = await service.updateFile(project, new mongoose.Types.ObjectId().toString(), '', author)
+        .catch(caught => caught);
+
+      expect(error).toBeInstanceOf(FileEditError);
+      expect(error.code).toBe('FILE_NOT_FOUND');
+    });
+
+    it('should still save when the repository commit fails', async () => {
+      mockRepositories.commitProject.mockRejectedValue(new Error('git failed'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await service.updateFile(project, fileId(), 'changed', author);
+
+      expect(project.save).toHaveBeenCalled();
+      expect(mockHistory.record).toHaveBeenCalled();
+    });
+  });
+
+  describe('writeFiles', () => {
+    it('should update and create files as a single change', async () => {
+      const changes = await service.writeFiles(project, [
+        { path: 'src/app.ts', content: 'export const app = 2;\n' },
+        { path: 'src/routes/todos.ts', content: 'export {};\n' }
+      ], author, 'Applied AI fix: app crashes');
+
+      expect(changes.map(change => [change.changeType, change.path])).toEqual([
+        ['updated', 'src/app.ts'],
+        ['created', 'src/routes/todos.ts']
+      ]);
+      expect(project.generatedCode.files.map(file => file.path)).toEqual(['src/app.ts', 'src/routes/todos.ts']);
+      expect(project.documentation.history).toHaveLength(1);
+      expect(project.documentation.history[0]).toMatchObject({
+        changeType: 'updated',
+        description: 'Applied AI fix: app crashes'
+      });
+      expect(mockRepositories.commitProject).toHaveBeenCalledTimes(1);
+      expect(mockHistory.record).toHaveBeenCalledWith(project._id.toString(), changes, author);
+    });
+
+    it('should skip unchanged files and not save when nothing changed', async () => {
+      const changes = await service.writeFiles(project, [
+        { path: 'src/app.ts', content: 'export const app = 1;\n' }
+      ], author, 'No-op');
+
+      expect(changes).toEqual([]);
+      expect(project.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renameFile', () => {
+    it('should move the file and keep its id', async () => {
+      const id = fileId();
+
+      const file = await service.renameFile(project, id, 'src/server.js', author);
+
+      expect(file._id!.toString()).toBe(id);
+      expect(file.path).toBe('src/server.js');
+      expect(file.language).toBe('javascript');
+      expect(project.generatedCode.structure.children![0].children!.map(child => child.name)).toEqual(['server.js']);
+      expect(mockHistory.record).toHaveBeenCalledWith(project._id.toString(), [expect.objectContaining({
+        changeType: 'renamed',
+        path: 'src/server.js',
+        previousPath: 'src/app.ts'
+      })], author);
+      expect(project.documentation.history.at(-1)!.description).toBe('Renamed file src/app.ts to src/server.js');
+    });
+
+    it('should do nothing when the path is unchanged', async () => {
+      await service.renameFile(project, fileId(), 'src/app.ts', author);
+
+      expect(project.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteFile', () => {
+    it('should remove the file and record a deletion', async () => {
+      const id = fileId();
+
+      await service.deleteFile(project, id, author);
+
+      expect(project.generatedCode.files).toHaveLength(0);
+      expect(project.generatedCode.structure.children).toEqual([]);
+      expect(project.documentation.history.at(-1)!.changeType).toBe('deleted');
+      expect(mockHistory.record).toHaveBeenCalledWith(project._id.toString(), [expect.objectContaining({
+        fileId: id,
+        changeType: 'deleted',
+        after: null
+      })], author);
+    });
+
+    it('should save the deletion as a $pull that leaves the other files alone', async () => {
+      const stored = Project.hydrate(project.toObject());
+      stored.generatedCode.files.push({ path: 'src/todos.ts', content: 'export {};\n', language: 'typescript', lastModified: new Date() });
+      const loaded = Project.hydrate(stored.toObject());
+      jest.spyOn(loaded, 'save').mockResolvedValue(loaded);
+      const id = loaded.generatedCode.files[0]._id!.toString();
+
+      await service.deleteFile(loaded, id, author);
+
+      const changes = loaded.getChanges();
+      expect(changes.$pull).toHaveProperty(['generatedCode.files']);
+      expect(changes.$set).not.toHaveProperty(['generatedCode.files']);
+      expect(loaded.generatedCode.files.map(file => file.path)).toEqual(['src/todos.ts']);
+    });
+  });
+
+  describe('restoreRevision', () => {
+    it('should restore old content of an existing file', async () => {
+      mockHistory.get.mockResolvedValue({ changeType: 'created', path: 'src/app.ts', content: 'original\n' } as any);
+
+      const file = await service.restoreRevision(project, fileId(), 1, author);
+
+      expect(file.content).toBe('original\n');
+      expect(project.documentation.history.at(-1)!.description).toBe('Restored src/app.ts to revision 1');
+      expect(mockHistory.record).toHaveBeenCalledWith(project._id.toString(), [expect.objectContaining({
+        changeType: 'restored',
+        before: 'export const app = 1;\n',
+        after: 'original\n'
+      })], author);
+    });
+
+    it('should recreate a deleted file with its original id', async () => {
+      const id = fileId();
+      await service.deleteFile(project, id, author);
+      mockHistory.get.mockResolvedValue({
+        changeType: 'updated',
+        fileId: new mongoose.Types.ObjectId(id),
+        path: 'src/app.ts',
+        content: 'restored\n'
+      } as any);
+
+      const file = await service.restoreRevision(project, id, 2, author);
+
+      expect(file._id!.toString()).toBe(id);
+      expect(project.generatedCode.files.map(candidate => candidate.path)).toEqual(['src/app.ts']);
+    });
+
+    it('should not restore a deletion', async () => {
+      mockHistory.get.mockResolvedValue({ changeType: 'deleted', path: 'src/app.ts', content: '' } as any);
+
+      await expect(service.restoreRevision(project, fileId(), 3, author))
+        .rejects.toMatchObject({ code: 'REVISION_NOT_RESTORABLE' });
+    });
+
+    it('should report unknown revisions', async () => {
+      await expect(service.restoreRevision(project, fileId(), 9, author))
+        .rejects.toMatchObject({ code: 'REVISION_NOT_FOUND' });
+    });
+  });
+
+  describe('listRevisions', () => {
+    it('should report unknown files without revisions', async () => {
+      await expect(service.listRevisions(project, new mongoose.Types.ObjectId().toString()))
+        .rejects.toMatchObject({ code: 'FILE_NOT_FOUND' });
+    });
+
+    it('should return an empty list for files never edited', async () => {
+      expect(await service.listRevisions(project, fileId())).toEqual([]);
+    });
+  });
+});
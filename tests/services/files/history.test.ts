@@ -0,0 +1,191 @@
+import mongoose from 'mongoose';
+import { FileHistoryService, createUnifiedDiff, trackFileChanges } from '../../../src/services/files/history';
+import { FileRevision } from '../../../src/models/FileRevision';
+import { ICodeFile } from '../../../src/models/Project';
+
+jest.mock('../../../src/models/FileRevision');
+
+const mockFileRevision = jest.mocked(FileRevision);
+
+describe('file history', () => {
+  const projectId = '507f1f77bcf86cd799439012';
+  const fileId = '507f1f77bcf86cd799439013';
+
+  const codeFile = (path: string, content: string, id?: mongoose.Types.ObjectId): ICodeFile => ({
+    ...(id && { _id: id }),
+    path,
+    content,
+    language: 'typescript',
+    lastModified: new Date()
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFileRevision.create.mockImplementation(async (data: any) => data);
+  });
+
+  describe('createUnifiedDiff', () => {
+    it('should diff two versions of a file', () => {
+      const diff = createUnifiedDiff({ path: 'src/app.ts', before: 'a\nb\n', after: 'a\nc\n' });
+
+      expect(diff).toBe([
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -1,2 +1,2 @@',
+        ' a',
+        '-b',
+        '+c',
+        ''
+      ].join('\n'));
+    });
+
+    it('should diff creations against /dev/null', () => {
+      const diff = createUnifiedDiff({ path: 'src/app.ts', before: null, after: 'a\n' });
+
+      expect(diff).toContain('--- /dev/null\n+++ b/src/app.ts');
+      expect(diff).toContain('+a');
+    });
+
+    it('should use the previous path for renames', () => {
+      const diff = createUnifiedDiff({ path: 'src/new.ts', previousPath: 'src/old.ts', before: 'a\n', after: 'a\n' });
+
+      expect(diff).toBe('--- a/src/old.ts\n+++ b/src/new.ts\n');
+    });
+  });
+
+  describe('trackFileChanges', () => {
+    it('should keep ids of files whose path is unchanged', () => {
+      const id = new mongoose.Types.ObjectId();
+      const next = [codeFile('src/app.ts', 'new'), codeFile('src/extra.ts', 'extra')];
+
+      const changes = trackFileChanges([codeFile('src/app.ts', 'old', id)], next);
+
+      expect(next[0]._id).toBe(id);
+      expect(next[1]._id).toBeInstanceOf(mongoose.Types.ObjectId);
+      expect(changes).toEqual([
+        { fileId: id.toString(), changeType: 'updated', path: 'src/app.ts', before: 'old', after: 'new' },
+        { fileId: next[1]._id!.toString(), changeType: 'created', path: 'src/extra.ts', before: null, after: 'extra' }
+      ]);
+    });
+
+    it('should skip unchanged files and report removed ones', () => {
+      const keptId = new mongoose.Types.ObjectId();
+      const removedId = new mongoose.Types.ObjectId();
+
+      const changes = trackFileChanges(
+        [codeFile('src/app.ts', 'same', keptId), codeFile('src/old.ts', 'gone', removedId)],
+        [codeFile('src/app.ts', 'same')]
+      );
+
+      expect(changes).toEqual([
+        { fileId: removedId.toString(), changeType: 'deleted', path: 'src/old.ts', before: 'gone', after: null }
+      ]);
+    });
+  });
+
+  describe('FileHistoryService.record', () => {
+    const service = new FileHistoryService();
+
+    it('should number revisions after the latest one', async () => {
+      mockFileRevision.findLatest.mockResolvedValue({ revision: 3 } as any);
+
+      const [revision] = await service.record(projectId, [
+        { fileId, changeType: 'updated', path: 'src/app.ts', before: 'a\n', after: 'b\n' }
+      ], 'dev@example.com');
+
+      expect(mockFileRevision.create).toHaveBeenCalledTimes(1);
+      expect(revision).toMatchObject({
+        projectId,
+        fileId,
+        revision: 4,
+        changeType: 'updated',
+        content: 'b\n',
+        author: 'dev@example.com'
+      });
+    });
+
+    it('should add a baseline revision for files without history', async () => {
+      mockFileRevision.findLatest.mockResolvedValue(null);
+
+      const [revision] = await service.record(projectId, [
+        { fileId, changeType: 'updated', path: 'src/app.ts', before: 'ai output\n', after: 'edited\n' }
+      ], 'dev@example.com');
+
+      expect(mockFileRevision.create).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        revision: 1,
+        changeType: 'created',
+        content: 'ai output\n',
+        author: 'system'
+      }));
+      expect(revision).toMatchObject({ revision: 2, changeType: 'updated' });
+      expect(revision.diff).toContain('-ai output\n+edited');
+    });
+
+    it('should start new files at revision 1', async () => {
+      mockFileRevision.findLatest.mockResolvedValue(null);
+
+      const [revision] = await service.record(projectId, [
+        { fileId, changeType: 'created', path: 'src/app.ts', before: null, after: 'a\n' }
+      ], 'dev@example.com');
+
+      expect(mockFileRevision.create).toHaveBeenCalledTimes(1);
+      expect(revision).toMatchObject({ revision: 1, changeType: 'created' });
+    });
+
+    it('should number the revision again when a concurrent edit took it', async () => {
+      const duplicate = Object.assign(new Error('E11000 duplicate key error'), { name: 'MongoServerError', code: 11000 });
+      mockFileRevision.findLatest
+        .mockResolvedValueOnce({ revision: 3 } as any)
+        .mockResolvedValueOnce({ revision: 4 } as any);
+      mockFileRevision.create.mockRejectedValueOnce(duplicate);
+
+      const [revision] = await service.record(projectId, [
+        { fileId, changeType: 'updated', path: 'src/app.ts', before: 'a\n', after: 'b\n' }
+      ], 'dev@example.com');
+
+      expect(mockFileRevision.create).toHaveBeenCalledTimes(2);
+      expect(revision).toMatchObject({ revision: 5, content: 'b\n' });
+    });
+
+    it('should not record a baseline twice when a concurrent edit wrote it first', async () => {
+      const duplicate = Object.assign(new Error('E11000 duplicate key error'), { name: 'MongoServerError', code: 11000 });
+      mockFileRevision.findLatest
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ revision: 2 } as any);
+      mockFileRevision.create.mockRejectedValueOnce(duplicate);
+
+      const [revision] = await service.record(projectId, [
+        { fileId, changeType: 'updated', path: 'src/app.ts', before: 'a\n', after: 'b\n' }
+      ], 'dev@example.com');
+
+      expect(mockFileRevision.create).toHaveBeenCalledTimes(2);
+      expect(mockFileRevision.create).toHaveBeenLastCalledWith(expect.objectContaining({ revision: 3, changeType: 'updated' }));
+      expect(revision).toMatchObject({ revision: 3 });
+    });
+
+    it('should give up after repeated conflicts and pass other errors on', async () => {
+      const duplicate = Object.assign(new Error('E11000 duplicate key error'), { name: 'MongoServerError', code: 11000 });
+      mockFileRevision.findLatest.mockResolvedValue({ revision: 1 } as any);
+      mockFileRevision.create.mockRejectedValue(duplicate);
+      const change = { fileId, changeType: 'updated' as const, path: 'src/app.ts', before: 'a\n', after: 'b\n' };
+
+      await expect(service.record(projectId, [change], 'dev@example.com')).rejects.toBe(duplicate);
+      expect(mockFileRevision.create).toHaveBeenCalledTimes(5);
+
+      mockFileRevision.create.mockClear().mockRejectedValue(new Error('connection lost'));
+      await expect(service.record(projectId, [change], 'dev@example.com')).rejects.toThrow('connection lost');
+      expect(mockFileRevision.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should store empty content for deletions', async () => {
+      mockFileRevision.findLatest.mockResolvedValue({ revision: 1 } as any);
+
+      const [revision] = await service.record(projectId, [
+        { fileId, changeType: 'deleted', path: 'src/app.ts', before: 'a\n', after: null }
+      ], 'dev@example.com');
+
+      expect(revision).toMatchObject({ revision: 2, content: '' });
+      expect(revision.diff).toContain('+++ /dev/null');
+    });
+  });
+});
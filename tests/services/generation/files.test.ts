@@ -0,0 +1,67 @@
+import {
+  detectLanguage,
+  mergeCodeFiles,
+  buildDirectoryStructure,
+  countLinesOfCode
+} from '../../../src/services/generation/files';
+
+describe('Generation file utilities', () => {
+  describe('detectLanguage', () => {
+    it('should detect languages from file extensions', () => {
+      expect(detectLanguage('src/app.ts')).toBe('typescript');
+      expect(detectLanguage('index.js')).toBe('javascript');
+      expect(detectLanguage('main.py')).toBe('python');
+      expect(detectLanguage('package.json')).toBe('json');
+      expect(detectLanguage('Dockerfile')).toBe('dockerfile');
+    });
+
+    it('should fall back to plaintext for unknown extensions', () => {
+      expect(detectLanguage('LICENSE')).toBe('plaintext');
+      expect(detectLanguage('data.xyz')).toBe('plaintext');
+    });
+  });
+
+  describe('mergeCodeFiles', () => {
+    it('should let later files replace earlier files with the same path', () => {
+      const first = { path: 'a.ts', content: 'one', language: 'typescript', lastModified: new Date() };
+      const second = { path: 'a.ts', content: 'two', language: 'typescript', lastModified: new Date() };
+      const third = { path: 'b.ts', content: 'three', language: 'typescript', lastModified: new Date() };
+
+      const merged = mergeCodeFiles([first], [second, third]);
+
+      expect(merged).toHaveLength(2);
+      expect(merged.find(file => file.path === 'a.ts')?.content).toBe('two');
+    });
+  });
+
+  describe('buildDirectoryStructure', () => {
+    it('should build a nested tree with directories first', () => {
+      const structure = buildDirectoryStructure([
+        { path: 'src/routes/users.ts' },
+        { path: 'package.json' },
+        { path: 'src/app.ts' }
+      ]);
+
+      expect(structure).toMatchObject({ name: 'root', type: 'directory', path: '/' });
+      expect(structure.children!.map(child => child.name)).toEqual(['src', 'package.json']);
+
+      const src = structure.children![0];
+      expect(src.path).toBe('/src');
+      expect(src.children!.map(child => child.name)).toEqual(['routes', 'app.ts']);
+      expect(src.children![0].children![0]).toEqual({
+        name: 'users.ts',
+        type: 'file',
+        path: '/src/routes/users.ts'
+      });
+    });
+  });
+
+  describe('countLinesOfCode', () => {
+    it('should count non-blank lines across files', () => {
+      expect(countLinesOfCode([
+        { content: 'a\n\nb\n' },
+        { content: 'c' }
+      ])).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { TddJournal, diffFiles, summarizeTestRun } from '../../../src/services/generation/journal';
+import { TddIteration } from '../../../src/models/TddIteration';
+import { ICodeFile, ITestRun } from '../../../src/models/Project';
+
+jest.mock('../../../src/models/TddIteration');
+
+const mockTddIteration = jest.mocked(TddIteration);
+
+const codeFile = (path: string, content: string): ICodeFile => ({
+  path,
+  content,
+  language: 'typescript',
+  lastModified: new Date()
+});
+
+describe('TDD journal', () => {
+  const projectId = '507f1f77bcf86cd799439011';
+
+  const failedRun: ITestRun = {
+    status: 'failed',
+    startedAt: new Date(),
+    finishedAt: new Date(),
+    summary: { total: 2, passed: 1, failed: 1, skipped: 0 },
+    tests: [
+      { file: 'tests/todos.test.ts', name: 'todos lists', status: 'passed', duration: 2 },
+      { file: 'tests/todos.test.ts', name: 'todos deletes', status: 'failed', duration: 3, failureMessage: 'Expected 204' }
+    ],
+    output: ''
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('diffFiles', () => {
+    it('should list created and changed files with their diffs', () => {
+      const before = [codeFile('src/app.ts', 'export const app = 1;\n'), codeFile('tests/app.test.ts', 'it();\n')];
+      const after = [
+        codeFile('src/app.ts', 'export const app = 2;\n'),
+        codeFile('tests/app.test.ts', 'it();\n'),
+        codeFile('src/todos.ts', 'export {};\n')
+      ];
+
+      const changes = diffFiles(before, after);
+
+      expect(changes.map(change => [change.changeType, change.path])).toEqual([
+        ['updated', 'src/app.ts'],
+        ['created', 'src/todos.ts']
+      ]);
+      expect(changes[0].content).toBe('export const app = 2;\n');
+      expect(changes[0].diff).toContain('-export const app = 1;\n+export const app = 2;');
+      expect(changes[1].diff).toContain('--- /dev/null');
+    });
+  });
+
+  describe('summarizeTestRun', () => {
+    it('should keep the counts and the failing tests', () => {
+      expect(summarizeTestRun(failedRun)).toEqual({
+        status: 'failed',
+        total: 2,
+        passed: 1,
+        failed: 1,
+        failures: [{ file: 'tests/todos.test.ts', name: 'todos deletes', message: 'Expected 204' }]
+      });
+    });
+
+    it('should keep the reason of runs that could not complete', () => {
+      const summary = summarizeTestRun({ ...failedRun, status: 'error', tests: [], error: 'Tests timed out after 120s' });
+
+      expect(summary).toMatchObject({ status: 'error', failures: [], error: 'Tests timed out after 120s' });
+    });
+  });
+
+  describe('TddJournal', () => {
+    it('should store the changes and test outcome of an iteration', async () => {
+      mockTddIteration.create.mockImplementation(async (data: any) => data);
+      const journal = new TddJournal();
+
+      await journal.record(projectId, {
+        runId: 'run-1',
+        sequence: 2,
+        component: 'Todo model',
+        phase: 'implementation',
+        attempt: 0,
+        before: [codeFile('tests/todos.test.ts', 'it();\n')],
+        after: [codeFile('tests/todos.test.ts', 'it();\n'), codeFile('src/todos.ts', 'export {};\n')],
+        testRun: failedRun
+      });
+
+      expect(mockTddIteration.create).toHaveBeenCalledWith(expect.objectContaining({
+        projectId,
+        runId: 'run-1',
+        sequence: 2,
+        phase: 'implementation',
+        changes: [expect.objectContaining({ path: 'src/todos.ts', changeType: 'created' })],
+        testRun: expect.objectContaining({ status: 'failed', failed: 1 })
+      }));
+    });
+
+    it('should filter iterations by changed file', async () => {
+      const sort = jest.fn().mockResolvedValue([]);
+      mockTddIteration.find.mockReturnValue({ sort } as any);
+
+      await new TddJournal().list(projectId, 'run-1', 'src/todos.ts');
+
+      expect(mockTddIteration.find).toHaveBeenCalledWith({ projectId, runId: 'run-1', 'changes.path': 'src/todos.ts' });
+      expect(sort).toHaveBeenCalledWith({ sequence: 1 });
+    });
+  });
+});
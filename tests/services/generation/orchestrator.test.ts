@@ -0,0 +1,585 @@
+import mongoose from 'mongoose';
+import { GenerationOrchestrator } from '../../../src/services/generation/orchestrator';
+import { AIServiceClient } from '../../../src/services/ai/client';
+import { GenerationTask, AIResponse } from '../../../src/services/ai/types';
+import { Project, IProject, StatusTransitionError } from '../../../src/models/Project';
+import { GenerationEventBus } from '../../../src/services/generation/events';
+import { GitRepositoryService } from '../../../src/services/git/repository';
+import { FileHistoryService } from '../../../src/services/files/history';
+import { TestRunnerService } from '../../../src/services/testing/runner';
+import { TddJournal } from '../../../src/services/generation/journal';
+import { ITestRun } from '../../../src/models/Project';
+
+describe('GenerationOrchestrator', () => {
+  let orchestrator: GenerationOrchestrator;
+  let mockAIService: jest.Mocked<AIServiceClient>;
+  let project: IProject;
+  let events: GenerationEventBus;
+  let mockRepositories: jest.Mocked<GitRepositoryService>;
+  let mockFileHistory: jest.Mocked<FileHistoryService>;
+
+  const createMockAIResponse = (content: string): AIResponse => ({
+    content,
+    usage: {
+      promptTokens: 100,
+      completionTokens: 200,
+      totalTokens: 300
+    },
+    model: 'gpt-4-turbo',
+    finishReason: 'stop'
+  });
+
+  const analysis = {
+    functionality: ['manage todos'],
+    dataModels: [{ name: 'Todo', fields: ['title', 'done'], relationships: [] }],
+    apiEndpoints: [{ method: 'GET', path: '/api/todos', description: 'List todos' }],
+    authentication: { required: false, type: 'JWT' },
+    database: { type: 'NoSQL', reasoning: 'simple documents' },
+    integrations: [],
+    performance: [],
+    security: [],
+    clarificationQuestions: []
+  };
+
+  const recommendations = {
+    recommendations: [
+      {
+        rank: 2,
+        score: 80,
+        language: 'JavaScript',
+        framework: 'Express.js',
+        database: 'MongoDB',
+        additionalTools: []
+      },
+      {
+        rank: 1,
+        score: 95,
+        language: 'TypeScript',
+        framework: 'Express.js',
+        database: 'MongoDB',
+        additionalTools: ['Jest']
+      }
+    ]
+  };
+
+  const codeResponse = (name: string) => [
+    `Implementation for ${name}:`,
+    `\`\`\`typescript path=src/${name}.ts`,
+    `export const ${name} = true;`,
+    '```'
+  ].join('\n');
+
+  const testResponse = (name: string) => [
+    `\`\`\`typescript path=tests/${name}.test.ts`,
+    `it('${name}', () => {});`,
+    '```'
+  ].join('\n');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAIService = {
+      generateWithTemplate: jest.fn(),
+      generate: jest.fn()
+    } as any;
+
+    let componentIndex = 0;
+    mockAIService.generateWithTemplate.mockImplementation(async (task: GenerationTask) => {
+      switch (task) {
+        case GenerationTask.ANALYZE_DESCRIPTION:
+          return createMockAIResponse(JSON.stringify(analysis));
+        case GenerationTask.RECOMMEND_TECH_STACK:
+          return createMockAIResponse(JSON.stringify(recommendations));
+        case GenerationTask.GENERATE_CODE:
+          return createMockAIResponse(codeResponse(`component${++componentIndex}`));
+        case GenerationTask.GENERATE_TESTS:
+          return createMockAIResponse(testResponse(`component${componentIndex}`));
+        default:
+          throw new Error(`Unexpected task ${task}`);
+      }
+    });
+
+    project = new Project({
+      userId: new mongoose.Types.ObjectId(),
+      name: 'Todo API',
+      description: 'A simple todo list backend',
+      techStack: {
+        language: 'typescript',
+        framework: 'express',
+        database: 'mongodb',
+        additionalTools: []
+      }
+    });
+    jest.spyOn(project, 'save').mockResolvedValue(project);
+
+    events = new GenerationEventBus();
+    mockRepositories = {
+      commitProject: jest.fn().mockResolvedValue({ commit: 'a'.repeat(40), changed: true })
+    } as any;
+    mockFileHistory = {
+      record: jest.fn().mockResolvedValue([])
+    } as any;
+    orchestrator = new GenerationOrchestrator(mockAIService, undefined, events, mockRepositories, mockFileHistory);
+  });
+
+  describe('planComponents', () => {
+    it('should plan one component per data model plus routes', () => {
+      const components = orchestrator.planComponents(analysis);
+
+      expect(components.map(component => component.name)).toEqual(['Todo model', 'API routes']);
+    });
+
+    it('should include authentication when required', () => {
+      const components = orchestrator.planComponents({
+        ...analysis,
+        authentication: { required: true, type: 'JWT' }
+      });
+
+      expect(components.map(component => component.name)).toContain('authentication');
+    });
+
+    it('should fall back to a single application component', () => {
+      const components = orchestrator.planComponents({
+        ...analysis,
+        dataModels: [],
+        apiEndpoints: []
+      });
+
+      expect(components).toHaveLength(1);
+      expect(components[0].name).toBe('application');
+    });
+  });
+
+  describe('generateProject', () => {
+    it('should run the full pipeline and store the generated files', async () => {
+      const result = await orchestrator.generateProject(project);
+
+      expect(result.components).toHaveLength(2);
+      expect(result.techStack.language).toBe('TypeScript');
+      expect(project.status).toBe('completed');
+      expect(project.techStack.additionalTools).toEqual(['Jest']);
+      expect(project.generatedCode.files.map(file => file.path)).toEqual([
+        'src/component1.ts',
+        'tests/component1.test.ts',
+        'src/component2.ts',
+        'tests/component2.test.ts'
+      ]);
+      expect(project.generatedCode.structure.children!.map(child => child.name)).toEqual(['src', 'tests']);
+      expect(project.analytics.filesGenerated).toBe(4);
+      expect(project.analytics.linesOfCode).toBe(4);
+      expect(project.analytics.codeQuality.complexity).toBe(1);
+      expect(project.analytics.codeQuality.maintainability).toBeGreaterThan(0);
+      expect(project.analytics.generationTime).toBeGreaterThanOrEqual(0);
+      expect(project.save).toHaveBeenCalledTimes(2);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('should keep the requirements and document the generated API', async () => {
+      mockAIService.generateWithTemplate.mockImplementation(async (task: GenerationTask) => {
+        switch (task) {
+          case GenerationTask.ANALYZE_DESCRIPTION:
+            return createMockAIResponse(JSON.stringify({ ...analysis, functionality: ['todo routes'] }));
+          case GenerationTask.RECOMMEND_TECH_STACK:
+            return createMockAIResponse(JSON.stringify(recommendations));
+          case GenerationTask.GENERATE_CODE:
+            return createMockAIResponse([
+              '```typescript path=src/app.ts',
+              "const app = express();",
+              "app.get('/api/todos', listTodos);",
+              '```'
+            ].join('\n'));
+          default:
+            return createMockAIResponse('No tests');
+        }
+      });
+
+      await orchestrator.generateProject(project);
+
+      expect(project.requirements!.dataModels.map(model => model.name)).toEqual(['Todo']);
+      const section = project.documentation.sections.find(candidate => candidate.type === 'api');
+      const document = JSON.parse(section!.content);
+      expect(document.paths['/api/todos'].get.summary).toBe('List todos');
+      expect(document.components.schemas).toHaveProperty('Todo');
+    });
+
+    it('should commit the generated files to the project repository', async () => {
+      await orchestrator.generateProject(project, { author: 'owner@example.com' });
+
+      expect(mockRepositories.commitProject).toHaveBeenCalledWith(project, expect.objectContaining({
+        description: 'Generated 4 files for 2 components',
+        author: 'owner@example.com'
+      }));
+    });
+
+    it('should record a revision for every generated file', async () => {
+      await orchestrator.generateProject(project, { author: 'owner@example.com' });
+
+      const [projectId, changes, author] = mockFileHistory.record.mock.calls[0];
+      expect(projectId).toBe(project._id.toString());
+      expect(author).toBe('owner@example.com');
+      expect(changes.map(change => [change.changeType, change.path])).toEqual([
+        ['created', 'src/component1.ts'],
+        ['created', 'tests/component1.test.ts'],
+        ['created', 'src/component2.ts'],
+        ['created', 'tests/component2.test.ts']
+      ]);
+      expect(changes[0].fileId).toBe(project.generatedCode.files[0]._id!.toString());
+    });
+
+    it('should keep file ids across regenerations', async () => {
+      mockAIService.generateWithTemplate.mockImplementation(async (task: GenerationTask) => {
+        if (task === GenerationTask.ANALYZE_DESCRIPTION) return createMockAIResponse(JSON.stringify(analysis));
+        if (task === GenerationTask.RECOMMEND_TECH_STACK) return createMockAIResponse(JSON.stringify(recommendations));
+        if (task === GenerationTask.GENERATE_CODE) return createMockAIResponse(codeResponse('todo'));
+        return createMockAIResponse(testResponse('todo'));
+      });
+      await orchestrator.generateProject(project);
+      const firstId = project.generatedCode.files[0]._id!.toString();
+      mockFileHistory.record.mockClear();
+
+      await orchestrator.generateProject(project);
+
+      expect(project.generatedCode.files[0]._id!.toString()).toBe(firstId);
+      expect(mockFileHistory.record.mock.calls[0][1]).toEqual([]);
+    });
+
+    it('should complete with a warning when the repository commit fails', async () => {
+      mockRepositories.commitProject.mockRejectedValue(new Error('git init failed'));
+
+      const result = await orchestrator.generateProject(project);
+
+      expect(project.status).toBe('completed');
+      expect(result.warnings).toEqual(['Failed to commit to project repository: git init failed']);
+    });
+
+    it('should keep complete files and warn when output is truncated', async () => {
+      mockAIService.generateWithTemplate.mockImplementation(async (task: GenerationTask) => {
+        switch (task) {
+          case GenerationTask.ANALYZE_DESCRIPTION:
+            return createMockAIResponse(JSON.stringify({ ...analysis, apiEndpoints: [] }));
+          case GenerationTask.RECOMMEND_TECH_STACK:
+            return createMockAIResponse(JSON.stringify(recommendations));
+          case GenerationTask.GENERATE_CODE:
+            return {
+              ...createMockAIResponse(`${codeResponse('todo')}\n\`\`\`typescript path=src/partial.ts\nexport const`),
+              finishReason: 'length'
+            };
+          default:
+            return createMockAIResponse(testResponse('todo'));
+        }
+      });
+
+      const result = await orchestrator.generateProject(project);
+
+      expect(result.files.map(file => file.path)).toEqual(['src/todo.ts', 'tests/todo.test.ts']);
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings[0]).toContain('src/partial.ts');
+      expect(project.status).toBe('completed');
+    });
+
+    it('should move the project to error when output contains unsafe paths', async () => {
+      mockAIService.generateWithTemplate.mockImplementation(async (task: GenerationTask) => {
+        if (task === GenerationTask.ANALYZE_DESCRIPTION) return createMockAIResponse(JSON.stringify(analysis));
+        if (task === GenerationTask.RECOMMEND_TECH_STACK) return createMockAIResponse(JSON.stringify(recommendations));
+        return createMockAIResponse('```typescript path=../../etc/passwd\nroot\n```');
+      });
+
+      await expect(orchestrator.generateProject(project)).rejects.toThrow('escapes the project root');
+      expect(project.status).toBe('error');
+    });
+
+    it('should emit status, file and usage events', async () => {
+      const statuses: string[] = [];
+      const files: string[] = [];
+      const usageTotals: number[] = [];
+      events.on('generation:status', event => statuses.push(`${event.previousStatus}->${event.status}`));
+      events.on('generation:file', event => files.push(event.path));
+      events.on('generation:usage', event => usageTotals.push(event.totalTokens));
+
+      await orchestrator.generateProject(project);
+
+      expect(statuses).toEqual(['planning->generating', 'generating->completed']);
+      expect(files).toEqual([
+        'src/component1.ts',
+        'tests/component1.test.ts',
+        'src/component2.ts',
+        'tests/component2.test.ts'
+      ]);
+      expect(usageTotals).toEqual([300, 600, 900, 1200]);
+    });
+
+    it('should emit an error event when generation fails', async () => {
+      const errors: string[] = [];
+      events.on('generation:error', event => errors.push(event.message));
+      mockAIService.generateWithTemplate.mockRejectedValue(new Error('API Error'));
+
+      await expect(orchestrator.generateProject(project)).rejects.toThrow();
+
+      expect(errors).toEqual(['Failed to analyze description: API Error']);
+    });
+
+    it('should pass the project tech stack as preferences', async () => {
+      await orchestrator.generateProject(project);
+
+      expect(mockAIService.generateWithTemplate).toHaveBeenCalledWith(
+        GenerationTask.RECOMMEND_TECH_STACK,
+        expect.objectContaining({
+          preferences: JSON.stringify({ language: 'typescript', framework: 'express', database: 'mongodb' })
+        }),
+        expect.anything()
+      );
+    });
+
+    it('should attribute every AI request to the project owner', async () => {
+      await orchestrator.generateProject(project);
+
+      const context = { userId: project.userId.toString(), projectId: project._id.toString() };
+      for (const call of mockAIService.generateWithTemplate.mock.calls) {
+        expect(call[2]).toEqual({ context });
+      }
+      expect(mockAIService.generateWithTemplate).toHaveBeenCalledTimes(6);
+    });
+
+    it('should move the project to error when generation fails', async () => {
+      mockAIService.generateWithTemplate.mockRejectedValue(new Error('API Error'));
+
+      await expect(orchestrator.generateProject(project)).rejects.toThrow('Failed to generate project');
+
+      expect(project.status).toBe('error');
+      expect(project.documentation.history[project.documentation.history.length - 1].description)
+        .toContain('Generation failed');
+    });
+
+    it('should reset the status alone when the project cannot be saved', async () => {
+      jest.mocked(project.save).mockRejectedValue(new Error('write failed'));
+      const updateOne = jest.spyOn(Project, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const statuses: string[] = [];
+      events.on('generation:status', event => statuses.push(event.status));
+
+      try {
+        await expect(orchestrator.generateProject(project)).rejects.toThrow('Failed to generate project: write failed');
+
+        expect(mockAIService.generateWithTemplate).not.toHaveBeenCalled();
+        expect(updateOne).toHaveBeenCalledWith(
+          { _id: project._id, status: 'generating' },
+          expect.objectContaining({ $set: { status: 'error' } })
+        );
+        expect(statuses).toEqual(['error']);
+      } finally {
+        updateOne.mockRestore();
+        consoleSpy.mockRestore();
+      }
+    });
+
+    it('should leave a status changed during generation alone', async () => {
+      jest.mocked(project.save)
+        .mockResolvedValueOnce(project)
+        .mockRejectedValue(new StatusTransitionError('paused', 'completed'));
+      const updateOne = jest.spyOn(Project, 'updateOne');
+
+      try {
+        await expect(orchestrator.generateProject(project)).rejects.toThrow('Cannot change project status from paused to completed');
+
+        expect(updateOne).not.toHaveBeenCalled();
+      } finally {
+        updateOne.mockRestore();
+      }
+    });
+
+    it('should fail when no files are produced', async () => {
+      mockAIService.generateWithTemplate.mockImplementation(async (task: GenerationTask) => {
+        if (task === GenerationTask.ANALYZE_DESCRIPTION) return createMockAIResponse(JSON.stringify(analysis));
+        if (task === GenerationTask.RECOMMEND_TECH_STACK) return createMockAIResponse(JSON.stringify(recommendations));
+        return createMockAIResponse('Sorry, I cannot help with that.');
+      });
+
+      await expect(orchestrator.generateProject(project)).rejects.toThrow('AI service returned no files');
+      expect(project.status).toBe('error');
+    });
+  });
+
+  describe('generateProject in TDD mode', () => {
+    let mockRunner: jest.Mocked<TestRunnerService>;
+    let mockJournal: jest.Mocked<TddJournal>;
+    const workspace = { runDir: '/tmp/backendforge-run-tdd', installedFrom: null };
+
+    const testRun = (status: ITestRun['status'], failed = 0): ITestRun => ({
+      status,
+      startedAt: new Date(),
+      finishedAt: new Date(),
+      summary: { total: 1, passed: 1 - failed, failed, skipped: 0 },
+      tests: [{
+        file: 'tests/routes.test.ts',
+        name: 'routes list todos',
+        status: failed ? 'failed' : 'passed',
+        duration: 3,
+        ...(failed && { failureMessage: 'Expected 200, received 404' })
+      }],
+      ...(status !== 'error' && { coverage: { lines: 80, statements: 80, functions: 100, branches: 50 } }),
+      output: ''
+    });
+
+    beforeEach(() => {
+      mockAIService.generateWithTemplate.mockImplementation(async (task: GenerationTask) => {
+        switch (task) {
+          case GenerationTask.ANALYZE_DESCRIPTION:
+            return createMockAIResponse(JSON.stringify({ ...analysis, dataModels: [] }));
+          case GenerationTask.RECOMMEND_TECH_STACK:
+            return createMockAIResponse(JSON.stringify(recommendations));
+          case GenerationTask.WRITE_FAILING_TESTS:
+            return createMockAIResponse(testResponse('routes'));
+          case GenerationTask.IMPLEMENT_TO_PASS:
+            return createMockAIResponse(codeResponse('routes'));
+          case GenerationTask.FIX_ISSUES:
+            return createMockAIResponse([
+              '```typescript path=src/routes.ts',
+              'export const routes = [];',
+              '```',
+              '```typescript path=tests/routes.test.ts',
+              'it.skip("routes", () => {});',
+              '```'
+            ].join('\n'));
+          default:
+            throw new Error(`Unexpected task ${task}`);
+        }
+      });
+
+      mockRunner = {
+        unavailableReason: jest.fn().mockReturnValue(null),
+        checkSandbox: jest.fn().mockResolvedValue(null),
+        openWorkspace: jest.fn().mockResolvedValue(workspace),
+        closeWorkspace: jest.fn().mockResolvedValue(undefined),
+        execute: jest.fn(),
+        recordRun: jest.fn()
+      } as any;
+      mockJournal = {
+        record: jest.fn().mockResolvedValue({})
+      } as any;
+      orchestrator = new GenerationOrchestrator(
+        mockAIService, undefined, events, mockRepositories, mockFileHistory, mockRunner, mockJournal
+      );
+    });
+
+    it('should write failing tests, implement, and fix until the tests pass', async () => {
+      mockRunner.execute
+        .mockResolvedValueOnce(testRun('failed', 1))
+        .mockResolvedValueOnce(testRun('failed', 1))
+        .mockResolvedValueOnce(testRun('passed'));
+
+      const result = await orchestrator.generateProject(project, { mode: 'tdd' });
+
+      const tasks = mockAIService.generateWithTemplate.mock.calls.map(call => call[0]).slice(2);
+      expect(tasks).toEqual([
+        GenerationTask.WRITE_FAILING_TESTS,
+        GenerationTask.IMPLEMENT_TO_PASS,
+        GenerationTask.FIX_ISSUES
+      ]);
+      expect(mockRunner.execute.mock.calls[0][0].map(file => file.path)).toEqual(['tests/routes.test.ts']);
+      expect(mockAIService.generateWithTemplate.mock.calls[4][1]).toMatchObject({
+        issue: '1 of 1 tests fail for API routes',
+        stackTrace: expect.stringContaining('Expected 200, received 404')
+      });
+
+      // Tests are the specification: the fix may not rewrite them
+      expect(project.generatedCode.files.find(file => file.path === 'tests/routes.test.ts')!.content)
+        .toBe("it('routes', () => {});\n");
+      expect(project.generatedCode.files.find(file => file.path === 'src/routes.ts')!.content)
+        .toBe('export const routes = [];\n');
+
+      expect(result.testRun!.status).toBe('passed');
+      expect(result.warnings).toEqual([]);
+      expect(mockRunner.recordRun).toHaveBeenCalledWith(project, result.testRun, 3);
+      expect(project.status).toBe('completed');
+    });
+
+    it('should run every iteration in one workspace and remove it afterwards', async () => {
+      mockRunner.execute.mockResolvedValue(testRun('passed'));
+
+      await orchestrator.generateProject(project, { mode: 'tdd' });
+
+      expect(mockRunner.execute).toHaveBeenCalledTimes(2);
+      for (const call of mockRunner.execute.mock.calls) {
+        expect(call[2]).toBe(workspace);
+      }
+      expect(mockRunner.closeWorkspace).toHaveBeenCalledWith(workspace);
+    });
+
+    it('should stop before the test-first loop when the sandbox does not work', async () => {
+      mockRunner.checkSandbox.mockResolvedValue('The test sandbox does not work on this server: unshare: Operation not permitted');
+
+      await expect(orchestrator.generateProject(project, { mode: 'tdd' }))
+        .rejects.toThrow('Test-first generation is unavailable: The test sandbox does not work on this server');
+
+      const tasks = mockAIService.generateWithTemplate.mock.calls.map(call => call[0]);
+      expect(tasks).not.toContain(GenerationTask.WRITE_FAILING_TESTS);
+      expect(tasks).not.toContain(GenerationTask.FIX_ISSUES);
+      expect(mockRunner.execute).not.toHaveBeenCalled();
+      expect(project.status).toBe('error');
+    });
+
+    it('should journal every iteration of the run', async () => {
+      mockRunner.execute
+        .mockResolvedValueOnce(testRun('failed', 1))
+        .mockResolvedValueOnce(testRun('passed'));
+
+      const result = await orchestrator.generateProject(project, { mode: 'tdd' });
+
+      const iterations = mockJournal.record.mock.calls.map(([projectId, iteration]) => ({ projectId, ...iteration }));
+      expect(iterations.map(iteration => [iteration.sequence, iteration.phase, iteration.attempt])).toEqual([
+        [1, 'tests', 0],
+        [2, 'implementation', 0]
+      ]);
+      expect(iterations.every(iteration => iteration.runId === result.tddRunId)).toBe(true);
+      expect(iterations[0].projectId).toBe(project._id.toString());
+      expect(iterations[1].before.map(file => file.path)).toEqual(['tests/routes.test.ts']);
+      expect(iterations[1].after.map(file => file.path)).toEqual(['tests/routes.test.ts', 'src/routes.ts']);
+    });
+
+    it('should stop after the fix budget and warn that tests still fail', async () => {
+      mockRunner.execute.mockResolvedValue(testRun('failed', 1));
+
+      const result = await orchestrator.generateProject(project, { mode: 'tdd', maxFixAttempts: 2 });
+
+      expect(mockRunner.execute).toHaveBeenCalledTimes(4);
+      expect(result.warnings).toEqual(['Tests for API routes still fail after 2 fix attempts']);
+      expect(project.status).toBe('completed');
+    });
+
+    it('should warn when the tests pass before the implementation exists', async () => {
+      mockRunner.execute.mockResolvedValue(testRun('passed'));
+
+      const result = await orchestrator.generateProject(project, { mode: 'tdd' });
+
+      expect(result.warnings).toEqual(['Tests for API routes passed before any implementation was written']);
+    });
+
+    it('should emit an event for every test run', async () => {
+      mockRunner.execute
+        .mockResolvedValueOnce(testRun('failed', 1))
+        .mockResolvedValueOnce(testRun('passed'));
+      const testEvents: string[] = [];
+      events.on('generation:tests', event => testEvents.push(`${event.phase}:${event.status}`));
+
+      await orchestrator.generateProject(project, { mode: 'tdd' });
+
+      expect(testEvents).toEqual(['tests:failed', 'implementation:passed']);
+    });
+
+    it('should fall back to standard generation when tests cannot run for the stack', async () => {
+      mockRunner.unavailableReason.mockReturnValue({ code: 'UNSUPPORTED_STACK', message: 'Running tests is not supported for Go projects' });
+      mockAIService.generateWithTemplate.mockImplementation(async (task: GenerationTask) => {
+        if (task === GenerationTask.ANALYZE_DESCRIPTION) return createMockAIResponse(JSON.stringify({ ...analysis, dataModels: [] }));
+        if (task === GenerationTask.RECOMMEND_TECH_STACK) return createMockAIResponse(JSON.stringify(recommendations));
+        if (task === GenerationTask.GENERATE_CODE) return createMockAIResponse(codeResponse('routes'));
+        return createMockAIResponse(testResponse('routes'));
+      });
+
+      const result = await orchestrator.generateProject(project, { mode: 'tdd' });
+
+      expect(mockRunner.execute).not.toHaveBeenCalled();
+      expect(result.warnings).toEqual(['Generated without the test-first loop: Running tests is not supported for Go projects']);
+      expect(result.tddRunId).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  parseCodeOutput,
+  normalizeOutputPath,
+  CodeOutputError
+} from '../../../src/services/generation/parser';
+
+describe('Code output parser', () => {
+  const parse = (content: string, finishReason = 'stop') => parseCodeOutput({ content, finishReason });
+
+  describe('parseCodeOutput', () => {
+    it('should parse fenced blocks with file paths', () => {
+      const result = parse([
+        'Here is the implementation:',
+        '```typescript path=src/models/user.ts',
+        'export interface User {',
+        '  id: string;',
+        '}',
+        '```',
+        '',
+        '```json path=package.json',
+        '{ "name": "app" }',
+        '```'
+      ].join('\n'));
+
+      expect(result.truncated).toBe(false);
+      expect(result.partialFile).toBeUndefined();
+      expect(result.files).toHaveLength(2);
+      expect(result.files[0]).toMatchObject({
+        path: 'src/models/user.ts',
+        language: 'typescript',
+        content: 'export interface User {\n  id: string;\n}\n'
+      });
+      expect(result.files[1]).toMatchObject({ path: 'package.json', language: 'json' });
+    });
+
+    it('should ignore fenced blocks without a path', () => {
+      const result = parse([
+        '```bash',
+        'npm install',
+        '```',
+        '```typescript path=src/app.ts',
+        'export {};',
+        '```'
+      ].join('\n'));
+
+      expect(result.files.map(file => file.path)).toEqual(['src/app.ts']);
+    });
+
+    it('should use the fence language when the extension is unknown', () => {
+      const result = parse('```toml path=config/app.toml\nkey = "value"\n```');
+
+      expect(result.files[0].language).toBe('toml');
+    });
+
+    it('should support longer fences around content containing backticks', () => {
+      const result = parse([
+        '````markdown path=README.md',
+        '# App',
+        '```bash',
+        'npm start',
+        '```',
+        '````'
+      ].join('\n'));
+
+      expect(result.files).toHaveLength(1);
+      expect(result.files[0].content).toBe('# App\n```bash\nnpm start\n```\n');
+    });
+
+    it('should accept quoted paths and strip leading ./', () => {
+      const result = parse('```typescript path="./src/index.ts"\nexport {};\n```');
+
+      expect(result.files[0].path).toBe('src/index.ts');
+    });
+
+    it('should report an unterminated final block as a partial file', () => {
+      const result = parse([
+        '```typescript path=src/a.ts',
+        'export const a = 1;',
+        '```',
+        '```typescript path=src/b.ts',
+        'export const b ='
+      ].join('\n'), 'length');
+
+      expect(result.truncated).toBe(true);
+      expect(result.files.map(file => file.path)).toEqual(['src/a.ts']);
+      expect(result.partialFile).toMatchObject({ path: 'src/b.ts', content: 'export const b =\n' });
+    });
+
+    it('should flag output as truncated when the token limit was reached', () => {
+      const result = parse('```typescript path=src/a.ts\nexport {};\n```', 'length');
+
+      expect(result.truncated).toBe(true);
+      expect(result.partialFile).toBeUndefined();
+      expect(result.files).toHaveLength(1);
+    });
+
+    it('should reject duplicate paths', () => {
+      const content = [
+        '```typescript path=src/a.ts',
+        'one',
+        '```',
+        '```typescript path=./src/a.ts',
+        'two',
+        '```'
+      ].join('\n');
+
+      expect(() => parse(content)).toThrow(CodeOutputError);
+      expect(() => parse(content)).toThrow('Duplicate file path in AI output: src/a.ts');
+    });
+
+    it('should reject path traversal', () => {
+      try {
+        parse('```typescript path=src/../../secret.ts\nx\n```');
+        fail('Expected parse to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(CodeOutputError);
+        expect((error as CodeOutputError).code).toBe('PATH_TRAVERSAL');
+      }
+    });
+
+    it('should return no files for free-form text', () => {
+      expect(parse('I cannot generate that.').files).toEqual([]);
+    });
+  });
+
+  describe('normalizeOutputPath', () => {
+    it('should normalize separators and redundant segments', () => {
+      expect(normalizeOutputPath('src\\routes\\users.ts')).toBe('src/routes/users.ts');
+      expect(normalizeOutputPath('./src//app.ts')).toBe('src/app.ts');
+    });
+
+    it('should reject absolute paths', () => {
+      expect(() => normalizeOutputPath('/etc/passwd')).toThrow('Absolute file paths are not allowed');
+      expect(() => normalizeOutputPath('C:\\Windows\\system.ini')).toThrow('Absolute file paths are not allowed');
+    });
+
+    it('should reject empty paths', () => {
+      expect(() => normalizeOutputPath('  ')).toThrow('Invalid file path');
+      expect(() => normalizeOutputPath('./')).toThrow('Invalid file path');
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import dns from 'dns/promises';
+import { checkRemote } from '../../../src/services/git/remotes';
+
+describe('checkRemote', () => {
+  const environment = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.GIT_REMOTE_ALLOWLIST;
+    process.env.GIT_ALLOW_FILE_REMOTES = 'false';
+  });
+
+  afterEach(() => {
+    process.env = { ...environment };
+    jest.restoreAllMocks();
+  });
+
+  const lookup = (...addresses: string[]) => jest.spyOn(dns, 'lookup')
+    .mockResolvedValue(addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 })) as any);
+
+  it('should accept hosts with public addresses and pin them', async () => {
+    lookup('140.82.112.3', '2606:50c0:8000::153');
+
+    await expect(checkRemote('https://github.com/team/app.git')).resolves.toEqual({
+      allowed: true,
+      resolve: 'github.com:443:140.82.112.3,[2606:50c0:8000::153]'
+    });
+  });
+
+  it.each([
+    'http://127.0.0.1/app.git',
+    'http://169.254.169.254/latest/meta-data',
+    'https://10.1.2.3:8443/app.git',
+    'https://[::1]/app.git',
+    'https://[::ffff:192.168.1.10]/app.git'
+  ])('should reject the private or loopback address in %s', async repoUrl => {
+    await expect(checkRemote(repoUrl)).resolves.toMatchObject({ allowed: false });
+  });
+
+  it('should reject hosts with any private address', async () => {
+    lookup('140.82.112.3', '10.0.0.7');
+
+    await expect(checkRemote('https://git.internal.example.com/app.git')).resolves.toEqual({
+      allowed: false,
+      reason: 'git.internal.example.com resolves to a private or loopback address'
+    });
+  });
+
+  it('should reject hosts that do not resolve', async () => {
+    jest.spyOn(dns, 'lookup').mockRejectedValue(Object.assign(new Error('not found'), { code: 'ENOTFOUND' }));
+
+    await expect(checkRemote('https://missing.example.com/app.git')).resolves.toMatchObject({ allowed: false });
+  });
+
+  it('should only accept allowlisted hosts when an allowlist is set', async () => {
+    process.env.GIT_REMOTE_ALLOWLIST = 'github.com, *.corp.example.com';
+    const resolve = jest.spyOn(dns, 'lookup');
+
+    await expect(checkRemote('https://github.com/team/app.git')).resolves.toEqual({ allowed: true });
+    await expect(checkRemote('http://git.corp.example.com/app.git')).resolves.toEqual({ allowed: true });
+    await expect(checkRemote('https://gitlab.com/team/app.git')).resolves.toEqual({
+      allowed: false,
+      reason: 'gitlab.com is not an allowed git host on this server'
+    });
+    expect(resolve).not.toHaveBeenCalled();
+  });
+
+  it('should only accept file remotes when enabled', async () => {
+    await expect(checkRemote('file:///srv/git/app.git')).resolves.toMatchObject({ allowed: false });
+
+    process.env.GIT_ALLOW_FILE_REMOTES = 'true';
+    await expect(checkRemote('file:///srv/git/app.git')).resolves.toEqual({ allowed: true });
+  });
+
+  it('should refuse file remotes pointing at the repositories of other projects', async () => {
+    process.env.GIT_ALLOW_FILE_REMOTES = 'true';
+    const ownRepository = '/srv/backendforge/repos/507f1f77bcf86cd799439011.git';
+    const check = (repoUrl: string) => checkRemote(repoUrl, { ownRepository });
+
+    await expect(check('file:///srv/backendforge/repos/507f1f77bcf86cd799439012.git')).resolves.toEqual({
+      allowed: false,
+      reason: 'file:// remotes cannot point at the repositories of other projects'
+    });
+    await expect(check(`file://${ownRepository}/../507f1f77bcf86cd799439012.git`)).resolves.toMatchObject({ allowed: false });
+    await expect(check('file:///srv/backendforge/repos')).resolves.toMatchObject({ allowed: false });
+    await expect(check(`file://${ownRepository}`)).resolves.toEqual({ allowed: true });
+    await expect(check('file:///srv/git/app.git')).resolves.toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,159 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import mongoose from 'mongoose';
+import { GitRepositoryService, GitError, toGitAuthor } from '../../../src/services/git/repository';
+import { Project } from '../../../src/models/Project';
+
+describe('GitRepositoryService', () => {
+  const projectId = '507f1f77bcf86cd799439012';
+  const author = { name: 'dev', email: 'dev@example.com' };
+  let rootDir: string;
+  let service: GitRepositoryService;
+
+  const git = (repoPath: string, ...args: string[]) =>
+    execFileSync('git', [`--git-dir=${repoPath}`, ...args], { encoding: 'utf8' }).trim();
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'backendforge-git-test-'));
+    service = new GitRepositoryService(rootDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('toGitAuthor', () => {
+    it('should use the local part of an email as the name', () => {
+      expect(toGitAuthor('jane@example.com')).toEqual({ name: 'jane', email: 'jane@example.com' });
+    });
+
+    it('should derive a placeholder email for non-email authors', () => {
+      expect(toGitAuthor('system')).toEqual({ name: 'system', email: 'system@backendforge.local' });
+    });
+  });
+
+  describe('commitSnapshot', () => {
+    it('should create the bare repository and commit the files', async () => {
+      const result = await service.commitSnapshot(projectId, {
+        files: [{ path: 'src/index.ts', content: 'export {};\n' }, { path: 'README.md', content: '# App\n' }],
+        branch: 'main',
+        message: 'Initial generation',
+        author
+      });
+      const repoPath = service.repositoryPath(projectId);
+
+      expect(result.changed).toBe(true);
+      expect(result.commit).toMatch(/^[0-9a-f]{40}$/);
+      expect(git(repoPath, 'rev-parse', 'refs/heads/main')).toBe(result.commit);
+      expect(git(repoPath, 'ls-tree', '-r', '--name-only', 'main').split('\n')).toEqual(['README.md', 'src/index.ts']);
+      expect(git(repoPath, 'show', 'main:src/index.ts')).toBe('export {};');
+      expect(git(repoPath, 'log', '-1', '--format=%an <%ae>|%s', 'main')).toBe('dev <dev@example.com>|Initial generation');
+    });
+
+    it('should replace the tree on each commit and keep history', async () => {
+      const first = await service.commitSnapshot(projectId, {
+        files: [{ path: 'a.ts', content: 'a' }, { path: 'b.ts', content: 'b' }],
+        branch: 'main',
+        message: 'First',
+        author
+      });
+      const second = await service.commitSnapshot(projectId, {
+        files: [{ path: 'a.ts', content: 'a2' }],
+        branch: 'main',
+        message: 'Second',
+        author
+      });
+      const repoPath = service.repositoryPath(projectId);
+
+      expect(git(repoPath, 'rev-parse', `${second.commit}^`)).toBe(first.commit);
+      expect(git(repoPath, 'ls-tree', '-r', '--name-only', 'main')).toBe('a.ts');
+    });
+
+    it('should not create a commit when nothing changed', async () => {
+      const snapshot = { files: [{ path: 'a.ts', content: 'a' }], branch: 'main', message: 'Same', author };
+
+      const first = await service.commitSnapshot(projectId, snapshot);
+      const second = await service.commitSnapshot(projectId, snapshot);
+
+      expect(second).toEqual({ commit: first.commit, changed: false });
+    });
+
+    it('should serialize concurrent commits to the same project', async () => {
+      const results = await Promise.all([1, 2, 3].map(index => service.commitSnapshot(projectId, {
+        files: [{ path: 'a.ts', content: `version ${index}` }],
+        branch: 'main',
+        message: `Commit ${index}`,
+        author
+      })));
+
+      const log = git(service.repositoryPath(projectId), 'log', '--format=%H', 'main').split('\n');
+      expect(log).toEqual(results.map(result => result.commit).reverse());
+    });
+
+    it('should reject invalid branch names', async () => {
+      await expect(service.commitSnapshot(projectId, {
+        files: [],
+        branch: 'bad..branch',
+        message: 'Nope',
+        author
+      })).rejects.toBeInstanceOf(GitError);
+    });
+  });
+
+  describe('commitProject', () => {
+    it('should commit the project files and update its git integration', async () => {
+      const project = new Project({
+        _id: new mongoose.Types.ObjectId(projectId),
+        userId: new mongoose.Types.ObjectId(),
+        name: 'Todo API',
+        description: 'A simple todo list backend',
+        techStack: { language: 'typescript', framework: 'express', database: 'mongodb' },
+        generatedCode: { files: [{ path: 'src/app.ts', content: 'export {};', language: 'typescript' }] }
+      });
+
+      const result = await service.commitProject(project, { description: 'Generated 1 files', author: 'owner@example.com' });
+
+      expect(project.gitIntegration.lastCommit).toBe(result.commit);
+      expect(project.gitIntegration.lastSyncAt).toBeInstanceOf(Date);
+      expect(git(service.repositoryPath(projectId), 'log', '-1', '--format=%ae', 'main')).toBe('owner@example.com');
+    });
+  });
+
+  describe('repository access', () => {
+    it('should be clonable from its local path', async () => {
+      await service.commitSnapshot(projectId, {
+        files: [{ path: 'src/index.ts', content: 'export {};\n' }],
+        branch: 'main',
+        message: 'Initial generation',
+        author
+      });
+      const target = path.join(rootDir, 'clone');
+
+      execFileSync('git', ['clone', '--quiet', service.repositoryPath(projectId), target]);
+
+      expect(fs.readFileSync(path.join(target, 'src/index.ts'), 'utf8')).toBe('export {};\n');
+    });
+
+    it('should report the branch head', async () => {
+      expect(await service.getHead(projectId, 'main')).toBeNull();
+
+      const { commit } = await service.commitSnapshot(projectId, { files: [], branch: 'main', message: 'Empty', author });
+
+      expect(await service.getHead(projectId, 'main')).toBe(commit);
+    });
+
+    it('should remove the repository', async () => {
+      await service.commitSnapshot(projectId, { files: [], branch: 'main', message: 'Empty', author });
+
+      await service.removeRepository(projectId);
+
+      expect(await service.exists(projectId)).toBe(false);
+    });
+
+    it('should reject paths that are not project ids', () => {
+      expect(() => service.repositoryPath('../etc')).toThrow(GitError);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { encryptSecret, decryptSecret } from '../../../src/services/git/secrets';
+
+describe('credential secrets', () => {
+  const originalKey = process.env.CREDENTIALS_ENCRYPTION_KEY;
+
+  beforeEach(() => {
+    process.env.CREDENTIALS_ENCRYPTION_KEY = 'test-credentials-key';
+  });
+
+  afterAll(() => {
+    process.env.CREDENTIALS_ENCRYPTION_KEY = originalKey;
+  });
+
+  it('should round-trip a secret', () => {
+    const encrypted = encryptSecret('ghp_secret-token');
+
+    expect(encrypted).toMatch(/^v1:/);
+    expect(encrypted).not.toContain('ghp_secret-token');
+    expect(decryptSecret(encrypted)).toBe('ghp_secret-token');
+  });
+
+  it('should use a fresh IV for every encryption', () => {
+    expect(encryptSecret('token')).not.toBe(encryptSecret('token'));
+  });
+
+  it('should reject tampered ciphertext', () => {
+    const [version, iv, tag, ciphertext] = encryptSecret('token').split(':');
+    const tampered = Buffer.from(ciphertext, 'base64');
+    tampered[0] ^= 0xff;
+
+    expect(() => decryptSecret([version, iv, tag, tampered.toString('base64')].join(':'))).toThrow();
+  });
+
+  it('should not decrypt with a different key', () => {
+    const encrypted = encryptSecret('token');
+    process.env.CREDENTIALS_ENCRYPTION_KEY = 'another-key';
+
+    expect(() => decryptSecret(encrypted)).toThrow();
+  });
+
+  it('should reject unknown formats', () => {
+    expect(() => decryptSecret('plain-token')).toThrow('Unsupported encrypted secret format');
+  });
+
+  it('should require an encryption key', () => {
+    delete process.env.CREDENTIALS_ENCRYPTION_KEY;
+
+    expect(() => encryptSecret('token')).toThrow('CREDENTIALS_ENCRYPTION_KEY not configured');
+  });
+});
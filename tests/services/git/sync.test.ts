@@ -0,0 +1,150 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import mongoose from 'mongoose';
+import { GitRepositoryService } from '../../../src/services/git/repository';
+import { GitSyncService, GitSyncError, conflictBranchName } from '../../../src/services/git/sync';
+import { encryptSecret } from '../../../src/services/git/secrets';
+import { Project, IProject } from '../../../src/models/Project';
+
+describe('GitSyncService', () => {
+  let rootDir: string;
+  let remotePath: string;
+  let repositories: GitRepositoryService;
+  let service: GitSyncService;
+  let project: IProject;
+
+  const git = (...args: string[]) => execFileSync('git', args, { encoding: 'utf8' }).trim();
+
+  const setFiles = (content: string) => {
+    project.generatedCode.files = [{ path: 'src/app.ts', content, language: 'typescript', lastModified: new Date() }];
+  };
+
+  beforeEach(() => {
+    process.env.GIT_ALLOW_FILE_REMOTES = 'true';
+    process.env.CREDENTIALS_ENCRYPTION_KEY = 'test-credentials-key';
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'backendforge-sync-test-'));
+    remotePath = path.join(rootDir, 'remote.git');
+    git('init', '--bare', '--quiet', remotePath);
+
+    repositories = new GitRepositoryService(path.join(rootDir, 'repos'));
+    service = new GitSyncService(repositories);
+    project = new Project({
+      userId: new mongoose.Types.ObjectId(),
+      name: 'Todo API',
+      description: 'A simple todo list backend',
+      techStack: { language: 'typescript', framework: 'express', database: 'mongodb' },
+      gitIntegration: { repoUrl: `file://${remotePath}` }
+    });
+    setFiles('export const version = 1;');
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should push the project files to the configured branch', async () => {
+    const result = await service.sync(project, 'owner@example.com');
+
+    expect(result).toEqual({ remoteUrl: `file://${remotePath}`, branch: 'main', commit: expect.any(String), conflict: false });
+    expect(git(`--git-dir=${remotePath}`, 'rev-parse', 'refs/heads/main')).toBe(result.commit);
+    expect(git(`--git-dir=${remotePath}`, 'show', 'main:src/app.ts')).toBe('export const version = 1;');
+    expect(project.gitIntegration.lastSyncAt).toBeInstanceOf(Date);
+    expect(project.documentation.history.at(-1)).toMatchObject({
+      description: `Pushed ${result.commit.slice(0, 7)} to file://${remotePath} on main`,
+      author: 'owner@example.com'
+    });
+  });
+
+  it('should fast-forward the remote on later syncs', async () => {
+    const first = await service.sync(project, 'owner@example.com');
+    setFiles('export const version = 2;');
+
+    const second = await service.sync(project, 'owner@example.com');
+
+    expect(second.conflict).toBe(false);
+    expect(git(`--git-dir=${remotePath}`, 'rev-parse', 'main^')).toBe(first.commit);
+  });
+
+  it('should push to a fallback branch when the remote branch has diverged', async () => {
+    const clone = path.join(rootDir, 'clone');
+    git('init', '--quiet', '--initial-branch=main', clone);
+    fs.writeFileSync(path.join(clone, 'README.md'), 'remote work\n');
+    git('-C', clone, 'add', '.');
+    git('-C', clone, '-c', 'user.name=dev', '-c', 'user.email=dev@example.com', 'commit', '--quiet', '-m', 'Remote work');
+    git('-C', clone, 'push', '--quiet', remotePath, 'main');
+    const remoteHead = git(`--git-dir=${remotePath}`, 'rev-parse', 'refs/heads/main');
+
+    const result = await service.sync(project, 'owner@example.com');
+
+    expect(result.conflict).toBe(true);
+    expect(result.branch).toMatch(/^backendforge\/\d{8}T\d{6}Z$/);
+    expect(git(`--git-dir=${remotePath}`, 'rev-parse', 'refs/heads/main')).toBe(remoteHead);
+    expect(git(`--git-dir=${remotePath}`, 'rev-parse', `refs/heads/${result.branch}`)).toBe(result.commit);
+    expect(project.documentation.history.at(-1)!.description).toContain('because main has diverged');
+  });
+
+  it('should record failed pushes', async () => {
+    project.gitIntegration.repoUrl = `file://${path.join(rootDir, 'missing.git')}`;
+
+    await expect(service.sync(project, 'owner@example.com')).rejects.toMatchObject({ code: 'PUSH_FAILED' });
+    expect(project.documentation.history.at(-1)!.description).toMatch(/^Push of [0-9a-f]{7} to .+ failed: /);
+  });
+
+  it('should not push into the repository of another project', async () => {
+    const other = new mongoose.Types.ObjectId().toString();
+    project.gitIntegration.repoUrl = `file://${repositories.repositoryPath(other)}`;
+
+    await expect(service.sync(project, 'owner@example.com')).rejects.toMatchObject({ code: 'REMOTE_NOT_ALLOWED' });
+    expect(await repositories.exists(other)).toBe(false);
+  });
+
+  it('should require a remote', async () => {
+    project.gitIntegration.repoUrl = undefined;
+
+    await expect(service.sync(project, 'owner@example.com')).rejects.toMatchObject({ code: 'REMOTE_NOT_CONFIGURED' });
+  });
+
+  it('should refuse file remotes unless enabled', async () => {
+    process.env.GIT_ALLOW_FILE_REMOTES = 'false';
+
+    await expect(service.sync(project, 'owner@example.com')).rejects.toMatchObject({ code: 'REMOTE_NOT_ALLOWED' });
+  });
+
+  it('should refuse remotes on internal addresses', async () => {
+    project.gitIntegration.repoUrl = 'http://169.254.169.254/team/app.git';
+    const push = jest.spyOn(repositories, 'push');
+
+    await expect(service.sync(project, 'owner@example.com')).rejects.toMatchObject({ code: 'REMOTE_NOT_ALLOWED' });
+    expect(push).not.toHaveBeenCalled();
+  });
+
+  it('should report credentials that cannot be decrypted', async () => {
+    project.gitIntegration.credentials = { token: encryptSecret('token') };
+    process.env.CREDENTIALS_ENCRYPTION_KEY = 'rotated-key';
+
+    const error = await service.sync(project, 'owner@example.com').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(GitSyncError);
+    expect(error.code).toBe('CREDENTIALS_UNREADABLE');
+  });
+
+  it('should pass decrypted credentials to the push', async () => {
+    const push = jest.spyOn(repositories, 'push').mockResolvedValue();
+    project.gitIntegration.credentials = { username: 'ci', token: encryptSecret('secret-token') };
+
+    await service.sync(project, 'owner@example.com');
+
+    expect(push).toHaveBeenCalledWith(project._id.toString(), expect.objectContaining({
+      branch: 'main',
+      credentials: { username: 'ci', token: 'secret-token' }
+    }));
+  });
+
+  describe('conflictBranchName', () => {
+    it('should build a timestamped branch name', () => {
+      expect(conflictBranchName(new Date('2026-10-19T10:15:00.123Z'))).toBe('backendforge/20261019T101500Z');
+    });
+  });
+});
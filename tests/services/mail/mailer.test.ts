@@ -0,0 +1,86 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  ConsoleMailer,
+  FileMailer,
+  createMailer,
+  getMailer,
+  setMailer
+} from '../../../src/services/mail/mailer';
+
+describe('Mailer', () => {
+  const message = {
+    to: 'user@example.com',
+    subject: 'Verify your email address',
+    text: 'Open this link'
+  };
+
+  afterEach(() => {
+    delete process.env.MAIL_TRANSPORT;
+    delete process.env.MAIL_DIR;
+    setMailer(null);
+  });
+
+  describe('ConsoleMailer', () => {
+    it('should log the message', async () => {
+      const consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+      await new ConsoleMailer().send(message);
+
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('user@example.com'));
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('Open this link'));
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('FileMailer', () => {
+    it('should write each message as a JSON file', async () => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-'));
+
+      try {
+        await new FileMailer(path.join(directory, 'outbox')).send(message);
+
+        const files = await fs.readdir(path.join(directory, 'outbox'));
+        expect(files).toHaveLength(1);
+        expect(files[0]).toMatch(/user@example\.com\.json$/);
+
+        const stored = JSON.parse(await fs.readFile(path.join(directory, 'outbox', files[0]), 'utf8'));
+        expect(stored).toMatchObject(message);
+        expect(stored.sentAt).toBeDefined();
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('createMailer', () => {
+    it('should default to the console transport', () => {
+      expect(createMailer()).toBeInstanceOf(ConsoleMailer);
+    });
+
+    it('should create the file transport', () => {
+      process.env.MAIL_TRANSPORT = 'file';
+      process.env.MAIL_DIR = '/tmp/mail';
+
+      expect(createMailer()).toBeInstanceOf(FileMailer);
+    });
+
+    it('should reject unknown transports', () => {
+      process.env.MAIL_TRANSPORT = 'pigeon';
+
+      expect(() => createMailer()).toThrow('Unknown mail transport "pigeon". Use one of: console, file');
+    });
+  });
+
+  describe('getMailer', () => {
+    it('should return the configured mailer', async () => {
+      const mailer = { send: jest.fn().mockResolvedValue(undefined) };
+      setMailer(mailer);
+
+      await getMailer().send(message);
+
+      expect(mailer.send).toHaveBeenCalledWith(message);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import {
+  buildOpenApiDocument,
+  fieldSchema,
+  getStoredApiDocument,
+  toOpenApiPath,
+  updateApiDocumentation,
+  validateOpenApiDocument,
+  OPENAPI_SECTION_TITLE
+} from '../../../src/services/openapi/document';
+import { renderOpenApiViewer } from '../../../src/services/openapi/viewer';
+import { IProject, IRequirements } from '../../../src/models/Project';
+
+describe('OpenAPI document', () => {
+  const requirements: IRequirements = {
+    dataModels: [
+      { name: 'Todo', fields: ['title: string', 'done', 'dueDate?: Date', 'tags: string[]', 'owner (User)'], relationships: ['User'] },
+      { name: 'User', fields: ['email', 'name'], relationships: [] }
+    ],
+    apiEndpoints: [
+      { method: 'GET', path: '/api/todos', description: 'List todos' },
+      { method: 'POST', path: '/api/todos', description: 'Create a todo' },
+      { method: 'DELETE', path: '/api/reports', description: 'Never implemented' }
+    ],
+    authentication: { required: true, type: 'JWT' }
+  };
+
+  const files = [
+    {
+      path: 'src/app.ts',
+      content: [
+        "import express from 'express';",
+        "import todoRoutes from './routes/todos';",
+        'const app = express();',
+        "app.use('/api/todos', todoRoutes);",
+        "app.post('/api/auth/login', login);"
+      ].join('\n')
+    },
+    {
+      path: 'src/routes/todos.ts',
+      content: [
+        "import { Router } from 'express';",
+        'const router = Router();',
+        "router.get('/', list);",
+        "router.post('/', create);",
+        "router.get('/:id', show);",
+        "router.delete('/:id', remove);",
+        'export default router;'
+      ].join('\n')
+    },
+    { path: 'package.json', content: '{ "name": "todo-api", "version": "0.3.0" }' }
+  ];
+
+  const project = (overrides: Partial<IProject> = {}): IProject => ({
+    _id: 'project-1',
+    name: 'Todo API',
+    description: 'A simple todo list backend',
+    generatedCode: { files, structure: { name: 'root', type: 'directory', children: [], path: '/' } },
+    requirements,
+    documentation: { sections: [], history: [], lastUpdated: new Date() },
+    ...overrides
+  } as unknown as IProject);
+
+  describe('toOpenApiPath', () => {
+    it('should convert Express parameters', () => {
+      expect(toOpenApiPath('/users/:userId/posts/:postId(\\d+)?/')).toEqual({
+        path: '/users/{userId}/posts/{postId}',
+        parameters: ['userId', 'postId']
+      });
+    });
+  });
+
+  describe('fieldSchema', () => {
+    const models = new Map([['user', 'User']]);
+
+    it.each([
+      ['title: string', { type: 'string' }],
+      ['price: Decimal', { type: 'number' }],
+      ['tags: string[]', { type: 'array', items: { type: 'string' } }],
+      ['owner (User)', { type: 'string', description: 'User ID' }],
+      ['createdAt', { type: 'string', format: 'date-time' }],
+      ['isActive', { type: 'boolean' }]
+    ])('should describe "%s"', (field, schema) => {
+      expect(fieldSchema(field, models)!.schema).toEqual(schema);
+    });
+
+    it('should skip fields it cannot read', () => {
+      expect(fieldSchema('a list of things, sorted', models)).toBeNull();
+    });
+  });
+
+  describe('buildOpenApiDocument', () => {
+    it('should document the routes present in the code', () => {
+      const document = buildOpenApiDocument(project());
+
+      expect(document.info).toEqual({ title: 'Todo API', version: '0.3.0', description: 'A simple todo list backend' });
+      expect(Object.keys(document.paths)).toEqual(['/api/auth/login', '/api/todos', '/api/todos/{id}']);
+      expect(Object.keys(document.paths['/api/todos/{id}'])).toEqual(['get', 'delete']);
+      expect(document.tags).toEqual([{ name: 'auth' }, { name: 'todos' }]);
+    });
+
+    it('should take summaries and body schemas from the analysis', () => {
+      const document = buildOpenApiDocument(project());
+      const list = document.paths['/api/todos'].get!;
+      const create = document.paths['/api/todos'].post!;
+
+      expect(list.summary).toBe('List todos');
+      expect(list.responses['200']).toEqual({
+        description: 'Successful response',
+        content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Todo' } } } }
+      });
+      expect(create.requestBody).toEqual({
+        required: true,
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/Todo' } } }
+      });
+      expect(create.responses).toHaveProperty('201');
+      expect(document.paths['/api/todos/{id}'].get!).toMatchObject({
+        operationId: 'getApiTodosById',
+        summary: 'GET /api/todos/{id}',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        'x-source': { file: 'src/routes/todos.ts', line: 5 }
+      });
+      expect(document.components.schemas.Todo).toEqual({
+        type: 'object',
+        properties: {
+          id: { type: 'string', readOnly: true },
+          title: { type: 'string' },
+          done: { type: 'boolean' },
+          dueDate: { type: 'string', format: 'date-time' },
+          tags: { type: 'array', items: { type: 'string' } },
+          owner: { type: 'string', description: 'User ID' }
+        }
+      });
+    });
+
+    it('should require authentication except on public endpoints', () => {
+      const document = buildOpenApiDocument(project());
+
+      expect(document.components.securitySchemes).toEqual({ auth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' } });
+      expect(document.security).toEqual([{ auth: [] }]);
+      expect(document.paths['/api/auth/login'].post!.security).toEqual([]);
+      expect(document.paths['/api/todos'].get!.responses).toHaveProperty('401');
+    });
+
+    it('should produce a valid document without any analysis', () => {
+      const document = buildOpenApiDocument(project({ requirements: undefined }));
+
+      expect(document.components).toEqual({ schemas: {} });
+      expect(validateOpenApiDocument(document)).toEqual([]);
+    });
+  });
+
+  describe('validateOpenApiDocument', () => {
+    it('should accept generated documents', () => {
+      expect(validateOpenApiDocument(buildOpenApiDocument(project()))).toEqual([]);
+    });
+
+    it('should report schema violations', () => {
+      const document = buildOpenApiDocument(project()) as any;
+      delete document.info.title;
+      document.paths['/api/todos'].get.responses = {};
+
+      const errors = validateOpenApiDocument(document);
+
+      expect(errors).toContain("/info must have required property 'title'");
+      expect(errors).toContain('/paths/~1api~1todos/get/responses must NOT have fewer than 1 properties');
+    });
+  });
+
+  describe('updateApiDocumentation', () => {
+    it('should store the document as an api section and replace it later', () => {
+      const target = project();
+
+      updateApiDocumentation(target);
+      updateApiDocumentation(target);
+
+      expect(target.documentation.sections).toHaveLength(1);
+      expect(target.documentation.sections[0]).toMatchObject({ title: OPENAPI_SECTION_TITLE, type: 'api' });
+      expect(getStoredApiDocument(target)!.openapi).toBe('3.1.0');
+    });
+  });
+
+  describe('renderOpenApiViewer', () => {
+    it('should render operations and schemas with escaped text', () => {
+      const html = renderOpenApiViewer(
+        buildOpenApiDocument(project({ name: '<Todo> API' } as Partial<IProject>)),
+        '/api/projects/1/openapi.json'
+      );
+
+      expect(html).toContain('<h1>&lt;Todo&gt; API</h1>');
+      expect(html).toContain('<code>/api/todos/{id}</code>');
+      expect(html).toContain('<h3 id="schema-Todo">Todo</h3>');
+      expect(html).toContain('href="/api/projects/1/openapi.json"');
+      expect(html).not.toContain('<script');
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { extractExpressRoutes } from '../../../src/services/openapi/routes';
+import { ICodeFile } from '../../../src/models/Project';
+
+const codeFile = (path: string, content: string): ICodeFile => ({
+  path,
+  content,
+  language: 'typescript',
+  lastModified: new Date()
+});
+
+describe('extractExpressRoutes', () => {
+  it('should find routes of routers mounted from other files', () => {
+    const routes = extractExpressRoutes([
+      codeFile('src/app.ts', [
+        "import express from 'express';",
+        "import itemRoutes from './routes/items';",
+        "import { authMiddleware } from './middleware/auth';",
+        'const app = express();',
+        'app.use(express.json());',
+        "app.use('/api/items', authMiddleware, itemRoutes);",
+        "app.get('/health', (req, res) => res.json({ ok: true }));",
+        "app.get('env');",
+        'export default app;'
+      ].join('\n')),
+      codeFile('src/routes/items.ts', [
+        "import { Router } from 'express';",
+        'const router = Router();',
+        "router.get('/', list);",
+        "router.post('/', create);",
+        "router.route('/:id').get(show).delete(remove);",
+        'export default router;'
+      ].join('\n')),
+      codeFile('src/middleware/auth.ts', 'export const authMiddleware = () => {};\n')
+    ]);
+
+    expect(routes.map(route => `${route.method} ${route.path}`)).toEqual([
+      'get /health',
+      'get /api/items',
+      'post /api/items',
+      'delete /api/items/:id',
+      'get /api/items/:id'
+    ]);
+    expect(routes[1]).toMatchObject({ file: 'src/routes/items.ts', line: 3 });
+  });
+
+  it('should follow CommonJS requires and nested routers', () => {
+    const routes = extractExpressRoutes([
+      codeFile('src/server.js', [
+        "const express = require('express');",
+        'const app = express();',
+        'const api = express.Router();',
+        "api.use('/users', require('./users'));",
+        "app.use('/api/v1', api);"
+      ].join('\n')),
+      codeFile('src/users.js', [
+        'const router = require(\'express\').Router();',
+        "router.patch('/:userId', update);",
+        'module.exports = router;'
+      ].join('\n'))
+    ]);
+
+    expect(routes.map(route => `${route.method} ${route.path}`)).toEqual(['patch /api/v1/users/:userId']);
+  });
+
+  it('should cut mount cycles', () => {
+    const routes = extractExpressRoutes([
+      codeFile('src/app.ts', [
+        "import a from './a';",
+        'const app = express();',
+        "app.use('/api', a);"
+      ].join('\n')),
+      codeFile('src/a.ts', [
+        "import b from './b';",
+        'const router = Router();',
+        "router.use('/b', b);",
+        "router.get('/a', handler);",
+        'export default router;'
+      ].join('\n')),
+      codeFile('src/b.ts', [
+        "import a from './a';",
+        'const router = Router();',
+        "router.use('/a', a);",
+        "router.get('/b', handler);",
+        'export default router;'
+      ].join('\n'))
+    ]);
+
+    expect(routes.map(route => `${route.method} ${route.path}`)).toEqual(['get /api/a', 'get /api/b/b']);
+  });
+
+  it('should resolve each router once however often it is mounted', () => {
+    // Every level mounts the next one twice: 2^30 mount paths, 2 distinct prefixes per level
+    const levels = 30;
+    const files = Array.from({ length: levels }, (_, level) => codeFile(`src/level${level}.ts`, [
+      ...(level < levels - 1 ? [`import next from './level${level + 1}';`] : []),
+      'const router = Router();',
+      ...(level < levels - 1 ? ["router.use('/x', next);", "router.use('/x', next);"] : ["router.get('/leaf', handler);"]),
+      'export default router;'
+    ].join('\n')));
+
+    const routes = extractExpressRoutes(files);
+
+    expect(routes).toEqual([expect.objectContaining({ path: `${'/x'.repeat(levels - 1)}/leaf` })]);
+  });
+
+  it('should ignore test files and calls on other objects', () => {
+    const routes = extractExpressRoutes([
+      codeFile('src/client.ts', "export const load = () => axios.get('/api/items', { params: {} });\n"),
+      codeFile('tests/items.test.ts', "request(app).get('/api/items');\napp.get('/test-only', handler);\n")
+    ]);
+
+    expect(routes).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+import mongoose from 'mongoose';
+import { AccountDeletionService } from '../../../src/services/privacy/deletion';
+import { GitRepositoryService } from '../../../src/services/git/repository';
+import { User, IUser } from '../../../src/models/User';
+import { Project } from '../../../src/models/Project';
+import { FileRevision } from '../../../src/models/FileRevision';
+import { ApiKey } from '../../../src/models/ApiKey';
+import { RefreshToken } from '../../../src/models/RefreshToken';
+import { UsageRecord } from '../../../src/models/UsageRecord';
+import { Analytics } from '../../../src/models/Analytics';
+
+describe('AccountDeletionService', () => {
+  const now = new Date('2026-03-01T00:00:00Z');
+  const day = 24 * 60 * 60 * 1000;
+  let repositories: jest.Mocked<Pick<GitRepositoryService, 'removeRepository'>>;
+  let service: AccountDeletionService;
+  let user: IUser;
+
+  const createAnalytics = (userId: string) => Analytics.createAnonymizedEntry({
+    userId,
+    projectType: 'api',
+    techStackUsed: { language: 'typescript', framework: 'express', database: 'mongodb', additionalTools: [] },
+    generationMetrics: {
+      timeToComplete: 1000,
+      linesOfCode: 10,
+      testCoverage: 80,
+      filesGenerated: 1,
+      errorsEncountered: 0,
+      aiFixesUsed: 0
+    },
+    userInteractions: { chatMessages: 1, aiFixesUsed: 0, manualEdits: 0, testRunsExecuted: 0, documentationViews: 0 },
+    performanceMetrics: { averageResponseTime: 10, peakMemoryUsage: 50, cpuUsagePercent: 5, databaseQueryTime: 1 },
+    sessionDuration: 1000
+  }).save();
+
+  beforeEach(async () => {
+    delete process.env.ACCOUNT_DELETION_GRACE_DAYS;
+    repositories = { removeRepository: jest.fn().mockResolvedValue(undefined) };
+    service = new AccountDeletionService(repositories as unknown as GitRepositoryService);
+    user = await User.create({ email: 'delete@example.com', passwordHash: 'Password123' });
+  });
+
+  describe('scheduleDeletion', () => {
+    it('should soft-delete the account and schedule the purge after the grace period', async () => {
+      await service.scheduleDeletion(user, now);
+
+      const stored = await User.findById(user._id);
+      expect(stored!.deletedAt).toEqual(now);
+      expect(stored!.deletionScheduledFor).toEqual(new Date(now.getTime() + 30 * day));
+    });
+
+    it('should read the grace period from the environment', async () => {
+      process.env.ACCOUNT_DELETION_GRACE_DAYS = '7';
+
+      await service.scheduleDeletion(user, now);
+
+      expect(user.deletionScheduledFor).toEqual(new Date(now.getTime() + 7 * day));
+    });
+
+    it('should revoke sessions and API keys and remove analytics straight away', async () => {
+      const userId = user._id.toString();
+      const otherUserId = new mongoose.Types.ObjectId().toString();
+      await RefreshToken.create({ jti: 'jti-1', userId, family: 'jti-1', expiresAt: new Date(now.getTime() + day) });
+      await ApiKey.create({ userId, name: 'CI', prefix: 'bfk_12345678', keyHash: 'a'.repeat(64) });
+      await createAnalytics(userId);
+      await createAnalytics(otherUserId);
+
+      await service.scheduleDeletion(user, now);
+
+      expect(await RefreshToken.countDocuments({ userId, revokedAt: null })).toBe(0);
+      expect(await ApiKey.countDocuments({ userId, revokedAt: null })).toBe(0);
+      expect(await Analytics.countDocuments({ anonymizedUserHash: { $in: Analytics.userHashes(userId) } })).toBe(0);
+      expect(await Analytics.countDocuments()).toBe(1);
+    });
+
+    it('should keep the projects until the purge', async () => {
+      await Project.create({
+        userId: user._id,
+        name: 'Kept',
+        description: 'Kept during the grace period',
+        techStack: { language: 'typescript', framework: 'express', database: 'mongodb' }
+      });
+
+      await service.scheduleDeletion(user, now);
+
+      expect(await Project.countDocuments({ userId: user._id })).toBe(1);
+    });
+  });
+
+  describe('purge', () => {
+    it('should delete the user, their projects and everything attached to them', async () => {
+      const userId = user._id.toString();
+      const project = await Project.create({
+        userId,
+        name: 'Doomed',
+        description: 'Deleted with its owner',
+        techStack: { language: 'typescript', framework: 'express', database: 'mongodb' }
+      });
+      await FileRevision.create({
+        projectId: project._id,
+        fileId: new mongoose.Types.ObjectId(),
+        revision: 1,
+        changeType: 'created',
+        path: 'src/app.ts',
+        content: '',
+        diff: '',
+        author: 'delete@example.com'
+      });
+      await UsageRecord.create({
+        userId,
+        projectId: project._id,
+        provider: 'mock',
+        aiModel: 'mock',
+        promptTokens: 1,
+        completionTokens: 1,
+        totalTokens: 2,
+        cost: 0
+      });
+      await createAnalytics(userId);
+
+      await service.purge(userId);
+
+      expect(await User.findById(userId)).toBeNull();
+      expect(await Project.countDocuments({ userId })).toBe(0);
+      expect(await FileRevision.countDocuments({ projectId: project._id })).toBe(0);
+      expect(await UsageRecord.countDocuments({ userId })).toBe(0);
+      expect(await Analytics.countDocuments()).toBe(0);
+      expect(repositories.removeRepository).toHaveBeenCalledWith(project._id.toString());
+    });
+
+    it('should still delete the account when a repository cannot be removed', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      repositories.removeRepository.mockRejectedValue(new Error('EACCES'));
+      await Project.create({
+        userId: user._id,
+        name: 'Stuck',
+        description: 'Repository cannot be removed',
+        techStack: { language: 'typescript', framework: 'express', database: 'mongodb' }
+      });
+
+      await service.purge(user._id.toString());
+
+      expect(await User.findById(user._id)).toBeNull();
+    });
+  });
+
+  describe('purgeDue', () => {
+    it('should only purge accounts whose grace period is over', async () => {
+      const kept = await User.create({ email: 'kept@example.com', passwordHash: 'Password123' });
+      const pending = await User.create({ email: 'pending@example.com', passwordHash: 'Password123' });
+      await service.scheduleDeletion(user, new Date(now.getTime() - 31 * day));
+      await service.scheduleDeletion(pending, now);
+
+      const purged = await service.purgeDue(now);
+
+      expect(purged).toBe(1);
+      expect(await User.findById(user._id)).toBeNull();
+      expect(await User.findById(pending._id)).not.toBeNull();
+      expect(await User.findById(kept._id)).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import mongoose from 'mongoose';
+import {
+  buildUserDataEntries,
+  createUserDataArchive,
+  serializeUserData,
+  UserData,
+  ACCOUNT_FILE
+} from '../../../src/services/privacy/export';
+import { MANIFEST_FILE } from '../../../src/services/export/archive';
+import { User } from '../../../src/models/User';
+import { Project } from '../../../src/models/Project';
+import { FileRevision } from '../../../src/models/FileRevision';
+import { ApiKey } from '../../../src/models/ApiKey';
+
+describe('User data export', () => {
+  const exportedAt = new Date('2026-03-01T00:00:00Z');
+
+  const createData = (projectNames: string[] = ['Todo API']): UserData => {
+    const user = new User({ email: 'export@example.com', passwordHash: 'hashed-password' });
+
+    const projects = projectNames.map(name => {
+      const project = new Project({
+        userId: user._id,
+        name,
+        description: 'A todo API',
+        techStack: { language: 'typescript', framework: 'express', database: 'mongodb' },
+        gitIntegration: { credentials: { username: 'octocat', token: 'secret-token' } }
+      });
+      project.generatedCode.files = [
+        { path: 'src/app.ts', content: 'export const app = 1;\n', language: 'typescript', lastModified: exportedAt }
+      ];
+
+      const fileRevisions = [new FileRevision({
+        projectId: project._id,
+        fileId: new mongoose.Types.ObjectId(),
+        revision: 1,
+        changeType: 'created',
+        path: 'src/app.ts',
+        content: 'export const app = 1;\n',
+        diff: '',
+        author: 'export@example.com'
+      })];
+
+      return { project, fileRevisions, fixProposals: [], tddIterations: [] };
+    });
+
+    const apiKeys = [new ApiKey({
+      userId: user._id,
+      name: 'CI',
+      prefix: 'bfk_12345678',
+      keyHash: 'a'.repeat(64)
+    })];
+
+    return { user, projects, apiKeys, usage: [], analytics: [] };
+  };
+
+  describe('serializeUserData', () => {
+    it('should include the account, projects and their history without secrets', () => {
+      const bundle = serializeUserData(createData(), exportedAt);
+
+      expect(bundle.exportedAt).toBe(exportedAt);
+      expect(bundle.account).toMatchObject({ email: 'export@example.com' });
+      expect(bundle.account).not.toHaveProperty('passwordHash');
+      expect(bundle.apiKeys[0]).toMatchObject({ name: 'CI' });
+      expect(bundle.apiKeys[0]).not.toHaveProperty('keyHash');
+
+      expect(bundle.projects).toHaveLength(1);
+      const project = bundle.projects[0] as any;
+      expect(project).toMatchObject({ name: 'Todo API' });
+      expect(project.generatedCode.files[0].path).toBe('src/app.ts');
+      expect(project.gitIntegration.credentials).not.toHaveProperty('token');
+      expect(project.history.fileRevisions[0]).toMatchObject({ revision: 1, changeType: 'created' });
+    });
+  });
+
+  describe('buildUserDataEntries', () => {
+    it('should put the account and each project in its own file', () => {
+      const entries = buildUserDataEntries(createData(), exportedAt);
+
+      expect(entries.map(entry => entry.path)).toEqual([
+        ACCOUNT_FILE,
+        'projects/todo-api/project.json',
+        'projects/todo-api/export/src/app.ts',
+        `projects/todo-api/export/${MANIFEST_FILE}`
+      ]);
+
+      const account = JSON.parse(entries[0].content);
+      expect(account.account.email).toBe('export@example.com');
+      expect(account).not.toHaveProperty('projects');
+    });
+
+    it('should leave file contents out of project.json', () => {
+      const entries = buildUserDataEntries(createData(), exportedAt);
+
+      const record = JSON.parse(entries[1].content);
+      expect(record.name).toBe('Todo API');
+      expect(record.generatedCode).not.toHaveProperty('files');
+      expect(record.history.fileRevisions).toHaveLength(1);
+    });
+
+    it('should give projects with the same name separate folders', () => {
+      const entries = buildUserDataEntries(createData(['Todo API', 'todo api!']), exportedAt);
+
+      expect(entries.map(entry => entry.path)).toEqual(expect.arrayContaining([
+        'projects/todo-api/project.json',
+        'projects/todo-api-2/project.json'
+      ]));
+    });
+  });
+
+  describe('createUserDataArchive', () => {
+    it('should create a zip archive', async () => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of createUserDataArchive(createData(), exportedAt)) {
+        chunks.push(Buffer.from(chunk));
+      }
+      const archive = Buffer.concat(chunks);
+
+      expect(archive.subarray(0, 4)).toEqual(Buffer.from([0x50, 0x4b, 0x03, 0x04]));
+      expect(archive.includes(ACCOUNT_FILE)).toBe(true);
+      expect(archive.includes('projects/todo-api/export/src/app.ts')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  analyzeCodeQuality,
+  analyzeFile,
+  maintainabilityIndex,
+  updateQualityMetrics,
+  LONG_FUNCTION_LINES
+} from '../../../src/services/quality/analyzer';
+import { findDuplicateBlocks } from '../../../src/services/quality/duplicates';
+import { IProject } from '../../../src/models/Project';
+
+describe('Code quality analyzer', () => {
+  const branchy = [
+    'export function classify(value: number, strict?: boolean): string {',
+    '  if (value < 0 && strict) {',
+    "    return 'negative';",
+    '  }',
+    '  for (let i = 0; i < value; i++) {',
+    "    if (i === 3) return 'three';",
+    '  }',
+    "  return value > 10 ? 'large' : 'small';",
+    '}',
+    ''
+  ].join('\n');
+
+  describe('analyzeFile', () => {
+    it('should compute the cyclomatic complexity of each function', () => {
+      const report = analyzeFile({ path: 'src/classify.ts', content: branchy });
+
+      expect(report.functions).toEqual([{ name: 'classify', line: 1, lines: 9, complexity: 6 }]);
+      expect(report.linesOfCode).toBe(9);
+      expect(report.smells).toEqual([]);
+    });
+
+    it('should name arrow functions, methods and constructors', () => {
+      const report = analyzeFile({
+        path: 'src/service.js',
+        content: [
+          'const handler = (req) => req.body || {};',
+          'class Service {',
+          '  constructor() { this.ready = true; }',
+          '  start() { return this.ready; }',
+          '}',
+          'module.exports = { handler, Service, run: function () {} };'
+        ].join('\n')
+      });
+
+      expect(report.functions.map(fn => [fn.name, fn.complexity])).toEqual([
+        ['handler', 2],
+        ['constructor', 1],
+        ['start', 1],
+        ['run', 1]
+      ]);
+    });
+
+    it('should report explicit any, long and complex functions', () => {
+      const body = Array.from({ length: LONG_FUNCTION_LINES }, (_, i) => `  if (input === ${i}) return ${i};`);
+      const report = analyzeFile({
+        path: 'src/lookup.ts',
+        content: ['export function lookup(input: any): number {', ...body, '  return -1;', '}'].join('\n')
+      });
+
+      expect(report.smells.map(smell => smell.type)).toEqual(['long-function', 'complex-function', 'explicit-any']);
+      expect(report.smells[1].message).toBe('lookup has a cyclomatic complexity of 51');
+    });
+
+    it('should score simple files as more maintainable than complex ones', () => {
+      const simple = analyzeFile({ path: 'src/simple.ts', content: 'export const add = (a: number, b: number) => a + b;\n' });
+      const complex = analyzeFile({ path: 'src/classify.ts', content: branchy.repeat(5).replace(/classify/g, (_, i) => `classify${i}`) });
+
+      expect(simple.maintainability).toBeGreaterThan(complex.maintainability);
+      expect(complex.maintainability).toBeGreaterThan(0);
+      expect(simple.maintainability).toBeLessThanOrEqual(100);
+    });
+  });
+
+  describe('maintainabilityIndex', () => {
+    it('should stay within 0-100', () => {
+      expect(maintainabilityIndex(0, 0, 1)).toBe(100);
+      expect(maintainabilityIndex(1e9, 500, 100000)).toBe(0);
+    });
+  });
+
+  describe('findDuplicateBlocks', () => {
+    const block = ['const a = load();', 'const b = parse(a);', 'validate(b);', 'save(b);', 'notify(b);', 'return b;'];
+
+    it('should report copies of a block but not the original', () => {
+      const blocks = findDuplicateBlocks([
+        { path: 'src/a.ts', content: ['function one() {', ...block, '}'].join('\n') },
+        { path: 'src/b.ts', content: ['function two() {', '', ...block, '}'].join('\n') }
+      ]);
+
+      expect(blocks).toEqual([{ path: 'src/b.ts', startLine: 3, endLine: 8, original: { path: 'src/a.ts', line: 2 } }]);
+    });
+
+    it('should ignore imports, comments and blocks shorter than the minimum', () => {
+      const imports = Array.from({ length: 8 }, (_, i) => `import { dep${i} } from './dep${i}';`).join('\n');
+
+      expect(findDuplicateBlocks([
+        { path: 'src/a.ts', content: `${imports}\n${block.slice(0, 5).join('\n')}` },
+        { path: 'src/b.ts', content: `${imports}\n${block.slice(0, 5).join('\n')}` }
+      ])).toEqual([]);
+    });
+  });
+
+  describe('analyzeCodeQuality', () => {
+    it('should aggregate metrics over TypeScript and JavaScript files only', () => {
+      const report = analyzeCodeQuality([
+        { path: 'src/classify.ts', content: branchy },
+        { path: 'src/any.ts', content: 'export const value: any = 1;\n' },
+        { path: 'README.md', content: '# Readme\n' }
+      ]);
+
+      expect(report.files.map(file => file.path)).toEqual(['src/classify.ts', 'src/any.ts']);
+      expect(report.metrics.complexity).toBe(6);
+      expect(report.metrics.codeSmells).toBe(1);
+      expect(report.metrics.maintainability).toBeGreaterThan(0);
+    });
+
+    it('should return zeroes for projects without code', () => {
+      expect(analyzeCodeQuality([]).metrics).toEqual({ complexity: 0, maintainability: 0, codeSmells: 0 });
+    });
+  });
+
+  describe('updateQualityMetrics', () => {
+    it('should keep the test coverage from test runs', () => {
+      const project = {
+        generatedCode: { files: [{ path: 'src/classify.ts', content: branchy }] },
+        analytics: { codeQuality: { complexity: 0, maintainability: 0, testCoverage: 80, codeSmells: 0 } }
+      } as unknown as IProject;
+
+      updateQualityMetrics(project);
+
+      expect(project.analytics.codeQuality).toMatchObject({ complexity: 6, testCoverage: 80 });
+      expect(project.analytics.codeQuality.maintainability).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import jwt from 'jsonwebtoken';
+import {
+  authenticateSocket,
+  handleConnection,
+  forwardGenerationEvents,
+  projectRoom
+} from '../../../src/services/realtime/socket';
+import { GenerationEventBus } from '../../../src/services/generation/events';
+import { User } from '../../../src/models/User';
+import { Project } from '../../../src/models/Project';
+
+jest.mock('../../../src/models/User');
+jest.mock('../../../src/models/Project');
+
+const mockUser = jest.mocked(User);
+const mockProject = jest.mocked(Project);
+
+describe('Generation socket', () => {
+  const userId = '507f1f77bcf86cd799439011';
+  const projectId = '507f1f77bcf86cd799439012';
+
+  const createSocket = (auth: Record<string, unknown> = {}, headers: Record<string, string> = {}) => {
+    const handlers: Record<string, (...args: any[]) => Promise<void>> = {};
+    return {
+      handshake: { auth, headers },
+      data: {} as Record<string, unknown>,
+      join: jest.fn().mockResolvedValue(undefined),
+      leave: jest.fn().mockResolvedValue(undefined),
+      on: jest.fn((event: string, handler: (...args: any[]) => Promise<void>) => {
+        handlers[event] = handler;
+      }),
+      handlers
+    };
+  };
+
+  const signToken = (type: 'access' | 'refresh', expiresIn = '15m') =>
+    jwt.sign({ id: userId, email: 'socket@example.com', type }, 'test-jwt-secret', { expiresIn } as jwt.SignOptions);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.JWT_SECRET = 'test-jwt-secret';
+  });
+
+  describe('authenticateSocket', () => {
+    it('should accept a valid access token from the handshake auth payload', async () => {
+      mockUser.findById.mockReturnValue({ select: jest.fn().mockResolvedValue({ _id: userId }) } as any);
+      const socket = createSocket({ token: signToken('access') });
+      const next = jest.fn();
+
+      await authenticateSocket(socket as any, next);
+
+      expect(next).toHaveBeenCalledWith();
+      expect(socket.data.user).toEqual({ id: userId, email: 'socket@example.com' });
+    });
+
+    it('should accept a bearer token from the Authorization header', async () => {
+      mockUser.findById.mockReturnValue({ select: jest.fn().mockResolvedValue({ _id: userId }) } as any);
+      const socket = createSocket({}, { authorization: `Bearer ${signToken('access')}` });
+      const next = jest.fn();
+
+      await authenticateSocket(socket as any, next);
+
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('should reject connections without a token', async () => {
+      const next = jest.fn();
+
+      await authenticateSocket(createSocket() as any, next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ message: 'Access denied. No token provided.' }));
+    });
+
+    it('should reject refresh tokens', async () => {
+      const next = jest.fn();
+
+      await authenticateSocket(createSocket({ token: signToken('refresh') }) as any, next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ message: 'Invalid token type' }));
+    });
+
+    it('should reject tokens for deleted users', async () => {
+      mockUser.findById.mockReturnValue({ select: jest.fn().mockResolvedValue(null) } as any);
+      const next = jest.fn();
+
+      await authenticateSocket(createSocket({ token: signToken('access') }) as any, next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ message: 'Invalid token. User not found.' }));
+    });
+
+    it('should reject malformed tokens', async () => {
+      const next = jest.fn();
+
+      await authenticateSocket(createSocket({ token: 'invalid-token' }) as any, next);
+
+      expect(next).toHaveBeenCalledWith(expect.objectContaining({ message: 'Invalid token' }));
+    });
+  });
+
+  describe('handleConnection', () => {
+    it('should join the project room for an owned project', async () => {
+      mockProject.findOne.mockReturnValue({ select: jest.fn().mockResolvedValue({ _id: projectId }) } as any);
+      const socket = createSocket();
+      socket.data.user = { id: userId, email: 'socket@example.com' };
+      const ack = jest.fn();
+
+      handleConnection(socket as any);
+      await socket.handlers['project:subscribe'](projectId, ack);
+
+      expect(mockProject.findOne).toHaveBeenCalledWith({ _id: projectId, userId });
+      expect(socket.join).toHaveBeenCalledWith(projectRoom(projectId));
+      expect(ack).toHaveBeenCalledWith({ ok: true });
+    });
+
+    it('should refuse to join rooms for projects of other users', async () => {
+      mockProject.findOne.mockReturnValue({ select: jest.fn().mockResolvedValue(null) } as any);
+      const socket = createSocket();
+      socket.data.user = { id: userId, email: 'socket@example.com' };
+      const ack = jest.fn();
+
+      handleConnection(socket as any);
+      await socket.handlers['project:subscribe'](projectId, ack);
+
+      expect(socket.join).not.toHaveBeenCalled();
+      expect(ack).toHaveBeenCalledWith({ ok: false, error: 'Project not found' });
+    });
+
+    it('should reject invalid project ids', async () => {
+      const socket = createSocket();
+      socket.data.user = { id: userId, email: 'socket@example.com' };
+      const ack = jest.fn();
+
+      handleConnection(socket as any);
+      await socket.handlers['project:subscribe']('not-an-id', ack);
+
+      expect(mockProject.findOne).not.toHaveBeenCalled();
+      expect(ack).toHaveBeenCalledWith({ ok: false, error: 'Invalid project ID' });
+    });
+
+    it('should leave the project room on unsubscribe', async () => {
+      const socket = createSocket();
+      socket.data.user = { id: userId, email: 'socket@example.com' };
+      const ack = jest.fn();
+
+      handleConnection(socket as any);
+      await socket.handlers['project:unsubscribe'](projectId, ack);
+
+      expect(socket.leave).toHaveBeenCalledWith(projectRoom(projectId));
+      expect(ack).toHaveBeenCalledWith({ ok: true });
+    });
+  });
+
+  describe('forwardGenerationEvents', () => {
+    it('should forward bus events to the project room', () => {
+      const events = new GenerationEventBus();
+      const emit = jest.fn();
+      const namespace = { to: jest.fn().mockReturnValue({ emit }) };
+
+      forwardGenerationEvents(namespace as any, events);
+
+      const payload = {
+        projectId,
+        status: 'generating' as const,
+        previousStatus: 'planning' as const,
+        timestamp: new Date()
+      };
+      events.emit('generation:status', payload);
+
+      expect(namespace.to).toHaveBeenCalledWith(`project:${projectId}`);
+      expect(emit).toHaveBeenCalledWith('generation:status', payload);
+    });
+
+    it('should stop forwarding once detached', () => {
+      const events = new GenerationEventBus();
+      const emit = jest.fn();
+      const namespace = { to: jest.fn().mockReturnValue({ emit }) };
+
+      const detach = forwardGenerationEvents(namespace as any, events);
+      detach();
+      events.emit('generation:error', { projectId, message: 'boom', timestamp: new Date() });
+
+      expect(emit).not.toHaveBeenCalled();
+    });
+  });
+});
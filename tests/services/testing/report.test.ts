@@ -0,0 +1,84 @@
+import { parseJestReport, parseCoverageSummary, JestReport } from '../../../src/services/testing/report';
+
+describe('Test report parsing', () => {
+  const workspace = '/tmp/backendforge-run-abc';
+
+  const report: JestReport = {
+    success: false,
+    numTotalTests: 3,
+    numPassedTests: 1,
+    numFailedTests: 1,
+    numPendingTests: 1,
+    testResults: [
+      {
+        name: `${workspace}/tests/todos.test.ts`,
+        status: 'failed',
+        assertionResults: [
+          { fullName: 'todos lists todos', status: 'passed', duration: 4 },
+          {
+            fullName: 'todos deletes todos',
+            status: 'failed',
+            duration: 7,
+            failureMessages: [
+              '\u001b[31mError: expected 204\u001b[39m\n    at Object.<anonymous> (tests/todos.test.ts:9:5)\n    at run (/app/node_modules/jest-circus/build/run.js:71:3)'
+            ]
+          },
+          { fullName: 'todos updates todos', status: 'pending', duration: null }
+        ]
+      },
+      {
+        name: `${workspace}/tests/users.test.ts`,
+        status: 'failed',
+        message: "Cannot find module '../src/users'",
+        assertionResults: []
+      }
+    ]
+  };
+
+  it('should flatten suites into per-test results', () => {
+    const result = parseJestReport(report, workspace);
+
+    expect(result.status).toBe('failed');
+    expect(result.tests).toEqual([
+      { file: 'tests/todos.test.ts', name: 'todos lists todos', status: 'passed', duration: 4 },
+      {
+        file: 'tests/todos.test.ts',
+        name: 'todos deletes todos',
+        status: 'failed',
+        duration: 7,
+        failureMessage: 'Error: expected 204\n    at Object.<anonymous> (tests/todos.test.ts:9:5)'
+      },
+      { file: 'tests/todos.test.ts', name: 'todos updates todos', status: 'skipped', duration: 0 },
+      {
+        file: 'tests/users.test.ts',
+        name: 'Test suite failed to run',
+        status: 'failed',
+        duration: 0,
+        failureMessage: "Cannot find module '../src/users'"
+      }
+    ]);
+  });
+
+  it('should count suites that failed to run as failures', () => {
+    expect(parseJestReport(report, workspace).summary).toEqual({ total: 4, passed: 1, failed: 2, skipped: 1 });
+  });
+
+  it('should report passing runs', () => {
+    const passing = { ...report, success: true, testResults: [] };
+
+    expect(parseJestReport(passing, workspace).status).toBe('passed');
+  });
+
+  it('should read the coverage totals', () => {
+    const coverage = parseCoverageSummary({
+      total: {
+        lines: { pct: 83.333 },
+        statements: { pct: 80 },
+        functions: { pct: 'Unknown' },
+        branches: { pct: 50 }
+      }
+    });
+
+    expect(coverage).toEqual({ lines: 83.33, statements: 80, functions: 0, branches: 50 });
+  });
+});
@@ -0,0 +1,268 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import mongoose from 'mongoose';
+import * as sandbox from '../../../src/services/testing/sandbox';
+import { TestRunnerService, buildWorkspaceManifest, isTestFile } from '../../../src/services/testing/runner';
+import { Project, IProject, ICodeFile, ITestRun } from '../../../src/models/Project';
+import { GenerationEventBus } from '../../../src/services/generation/events';
+
+const codeFile = (path: string, content = ''): ICodeFile => ({
+  path,
+  content,
+  language: 'typescript',
+  lastModified: new Date()
+});
+
+const typescriptStack = { language: 'typescript', framework: 'express', database: 'mongodb', additionalTools: [] };
+
+describe('TestRunnerService', () => {
+  let runner: TestRunnerService;
+  let project: IProject;
+
+  const completedRun: ITestRun = {
+    status: 'passed',
+    startedAt: new Date(),
+    finishedAt: new Date(),
+    summary: { total: 1, passed: 1, failed: 0, skipped: 0 },
+    tests: [{ file: 'tests/app.test.ts', name: 'app works', status: 'passed', duration: 3 }],
+    coverage: { lines: 87.5, statements: 85, functions: 100, branches: 50 },
+    output: ''
+  };
+
+  beforeEach(() => {
+    runner = new TestRunnerService({ workDir: '/tmp', npmCache: '/tmp/npm-cache' });
+    project = new Project({
+      userId: new mongoose.Types.ObjectId(),
+      name: 'Todo API',
+      description: 'A simple todo list backend',
+      techStack: typescriptStack,
+      status: 'completed',
+      generatedCode: {
+        files: [codeFile('src/app.ts', 'export const app = 1;\n'), codeFile('tests/app.test.ts', 'it("works", () => {});\n')]
+      }
+    });
+    jest.spyOn(project, 'save').mockResolvedValue(project);
+  });
+
+  describe('isTestFile', () => {
+    it('should recognise test and spec files', () => {
+      expect(isTestFile('tests/app.test.ts')).toBe(true);
+      expect(isTestFile('src/app.spec.js')).toBe(true);
+      expect(isTestFile('src/__tests__/app.ts')).toBe(true);
+      expect(isTestFile('src/app.ts')).toBe(false);
+    });
+  });
+
+  describe('buildWorkspaceManifest', () => {
+    it('should add Jest and ts-jest to TypeScript projects without a manifest', () => {
+      const manifest = buildWorkspaceManifest([codeFile('src/app.ts')], typescriptStack);
+
+      expect(Object.keys(manifest.devDependencies!)).toEqual(['jest', 'ts-jest', 'typescript', '@types/jest']);
+    });
+
+    it('should keep the versions a project declares', () => {
+      const manifest = buildWorkspaceManifest([
+        codeFile('package.json', JSON.stringify({ name: 'todo', devDependencies: { jest: '^28.0.0' } }))
+      ], { ...typescriptStack, language: 'javascript' });
+
+      expect(manifest).toEqual({ name: 'todo', devDependencies: { jest: '^28.0.0' } });
+    });
+
+    it('should reject manifests that are not JSON', () => {
+      expect(() => buildWorkspaceManifest([codeFile('package.json', '{')], typescriptStack))
+        .toThrow('package.json is not valid JSON');
+    });
+
+    it('should reject manifests that are not an object', () => {
+      expect(() => buildWorkspaceManifest([codeFile('package.json', '[]')], typescriptStack))
+        .toThrow('package.json must contain a JSON object');
+    });
+  });
+
+  describe('execute', () => {
+    it('should refuse stacks it cannot run', async () => {
+      await expect(runner.execute(project.generatedCode.files, { ...typescriptStack, language: 'python' }))
+        .rejects.toMatchObject({ code: 'UNSUPPORTED_STACK' });
+    });
+
+    it('should refuse projects without tests', async () => {
+      await expect(runner.execute([codeFile('src/app.ts')], typescriptStack))
+        .rejects.toMatchObject({ code: 'NO_TESTS' });
+    });
+
+    const linuxOnly = process.platform === 'linux' ? it : it.skip;
+
+    linuxOnly('should install from a per-run copy of the npm cache', async () => {
+      const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'runner-test-'));
+      const npmCache = path.join(workDir, 'shared-cache');
+      fs.mkdirSync(npmCache);
+      fs.writeFileSync(path.join(npmCache, 'index'), 'shared');
+      const runSandboxed = jest.spyOn(sandbox, 'runSandboxed').mockResolvedValue({ exitCode: 1, timedOut: false, output: '' });
+
+      try {
+        runner = new TestRunnerService({ workDir, npmCache });
+        const run = await runner.execute(project.generatedCode.files, typescriptStack);
+
+        expect(run.error).toBe('Dependency installation failed (exit code 1)');
+        const [install] = runSandboxed.mock.calls[0];
+        const [cacheCopy] = install.writable!;
+        expect(cacheCopy).not.toBe(npmCache);
+        expect(install.args).toContain(`--cache=${cacheCopy}`);
+        expect(fs.readdirSync(workDir)).toEqual(['shared-cache']);
+      } finally {
+        runSandboxed.mockRestore();
+        fs.rmSync(workDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('shared workspaces', () => {
+    const linuxOnly = process.platform === 'linux' ? it : it.skip;
+
+    linuxOnly('should install again only when package.json changes', async () => {
+      const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'runner-test-'));
+      const runSandboxed = jest.spyOn(sandbox, 'runSandboxed').mockResolvedValue({ exitCode: 0, timedOut: false, output: '' });
+      const installs = () => runSandboxed.mock.calls.filter(([command]) => command.command === 'npm').length;
+
+      try {
+        runner = new TestRunnerService({ workDir, npmCache: path.join(workDir, 'shared-cache') });
+        const workspace = await runner.openWorkspace();
+        const files = project.generatedCode.files;
+
+        await runner.execute(files, typescriptStack, workspace);
+        await runner.execute([...files, codeFile('src/extra.ts')], typescriptStack, workspace);
+        expect(installs()).toBe(1);
+
+        await runner.execute([...files, codeFile('package.json', '{"dependencies":{"express":"^4.18.2"}}')], typescriptStack, workspace);
+        expect(installs()).toBe(2);
+        expect(fs.existsSync(path.join(workspace.runDir, 'workspace', 'src', 'extra.ts'))).toBe(false);
+
+        await runner.closeWorkspace(workspace);
+        expect(fs.readdirSync(workDir)).toEqual([]);
+      } finally {
+        runSandboxed.mockRestore();
+        fs.rmSync(workDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('checkSandbox', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should report a sandbox that cannot run commands and probe it again later', async () => {
+      const runSandboxed = jest.spyOn(sandbox, 'runSandboxed')
+        .mockResolvedValueOnce({ exitCode: 1, timedOut: false, output: 'unshare: Operation not permitted\n' })
+        .mockResolvedValue({ exitCode: 0, timedOut: false, output: '' });
+
+      await expect(runner.checkSandbox())
+        .resolves.toBe('The test sandbox does not work on this server: unshare: Operation not permitted');
+      await expect(runner.checkSandbox()).resolves.toBeNull();
+      await expect(runner.checkSandbox()).resolves.toBeNull();
+
+      expect(runSandboxed).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report a sandbox that cannot start', async () => {
+      jest.spyOn(sandbox, 'runSandboxed').mockRejectedValue(new Error('Failed to start sandbox: spawn prlimit ENOENT'));
+
+      await expect(runner.checkSandbox()).resolves.toBe('The test sandbox does not work on this server: Failed to start sandbox: spawn prlimit ENOENT');
+    });
+  });
+
+  describe('claimRun', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should claim the project for the run', async () => {
+      const claim = jest.spyOn(Project, 'findOneAndUpdate').mockReturnValue({ select: jest.fn().mockResolvedValue(project) } as any);
+
+      await runner.claimRun(project);
+
+      expect(claim.mock.calls[0][0]).toMatchObject({ _id: project._id, status: { $ne: 'generating' } });
+      expect(project.testRunStartedAt).toBeInstanceOf(Date);
+      expect(runner.isRunning(project)).toBe(true);
+    });
+
+    it('should not run the same project twice at once', async () => {
+      jest.spyOn(Project, 'findOneAndUpdate').mockReturnValue({ select: jest.fn().mockResolvedValue(null) } as any);
+      jest.spyOn(Project, 'findById').mockReturnValue({ select: jest.fn().mockResolvedValue(project) } as any);
+
+      await expect(runner.claimRun(project)).rejects.toMatchObject({ code: 'RUN_IN_PROGRESS' });
+    });
+
+    it('should refuse to run while generation is in progress', async () => {
+      jest.spyOn(Project, 'findOneAndUpdate').mockReturnValue({ select: jest.fn().mockResolvedValue(null) } as any);
+      jest.spyOn(Project, 'findById').mockReturnValue({ select: jest.fn().mockResolvedValue({ status: 'generating' }) } as any);
+
+      await expect(runner.claimRun(project)).rejects.toMatchObject({ code: 'GENERATION_IN_PROGRESS' });
+    });
+
+    it('should refuse projects without tests before claiming them', async () => {
+      const claim = jest.spyOn(Project, 'findOneAndUpdate');
+      project.generatedCode.files = [codeFile('src/app.ts')];
+
+      await expect(runner.claimRun(project)).rejects.toMatchObject({ code: 'NO_TESTS' });
+      expect(claim).not.toHaveBeenCalled();
+    });
+
+    it('should let claims of crashed runs expire', () => {
+      project.testRunStartedAt = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+      expect(runner.isRunning(project)).toBe(false);
+    });
+  });
+
+  describe('runProject', () => {
+    beforeEach(() => {
+      project.testRunStartedAt = new Date();
+    });
+
+    it('should store the results and coverage on the project', async () => {
+      jest.spyOn(runner, 'execute').mockResolvedValue(completedRun);
+
+      const run = await runner.runProject(project);
+
+      expect(run).toBe(completedRun);
+      expect(project.lastTestRun).toMatchObject({ status: 'passed', summary: completedRun.summary });
+      expect(project.analytics.testRunsExecuted).toBe(1);
+      expect(project.analytics.testCoverage).toBe(87.5);
+      expect(project.analytics.codeQuality.testCoverage).toBe(87.5);
+      expect(project.testRunStartedAt).toBeNull();
+      expect(project.save).toHaveBeenCalled();
+    });
+
+    it('should keep the previous coverage when a run could not complete', async () => {
+      project.analytics.testCoverage = 40;
+      jest.spyOn(runner, 'execute').mockResolvedValue({
+        ...completedRun,
+        status: 'error',
+        coverage: undefined,
+        error: 'Dependency installation failed (exit code 1)'
+      });
+
+      await runner.runProject(project);
+
+      expect(project.lastTestRun!.status).toBe('error');
+      expect(project.analytics.testCoverage).toBe(40);
+      expect(project.analytics.testRunsExecuted).toBe(1);
+    });
+
+    it('should report progress and release the claim when the run fails', async () => {
+      const events = new GenerationEventBus();
+      const statuses: string[] = [];
+      events.on('tests:status', event => statuses.push(event.status));
+      runner = new TestRunnerService({ workDir: '/tmp', npmCache: '/tmp/npm-cache' }, events);
+      jest.spyOn(runner, 'execute').mockRejectedValue(new Error('disk full'));
+
+      await expect(runner.runProject(project)).rejects.toThrow('disk full');
+
+      expect(statuses).toEqual(['running', 'error']);
+      expect(project.testRunStartedAt).toBeNull();
+      expect(project.save).toHaveBeenCalled();
+    });
+  });
+});
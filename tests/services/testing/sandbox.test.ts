@@ -0,0 +1,111 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { buildSandboxedCommand, runSandboxed, READ_ONLY_PATHS } from '../../../src/services/testing/sandbox';
+
+describe('Test sandbox', () => {
+  const limits = { timeout: 10000, cpuSeconds: 5, memoryMb: 256, isolateNetwork: true };
+
+  it('should wrap commands with resource limits, private namespaces and no network', () => {
+    const { command, args } = buildSandboxedCommand(
+      { command: 'node', args: ['test.js'], cwd: '/work/run', writable: ['/work/cache'] },
+      limits,
+      '/tmp/root'
+    );
+
+    expect(command).toBe('prlimit');
+    expect(args.slice(0, 12)).toEqual([
+      '--cpu=5',
+      `--as=${256 * 4 * 1024 * 1024}`,
+      '--',
+      'unshare',
+      '--user',
+      '--map-root-user',
+      '--mount',
+      '--pid',
+      '--fork',
+      '--kill-child',
+      '--net',
+      '--'
+    ]);
+    expect(args.slice(16)).toEqual([
+      '/tmp/root',
+      ...READ_ONLY_PATHS,
+      '--',
+      '/work/run',
+      '/work/cache',
+      '--',
+      '/work/run',
+      'node',
+      'test.js'
+    ]);
+  });
+
+  it('should leave the network alone when not isolated', () => {
+    const { args } = buildSandboxedCommand(
+      { command: 'npm', args: ['install'], cwd: '/work/run' },
+      { ...limits, isolateNetwork: false },
+      '/tmp/root'
+    );
+
+    expect(args).not.toContain('--net');
+  });
+
+  const linuxOnly = process.platform === 'linux' ? it : it.skip;
+
+  describe('runSandboxed', () => {
+    let cwd: string;
+
+    beforeEach(() => {
+      cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(cwd, { recursive: true, force: true });
+    });
+
+    const run = (script: string, overrides = {}) => runSandboxed({
+      command: 'node',
+      args: ['-e', script],
+      cwd,
+      env: { PATH: process.env.PATH }
+    }, { ...limits, ...overrides });
+
+    linuxOnly('should return the exit code and output', async () => {
+      const result = await run('console.log("hello"); process.exit(3)');
+
+      expect(result).toEqual({ exitCode: 3, timedOut: false, output: 'hello\n' });
+    });
+
+    linuxOnly('should kill commands that run too long', async () => {
+      const result = await run('setInterval(() => undefined, 1000)', { timeout: 500 });
+
+      expect(result.timedOut).toBe(true);
+    });
+
+    linuxOnly('should only let the command write to its working directory', async () => {
+      const result = await run([
+        'const fs = require("fs");',
+        'fs.writeFileSync("result.txt", "written");',
+        'try { fs.writeFileSync("/usr/sandbox-escape", "x"); } catch (error) { console.log(error.code); }',
+        'console.log(process.getuid());'
+      ].join('\n'));
+
+      expect(result.output).toBe('EROFS\n65534\n');
+      expect(fs.readFileSync(path.join(cwd, 'result.txt'), 'utf8')).toBe('written');
+    });
+
+    linuxOnly('should hide the rest of the host filesystem', async () => {
+      const secretDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-secret-'));
+      fs.writeFileSync(path.join(secretDir, '.env'), 'JWT_SECRET=secret');
+
+      try {
+        const result = await run(`console.log(require("fs").existsSync(${JSON.stringify(secretDir)}), require("fs").existsSync(${JSON.stringify(process.cwd())}))`);
+
+        expect(result.output).toBe('false false\n');
+      } finally {
+        fs.rmSync(secretDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -1,13 +1,19 @@
 import { MongoMemoryServer } from 'mongodb-memory-server';
 import mongoose from 'mongoose';
 import dotenv from 'dotenv';
+import os from 'os';
+import path from 'path';
 
 // Load environment variables for tests
 dotenv.config();
 
 // Set test environment variables
+process.env.AI_PROVIDER = 'mock';
 process.env.OPENAI_API_KEY = 'test-api-key';
 process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.CREDENTIALS_ENCRYPTION_KEY = 'test-credentials-key';
+process.env.GIT_ALLOW_FILE_REMOTES = 'true';
+process.env.GIT_REPOS_DIR = path.join(os.tmpdir(), `backendforge-repos-${process.pid}`);
 
 let mongoServer: MongoMemoryServer;
 
@@ -0,0 +1,125 @@
+import request from 'supertest';
+import app from '../src/app';
+import { TddIteration } from '../src/models/TddIteration';
+
+describe('Project TDD API', () => {
+  let accessToken: string;
+  let projectId: string;
+
+  beforeEach(async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({
+        email: 'tdd@example.com',
+        password: 'Password123'
+      });
+    accessToken = response.body.accessToken;
+
+    const project = await request(app)
+      .post('/api/projects')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        name: 'TDD Project',
+        description: 'A project generated test-first',
+        techStack: { language: 'typescript', framework: 'express', database: 'mongodb' }
+      });
+    projectId = project.body.project._id;
+  });
+
+  const seedRun = async () => {
+    await TddIteration.create([
+      {
+        projectId,
+        runId: 'run-1',
+        sequence: 1,
+        component: 'Todo model',
+        phase: 'tests',
+        changes: [{ path: 'tests/todo.test.ts', changeType: 'created', content: 'it();\n', diff: '+it();' }],
+        testRun: { status: 'failed', total: 1, passed: 0, failed: 1, failures: [] }
+      },
+      {
+        projectId,
+        runId: 'run-1',
+        sequence: 2,
+        component: 'Todo model',
+        phase: 'implementation',
+        changes: [{ path: 'src/todo.ts', changeType: 'created', content: 'export {};\n', diff: '+export {};' }],
+        testRun: { status: 'passed', total: 1, passed: 1, failed: 0, failures: [] }
+      }
+    ]);
+  };
+
+  describe('GET /api/projects/:id/tdd', () => {
+    it('should return no iterations for projects generated without TDD', async () => {
+      const response = await request(app)
+        .get(`/api/projects/${projectId}/tdd`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body).toEqual({ runId: null, iterations: [] });
+    });
+
+    it('should list the iterations of the latest run in order', async () => {
+      await seedRun();
+
+      const response = await request(app)
+        .get(`/api/projects/${projectId}/tdd`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.runId).toBe('run-1');
+      expect(response.body.iterations.map((iteration: any) => iteration.phase)).toEqual(['tests', 'implementation']);
+      expect(response.body.iterations[0].changes).toEqual([{ path: 'tests/todo.test.ts', changeType: 'created' }]);
+    });
+
+    it('should replay a single file with its contents', async () => {
+      await seedRun();
+
+      const response = await request(app)
+        .get(`/api/projects/${projectId}/tdd`)
+        .query({ path: 'src/todo.ts' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.iterations).toHaveLength(1);
+      expect(response.body.iterations[0].changes[0]).toMatchObject({ path: 'src/todo.ts', content: 'export {};\n' });
+    });
+  });
+
+  describe('GET /api/projects/:id/tdd/:sequence', () => {
+    it('should return an iteration with its diffs', async () => {
+      await seedRun();
+
+      const response = await request(app)
+        .get(`/api/projects/${projectId}/tdd/2`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.iteration.changes[0]).toHaveProperty('diff', '+export {};');
+      expect(response.body.iteration.testRun).toMatchObject({ status: 'passed' });
+    });
+
+    it('should return 404 for unknown iterations', async () => {
+      await seedRun();
+
+      const response = await request(app)
+        .get(`/api/projects/${projectId}/tdd/9`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+
+      expect(response.body).toHaveProperty('code', 'ITERATION_NOT_FOUND');
+    });
+  });
+
+  describe('POST /api/projects/:id/generate', () => {
+    it('should reject unknown generation modes', async () => {
+      const response = await request(app)
+        .post(`/api/projects/${projectId}/generate`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ mode: 'fastest' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('field', 'mode');
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import request from 'supertest';
+import app from '../src/app';
+import { Project } from '../src/models/Project';
+
+describe('Project Tests API', () => {
+  let accessToken: string;
+  let projectId: string;
+
+  beforeEach(async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({
+        email: 'tests@example.com',
+        password: 'Password123'
+      });
+    accessToken = response.body.accessToken;
+
+    const project = await request(app)
+      .post('/api/projects')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        name: 'Tested Project',
+        description: 'A project for test runs',
+        techStack: { language: 'typescript', framework: 'express', database: 'mongodb' }
+      });
+    projectId = project.body.project._id;
+  });
+
+  describe('GET /api/projects/:id/tests', () => {
+    it('should return no run for untested projects', async () => {
+      const response = await request(app)
+        .get(`/api/projects/${projectId}/tests`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body).toEqual({ running: false, testRun: null, testRunsExecuted: 0 });
+    });
+
+    it('should return the latest run', async () => {
+      await Project.updateOne({ _id: projectId }, {
+        lastTestRun: {
+          status: 'passed',
+          startedAt: new Date(),
+          finishedAt: new Date(),
+          summary: { total: 1, passed: 1, failed: 0, skipped: 0 },
+          tests: [{ file: 'tests/app.test.ts', name: 'app starts', status: 'passed', duration: 5 }],
+          coverage: { lines: 90, statements: 90, functions: 100, branches: 50 }
+        },
+        'analytics.testRunsExecuted': 1
+      });
+
+      const response = await request(app)
+        .get(`/api/projects/${projectId}/tests`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.testRun).toMatchObject({ status: 'passed', coverage: { lines: 90 } });
+      expect(response.body.testRunsExecuted).toBe(1);
+    });
+  });
+
+  describe('POST /api/projects/:id/tests/run', () => {
+    it('should refuse projects without test files', async () => {
+      await request(app)
+        .post(`/api/projects/${projectId}/files`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ path: 'src/app.ts', content: 'export const app = 1;\n' });
+
+      const response = await request(app)
+        .post(`/api/projects/${projectId}/tests/run`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(422);
+
+      expect(response.body).toHaveProperty('code', 'NO_TESTS');
+    });
+
+    it('should not start a second run while one is going on', async () => {
+      await Project.updateOne({ _id: projectId }, {
+        'generatedCode.files': [
+          { path: 'src/app.ts', content: 'export const app = 1;\n', language: 'typescript' },
+          { path: 'tests/app.test.ts', content: 'it("works", () => {});\n', language: 'typescript' }
+        ],
+        testRunStartedAt: new Date()
+      });
+
+      const response = await request(app)
+        .post(`/api/projects/${projectId}/tests/run`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(409);
+
+      expect(response.body).toHaveProperty('code', 'RUN_IN_PROGRESS');
+    });
+
+    it('should return 404 for projects of other users', async () => {
+      await request(app)
+        .post('/api/projects/507f1f77bcf86cd799439011/tests/run')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import request from 'supertest';
+import app from '../src/app';
+import { User } from '../src/models/User';
+import { Project } from '../src/models/Project';
+
+describe('Users API', () => {
+  const email = 'users@example.com';
+  const password = 'Password123';
+  let accessToken: string;
+  let projectId: string;
+
+  const binaryParser = (res: any, callback: (error: Error | null, body: Buffer) => void) => {
+    const chunks: Buffer[] = [];
+    res.on('data', (chunk: Buffer) => chunks.push(chunk));
+    res.on('end', () => callback(null, Buffer.concat(chunks)));
+  };
+
+  beforeEach(async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({ email, password });
+    accessToken = response.body.accessToken;
+
+    const project = await request(app)
+      .post('/api/projects')
+      .set('Authorization', `Bearer ${accessToken}`)
+      .send({
+        name: 'Todo API',
+        description: 'A todo API',
+        techStack: { language: 'typescript', framework: 'express', database: 'mongodb' }
+      });
+    projectId = project.body.project._id;
+    await Project.updateOne({ _id: projectId }, {
+      'generatedCode.files': [{ path: 'src/app.ts', content: 'export {};\n', language: 'typescript' }]
+    });
+  });
+
+  describe('GET /api/users/me/preferences', () => {
+    it('should return the default preferences', async () => {
+      const response = await request(app)
+        .get('/api/users/me/preferences')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.preferences).toEqual({
+        defaultTechStack: { language: 'typescript', framework: 'express', database: 'mongodb' },
+        theme: 'light',
+        notifications: { email: true, push: false }
+      });
+    });
+  });
+
+  describe('PATCH /api/users/me/preferences', () => {
+    const updatePreferences = (body: Record<string, unknown>) => {
+      return request(app)
+        .patch('/api/users/me/preferences')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send(body);
+    };
+
+    it('should only change the given preferences', async () => {
+      const response = await updatePreferences({
+        defaultTechStack: { language: 'python', framework: 'fastapi' },
+        notifications: { push: true }
+      }).expect(200);
+
+      expect(response.body.preferences).toEqual({
+        defaultTechStack: { language: 'python', framework: 'fastapi', database: 'mongodb' },
+        theme: 'light',
+        notifications: { email: true, push: true }
+      });
+    });
+
+    it('should reject unknown themes', async () => {
+      const response = await updatePreferences({ theme: 'blue' }).expect(400);
+
+      expect(response.body).toHaveProperty('error', 'Theme must be one of: light, dark');
+      expect(response.body).toHaveProperty('field', 'theme');
+    });
+
+    it('should reject an empty update', async () => {
+      const response = await updatePreferences({}).expect(400);
+
+      expect(response.body).toHaveProperty('error', 'At least one preference must be provided');
+    });
+
+    it('should use the saved tech stack for new projects', async () => {
+      await updatePreferences({
+        defaultTechStack: { language: 'go', framework: 'gin', database: 'postgresql' }
+      }).expect(200);
+
+      const response = await request(app)
+        .post('/api/projects')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'Go API', description: 'Uses the preferred stack' })
+        .expect(201);
+
+      expect(response.body.project.techStack).toMatchObject({ language: 'go', framework: 'gin', database: 'postgresql' });
+    });
+  });
+
+  describe('PATCH /api/users/me/budget', () => {
+    const updateBudgets = (body: Record<string, unknown>) => {
+      return request(app)
+        .patch('/api/users/me/budget')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send(body);
+    };
+
+    it('should set and report the budgets', async () => {
+      const response = await updateBudgets({ dailyBudget: 5, monthlyBudget: 50 }).expect(200);
+
+      expect(response.body.usage.daily).toMatchObject({ budget: 5, cost: 0 });
+      expect(response.body.usage.monthly).toMatchObject({ budget: 50, cost: 0 });
+
+      const user = await User.findOne({ email });
+      expect(user!.settings).toMatchObject({ dailyBudget: 5, monthlyBudget: 50 });
+    });
+
+    it('should remove a budget set to null', async () => {
+      await updateBudgets({ dailyBudget: 5, monthlyBudget: 50 }).expect(200);
+
+      await updateBudgets({ dailyBudget: null }).expect(200);
+
+      const response = await request(app)
+        .get('/api/users/me/budget')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+      expect(response.body.usage.daily.budget).toBeNull();
+      expect(response.body.usage.monthly.budget).toBe(50);
+    });
+
+    it('should reject negative budgets', async () => {
+      const response = await updateBudgets({ monthlyBudget: -1 }).expect(400);
+
+      expect(response.body).toHaveProperty('error', 'Monthly budget cannot be negative');
+      expect(response.body).toHaveProperty('field', 'monthlyBudget');
+    });
+  });
+
+  describe('GET /api/users/me/export', () => {
+    it('should download a zip archive by default', async () => {
+      const response = await request(app)
+        .get('/api/users/me/export')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .buffer(true)
+        .parse(binaryParser)
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('application/zip');
+      expect(response.headers['content-disposition']).toMatch(/^attachment; filename="backendforge-data-\d{4}-\d{2}-\d{2}\.zip"$/);
+      expect(response.body.includes('account.json')).toBe(true);
+      expect(response.body.includes('projects/todo-api/export/src/app.ts')).toBe(true);
+    });
+
+    it('should export a JSON bundle', async () => {
+      const response = await request(app)
+        .get('/api/users/me/export?format=json')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.headers['content-disposition']).toMatch(/\.json"$/);
+      expect(response.body.account.email).toBe(email);
+      expect(response.body.account).not.toHaveProperty('passwordHash');
+      expect(response.body.account.preferences).toBeDefined();
+      expect(response.body.projects).toHaveLength(1);
+      expect(response.body.projects[0].generatedCode.files[0].path).toBe('src/app.ts');
+      expect(response.body.projects[0].history).toEqual({ fileRevisions: [], fixProposals: [], tddIterations: [] });
+    });
+
+    it('should reject unknown formats', async () => {
+      const response = await request(app)
+        .get('/api/users/me/export?format=xml')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+
+      expect(response.body).toHaveProperty('field', 'format');
+    });
+
+    it('should not be available to API keys', async () => {
+      const { body } = await request(app)
+        .post('/api/api-keys')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'CI' });
+
+      const response = await request(app)
+        .get('/api/users/me/export')
+        .set('Authorization', `Bearer ${body.key}`)
+        .expect(403);
+
+      expect(response.body).toHaveProperty('code', 'SESSION_REQUIRED');
+    });
+  });
+
+  describe('DELETE /api/users/me', () => {
+    it('should soft-delete the account and schedule its purge', async () => {
+      const response = await request(app)
+        .delete('/api/users/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password })
+        .expect(202);
+
+      expect(new Date(response.body.deletionScheduledFor).getTime()).toBeGreaterThan(Date.now());
+
+      const user = await User.findOne({ email });
+      expect(user!.deletedAt).toBeInstanceOf(Date);
+      expect(await Project.countDocuments({ _id: projectId })).toBe(1);
+    });
+
+    it('should require the current password', async () => {
+      const response = await request(app)
+        .delete('/api/users/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: 'WrongPassword1' })
+        .expect(401);
+
+      expect(response.body).toHaveProperty('field', 'password');
+      expect((await User.findOne({ email }))!.deletedAt).toBeNull();
+    });
+
+    it('should lock the user out once deleted', async () => {
+      await request(app)
+        .delete('/api/users/me')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password })
+        .expect(202);
+
+      const projects = await request(app)
+        .get('/api/projects')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(401);
+      expect(projects.body).toHaveProperty('code', 'ACCOUNT_DELETED');
+
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email, password })
+        .expect(403);
+      expect(login.body).toHaveProperty('code', 'ACCOUNT_DELETED');
+    });
+  });
+});